@@ -908,6 +908,7 @@ const buildForm = ({
         cms
       ),
     label: collection.label || collection.name,
+    autosave: collection.ui?.autosave,
   }
   if (tinaSchema.config.config?.formifyCallback) {
     const callback = tinaSchema.config.config
@@ -4,6 +4,8 @@ import { version, name } from '../package.json'
 import { DevCommand } from './next/commands/dev-command'
 import { BuildCommand } from './next/commands/build-command'
 import { AuditCommand } from './next/commands/audit-command'
+import { ExportCommand } from './next/commands/export-command'
+import { ImportCommand } from './next/commands/import-command'
 import { InitCommand } from './next/commands/init-command'
 import { CodemodCommand } from './next/commands/codemod-command'
 
@@ -23,6 +25,8 @@ const cli = new Cli({
 cli.register(DevCommand)
 cli.register(BuildCommand)
 cli.register(AuditCommand)
+cli.register(ExportCommand)
+cli.register(ImportCommand)
 cli.register(InitCommand)
 cli.register(CodemodCommand)
 cli.register(Builtins.DefinitionsCommand)
@@ -93,10 +93,12 @@ export class Codegen {
       '_graphql.json',
       JSON.stringify(this.graphqlSchemaDoc)
     )
-    // update _schema.json
+    // update _schema.json, leaving out the webhooks as they may hold secrets
+    const { config, ...schema } = this.tinaSchema.schema
+    const { webhooks: _webhooks, ...publicConfig } = config || {}
     await this.writeConfigFile(
       '_schema.json',
-      JSON.stringify(this.tinaSchema.schema)
+      JSON.stringify(config ? { ...schema, config: publicConfig } : schema)
     )
     // update _lookup.json
     await this.writeConfigFile('_lookup.json', JSON.stringify(this.lookup))
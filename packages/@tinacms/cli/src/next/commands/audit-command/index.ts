@@ -93,6 +93,13 @@ export class AuditCommand extends Command {
       useDefaultValues: this.useDefaultValues,
       verbose: this.verbose,
     })
+    // the webhooks of the cleaned documents are sent in the background
+    if (database.webhooks) {
+      await spin({
+        waitFor: () => database.webhooks.settled(),
+        text: 'Sending webhooks',
+      })
+    }
 
     process.exit()
   }
@@ -139,7 +139,14 @@ export class DevCommand extends BaseCommand {
       configManager,
       database,
       apiURL,
-      this.noWatch
+      this.noWatch,
+      async (branchName) => {
+        logger.info(`Switched to branch ${branchName}`)
+        // the drafts of the other branch are set aside,
+        // and the config and content of the branch are reindexed
+        database.branch = branchName
+        await setup({ firstTime: false })
+      }
     )
     await server.listen(Number(this.port))
 
@@ -0,0 +1,93 @@
+import type { Connect } from 'vite'
+import type { ServerResponse } from 'http'
+import {
+  createGitBranch,
+  findGitRoot,
+  listGitBranches,
+  switchGitBranch,
+} from '@tinacms/graphql'
+
+/**
+ * The status of the isomorphic-git errors which are caused by the request
+ */
+const ERROR_STATUS: Record<string, number> = {
+  AlreadyExistsError: 409,
+  CheckoutConflictError: 409,
+  InvalidRefNameError: 400,
+  NotFoundError: 404,
+}
+
+export const createGitRouter = ({
+  contentRootPath,
+  onSwitchBranch,
+}: {
+  contentRootPath: string
+  /** Called once a branch is checked out, to reindex its content */
+  onSwitchBranch: (branchName: string) => Promise<void>
+}) => {
+  const sendError = (res: ServerResponse, error: Error & { code?: string }) => {
+    res.statusCode = ERROR_STATUS[error.code] || 500
+    res.end(JSON.stringify({ message: error.message }))
+  }
+
+  const handleListBranches = async (
+    _req: Connect.IncomingMessage,
+    res: ServerResponse
+  ) => {
+    try {
+      const gitRoot = await findGitRoot(contentRootPath)
+      res.end(JSON.stringify(await listGitBranches(gitRoot)))
+    } catch (e) {
+      sendError(res, e)
+    }
+  }
+
+  const handleCreateBranch = async (
+    req: Connect.IncomingMessage & {
+      body?: { baseBranch?: string; branchName?: string }
+    },
+    res: ServerResponse
+  ) => {
+    const { baseBranch, branchName } = req.body || {}
+    if (!baseBranch || !branchName) {
+      res.statusCode = 400
+      res.end(
+        JSON.stringify({ message: 'baseBranch and branchName are required' })
+      )
+      return
+    }
+    try {
+      const gitRoot = await findGitRoot(contentRootPath)
+      await createGitBranch(gitRoot, { baseBranch, branchName })
+      res.end(JSON.stringify({ name: branchName }))
+    } catch (e) {
+      sendError(res, e)
+    }
+  }
+
+  const handleSwitchBranch = async (
+    req: Connect.IncomingMessage & { body?: { branchName?: string } },
+    res: ServerResponse
+  ) => {
+    const branchName = req.body?.branchName
+    if (!branchName) {
+      res.statusCode = 400
+      res.end(JSON.stringify({ message: 'branchName is required' }))
+      return
+    }
+    try {
+      const gitRoot = await findGitRoot(contentRootPath)
+      await switchGitBranch(gitRoot, branchName)
+      await onSwitchBranch(branchName)
+      res.end(JSON.stringify({ name: branchName }))
+    } catch (e) {
+      sendError(res, e)
+    }
+  }
+
+  return {
+    handleListBranches,
+    handleCreateBranch,
+    handleSwitchBranch,
+  }
+}
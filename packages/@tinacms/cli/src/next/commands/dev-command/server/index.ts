@@ -13,11 +13,17 @@ export const createDevServer = async (
   configManager: ConfigManager,
   database: Database,
   apiURL: string,
-  noWatch: boolean
+  noWatch: boolean,
+  onSwitchBranch?: (branchName: string) => Promise<void>
 ) => {
   const plugins: Plugin[] = [
     transformTsxPlugin({ configManager }),
-    devServerEndPointsPlugin({ apiURL, configManager, database }),
+    devServerEndPointsPlugin({
+      apiURL,
+      configManager,
+      database,
+      onSwitchBranch,
+    }),
     viteTransformExtension(),
   ]
   return createViteServer(
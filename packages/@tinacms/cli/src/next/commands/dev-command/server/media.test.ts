@@ -0,0 +1,107 @@
+import os from 'os'
+import path from 'path'
+import fs from 'fs-extra'
+import { MediaModel, METADATA_FILENAME } from './media'
+
+describe('MediaModel', () => {
+  let rootPath: string
+  let mediaModel: MediaModel
+  const mediaFolder = () => path.join(rootPath, 'public', 'uploads')
+
+  beforeEach(async () => {
+    rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'tinacms-media-'))
+    await fs.outputFile(path.join(mediaFolder(), 'cats/tom.png'), 'tom')
+    mediaModel = new MediaModel({
+      rootPath,
+      apiURL: 'http://localhost:4001',
+      publicFolder: 'public',
+      mediaRoot: 'uploads',
+    })
+  })
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await fs.remove(rootPath)
+  })
+
+  it('keeps the paths in the media folder', async () => {
+    // the rejected paths are logged
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+    const moved = await mediaModel.moveMedia(
+      { searchPath: 'cats/tom.png' },
+      { directory: '../..', filename: 'tom.png' }
+    )
+    const created = await mediaModel.createFolder({ searchPath: '../cats' })
+    const deleted = await mediaModel.deleteManyMedia(['../../package.json'])
+
+    expect([moved.ok, created.ok, deleted.ok]).toEqual([false, false, false])
+    expect(await fs.pathExists(path.join(rootPath, 'tom.png'))).toBe(false)
+    expect(await fs.pathExists(path.join(rootPath, 'public/cats'))).toBe(false)
+  })
+
+  it('keeps the metadata of concurrent updates', async () => {
+    await Promise.all(
+      ['a', 'b', 'c'].map((name) =>
+        mediaModel.updateMetadata(
+          { searchPath: `cats/${name}.png` },
+          {
+            alt: name,
+          }
+        )
+      )
+    )
+    expect(
+      Object.keys(
+        await fs.readJSON(path.join(mediaFolder(), METADATA_FILENAME))
+      )
+    ).toEqual(['cats/a.png', 'cats/b.png', 'cats/c.png'])
+  })
+
+  it('removes the metadata of the files of a deleted folder', async () => {
+    await mediaModel.updateMetadata(
+      { searchPath: 'cats/tom.png' },
+      {
+        alt: 'Tom',
+      }
+    )
+    await mediaModel.updateMetadata({ searchPath: 'dogs.png' }, { alt: 'Dogs' })
+    await mediaModel.deleteMedia({ searchPath: 'cats' })
+
+    expect(
+      await fs.readJSON(path.join(mediaFolder(), METADATA_FILENAME))
+    ).toEqual({ 'dogs.png': { alt: 'Dogs' } })
+  })
+  it('checks uploads against the rules of the image fields', async () => {
+    const rulesModel = new MediaModel({
+      rootPath,
+      apiURL: 'http://localhost:4001',
+      publicFolder: 'public',
+      mediaRoot: 'uploads',
+      uploadRules: [{ accept: 'image/png' }, { accept: 'image/*', maxSize: 4 }],
+    })
+    const upload = async (content: string) => {
+      const filePath = path.join(rootPath, `upload-${Math.random()}`)
+      await fs.outputFile(filePath, Buffer.from(content, 'latin1'))
+      return { filePath }
+    }
+
+    // the type comes from the content, not the extension
+    const text = await rulesModel.saveUpload(
+      'cats/felix.png',
+      await upload('not an image')
+    )
+    const png = await rulesModel.saveUpload(
+      'cats/felix.png',
+      await upload('\x89PNG\r\n\x1a\n')
+    )
+
+    expect(text).toEqual({
+      ok: false,
+      status: 400,
+      message: 'felix.png is not one of the accepted types (image/png)',
+    })
+    expect(png).toEqual({ ok: true })
+    expect(
+      (await fs.readdir(rootPath)).filter((file) => file.startsWith('upload-'))
+    ).toEqual([])
+  })
+})
@@ -1,16 +1,24 @@
 import fs from 'fs-extra'
+import os from 'os'
 import path, { join } from 'path'
+import { createHash, randomBytes } from 'crypto'
 import busboy from 'busboy'
+import {
+  checkUpload,
+  detectMimeType,
+  getMimeType,
+  hasDimensionRules,
+  matchesMimeType,
+} from '@tinacms/schema-tools'
+import type { UploadRules } from '@tinacms/schema-tools'
 import type { Connect } from 'vite'
 import type { ServerResponse } from 'http'
+import type { WebhookDispatcher } from '@tinacms/graphql'
 
-export const createMediaRouter = (config: PathConfig) => {
-  const mediaFolder = path.join(
-    config.rootPath,
-    config.publicFolder,
-    config.mediaRoot
-  )
-
+export const createMediaRouter = (
+  config: PathConfig,
+  webhooks?: WebhookDispatcher
+) => {
   const mediaModel = new MediaModel(config)
 
   const handleList = async (req, res) => {
@@ -18,10 +26,15 @@ export const createMediaRouter = (config: PathConfig) => {
     const folder = requestURL.pathname.replace('/media/list/', '')
     const limit = requestURL.searchParams.get('limit')
     const cursor = requestURL.searchParams.get('cursor')
+    const mimeTypes = requestURL.searchParams.get('mimeTypes')
     const media = await mediaModel.listMedia({
       searchPath: folder,
       cursor,
       limit,
+      search: requestURL.searchParams.get('search') || undefined,
+      mimeTypes: mimeTypes ? mimeTypes.split(',') : undefined,
+      sort: (requestURL.searchParams.get('sort') as MediaListSort) || undefined,
+      recursive: requestURL.searchParams.get('recursive') === 'true',
     })
     res.end(JSON.stringify(media))
   }
@@ -32,20 +45,115 @@ export const createMediaRouter = (config: PathConfig) => {
     res.end(JSON.stringify(didDelete))
   }
 
+  const handleGetMetadata = async (req: Connect.IncomingMessage, res) => {
+    const file = decodeURIComponent(req.url.slice('/media/metadata/'.length))
+    const metadata = await mediaModel.getMetadata({ searchPath: file })
+    res.end(JSON.stringify(metadata))
+  }
+
+  const handleUpdateMetadata = async (
+    req: Connect.IncomingMessage & { body?: MediaMetadata },
+    res
+  ) => {
+    const file = decodeURIComponent(req.url.slice('/media/metadata/'.length))
+    const metadata = await mediaModel.updateMetadata(
+      { searchPath: file },
+      req.body
+    )
+    if (!metadata.ok) {
+      res.statusCode = 500
+    }
+    res.end(JSON.stringify(metadata))
+  }
+
+  const handleCreateFolder = async (req: Connect.IncomingMessage, res) => {
+    const folder = decodeURIComponent(req.url.slice('/media/folder/'.length))
+    const didCreate = await mediaModel.createFolder({ searchPath: folder })
+    if (!didCreate.ok) {
+      res.statusCode = 500
+    }
+    res.end(JSON.stringify(didCreate))
+  }
+
+  const handleMove = async (
+    req: Connect.IncomingMessage & { body?: MoveArgs },
+    res
+  ) => {
+    const file = decodeURIComponent(req.url.slice('/media/move/'.length))
+    const didMove = await mediaModel.moveMedia({ searchPath: file }, req.body)
+    if (!didMove.ok) {
+      res.statusCode = 500
+    }
+    res.end(JSON.stringify(didMove))
+  }
+
+  const handleDeleteMany = async (
+    req: Connect.IncomingMessage & { body?: { files?: string[] } },
+    res
+  ) => {
+    const didDelete = await mediaModel.deleteManyMedia(req.body?.files || [])
+    if (!didDelete.ok) {
+      res.statusCode = 500
+    }
+    res.end(JSON.stringify(didDelete))
+  }
+
+  const handleTransform = async (
+    req: Connect.IncomingMessage,
+    res: ServerResponse
+  ) => {
+    const requestURL = new URL(req.url, config.apiURL)
+    const src = decodeURIComponent(
+      requestURL.pathname.slice('/media/transform'.length)
+    )
+    const transformed = await mediaModel.transformMedia(
+      src,
+      parseTransformArgs(requestURL.searchParams)
+    )
+    if (transformed.ok === false) {
+      res.statusCode = transformed.status
+      res.end(JSON.stringify(transformed))
+      return
+    }
+    res.setHeader('ETag', transformed.etag)
+    if (req.headers['if-none-match'] === transformed.etag) {
+      res.statusCode = 304
+      res.end()
+      return
+    }
+    res.setHeader('Content-Type', transformed.contentType)
+    fs.createReadStream(transformed.filePath).pipe(res)
+  }
+
   const handlePost = async function (
     req: Connect.IncomingMessage,
     res: ServerResponse
   ) {
-    const bb = busboy({ headers: req.headers })
-
-    bb.on('file', async (_name, file, _info) => {
-      const fullPath = req.url?.slice('/media/upload/'.length)
-      const saveTo = path.join(mediaFolder, ...fullPath.split('/'))
-      // make sure the directory exists before writing the file. This is needed for creating new folders
-      await fs.ensureDir(path.dirname(saveTo))
-      file.pipe(fs.createWriteStream(saveTo))
+    // only the first file is read, the others are skipped
+    const bb = busboy({ headers: req.headers, limits: { files: 1 } })
+    const fullPath = req.url?.slice('/media/upload/'.length)
+    let filePath: string | undefined
+    let upload: Promise<UploadedFile> | undefined
+
+    bb.on('file', (_name, file) => {
+      // the file is only moved to the media folder once the whole request
+      // has been read
+      filePath = path.join(
+        os.tmpdir(),
+        `tina-upload-${randomBytes(16).toString('hex')}`
+      )
+      const uploadPath = filePath
+      upload = new Promise((resolve, reject) => {
+        file
+          .pipe(fs.createWriteStream(uploadPath))
+          .on('finish', () => resolve({ filePath: uploadPath }))
+          .on('error', reject)
+      })
     })
-    bb.on('error', (error) => {
+    bb.on('error', async (error) => {
+      if (filePath) {
+        await fs.remove(filePath)
+      }
       res.statusCode = 500
       if (error instanceof Error) {
         res.end(JSON.stringify({ message: error }))
@@ -53,14 +161,119 @@ export const createMediaRouter = (config: PathConfig) => {
         res.end(JSON.stringify({ message: 'Unknown error while uploading' }))
       }
     })
-    bb.on('close', () => {
-      res.statusCode = 200
-      res.end(JSON.stringify({ success: true }))
+    bb.on('close', async () => {
+      try {
+        const didSave = upload
+          ? await mediaModel.saveUpload(fullPath, await upload)
+          : { ok: true as const }
+        if (didSave.ok === false) {
+          res.statusCode = didSave.status
+          res.end(JSON.stringify({ message: didSave.message }))
+          return
+        }
+        if (upload) {
+          webhooks?.dispatch('media.uploaded', {
+            path: `/${path.posix.join(config.mediaRoot, fullPath)}`,
+          })
+        }
+        res.statusCode = 200
+        res.end(JSON.stringify({ success: true }))
+      } catch (error) {
+        console.error(error)
+        if (filePath) {
+          await fs.remove(filePath).catch(() => {
+            // the file may not have been written
+          })
+        }
+        res.statusCode = 500
+        res.end(JSON.stringify({ message: error?.toString() }))
+      }
     })
     req.pipe(bb)
   }
 
-  return { handleList, handleDelete, handlePost }
+  return {
+    handleList,
+    handleDelete,
+    handleDeleteMany,
+    handleCreateFolder,
+    handleMove,
+    handlePost,
+    handleGetMetadata,
+    handleUpdateMetadata,
+    handleTransform,
+  }
+}
+
+const TRANSFORM_FITS = [
+  'cover',
+  'contain',
+  'fill',
+  'inside',
+  'outside',
+] as const
+const TRANSFORM_FORMATS = ['avif', 'jpeg', 'png', 'webp'] as const
+const MAX_TRANSFORM_SIZE = 4000
+
+/**
+ * The format of the variants of each image which can be transformed,
+ * vector and animated images are served as they are
+ */
+const TRANSFORM_DEFAULT_FORMATS: Record<string, TransformFormat> = {
+  avif: 'avif',
+  jpeg: 'jpeg',
+  jpg: 'jpeg',
+  png: 'png',
+  tif: 'png',
+  tiff: 'png',
+  webp: 'webp',
+}
+
+/**
+ * Reads the options of `/media/transform/<src>?w=&h=&fit=&format=&q=`,
+ * ignoring the values which aren't supported
+ */
+const parseTransformArgs = (params: URLSearchParams): TransformArgs => {
+  const integer = (name: string, max: number) => {
+    const value = Math.round(Number(params.get(name)))
+    return value > 0 ? Math.min(value, max) : undefined
+  }
+  const oneOf = <T extends string>(name: string, values: readonly T[]) => {
+    const value = params.get(name) as T
+    return values.includes(value) ? value : undefined
+  }
+  return {
+    width: integer('w', MAX_TRANSFORM_SIZE),
+    height: integer('h', MAX_TRANSFORM_SIZE),
+    fit: oneOf('fit', TRANSFORM_FITS),
+    format: oneOf('format', TRANSFORM_FORMATS),
+    quality: integer('q', 100),
+  }
+}
+
+/** The first bytes of a file, enough to tell its type */
+const readFileHead = async (filePath: string, length = 4096) => {
+  const handle = await fs.promises.open(filePath, 'r')
+  try {
+    const buffer = Buffer.alloc(length)
+    const { bytesRead } = await handle.read(buffer, 0, length, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await handle.close()
+  }
+}
+
+const compareMedia = (a: FileRes, b: FileRes, sort?: MediaListSort) => {
+  switch (sort) {
+    case 'name':
+      return a.filename.localeCompare(b.filename)
+    case 'date':
+      return b.lastModified - a.lastModified
+    case 'size':
+      return b.size - a.size
+    default:
+      return 0
+  }
 }
 
 export const parseMediaFolder = (str: string) => {
@@ -79,16 +292,57 @@ interface MediaArgs {
   limit?: string
 }
 
+/**
+ * Names are sorted alphabetically, dates from newest to
+ * oldest and sizes from largest to smallest
+ */
+type MediaListSort = 'name' | 'date' | 'size'
+
+interface ListMediaArgs extends MediaArgs {
+  /** Only list media whose filename contains this text, ignoring case */
+  search?: string
+  /** Only list files of these MIME types, eg. `image/*` */
+  mimeTypes?: string[]
+  sort?: MediaListSort
+  /** List the files of every sub-folder instead of the sub-folders */
+  recursive?: boolean
+}
+
+interface MoveArgs {
+  directory: string
+  filename?: string
+}
+
+/**
+ * The details of an asset which aren't part of the file,
+ * stored in a sidecar file at the root of the media folder
+ */
+interface MediaMetadata {
+  alt?: string
+  caption?: string
+  focalPoint?: { x: number; y: number }
+  width?: number
+  height?: number
+}
+
+export const METADATA_FILENAME = '.tina-media.json'
+
+/**
+ * The pending updates of each metadata file, a router is created for every
+ * request so they are tracked here to apply them one at a time
+ */
+const metadataUpdates = new Map<string, Promise<void>>()
+
 interface File {
   src: string
   filename: string
+  /** The folder of the file, relative to the media root */
+  directory: string
   size: number
+  lastModified: number
 }
 
-interface FileRes {
-  src: string
-  filename: string
-  size: number
+interface FileRes extends File {
   isFile: boolean
 }
 interface ListMediaRes {
@@ -102,26 +356,58 @@ export interface PathConfig {
   apiURL: string
   publicFolder: string
   mediaRoot: string
+  /** The rules of the `image` fields of the schema, see `getUploadRules` */
+  uploadRules?: UploadRules[]
+}
+
+type TransformFit = (typeof TRANSFORM_FITS)[number]
+type TransformFormat = (typeof TRANSFORM_FORMATS)[number]
+
+/**
+ * The size and format of a variant of an image
+ */
+interface TransformArgs {
+  width?: number
+  height?: number
+  fit?: TransformFit
+  format?: TransformFormat
+  quality?: number
+}
+
+/** A file which was uploaded to a temporary path */
+interface UploadedFile {
+  filePath: string
 }
 
 type SuccessRecord = { ok: true } | { ok: false; message: string }
+type UploadRecord =
+  | { ok: true }
+  | { ok: false; status: number; message: string }
+type TransformRecord =
+  | { ok: true; filePath: string; contentType: string; etag: string }
+  | { ok: false; status: number; message: string }
+type MetadataRecord =
+  | { ok: true; metadata: MediaMetadata }
+  | { ok: false; message: string }
 export class MediaModel {
   public readonly rootPath: string
   public readonly publicFolder: string
   public readonly mediaRoot: string
-  constructor({ rootPath, publicFolder, mediaRoot }: PathConfig) {
+  public readonly uploadRules: UploadRules[]
+  constructor({
+    rootPath,
+    publicFolder,
+    mediaRoot,
+    uploadRules = [],
+  }: PathConfig) {
     this.rootPath = rootPath
     this.mediaRoot = mediaRoot
     this.publicFolder = publicFolder
+    this.uploadRules = uploadRules
   }
-  async listMedia(args: MediaArgs): Promise<ListMediaRes> {
+  async listMedia(args: ListMediaArgs): Promise<ListMediaRes> {
     try {
-      const folderPath = join(
-        this.rootPath,
-        this.publicFolder,
-        this.mediaRoot,
-        args.searchPath
-      )
+      const folderPath = this.mediaPath(args.searchPath)
       const searchPath = parseMediaFolder(args.searchPath)
       // if the path does not exist, return an empty array
       if (!(await fs.pathExists(folderPath))) {
@@ -130,44 +416,22 @@ export class MediaModel {
           directories: [],
         }
       }
-      const filesStr = await fs.readdir(folderPath)
-      const filesProm: Promise<FileRes>[] = filesStr.map(async (file) => {
-        const filePath = join(folderPath, file)
-        const stat = await fs.stat(filePath)
-
-        let src = `/${file}`
-
-        const isFile = stat.isFile()
-
-        // It seems like our media manager wants relative paths for dirs.
-        if (!isFile) {
-          return {
-            isFile,
-            size: stat.size,
-            src,
-            filename: file,
-          }
-        }
-
-        if (searchPath) {
-          src = `/${searchPath}${src}`
+      const search = args.search?.toLowerCase()
+      const rawItems = (
+        await this.readFolder(searchPath, !!args.recursive)
+      ).filter((item) => {
+        if (search && !item.filename.toLowerCase().includes(search)) {
+          return false
         }
-        if (this.mediaRoot) {
-          src = `/${this.mediaRoot}${src}`
-        }
-
-        return {
-          isFile,
-          size: stat.size,
-          src: src,
-          filename: file,
+        if (item.isFile && args.mimeTypes?.length) {
+          return matchesMimeType(getMimeType(item.filename), args.mimeTypes)
         }
+        return true
       })
 
       const offset = Number(args.cursor) || 0
       const limit = Number(args.limit) || 20
 
-      const rawItems = await Promise.all(filesProm)
       const sortedItems = rawItems.sort((a, b) => {
         if (a.isFile && !b.isFile) {
           return 1
@@ -175,7 +439,7 @@ export class MediaModel {
         if (!a.isFile && b.isFile) {
           return -1
         }
-        return 0
+        return compareMedia(a, b, args.sort)
       })
       const limitItems = sortedItems.slice(offset, offset + limit)
       const files = limitItems.filter((x) => x.isFile)
@@ -200,19 +464,352 @@ export class MediaModel {
   }
   async deleteMedia(args: MediaArgs): Promise<SuccessRecord> {
     try {
-      const file = join(
-        this.rootPath,
-        this.publicFolder,
-        this.mediaRoot,
-        args.searchPath
-      )
+      const file = this.mediaPath(args.searchPath)
+      if (file === this.mediaPath('')) {
+        throw new Error('The media folder itself cannot be deleted')
+      }
       // ensure the file exists because fs.remove does not throw an error if the file does not exist
       await fs.stat(file)
       await fs.remove(file)
+      await this.writeMetadata(args.searchPath, undefined)
       return { ok: true }
     } catch (error) {
       console.error(error)
       return { ok: false, message: error?.toString() }
     }
   }
+  async deleteManyMedia(searchPaths: string[]): Promise<SuccessRecord> {
+    for (const searchPath of searchPaths) {
+      const didDelete = await this.deleteMedia({ searchPath })
+      if (!didDelete.ok) {
+        return didDelete
+      }
+    }
+    return { ok: true }
+  }
+  async createFolder(args: MediaArgs): Promise<SuccessRecord> {
+    try {
+      await fs.ensureDir(this.mediaPath(args.searchPath))
+      return { ok: true }
+    } catch (error) {
+      console.error(error)
+      return { ok: false, message: error?.toString() }
+    }
+  }
+  /** Moves or renames a file or folder, along with the metadata stored for it */
+  async moveMedia(args: MediaArgs, to: MoveArgs): Promise<SuccessRecord> {
+    try {
+      const from = parseMediaFolder(args.searchPath)
+      const destination = parseMediaFolder(
+        join(to.directory || '', to.filename || path.basename(from))
+      )
+      if (destination === from) {
+        return { ok: true }
+      }
+      if (this.mediaPath(from) === this.mediaPath('')) {
+        throw new Error('The media folder itself cannot be moved')
+      }
+      if (destination.startsWith(`${from}/`)) {
+        throw new Error(`Cannot move ${from} into itself`)
+      }
+      if (await fs.pathExists(this.mediaPath(destination))) {
+        throw new Error(`${destination} already exists`)
+      }
+      await fs.move(this.mediaPath(from), this.mediaPath(destination))
+
+      await this.changeMetadata((allMetadata) => {
+        let didMoveMetadata = false
+        for (const key of Object.keys(allMetadata)) {
+          if (key === from || key.startsWith(`${from}/`)) {
+            allMetadata[destination + key.slice(from.length)] = allMetadata[key]
+            delete allMetadata[key]
+            didMoveMetadata = true
+          }
+        }
+        return didMoveMetadata
+      })
+      return { ok: true }
+    } catch (error) {
+      console.error(error)
+      return { ok: false, message: error?.toString() }
+    }
+  }
+  async getMetadata(args: MediaArgs): Promise<MetadataRecord> {
+    try {
+      const metadata = await this.readMetadata()
+      return {
+        ok: true,
+        metadata: metadata[this.metadataKey(args.searchPath)] || {},
+      }
+    } catch (error) {
+      console.error(error)
+      return { ok: false, message: error?.toString() }
+    }
+  }
+  async updateMetadata(
+    args: MediaArgs,
+    metadata: MediaMetadata
+  ): Promise<MetadataRecord> {
+    try {
+      await this.writeMetadata(args.searchPath, metadata)
+      return { ok: true, metadata }
+    } catch (error) {
+      console.error(error)
+      return { ok: false, message: error?.toString() }
+    }
+  }
+  /**
+   * Moves an uploaded file to `searchPath`, unless it breaks the rules
+   * of every `image` field
+   */
+  async saveUpload(
+    searchPath: string,
+    upload: UploadedFile
+  ): Promise<UploadRecord> {
+    try {
+      const errors = await this.findUploadErrors(
+        path.basename(searchPath),
+        upload.filePath
+      )
+      if (errors.length) {
+        await fs.remove(upload.filePath)
+        return { ok: false, status: 400, message: errors.join('. ') }
+      }
+      // fs.move creates the directory, which is needed for new folders
+      await fs.move(upload.filePath, this.mediaPath(searchPath), {
+        overwrite: true,
+      })
+      return { ok: true }
+    } catch (error) {
+      console.error(error)
+      await fs.remove(upload.filePath)
+      return { ok: false, status: 500, message: error?.toString() }
+    }
+  }
+  /**
+   * Generates a variant of the image at `src`, relative to the public
+   * folder, and caches it until the image changes
+   */
+  async transformMedia(
+    src: string,
+    args: TransformArgs
+  ): Promise<TransformRecord> {
+    try {
+      const filePath = join(this.rootPath, this.publicFolder, src)
+      const isInMediaFolder = filePath.startsWith(this.mediaPath('') + path.sep)
+      if (!isInMediaFolder || !(await fs.pathExists(filePath))) {
+        return { ok: false, status: 404, message: `${src} was not found` }
+      }
+      const stat = await fs.stat(filePath)
+      if (!stat.isFile()) {
+        return { ok: false, status: 404, message: `${src} is not a file` }
+      }
+      const extension = path.extname(filePath).slice(1).toLowerCase()
+      const defaultFormat = TRANSFORM_DEFAULT_FORMATS[extension]
+      if (!defaultFormat) {
+        return {
+          ok: true,
+          filePath,
+          contentType: getMimeType(filePath),
+          etag: `"${stat.size}-${stat.mtimeMs}"`,
+        }
+      }
+      const format = args.format || defaultFormat
+      const hash = createHash('sha1')
+        .update(
+          JSON.stringify([
+            src,
+            stat.mtimeMs,
+            args.width,
+            args.height,
+            args.fit,
+            format,
+            args.quality,
+          ])
+        )
+        .digest('hex')
+      const cachedPath = join(this.transformCachePath, `${hash}.${format}`)
+      if (!(await fs.pathExists(cachedPath))) {
+        // sharp is only loaded once an image is transformed
+        const { default: sharp } = await import('sharp')
+        let image = sharp(filePath).rotate()
+        if (args.width || args.height) {
+          image = image.resize({
+            width: args.width,
+            height: args.height,
+            fit: args.fit || 'cover',
+            withoutEnlargement: true,
+          })
+        }
+        // a partially written variant must never be served
+        const temporaryPath = `${cachedPath}.${process.pid}.tmp`
+        await fs.ensureDir(this.transformCachePath)
+        await image
+          .toFormat(format, { quality: args.quality })
+          .toFile(temporaryPath)
+        await fs.move(temporaryPath, cachedPath, { overwrite: true })
+      }
+      return {
+        ok: true,
+        filePath: cachedPath,
+        contentType: `image/${format}`,
+        etag: `"${hash}"`,
+      }
+    } catch (error) {
+      console.error(error)
+      return { ok: false, status: 500, message: error?.toString() }
+    }
+  }
+  /**
+   * The reasons why an uploaded file can't be saved. The media manager checks
+   * the rules too but its requests can't be trusted, so the type of the file
+   * is read from its content
+   */
+  private async findUploadErrors(name: string, filePath: string) {
+    if (!this.uploadRules.length) {
+      return []
+    }
+    const { size } = await fs.stat(filePath)
+    const mimeType = detectMimeType(await readFileHead(filePath), name)
+    let dimensions: { width?: number; height?: number } = {}
+    if (hasDimensionRules(this.uploadRules) && mimeType.startsWith('image/')) {
+      try {
+        const { default: sharp } = await import('sharp')
+        const { width, height } = await sharp(filePath).metadata()
+        dimensions = { width, height }
+      } catch (e) {
+        // images which can't be measured pass
+      }
+    }
+    return checkUpload(
+      { name, size, mimeType, ...dimensions },
+      this.uploadRules
+    )
+  }
+  /** Lists a folder, replacing its sub-folders with their files when `recursive` */
+  private async readFolder(
+    searchPath: string,
+    recursive: boolean
+  ): Promise<FileRes[]> {
+    const folderPath = this.mediaPath(searchPath)
+    const filesStr = (await fs.readdir(folderPath)).filter(
+      (file) => file !== METADATA_FILENAME
+    )
+    const filesProm = filesStr.map(async (file): Promise<FileRes[]> => {
+      const filePath = join(folderPath, file)
+      const stat = await fs.stat(filePath)
+
+      let src = `/${file}`
+
+      const isFile = stat.isFile()
+
+      if (!isFile && recursive) {
+        return this.readFolder(parseMediaFolder(join(searchPath, file)), true)
+      }
+
+      const item = {
+        isFile,
+        size: stat.size,
+        lastModified: stat.mtimeMs,
+        directory: searchPath,
+        filename: file,
+      }
+
+      // It seems like our media manager wants relative paths for dirs.
+      if (!isFile) {
+        return [{ ...item, src }]
+      }
+
+      if (searchPath) {
+        src = `/${searchPath}${src}`
+      }
+      if (this.mediaRoot) {
+        src = `/${this.mediaRoot}${src}`
+      }
+
+      return [{ ...item, src }]
+    })
+    return (await Promise.all(filesProm)).flat()
+  }
+  /** The path of `searchPath` in the media folder, which it must not escape */
+  private mediaPath(searchPath: string) {
+    const mediaFolder = join(this.rootPath, this.publicFolder, this.mediaRoot)
+    const filePath = join(mediaFolder, searchPath)
+    if (
+      filePath !== mediaFolder &&
+      !filePath.startsWith(mediaFolder + path.sep)
+    ) {
+      throw new Error(`${searchPath} is outside of the media folder`)
+    }
+    return filePath
+  }
+  private get transformCachePath() {
+    return join(this.rootPath, 'node_modules', '.cache', 'tinacms', 'media')
+  }
+  private get metadataPath() {
+    return join(
+      this.rootPath,
+      this.publicFolder,
+      this.mediaRoot,
+      METADATA_FILENAME
+    )
+  }
+  /** The key of the metadata of an asset, which must be in the media folder */
+  private metadataKey(searchPath: string) {
+    this.mediaPath(searchPath)
+    return parseMediaFolder(searchPath)
+  }
+  private async readMetadata(): Promise<Record<string, MediaMetadata>> {
+    if (!(await fs.pathExists(this.metadataPath))) {
+      return {}
+    }
+    return fs.readJSON(this.metadataPath)
+  }
+  /**
+   * Applies `update` to the metadata file, which is only written when `update`
+   * returns true. Updates are applied one at a time, so concurrent requests
+   * don't overwrite each other's changes
+   */
+  private async changeMetadata(
+    update: (allMetadata: Record<string, MediaMetadata>) => boolean
+  ) {
+    const metadataPath = this.metadataPath
+    const previous = metadataUpdates.get(metadataPath) || Promise.resolve()
+    const next = previous
+      .catch(() => {
+        // the failure was reported to the request which made the update
+      })
+      .then(async () => {
+        const allMetadata = await this.readMetadata()
+        if (update(allMetadata)) {
+          await fs.outputJSON(metadataPath, allMetadata, { spaces: 2 })
+        }
+      })
+    metadataUpdates.set(metadataPath, next)
+    try {
+      await next
+    } finally {
+      if (metadataUpdates.get(metadataPath) === next) {
+        metadataUpdates.delete(metadataPath)
+      }
+    }
+  }
+  /**
+   * Removes the entry of the asset when `metadata` is undefined,
+   * along with the entries of the files of a folder
+   */
+  private async writeMetadata(searchPath: string, metadata?: MediaMetadata) {
+    const key = this.metadataKey(searchPath)
+    await this.changeMetadata((allMetadata) => {
+      if (metadata) {
+        allMetadata[key] = metadata
+        return true
+      }
+      const keys = Object.keys(allMetadata).filter(
+        (item) => item === key || item.startsWith(`${key}/`)
+      )
+      keys.forEach((item) => delete allMetadata[item])
+      return keys.length > 0
+    })
+  }
 }
@@ -0,0 +1,55 @@
+import type { Connect } from 'vite'
+import type { ServerResponse } from 'http'
+import type { TinaUser } from '@tinacms/schema-tools'
+import type { PresenceModel } from '../../../../server/models/presence'
+
+/**
+ * The presence of the editors on documents, the name of an authenticated
+ * user takes precedence over the one sent by the editor
+ */
+export const createPresenceRouter = (presenceModel: PresenceModel) => {
+  const handleHeartbeat = (
+    req: Connect.IncomingMessage & {
+      body?: { documentId?: string; viewer?: { id?: string; name?: string } }
+    },
+    res: ServerResponse,
+    user?: TinaUser
+  ) => {
+    const { documentId, viewer } = req.body || {}
+    if (!documentId || !viewer?.id) {
+      res.statusCode = 400
+      res.end(
+        JSON.stringify({ message: 'documentId and viewer.id are required' })
+      )
+      return
+    }
+    res.end(
+      JSON.stringify(
+        presenceModel.heartbeat(documentId, {
+          id: viewer.id,
+          name: user ? String(user.name || user.id) : viewer.name,
+        })
+      )
+    )
+  }
+
+  const handleLeave = (
+    req: Connect.IncomingMessage & {
+      body?: { documentId?: string; viewerId?: string }
+    },
+    res: ServerResponse
+  ) => {
+    const { documentId, viewerId } = req.body || {}
+    if (!documentId || !viewerId) {
+      res.statusCode = 400
+      res.end(
+        JSON.stringify({ message: 'documentId and viewerId are required' })
+      )
+      return
+    }
+    presenceModel.leave(documentId, viewerId)
+    res.end(JSON.stringify({ success: true }))
+  }
+
+  return { handleHeartbeat, handleLeave }
+}
@@ -0,0 +1,53 @@
+import type { Database } from '@tinacms/graphql'
+import { logger } from '../../../logger'
+import { neutralText } from '../../../utils/theme'
+import type { ContentRecord } from './formats'
+
+/**
+ * The documents of the collections (or of all collections) as records,
+ * documents are read from the database unhydrated so the values can be
+ * imported back as they are
+ */
+export const exportCollections = async ({
+  database,
+  collections,
+}: {
+  database: Database
+  collections?: string[]
+}) => {
+  const tinaSchema = await database.getSchema()
+  const collectionNames = collections?.length
+    ? collections
+    : tinaSchema.getCollections().map((collection) => collection.name)
+
+  const records: ContentRecord[] = []
+  for (const collectionName of collectionNames) {
+    const collection = tinaSchema.getCollection(collectionName)
+    const docs = await database.query(
+      { collection: collection.name, first: -1, filterChain: [] },
+      (item) => database.get<Record<string, unknown>>(item)
+    )
+    logger.info(
+      `Exporting ${neutralText(collection.name)} collection. ${
+        docs.edges.length
+      } Documents`
+    )
+    docs.edges.forEach(({ node }) => {
+      const {
+        _collection,
+        _relativePath,
+        _template,
+        _keepTemplateKey,
+        _id,
+        ...values
+      } = node as Record<string, unknown>
+      records.push({
+        _collection,
+        _relativePath,
+        ...(collection.templates ? { _template } : {}),
+        ...values,
+      })
+    })
+  }
+  return records
+}
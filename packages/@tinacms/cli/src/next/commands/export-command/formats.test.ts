@@ -0,0 +1,82 @@
+import {
+  getContentFormat,
+  mapFields,
+  parseFieldMapping,
+  parseRecords,
+  serializeRecords,
+} from './formats'
+
+const records = [
+  {
+    _collection: 'post',
+    _relativePath: 'hello.md',
+    title: 'Hello, "world"',
+    tags: ['a', 'b'],
+  },
+  {
+    title: 'Second\nline',
+    _relativePath: 'other.md',
+    _collection: 'post',
+    draft: true,
+  },
+]
+
+describe('getContentFormat', () => {
+  it('uses the format option or else the file extension', () => {
+    expect(getContentFormat('posts.csv')).toEqual('csv')
+    expect(getContentFormat('posts.jsonl')).toEqual('ndjson')
+    expect(getContentFormat('posts.txt', 'json')).toEqual('json')
+    expect(() => getContentFormat('posts.txt')).toThrow(
+      'Unknown format "txt", expected one of: json, ndjson, csv'
+    )
+  })
+})
+
+describe('serializeRecords', () => {
+  it('writes the keys of all records as CSV columns', () => {
+    expect(serializeRecords(records, 'csv')).toEqual(
+      [
+        '_collection,_relativePath,title,tags,draft',
+        'post,hello.md,"Hello, ""world""","[""a"",""b""]",',
+        'post,other.md,"Second\nline",,true',
+        '',
+      ].join('\n')
+    )
+  })
+  it('reads back the records it writes', () => {
+    expect(parseRecords(serializeRecords(records, 'json'), 'json')).toEqual(
+      records
+    )
+    expect(parseRecords(serializeRecords(records, 'ndjson'), 'ndjson')).toEqual(
+      records
+    )
+    expect(parseRecords(serializeRecords(records, 'csv'), 'csv')).toEqual([
+      {
+        _collection: 'post',
+        _relativePath: 'hello.md',
+        title: 'Hello, "world"',
+        tags: '["a","b"]',
+      },
+      {
+        _collection: 'post',
+        _relativePath: 'other.md',
+        title: 'Second\nline',
+        draft: 'true',
+      },
+    ])
+  })
+})
+
+describe('mapFields', () => {
+  it('renames the mapped fields and back', () => {
+    const mapping = parseFieldMapping(['title=Title'])
+    const mapped = mapFields(records[0], mapping)
+    expect(Object.keys(mapped)).toEqual([
+      '_collection',
+      '_relativePath',
+      'Title',
+      'tags',
+    ])
+    expect(mapFields(mapped, mapping, { reverse: true })).toEqual(records[0])
+  })
+})
@@ -0,0 +1,208 @@
+import path from 'path'
+
+export type ContentFormat = 'json' | 'ndjson' | 'csv'
+
+export const CONTENT_FORMATS: ContentFormat[] = ['json', 'ndjson', 'csv']
+
+/**
+ * A document as it's exported, the values of its fields with the
+ * `_collection`, `_relativePath` and (for collections with templates)
+ * `_template` it's stored with
+ */
+export type ContentRecord = Record<string, unknown>
+
+/** The keys every record starts with, in the order of the CSV columns */
+const SYSTEM_KEYS = ['_collection', '_relativePath', '_template']
+
+/**
+ * The format given with `--format`, or else the one of the file extension
+ */
+export const getContentFormat = (
+  filename: string,
+  format?: string
+): ContentFormat => {
+  const name = (format || path.extname(filename).slice(1)).toLowerCase()
+  if (name === 'jsonl') {
+    return 'ndjson'
+  }
+  if (!CONTENT_FORMATS.includes(name as ContentFormat)) {
+    throw new Error(
+      `Unknown format "${name}", expected one of: ${CONTENT_FORMATS.join(', ')}`
+    )
+  }
+  return name as ContentFormat
+}
+
+/**
+ * Parses the `--map field=column` options, a field is exported as (and
+ * imported from) the column with the mapped name
+ */
+export const parseFieldMapping = (options: string[] = []) => {
+  const mapping: Record<string, string> = {}
+  options.forEach((option) => {
+    const [field, column] = option.split('=')
+    if (!field || !column) {
+      throw new Error(
+        `Expected a field mapping like "title=Title" but got ${option}`
+      )
+    }
+    mapping[field.trim()] = column.trim()
+  })
+  return mapping
+}
+
+/**
+ * Renames the keys of a record with the mapping, or back with `reverse`
+ */
+export const mapFields = (
+  record: ContentRecord,
+  mapping: Record<string, string>,
+  { reverse }: { reverse?: boolean } = {}
+) => {
+  const names: Record<string, string> = {}
+  Object.entries(mapping).forEach(([field, column]) => {
+    if (reverse) {
+      names[column] = field
+    } else {
+      names[field] = column
+    }
+  })
+  const mapped: ContentRecord = {}
+  Object.entries(record).forEach(([key, value]) => {
+    mapped[names[key] || key] = value
+  })
+  return mapped
+}
+
+export const serializeRecords = (
+  records: ContentRecord[],
+  format: ContentFormat
+) => {
+  switch (format) {
+    case 'json':
+      return `${JSON.stringify(records, null, 2)}\n`
+    case 'ndjson':
+      return records.map((record) => `${JSON.stringify(record)}\n`).join('')
+    case 'csv':
+      return serializeCsv(records)
+  }
+}
+
+export const parseRecords = (
+  content: string,
+  format: ContentFormat
+): ContentRecord[] => {
+  switch (format) {
+    case 'json': {
+      const records = JSON.parse(content)
+      if (!Array.isArray(records)) {
+        throw new Error('Expected the JSON file to contain an array of records')
+      }
+      return records
+    }
+    case 'ndjson':
+      return content
+        .split(/\r?\n/)
+        .filter((line) => line.trim())
+        .map((line) => JSON.parse(line))
+    case 'csv':
+      return parseCsv(content)
+  }
+}
+
+/**
+ * The columns are the keys of all records, objects and lists are stored
+ * as JSON in their cell
+ */
+const serializeCsv = (records: ContentRecord[]) => {
+  const columns: string[] = []
+  records.forEach((record) => {
+    Object.keys(record).forEach((key) => {
+      if (!columns.includes(key)) {
+        columns.push(key)
+      }
+    })
+  })
+  columns.sort((a, b) => {
+    const indexA = SYSTEM_KEYS.indexOf(a)
+    const indexB = SYSTEM_KEYS.indexOf(b)
+    return (
+      (indexA === -1 ? SYSTEM_KEYS.length : indexA) -
+      (indexB === -1 ? SYSTEM_KEYS.length : indexB)
+    )
+  })
+  const rows = [
+    columns,
+    ...records.map((record) =>
+      columns.map((column) => {
+        const value = record[column]
+        if (value === undefined || value === null) {
+          return ''
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value)
+      })
+    ),
+  ]
+  return rows
+    .map((row) => row.map(escapeCsvCell).join(','))
+    .map((line) => `${line}\n`)
+    .join('')
+}
+
+const escapeCsvCell = (cell: string) =>
+  /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell
+
+/**
+ * Every cell is a string, empty cells are left out of the record
+ */
+const parseCsv = (content: string): ContentRecord[] => {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++
+      }
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  const [columns = [], ...values] = rows.filter(
+    (row) => row.length > 1 || row[0]
+  )
+  return values.map((row) => {
+    const record: ContentRecord = {}
+    columns.forEach((column, index) => {
+      if (row[index]) {
+        record[column] = row[index]
+      }
+    })
+    return record
+  })
+}
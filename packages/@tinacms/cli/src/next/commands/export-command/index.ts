@@ -0,0 +1,119 @@
+import path from 'path'
+import fs from 'fs-extra'
+import { Command, Option } from 'clipanion'
+import { buildSchema } from '@tinacms/graphql'
+import { ConfigManager } from '../../config-manager'
+import { logger } from '../../../logger'
+import { createAndInitializeDatabase, createDBServer } from '../../database'
+import { spin } from '../../../utils/spinner'
+import { warnText } from '../../../utils/theme'
+import { exportCollections } from './export'
+import {
+  getContentFormat,
+  mapFields,
+  parseFieldMapping,
+  serializeRecords,
+} from './formats'
+
+export class ExportCommand extends Command {
+  static paths = [['export']]
+  file = Option.String({ name: 'file' })
+  rootPath = Option.String('--rootPath', {
+    description: 'Specify the root directory to run the CLI from',
+  })
+  verbose = Option.Boolean('-v,--verbose', false, {
+    description: 'increase verbosity of logged output',
+  })
+  collections = Option.Array('--collection', {
+    description:
+      'The collection to export, can be repeated (defaults to all collections)',
+  })
+  format = Option.String('--format', {
+    description: 'json, ndjson or csv (defaults to the extension of the file)',
+  })
+  map = Option.Array('--map', {
+    description:
+      'Export a field as a column with another name, eg. --map title=Title',
+  })
+  datalayerPort = Option.String('--datalayer-port', '9000', {
+    description:
+      'Specify a port to run the datalayer server on. (default 9000)',
+  })
+  static usage = Command.Usage({
+    category: `Commands`,
+    description: `Export the documents of collections to a JSON, NDJSON or CSV file`,
+    examples: [
+      [`Export every collection`, `$0 export content.json`],
+      [
+        `Export the posts, renaming a column`,
+        `$0 export posts.csv --collection post --map title=Title`,
+      ],
+    ],
+  })
+
+  async catch(error: any): Promise<void> {
+    logger.error('Error occured during tinacms export')
+    if (this.verbose) {
+      console.error(error)
+    }
+    process.exit(1)
+  }
+
+  async execute(): Promise<number | void> {
+    const format = getContentFormat(this.file, this.format)
+    const mapping = parseFieldMapping(this.map)
+    const configManager = new ConfigManager({ rootPath: this.rootPath })
+
+    try {
+      await configManager.processConfig()
+    } catch (e) {
+      logger.error(e.message)
+      process.exit(1)
+    }
+
+    // Initialize the host TCP server
+    createDBServer(Number(this.datalayerPort))
+    const database = await createAndInitializeDatabase(
+      configManager,
+      Number(this.datalayerPort)
+    )
+    const { tinaSchema, graphQLSchema, lookup } = await buildSchema(
+      configManager.config
+    )
+
+    const warnings: string[] = []
+    await spin({
+      waitFor: async () => {
+        const res = await database.indexContent({
+          graphQLSchema,
+          tinaSchema,
+          lookup,
+        })
+        warnings.push(...res.warnings)
+      },
+      text: 'Indexing local files',
+    })
+    if (warnings.length > 0) {
+      logger.warn(`Indexing completed with ${warnings.length} warning(s)`)
+      warnings.forEach((warning) => {
+        logger.warn(warnText(`${warning}`))
+      })
+    }
+
+    const records = await exportCollections({
+      database,
+      collections: this.collections,
+    })
+    const filepath = path.resolve(process.cwd(), this.file)
+    await fs.outputFile(
+      filepath,
+      serializeRecords(
+        records.map((record) => mapFields(record, mapping)),
+        format
+      )
+    )
+    logger.info(`Exported ${records.length} documents to ${this.file}`)
+
+    process.exit()
+  }
+}
@@ -0,0 +1,212 @@
+import { TinaSchema, addNamespaceToSchema } from '@tinacms/schema-tools'
+import type { Schema } from '@tinacms/schema-tools'
+import type { Database } from '@tinacms/graphql'
+import { coerceValue, importRecords } from './import'
+
+const schema: Schema = {
+  collections: [
+    {
+      name: 'post',
+      path: 'content/posts',
+      fields: [
+        { type: 'string', name: 'title', required: true },
+        { type: 'number', name: 'rating' },
+        { type: 'string', name: 'tags', list: true },
+      ],
+    },
+    {
+      name: 'page',
+      path: 'content/pages',
+      templates: [
+        {
+          name: 'landing',
+          fields: [
+            { type: 'string', name: 'title' },
+            { type: 'image', name: 'hero' },
+          ],
+        },
+        {
+          name: 'article',
+          fields: [
+            { type: 'string', name: 'title' },
+            { type: 'boolean', name: 'draft' },
+          ],
+        },
+      ],
+    },
+  ],
+}
+
+/**
+ * The parts of the database used by the import, backed by `documents`
+ */
+const createDatabase = (documents: Record<string, Record<string, unknown>>) => {
+  const tinaSchema = new TinaSchema({ ...addNamespaceToSchema(schema, []) })
+  return {
+    getSchema: async () => tinaSchema,
+    documentExists: async (filepath: string) => filepath in documents,
+    get: async (filepath: string) => documents[filepath],
+    batch: jest.fn(async () => {}),
+  }
+}
+
+describe('importRecords', () => {
+  it('writes nothing when one of the records is invalid', async () => {
+    const database = createDatabase({})
+    const report = await importRecords({
+      database: database as unknown as Database,
+      records: [
+        { _collection: 'post', _relativePath: 'good.md', title: 'Good' },
+        { _collection: 'post', _relativePath: 'bad.md', rating: 'high' },
+        { _collection: 'movie', _relativePath: 'jaws.md' },
+        { _collection: 'post', title: 'No path' },
+        { _collection: 'post', _relativePath: '../../package.json' },
+      ],
+    })
+
+    expect(report.created).toEqual(['content/posts/good.md'])
+    expect(report.errors).toEqual([
+      {
+        record: 2,
+        path: 'content/posts/bad.md',
+        messages: ['rating: Expected a number'],
+      },
+      { record: 3, messages: ['Unknown collection movie'] },
+      { record: 4, messages: ['Missing _relativePath'] },
+      {
+        record: 5,
+        messages: [
+          '_relativePath ../../package.json is outside of the post collection',
+        ],
+      },
+    ])
+    expect(database.batch).not.toHaveBeenCalled()
+  })
+
+  it('merges the records into the existing documents', async () => {
+    const database = createDatabase({
+      'content/posts/hello.md': { title: 'Hello', rating: 3 },
+    })
+    const report = await importRecords({
+      database: database as unknown as Database,
+      collection: 'post',
+      records: [
+        { _relativePath: 'hello.md', rating: '5', tags: '["news"]' },
+        { _relativePath: 'nested/new.md', title: 'New' },
+      ],
+    })
+
+    expect(report).toEqual({
+      created: ['content/posts/nested/new.md'],
+      updated: ['content/posts/hello.md'],
+      errors: [],
+    })
+    expect(database.batch).toHaveBeenCalledWith([
+      {
+        type: 'put',
+        filepath: 'content/posts/hello.md',
+        data: { title: 'Hello', rating: 5, tags: ['news'] },
+        collection: 'post',
+      },
+      {
+        type: 'put',
+        filepath: 'content/posts/nested/new.md',
+        data: { title: 'New' },
+        collection: 'post',
+      },
+    ])
+  })
+
+  it('resolves the template of each record', async () => {
+    const database = createDatabase({
+      'content/pages/home.md': { _template: 'landing', title: 'Home' },
+    })
+    const report = await importRecords({
+      database: database as unknown as Database,
+      collection: 'page',
+      records: [
+        // updates keep the template of the document
+        { _relativePath: 'home.md', hero: '/uploads/home.png' },
+        { _relativePath: 'about.md', _template: 'article', draft: 'true' },
+        { _relativePath: 'faq.md', title: 'FAQ' },
+        { _relativePath: 'blog.md', _template: 'article', hero: '/a.png' },
+      ],
+    })
+
+    expect(report.errors).toEqual([
+      {
+        record: 3,
+        path: 'content/pages/faq.md',
+        messages: [
+          'Unknown _template undefined, expected one of: landing, article',
+        ],
+      },
+      {
+        record: 4,
+        path: 'content/pages/blog.md',
+        messages: ['hero: Unknown field'],
+      },
+    ])
+    expect(report.updated).toEqual(['content/pages/home.md'])
+    expect(report.created).toEqual(['content/pages/about.md'])
+  })
+
+  it('only reports the changes of a dry run', async () => {
+    const database = createDatabase({})
+    const report = await importRecords({
+      database: database as unknown as Database,
+      collection: 'post',
+      records: [{ _relativePath: 'hello.md', title: 'Hello' }],
+      dryRun: true,
+    })
+
+    expect(report.created).toEqual(['content/posts/hello.md'])
+    expect(database.batch).not.toHaveBeenCalled()
+  })
+})
+
+describe('coerceValue', () => {
+  it('converts the values read from CSV files to the type of their field', () => {
+    expect(coerceValue({ type: 'number', name: 'rating' }, '4.5')).toEqual({
+      value: 4.5,
+    })
+    expect(coerceValue({ type: 'number', name: 'rating' }, ' ')).toEqual({
+      value: ' ',
+      error: 'Expected a number',
+    })
+    expect(coerceValue({ type: 'boolean', name: 'draft' }, 'false')).toEqual({
+      value: false,
+    })
+    expect(coerceValue({ type: 'boolean', name: 'draft' }, 'no')).toEqual({
+      value: 'no',
+      error: 'Expected true or false',
+    })
+  })
+  it('reads lists, objects and images with metadata as JSON', () => {
+    expect(
+      coerceValue({ type: 'string', name: 'tags', list: true }, '["a","b"]')
+    ).toEqual({ value: ['a', 'b'] })
+    expect(
+      coerceValue(
+        {
+          type: 'object',
+          name: 'seo',
+          fields: [{ type: 'string', name: 'title' }],
+        },
+        '{"title'
+      )
+    ).toEqual({ value: '{"title', error: 'Expected a JSON value' })
+    const image = { type: 'image' as const, name: 'hero', metadata: true }
+    expect(coerceValue(image, '/uploads/a.png')).toEqual({
+      value: '/uploads/a.png',
+    })
+    expect(coerceValue(image, '{"src":"/uploads/a.png"}')).toEqual({
+      value: { src: '/uploads/a.png' },
+    })
+  })
+  it('keeps the values which are not strings', () => {
+    expect(coerceValue({ type: 'number', name: 'rating' }, 4)).toEqual({
+      value: 4,
+    })
+  })
+})
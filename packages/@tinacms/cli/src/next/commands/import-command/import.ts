@@ -0,0 +1,241 @@
+import path from 'path'
+import chalk from 'chalk'
+import type { Database, DocumentBatchOperation } from '@tinacms/graphql'
+import { validateValues } from '@tinacms/schema-tools'
+import type { TinaField } from '@tinacms/schema-tools'
+import { logger } from '../../../logger'
+import type { ContentRecord } from '../export-command/formats'
+
+export type ImportReport = {
+  created: string[]
+  updated: string[]
+  /** The problems of each invalid record, `record` counts from 1 */
+  errors: { record: number; path?: string; messages: string[] }[]
+}
+
+/**
+ * Import the records as documents, nothing is written when any of the
+ * records is invalid or with `dryRun`. The values of a record are merged
+ * into the existing document, so an import can update only some fields
+ */
+export const importRecords = async ({
+  database,
+  records,
+  collection: defaultCollection,
+  dryRun,
+}: {
+  database: Database
+  records: ContentRecord[]
+  /** The collection of the records without a `_collection` */
+  collection?: string
+  dryRun?: boolean
+}): Promise<ImportReport> => {
+  const tinaSchema = await database.getSchema()
+  const collectionNames = tinaSchema
+    .getCollections()
+    .map((collection) => collection.name)
+  const report: ImportReport = { created: [], updated: [], errors: [] }
+  const puts: (DocumentBatchOperation & { type: 'put' })[] = []
+
+  for (let i = 0; i < records.length; i++) {
+    const { _collection, _relativePath, _template, ...values } = records[i]
+    const collectionName = (_collection as string) || defaultCollection
+    const addError = (messages: string[], filepath?: string) =>
+      report.errors.push({ record: i + 1, path: filepath, messages })
+
+    if (!collectionName || !collectionNames.includes(collectionName)) {
+      addError([
+        collectionName
+          ? `Unknown collection ${collectionName}`
+          : 'Missing _collection, pass --collection to import records without one',
+      ])
+      continue
+    }
+    if (!_relativePath || typeof _relativePath !== 'string') {
+      addError(['Missing _relativePath'])
+      continue
+    }
+    const collection = tinaSchema.getCollection(collectionName)
+    const filepath = getDocumentPath(collection.path, _relativePath)
+    if (!filepath) {
+      addError([
+        `_relativePath ${_relativePath} is outside of the ${collectionName} collection`,
+      ])
+      continue
+    }
+    if (puts.some((put) => put.filepath === filepath)) {
+      addError([`${filepath} is imported by more than one record`], filepath)
+      continue
+    }
+
+    const exists = await database.documentExists(filepath)
+    const existing = exists
+      ? await database.get<Record<string, unknown>>(filepath)
+      : {}
+    // updates can leave out the template of the document
+    const templateName = _template || existing._template
+    const templateInfo = tinaSchema.getTemplatesForCollectable(collection)
+    const template =
+      templateInfo.type === 'object'
+        ? templateInfo.template
+        : templateInfo.templates.find(
+            (template) => template.name === templateName
+          )
+    if (!template) {
+      addError(
+        [
+          `Unknown _template ${templateName}, expected one of: ${
+            templateInfo.type === 'union'
+              ? templateInfo.templates
+                  .map((template) => template.name)
+                  .join(', ')
+              : ''
+          }`,
+        ],
+        filepath
+      )
+      continue
+    }
+
+    const fields = template.fields as TinaField[]
+    const messages: string[] = []
+    const data: Record<string, unknown> = {}
+    Object.entries(values).forEach(([name, value]) => {
+      // the body of markdown documents without a body field
+      if (name === '$_body') {
+        data[name] = value
+        return
+      }
+      const field = fields.find((field) => field.name === name)
+      if (!field) {
+        messages.push(`${name}: Unknown field`)
+        return
+      }
+      const coerced = coerceValue(field, value)
+      if (coerced.error) {
+        messages.push(`${name}: ${coerced.error}`)
+      }
+      data[name] = coerced.value
+    })
+
+    const document = {
+      ...existing,
+      ...data,
+      ...(templateInfo.type === 'union' ? { _template: templateName } : {}),
+    }
+    if (!messages.length) {
+      validateValues(fields, document).forEach((error) => {
+        messages.push(`${error.path.join('.')}: ${error.message}`)
+      })
+    }
+    if (messages.length) {
+      addError(messages, filepath)
+      continue
+    }
+
+    puts.push({
+      type: 'put',
+      filepath,
+      data: document,
+      collection: collection.name,
+    })
+    if (exists) {
+      report.updated.push(filepath)
+    } else {
+      report.created.push(filepath)
+    }
+  }
+
+  if (!dryRun && !report.errors.length) {
+    // written at once, so a failure doesn't leave a partial import
+    await database.batch(puts)
+  }
+  return report
+}
+
+/**
+ * The path of a document of the collection, `undefined` when `relativePath`
+ * leads out of the folder of the collection
+ */
+const getDocumentPath = (collectionPath: string, relativePath: string) => {
+  const folder = path.posix.normalize(collectionPath.replace(/\\/g, '/'))
+  const filepath = path.posix.join(folder, relativePath.replace(/\\/g, '/'))
+  const relative = path.posix.relative(folder, filepath)
+  if (!relative || relative === '..' || relative.startsWith('../')) {
+    return undefined
+  }
+  return filepath
+}
+
+/**
+ * Values read from a CSV file are strings, they're converted to the type of
+ * their field. Objects and lists are stored as JSON
+ */
+export const coerceValue = (
+  field: TinaField,
+  value: unknown
+): { value: unknown; error?: string } => {
+  if (typeof value !== 'string') {
+    return { value }
+  }
+  if (
+    field.list ||
+    field.type === 'object' ||
+    // images with metadata can still be stored as just their `src`
+    (field.type === 'image' && field.metadata && value.startsWith('{'))
+  ) {
+    try {
+      return { value: JSON.parse(value) }
+    } catch (e) {
+      return { value, error: 'Expected a JSON value' }
+    }
+  }
+  switch (field.type) {
+    case 'number': {
+      const number = Number(value)
+      return isNaN(number) || !value.trim()
+        ? { value, error: 'Expected a number' }
+        : { value: number }
+    }
+    case 'boolean':
+      return value === 'true' || value === 'false'
+        ? { value: value === 'true' }
+        : { value, error: 'Expected true or false' }
+    default:
+      return { value }
+  }
+}
+
+/**
+ * Log what the import does (or with `dryRun`, would do) to each document
+ */
+export const printImportReport = (report: ImportReport, dryRun?: boolean) => {
+  report.created.forEach((filepath) => {
+    logger.info(`${chalk.green('create')} ${filepath}`)
+  })
+  report.updated.forEach((filepath) => {
+    logger.info(`${chalk.yellow('update')} ${filepath}`)
+  })
+  report.errors.forEach(({ record, path: filepath, messages }) => {
+    logger.error(
+      `${chalk.red('invalid')} record ${record}${
+        filepath ? ` (${filepath})` : ''
+      }`
+    )
+    messages.forEach((message) => {
+      logger.error(chalk.red(`    ${message}`))
+    })
+  })
+  const summary = `${report.created.length} created, ${report.updated.length} updated, ${report.errors.length} invalid`
+  if (report.errors.length) {
+    logger.error(
+      chalk.redBright(
+        `‼️ Import ${chalk.bold('failed')}, nothing was written (${summary})`
+      )
+    )
+  } else if (dryRun) {
+    logger.info(`Dry run, nothing was written (${summary})`)
+  } else {
+    logger.info(chalk.greenBright(`✅ Import complete (${summary})`))
+  }
+}
@@ -0,0 +1,129 @@
+import path from 'path'
+import fs from 'fs-extra'
+import { Command, Option } from 'clipanion'
+import { buildSchema } from '@tinacms/graphql'
+import { ConfigManager } from '../../config-manager'
+import { logger } from '../../../logger'
+import { createAndInitializeDatabase, createDBServer } from '../../database'
+import { spin } from '../../../utils/spinner'
+import { warnText } from '../../../utils/theme'
+import {
+  getContentFormat,
+  mapFields,
+  parseFieldMapping,
+  parseRecords,
+} from '../export-command/formats'
+import { importRecords, printImportReport } from './import'
+
+export class ImportCommand extends Command {
+  static paths = [['import']]
+  file = Option.String({ name: 'file' })
+  rootPath = Option.String('--rootPath', {
+    description: 'Specify the root directory to run the CLI from',
+  })
+  verbose = Option.Boolean('-v,--verbose', false, {
+    description: 'increase verbosity of logged output',
+  })
+  collection = Option.String('--collection', {
+    description: 'The collection of the records without a _collection',
+  })
+  format = Option.String('--format', {
+    description: 'json, ndjson or csv (defaults to the extension of the file)',
+  })
+  map = Option.Array('--map', {
+    description:
+      'Import a field from a column with another name, eg. --map title=Title',
+  })
+  dryRun = Option.Boolean('--dry-run', false, {
+    description: 'Report what would be imported without writing anything',
+  })
+  datalayerPort = Option.String('--datalayer-port', '9000', {
+    description:
+      'Specify a port to run the datalayer server on. (default 9000)',
+  })
+  static usage = Command.Usage({
+    category: `Commands`,
+    description: `Import documents from a JSON, NDJSON or CSV file`,
+    examples: [
+      [`Check an import without writing`, `$0 import content.json --dry-run`],
+      [
+        `Import posts from a CSV file`,
+        `$0 import posts.csv --collection post --map title=Title`,
+      ],
+    ],
+  })
+
+  async catch(error: any): Promise<void> {
+    logger.error('Error occured during tinacms import')
+    if (this.verbose) {
+      console.error(error)
+    }
+    process.exit(1)
+  }
+
+  async execute(): Promise<number | void> {
+    const format = getContentFormat(this.file, this.format)
+    const mapping = parseFieldMapping(this.map)
+    const content = await fs.readFile(
+      path.resolve(process.cwd(), this.file),
+      'utf-8'
+    )
+    const records = parseRecords(content, format).map((record) =>
+      mapFields(record, mapping, { reverse: true })
+    )
+    const configManager = new ConfigManager({ rootPath: this.rootPath })
+
+    try {
+      await configManager.processConfig()
+    } catch (e) {
+      logger.error(e.message)
+      process.exit(1)
+    }
+
+    // Initialize the host TCP server
+    createDBServer(Number(this.datalayerPort))
+    const database = await createAndInitializeDatabase(
+      configManager,
+      Number(this.datalayerPort)
+    )
+    const { tinaSchema, graphQLSchema, lookup } = await buildSchema(
+      configManager.config
+    )
+
+    const warnings: string[] = []
+    await spin({
+      waitFor: async () => {
+        const res = await database.indexContent({
+          graphQLSchema,
+          tinaSchema,
+          lookup,
+        })
+        warnings.push(...res.warnings)
+      },
+      text: 'Indexing local files',
+    })
+    if (warnings.length > 0) {
+      logger.warn(`Indexing completed with ${warnings.length} warning(s)`)
+      warnings.forEach((warning) => {
+        logger.warn(warnText(`${warning}`))
+      })
+    }
+
+    const report = await importRecords({
+      database,
+      records,
+      collection: this.collection,
+      dryRun: this.dryRun,
+    })
+    printImportReport(report, this.dryRun)
+    // the webhooks of the imported documents are sent in the background
+    if (database.webhooks) {
+      await spin({
+        waitFor: () => database.webhooks.settled(),
+        text: 'Sending webhooks',
+      })
+    }
+
+    process.exit(report.errors.length ? 1 : 0)
+  }
+}
@@ -9,6 +9,7 @@ import normalizePath from 'normalize-path'
 import chalk from 'chalk'
 
 import { logger } from '../logger'
+import type { VerifyToken } from '../server/auth'
 
 export const TINA_FOLDER = 'tina'
 export const LEGACY_TINA_FOLDER = '.tina'
@@ -47,6 +48,11 @@ export class ConfigManager {
   outputHTMLFilePath: string
   outputGitignorePath: string
   selfHostedDatabaseFilePath?: string
+  /**
+   * Authenticates the requests to the dev server, exported as `verifyToken`
+   * by the database file of a self-hosted setup
+   */
+  verifyToken?: VerifyToken
   spaRootPath: string
   spaMainPath: string
   spaHTMLPath: string
@@ -340,6 +346,7 @@ export class ConfigManager {
     })
     const result = require(outfile)
     await fs.removeSync(outfile)
+    this.verifyToken = result.verifyToken
     return result.default
   }
 
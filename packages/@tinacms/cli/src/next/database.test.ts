@@ -0,0 +1,38 @@
+import os from 'os'
+import path from 'path'
+import fs from 'fs-extra'
+import { createDraftLevel } from './database'
+import type { ConfigManager } from './config-manager'
+
+describe('createDraftLevel', () => {
+  let rootPath: string
+  beforeEach(async () => {
+    rootPath = await fs.mkdtemp(path.join(os.tmpdir(), 'tinacms-drafts-'))
+  })
+  afterEach(async () => {
+    await fs.remove(rootPath)
+  })
+
+  it('keeps the drafts across restarts', async () => {
+    const configManager = { rootPath } as ConfigManager
+    const draftsPath = path.join(
+      rootPath,
+      'node_modules/.cache/tinacms/drafts.json'
+    )
+    const level = await createDraftLevel(configManager)
+    await level
+      .sublevel('_drafts', { valueEncoding: 'json' })
+      .put('content/posts/hello.md', { title: 'Hello' })
+    // the drafts are saved in the background
+    for (let i = 0; i < 50 && !(await fs.pathExists(draftsPath)); i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+
+    const restarted = await createDraftLevel(configManager)
+    expect(
+      await restarted
+        .sublevel('_drafts', { valueEncoding: 'json' })
+        .get('content/posts/hello.md')
+    ).toEqual({ title: 'Hello' })
+  })
+})
@@ -4,6 +4,9 @@ import {
   Database,
   TinaLevelClient,
   Bridge,
+  WebhookDispatcher,
+  findGitRoot,
+  currentGitBranch,
 } from '@tinacms/graphql'
 import {
   ConfigManager,
@@ -12,6 +15,8 @@ import {
 } from './config-manager'
 import { logger } from '../logger'
 import { pipeline } from 'readable-stream'
+import path from 'path'
+import fs from 'fs-extra'
 import { createServer } from 'net'
 import { ManyLevelHost } from 'many-level'
 import { MemoryLevel } from 'memory-level'
@@ -46,6 +51,8 @@ export async function createAndInitializeDatabase(
   bridgeOverride?: Bridge
 ) {
   let database: Database
+  const webhooks = createWebhookDispatcher(configManager)
+  const branch = await findContentBranch(configManager)
   const bridge =
     bridgeOverride ||
     new FilesystemBridge(configManager.rootPath, configManager.contentRootPath)
@@ -55,6 +62,8 @@ export async function createAndInitializeDatabase(
   ) {
     database = (await configManager.loadDatabaseFile()) as Database
     database.bridge = bridge
+    database.webhooks = database.webhooks || webhooks
+    database.branch = database.branch || branch
   } else {
     if (
       configManager.hasSelfHostedConfig() &&
@@ -74,8 +83,99 @@ export async function createAndInitializeDatabase(
       tinaDirectory: configManager.isUsingLegacyFolder
         ? LEGACY_TINA_FOLDER
         : TINA_FOLDER,
+      webhooks,
+      draftLevel: await createDraftLevel(configManager),
+      branch,
     })
   }
 
   return database
 }
+
+/**
+ * Delivers the content events to the webhooks of the config,
+ * logging each delivery in `node_modules/.cache/tinacms/webhooks.log`
+ * and warning about the failed ones
+ */
+export const createWebhookDispatcher = (configManager: ConfigManager) => {
+  const webhooks = configManager.config.webhooks
+  if (!webhooks?.length) {
+    return undefined
+  }
+  return new WebhookDispatcher(webhooks, {
+    logPath: path.join(
+      configManager.rootPath,
+      'node_modules',
+      '.cache',
+      'tinacms',
+      'webhooks.log'
+    ),
+    warn: (message) => logger.warn(message),
+  })
+}
+
+/**
+ * The checked out branch of the content, drafts are kept per branch
+ */
+const findContentBranch = async (configManager: ConfigManager) => {
+  try {
+    return await currentGitBranch(
+      await findGitRoot(configManager.contentRootPath)
+    )
+  } catch (e) {
+    // the content isn't in a git repository
+    return undefined
+  }
+}
+
+/**
+ * The built-in datalayer lives in memory, so its drafts are kept in
+ * `node_modules/.cache/tinacms/drafts.json` to survive a restart
+ */
+export const createDraftLevel = async (configManager: ConfigManager) => {
+  const draftsPath = path.join(
+    configManager.rootPath,
+    'node_modules',
+    '.cache',
+    'tinacms',
+    'drafts.json'
+  )
+  const level = new MemoryLevel<string, Record<string, any>>({
+    valueEncoding: 'json',
+  })
+  let drafts: Record<string, Record<string, any>> = {}
+  try {
+    if (await fs.pathExists(draftsPath)) {
+      drafts = await fs.readJSON(draftsPath)
+    }
+  } catch (e) {
+    logger.warn(`Unable to read the drafts from ${draftsPath}: ${e.message}`)
+  }
+  await level.batch(
+    Object.entries(drafts).map(([key, value]) => ({
+      type: 'put' as const,
+      key,
+      value,
+    }))
+  )
+
+  // the writes are serialized so an older snapshot never overwrites a newer one
+  let saving = Promise.resolve()
+  const save = () => {
+    saving = saving.then(async () => {
+      try {
+        const snapshot: Record<string, Record<string, any>> = {}
+        for await (const [key, value] of level.iterator()) {
+          snapshot[key] = value
+        }
+        await fs.outputJSON(draftsPath, snapshot)
+      } catch (e) {
+        logger.warn(`Unable to save the drafts to ${draftsPath}: ${e.message}`)
+      }
+    })
+  }
+  level.on('put', save)
+  level.on('del', save)
+  level.on('batch', save)
+  return level
+}
@@ -7,12 +7,17 @@ import { transform as esbuildTransform } from 'esbuild'
 import path from 'path'
 import bodyParser from 'body-parser'
 import cors from 'cors'
+import { getUploadRules } from '@tinacms/schema-tools'
 import { resolve as gqlResolve } from '@tinacms/graphql'
 import type { Database } from '@tinacms/graphql'
 import {
   parseMediaFolder,
   createMediaRouter,
 } from '../commands/dev-command/server/media'
+import { createGitRouter } from '../commands/dev-command/server/git'
+import { createPresenceRouter } from '../commands/dev-command/server/presence'
+import { PresenceModel } from '../../server/models/presence'
+import { authenticate, isMediaRequestAllowed } from '../../server/auth'
 import type { ConfigManager } from '../config-manager'
 
 export const transformTsxPlugin = ({
@@ -48,28 +53,95 @@ export const devServerEndPointsPlugin = ({
   configManager,
   apiURL,
   database,
+  onSwitchBranch,
 }: {
   apiURL: string
   database: Database
   configManager: ConfigManager
+  /** Enables the `/git` endpoints, which switch the branch of the content repo */
+  onSwitchBranch?: (branchName: string) => Promise<void>
 }) => {
   const plug: Plugin = {
     name: 'graphql-endpoints',
     configureServer(server) {
       server.middlewares.use(cors())
       server.middlewares.use(bodyParser.json({ limit: '5mb' }))
+      const presenceRouter = createPresenceRouter(new PresenceModel())
       server.middlewares.use(async (req, res, next: Function) => {
+        const verifyToken = configManager.verifyToken
+        // image variants are `<img src>` urls, which can't send a token, and
+        // they only serve the images of the public folder the site serves anyway
+        const isPublic =
+          req.method === 'GET' && req.url.startsWith('/media/transform/')
+        const isProtected =
+          !isPublic &&
+          ['/graphql', '/media', '/presence', '/git/'].some((route) =>
+            req.url.startsWith(route)
+          )
+        const user =
+          verifyToken && isProtected
+            ? await authenticate(verifyToken, req)
+            : undefined
+        if (user === null) {
+          res.statusCode = 401
+          res.end(JSON.stringify({ message: 'Unauthorized' }))
+          return
+        }
+        if (
+          user &&
+          req.url.startsWith('/media') &&
+          !isMediaRequestAllowed({
+            roles: configManager.config.admin?.auth?.roles,
+            user,
+            method: req.method,
+            path: req.url.slice('/media'.length),
+          })
+        ) {
+          res.statusCode = 403
+          res.end(JSON.stringify({ message: 'Forbidden' }))
+          return
+        }
         const mediaPaths = configManager.config.media?.tina
-        const mediaRouter = createMediaRouter({
-          rootPath: configManager.rootPath,
-          apiURL,
-          publicFolder: parseMediaFolder(mediaPaths?.publicFolder || ''),
-          mediaRoot: parseMediaFolder(mediaPaths?.mediaRoot || ''),
-        })
+        const mediaRouter = createMediaRouter(
+          {
+            rootPath: configManager.rootPath,
+            apiURL,
+            publicFolder: parseMediaFolder(mediaPaths?.publicFolder || ''),
+            mediaRoot: parseMediaFolder(mediaPaths?.mediaRoot || ''),
+            uploadRules: getUploadRules(configManager.config.schema),
+          },
+          database.webhooks
+        )
         if (req.url.startsWith('/media/upload')) {
           await mediaRouter.handlePost(req, res)
           return
         }
+        if (req.method === 'POST') {
+          if (req.url.startsWith('/media/folder/')) {
+            await mediaRouter.handleCreateFolder(req, res)
+            return
+          }
+          if (req.url.startsWith('/media/move/')) {
+            await mediaRouter.handleMove(req, res)
+            return
+          }
+          if (req.url === '/media/delete') {
+            await mediaRouter.handleDeleteMany(req, res)
+            return
+          }
+        }
+        if (req.url.startsWith('/media/transform/')) {
+          await mediaRouter.handleTransform(req, res)
+          return
+        }
+        if (req.url.startsWith('/media/metadata')) {
+          if (req.method === 'PUT') {
+            await mediaRouter.handleUpdateMetadata(req, res)
+          } else {
+            await mediaRouter.handleGetMetadata(req, res)
+          }
+          return
+        }
         if (req.url.startsWith('/media')) {
           if (req.method === 'DELETE') {
             await mediaRouter.handleDelete(req, res)
@@ -80,6 +152,32 @@ export const devServerEndPointsPlugin = ({
           await mediaRouter.handleList(req, res)
           return
         }
+        if (onSwitchBranch && req.url.startsWith('/git/')) {
+          const gitRouter = createGitRouter({
+            contentRootPath: configManager.contentRootPath,
+            onSwitchBranch,
+          })
+          if (req.url === '/git/branches') {
+            if (req.method === 'POST') {
+              await gitRouter.handleCreateBranch(req, res)
+            } else {
+              await gitRouter.handleListBranches(req, res)
+            }
+            return
+          }
+          if (req.url === '/git/checkout' && req.method === 'POST') {
+            await gitRouter.handleSwitchBranch(req, res)
+            return
+          }
+        }
+        if (req.url === '/presence' && req.method === 'POST') {
+          presenceRouter.handleHeartbeat(req, res, user)
+          return
+        }
+        if (req.url === '/presence/leave' && req.method === 'POST') {
+          presenceRouter.handleLeave(req, res)
+          return
+        }
         if (req.url === '/altair') {
           res.end(
             JSON.stringify({
@@ -100,6 +198,7 @@ export const devServerEndPointsPlugin = ({
             query,
             variables,
             verbose: false,
+            user,
           })
           res.end(JSON.stringify(result))
           return
@@ -0,0 +1,24 @@
+import { isMediaRequestAllowed } from './auth'
+
+describe('isMediaRequestAllowed', () => {
+  const roles = {
+    viewer: { '*': ['read' as const] },
+    editor: { '*': ['read' as const], media: ['create' as const] },
+  }
+  const request = (role: string, method: string, path: string) =>
+    isMediaRequestAllowed({ roles, user: { roles: [role] }, method, path })
+
+  it('lets viewers list the media but not change it', () => {
+    expect(request('viewer', 'GET', '/list/cats')).toBe(true)
+    expect(request('viewer', 'POST', '/upload/cats/tom.png')).toBe(false)
+    expect(request('viewer', 'POST', '/move/cats/tom.png')).toBe(false)
+    expect(request('viewer', 'DELETE', '/cats/tom.png')).toBe(false)
+    expect(request('viewer', 'POST', '/delete')).toBe(false)
+  })
+  it('uses the permissions of the media entry', () => {
+    expect(request('editor', 'POST', '/upload/cats/tom.png')).toBe(true)
+    expect(request('editor', 'POST', '/folder/cats')).toBe(true)
+    expect(request('editor', 'PUT', '/metadata/cats/tom.png')).toBe(false)
+    expect(request('editor', 'DELETE', '/cats/tom.png')).toBe(false)
+  })
+})
@@ -0,0 +1,124 @@
+/**
+
+*/
+
+import type { IncomingMessage } from 'http'
+import type { RequestHandler } from 'express'
+import { isOperationAllowed } from '@tinacms/schema-tools'
+import type {
+  CollectionOperation,
+  RolePermissions,
+  TinaUser,
+} from '@tinacms/schema-tools'
+
+/**
+ * Verifies the bearer token of a request, eg. by checking the signature of a
+ * JWT, and resolves with the user it belongs to. The token is `undefined`
+ * when the request has none, resolving with `null` rejects the request
+ */
+export type VerifyToken = (
+  token: string | undefined,
+  req: IncomingMessage
+) => Promise<TinaUser | null>
+
+/**
+ * The permissions of the media library are the ones of the `media` entry of
+ * the roles, along with the ones of `'*'`
+ */
+export const MEDIA_PERMISSIONS_KEY = 'media'
+
+/**
+ * The user `verifyToken` resolves for the request, `null` when it's rejected
+ */
+export const authenticate = async (
+  verifyToken: VerifyToken,
+  req: IncomingMessage
+): Promise<TinaUser | null> => {
+  const authorization = req.headers.authorization || ''
+  const token = authorization.startsWith('Bearer ')
+    ? authorization.substring('Bearer '.length)
+    : undefined
+  try {
+    return (await verifyToken(token, req)) || null
+  } catch (e) {
+    return null
+  }
+}
+
+/**
+ * The operation a request to the media routes performs, `path` is
+ * relative to `/media`
+ */
+export const getMediaOperation = (
+  method: string,
+  path: string
+): CollectionOperation => {
+  if (method === 'DELETE' || path === '/delete') {
+    return 'delete'
+  }
+  if (path.startsWith('/upload/') || path.startsWith('/folder/')) {
+    return 'create'
+  }
+  if (method === 'GET' || method === 'HEAD') {
+    return 'read'
+  }
+  return 'update'
+}
+
+/**
+ * Whether the user may perform the operation of a request to the media routes
+ */
+export const isMediaRequestAllowed = ({
+  roles,
+  user,
+  method,
+  path,
+}: {
+  roles?: Record<string, RolePermissions>
+  user: TinaUser
+  method: string
+  path: string
+}) =>
+  isOperationAllowed({
+    roles,
+    user,
+    collection: MEDIA_PERMISSIONS_KEY,
+    operation: getMediaOperation(method, path),
+  })
+
+/**
+ * Rejects the requests which `verifyToken` doesn't resolve a user for, the
+ * user of the other requests is stored as `res.locals.user`
+ */
+export const createAuthMiddleware =
+  (verifyToken: VerifyToken): RequestHandler =>
+  async (req, res, next) => {
+    const user = await authenticate(verifyToken, req)
+    if (!user) {
+      return res.status(401).json({ message: 'Unauthorized' })
+    }
+    res.locals.user = user
+    next()
+  }
+
+/**
+ * Rejects the requests to the media routes which the roles of the user
+ * don't allow, requests without a user are trusted
+ */
+export const createMediaPermissionsMiddleware =
+  (roles?: Record<string, RolePermissions>): RequestHandler =>
+  (req, res, next) => {
+    const user = res.locals.user as TinaUser | undefined
+    if (
+      user &&
+      !isMediaRequestAllowed({
+        roles,
+        user,
+        method: req.method,
+        path: req.path,
+      })
+    ) {
+      return res.status(403).json({ message: 'Forbidden' })
+    }
+    next()
+  }
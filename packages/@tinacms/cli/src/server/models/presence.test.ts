@@ -0,0 +1,51 @@
+/**
+
+*/
+
+import { PresenceModel } from './presence'
+
+describe('PresenceModel', () => {
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+  it('lists the viewers of a document in the order they opened it', () => {
+    jest.useFakeTimers('modern').setSystemTime(1000)
+    const presence = new PresenceModel()
+
+    presence.heartbeat('content/posts/hello.md', { id: 'a', name: 'Ada' })
+    jest.setSystemTime(2000)
+    presence.heartbeat('content/posts/hello.md', { id: 'b' })
+    presence.heartbeat('content/posts/other.md', { id: 'c', name: 'Cy' })
+    jest.setSystemTime(3000)
+
+    expect(
+      presence.heartbeat('content/posts/hello.md', { id: 'a', name: 'Ada' })
+    ).toEqual([
+      { id: 'a', name: 'Ada', openedAt: 1000 },
+      { id: 'b', name: 'Anonymous', openedAt: 2000 },
+    ])
+
+    presence.leave('content/posts/hello.md', 'a')
+    expect(presence.list('content/posts/hello.md')).toEqual([
+      { id: 'b', name: 'Anonymous', openedAt: 2000 },
+    ])
+  })
+  it('drops the viewers which stopped sending heartbeats', () => {
+    jest.useFakeTimers('modern').setSystemTime(1000)
+    const presence = new PresenceModel(5000)
+
+    presence.heartbeat('content/posts/hello.md', { id: 'a', name: 'Ada' })
+    jest.setSystemTime(4000)
+    presence.heartbeat('content/posts/hello.md', { id: 'b', name: 'Bo' })
+    jest.setSystemTime(7000)
+
+    expect(presence.list('content/posts/hello.md')).toEqual([
+      { id: 'b', name: 'Bo', openedAt: 4000 },
+    ])
+
+    jest.setSystemTime(10000)
+    expect(presence.list('content/posts/hello.md')).toEqual([])
+    // the documents nobody has open are forgotten
+    expect(presence['documents'].size).toEqual(0)
+  })
+})
@@ -0,0 +1,78 @@
+/**
+
+*/
+
+export interface DocumentViewer {
+  /** Identifies the tab of the editor, each tab is tracked separately */
+  id: string
+  name: string
+  /** When the viewer opened the document, in milliseconds since the epoch */
+  openedAt: number
+}
+
+/** How long a viewer is kept without a heartbeat */
+const PRESENCE_TIMEOUT = 30000
+
+/**
+ * Keeps track of who has which document open. The editors send a heartbeat
+ * while the document is open and are dropped once they stop.
+ */
+export class PresenceModel {
+  private readonly documents = new Map<
+    string,
+    Map<string, DocumentViewer & { lastSeen: number }>
+  >()
+
+  constructor(private readonly timeout: number = PRESENCE_TIMEOUT) {}
+
+  /**
+   * Records that the viewer has the document open, returning all the
+   * viewers of the document in the order they opened it
+   */
+  heartbeat(
+    documentId: string,
+    viewer: { id: string; name?: string }
+  ): DocumentViewer[] {
+    const viewers = this.documents.get(documentId) || new Map()
+    const existing = viewers.get(viewer.id)
+    viewers.set(viewer.id, {
+      id: viewer.id,
+      name: viewer.name || 'Anonymous',
+      openedAt: existing?.openedAt || Date.now(),
+      lastSeen: Date.now(),
+    })
+    this.documents.set(documentId, viewers)
+    return this.list(documentId)
+  }
+
+  leave(documentId: string, viewerId: string) {
+    const viewers = this.documents.get(documentId)
+    if (!viewers) {
+      return
+    }
+    viewers.delete(viewerId)
+    if (!viewers.size) {
+      this.documents.delete(documentId)
+    }
+  }
+
+  list(documentId: string): DocumentViewer[] {
+    const viewers = this.documents.get(documentId)
+    if (!viewers) {
+      return []
+    }
+    const now = Date.now()
+    viewers.forEach((viewer, id) => {
+      if (now - viewer.lastSeen > this.timeout) {
+        viewers.delete(id)
+      }
+    })
+    if (!viewers.size) {
+      this.documents.delete(documentId)
+      return []
+    }
+    return Array.from(viewers.values())
+      .map(({ lastSeen: _lastSeen, ...viewer }) => viewer)
+      .sort((a, b) => a.openedAt - b.openedAt)
+  }
+}
@@ -6,6 +6,7 @@ import { Router } from 'express'
 import { join } from 'path'
 import multer from 'multer'
 import { MediaModel, PathConfig } from '../models/media'
+import { PresenceModel } from '../models/presence'
 
 export const createMediaRouter = (config: PathConfig): Router => {
   const mediaFolder = join(
@@ -65,3 +66,40 @@ export const createMediaRouter = (config: PathConfig): Router => {
 
   return mediaRouter
 }
+
+/**
+ * The presence of the editors on documents, the name of an authenticated
+ * user takes precedence over the one sent by the editor
+ */
+export const createPresenceRouter = (presenceModel: PresenceModel): Router => {
+  const presenceRouter = Router()
+
+  presenceRouter.post('/', (req, res) => {
+    const { documentId, viewer } = req.body || {}
+    if (!documentId || !viewer?.id) {
+      return res
+        .status(400)
+        .json({ message: 'documentId and viewer.id are required' })
+    }
+    const user = res.locals.user
+    res.json(
+      presenceModel.heartbeat(documentId, {
+        id: viewer.id,
+        name: user ? String(user.name || user.id) : viewer.name,
+      })
+    )
+  })
+
+  presenceRouter.post('/leave', (req, res) => {
+    const { documentId, viewerId } = req.body || {}
+    if (!documentId || !viewerId) {
+      return res
+        .status(400)
+        .json({ message: 'documentId and viewerId are required' })
+    }
+    presenceModel.leave(documentId, viewerId)
+    res.json({ success: true })
+  })
+
+  return presenceRouter
+}
@@ -10,10 +10,27 @@ import { altairExpress } from 'altair-express-middleware'
 // @ts-ignore
 import bodyParser from 'body-parser'
 import type { Database } from '@tinacms/graphql'
-import { createMediaRouter } from './routes'
+import { createMediaRouter, createPresenceRouter } from './routes'
+import { PresenceModel } from './models/presence'
+import {
+  createAuthMiddleware,
+  createMediaPermissionsMiddleware,
+  VerifyToken,
+} from './auth'
 import { parseMediaFolder } from '../utils'
 
-export const gqlServer = async (database, verbose: boolean) => {
+export const gqlServer = async (
+  database,
+  verbose: boolean,
+  options: {
+    /**
+     * Authenticates the requests to `/graphql`, `/media` and `/presence`,
+     * the documents and media the user may read and change are limited by
+     * the `roles` of the config
+     */
+    verifyToken?: VerifyToken
+  } = {}
+) => {
   // This is lazily required so we can update the module
   // without having to restart the server
   const gqlPackage = require('@tinacms/graphql')
@@ -22,6 +39,12 @@ export const gqlServer = async (database, verbose: boolean) => {
   const server = http.createServer(app)
   app.use(cors())
   app.use(bodyParser.json())
+  if (options.verifyToken) {
+    const auth = createAuthMiddleware(options.verifyToken)
+    app.use('/graphql', auth)
+    app.use('/media', auth)
+    app.use('/presence', auth)
+  }
 
   app.use(
     '/altair',
@@ -55,16 +78,22 @@ export const gqlServer = async (database, verbose: boolean) => {
       query,
       variables,
       verbose,
+      user: res.locals.user,
     })
     return res.json(result)
   })
 
+  app.use('/presence', createPresenceRouter(new PresenceModel()))
+
   const db: Database = database
   const schema = await db.getSchema()
   const mediaPaths = schema?.schema?.config?.media?.tina
 
   app.use(
     '/media',
+    createMediaPermissionsMiddleware(
+      schema?.schema?.config?.admin?.auth?.roles
+    ),
     createMediaRouter({
       rootPath: db.bridge.rootPath,
       publicFolder: parseMediaFolder(mediaPaths?.publicFolder || ''),
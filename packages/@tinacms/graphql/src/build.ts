@@ -158,6 +158,17 @@ const _buildSchema = async (builder: Builder, tinaSchema: TinaSchema) => {
   queryTypeDefinitionFields.push(
     await builder.multiCollectionDocument(collections)
   )
+  queryTypeDefinitionFields.push(await builder.buildSearchDefinition())
+  queryTypeDefinitionFields.push(
+    await builder.buildDocumentReferrersDefinition()
+  )
+  queryTypeDefinitionFields.push(
+    await builder.buildDocumentDeleteImpactDefinition()
+  )
+  queryTypeDefinitionFields.push(
+    await builder.buildDocumentAtRevisionDefinition()
+  )
+  queryTypeDefinitionFields.push(await builder.buildMediaUsageDefinition())
   mutationTypeDefinitionFields.push(
     await builder.addMultiCollectionDocumentMutation()
   )
@@ -170,6 +181,13 @@ const _buildSchema = async (builder: Builder, tinaSchema: TinaSchema) => {
   mutationTypeDefinitionFields.push(
     await builder.buildCreateCollectionDocumentMutation(collections)
   )
+  mutationTypeDefinitionFields.push(await builder.buildBatchDocumentsMutation())
+  mutationTypeDefinitionFields.push(
+    await builder.buildPublishDocumentMutation()
+  )
+  mutationTypeDefinitionFields.push(
+    await builder.buildUpdateMediaReferencesMutation()
+  )
 
   /**
    * Collection queries/mutations/fragments
@@ -94,6 +94,8 @@ export class Builder {
         collections,
         connectionNamespace: ['document'],
         includeFolderFilter: true,
+        includeStatusFilter: true,
+        includeLocaleFilter: true,
       })
 
     const type = astBuilder.ObjectTypeDefinition({
@@ -211,6 +213,319 @@ export class Builder {
     })
   }
 
+  /**
+   * ```graphql
+   * # ex.
+   * {
+   *   search(query: "hello world", collections: ["post"], first: 10) {
+   *     edges {
+   *       score
+   *       highlights { field snippet }
+   *       node {...}
+   *     }
+   *   }
+   * }
+   * ```
+   */
+  public buildSearchDefinition = async () => {
+    return astBuilder.FieldDefinition({
+      name: 'search',
+      required: true,
+      args: [
+        astBuilder.InputValueDefinition({
+          name: 'query',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'collections',
+          list: true,
+          type: astBuilder.TYPES.String,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'first',
+          type: astBuilder.TYPES.Number,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'after',
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+      type: astBuilder.ObjectTypeDefinition({
+        name: 'SearchResultConnection',
+        interfaces: [
+          astBuilder.NamedType({ name: astBuilder.TYPES.Connection }),
+        ],
+        fields: [
+          astBuilder.FieldDefinition({
+            name: 'pageInfo',
+            required: true,
+            type: astBuilder.TYPES.PageInfo,
+          }),
+          astBuilder.FieldDefinition({
+            name: 'totalCount',
+            required: true,
+            type: astBuilder.TYPES.Number,
+          }),
+          astBuilder.FieldDefinition({
+            name: 'edges',
+            list: true,
+            type: astBuilder.ObjectTypeDefinition({
+              name: 'SearchResultEdge',
+              fields: [
+                astBuilder.FieldDefinition({
+                  name: 'cursor',
+                  required: true,
+                  type: astBuilder.TYPES.String,
+                }),
+                astBuilder.FieldDefinition({
+                  name: 'score',
+                  required: true,
+                  type: astBuilder.TYPES.Number,
+                }),
+                astBuilder.FieldDefinition({
+                  name: 'highlights',
+                  list: true,
+                  required: true,
+                  type: astBuilder.ObjectTypeDefinition({
+                    name: 'SearchHighlight',
+                    fields: [
+                      astBuilder.FieldDefinition({
+                        name: 'field',
+                        required: true,
+                        type: astBuilder.TYPES.String,
+                      }),
+                      astBuilder.FieldDefinition({
+                        name: 'snippet',
+                        required: true,
+                        type: astBuilder.TYPES.String,
+                      }),
+                    ],
+                  }),
+                }),
+                astBuilder.FieldDefinition({
+                  name: 'node',
+                  type: astBuilder.TYPES.MultiCollectionDocument,
+                }),
+              ],
+            }),
+          }),
+        ],
+      }),
+    })
+  }
+
+  /**
+   * Previews the documents which would be touched by renaming or moving
+   * a document (or a folder) to a new path
+   * ```graphql
+   * # ex.
+   * {
+   *   documentReferrers(collection: "author", relativePath: "jane.md") {
+   *     totalCount
+   *     paths
+   *   }
+   * }
+   * ```
+   */
+  public buildDocumentReferrersDefinition = async () => {
+    return astBuilder.FieldDefinition({
+      name: 'documentReferrers',
+      required: true,
+      args: [
+        astBuilder.InputValueDefinition({
+          name: 'collection',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'relativePath',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+      type: astBuilder.ObjectTypeDefinition({
+        name: 'DocumentReferrers',
+        fields: [
+          astBuilder.FieldDefinition({
+            name: 'documentCount',
+            required: true,
+            type: astBuilder.TYPES.Number,
+          }),
+          astBuilder.FieldDefinition({
+            name: 'totalCount',
+            required: true,
+            type: astBuilder.TYPES.Number,
+          }),
+          astBuilder.FieldDefinition({
+            name: 'paths',
+            list: true,
+            required: true,
+            type: astBuilder.TYPES.String,
+          }),
+        ],
+      }),
+    })
+  }
+
+  /**
+   * Previews the documents which would be affected by deleting a document,
+   * according to the `onDelete` policy of the fields which reference it
+   * ```graphql
+   * # ex.
+   * {
+   *   documentDeleteImpact(collection: "author", relativePath: "jane.md") {
+   *     restricted
+   *     nullified
+   *     cascaded
+   *   }
+   * }
+   * ```
+   */
+  public buildDocumentDeleteImpactDefinition = async () => {
+    return astBuilder.FieldDefinition({
+      name: 'documentDeleteImpact',
+      required: true,
+      args: [
+        astBuilder.InputValueDefinition({
+          name: 'collection',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'relativePath',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+      type: astBuilder.ObjectTypeDefinition({
+        name: 'DocumentDeleteImpact',
+        fields: ['restricted', 'nullified', 'cascaded'].map((name) =>
+          astBuilder.FieldDefinition({
+            name,
+            list: true,
+            required: true,
+            type: astBuilder.TYPES.String,
+          })
+        ),
+      }),
+    })
+  }
+
+  /**
+   * The documents which use a media file, in an `image` field or
+   * as an image in rich-text
+   * ```graphql
+   * # ex.
+   * {
+   *   mediaUsage(src: "/uploads/hero.png") {
+   *     totalCount
+   *     paths
+   *   }
+   * }
+   * ```
+   */
+  public buildMediaUsageDefinition = async () => {
+    return astBuilder.FieldDefinition({
+      name: 'mediaUsage',
+      required: true,
+      args: [
+        astBuilder.InputValueDefinition({
+          name: 'src',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+      type: this.mediaUsageType(),
+    })
+  }
+
+  /**
+   * Replace every use of a media file which has been renamed or moved
+   * ```graphql
+   * # ex.
+   * {
+   *   updateMediaReferences(from: "/uploads/hero.png", to: "/uploads/home/hero.png") {
+   *     totalCount
+   *     paths
+   *   }
+   * }
+   * ```
+   */
+  public buildUpdateMediaReferencesMutation = async () => {
+    return astBuilder.FieldDefinition({
+      name: 'updateMediaReferences',
+      required: true,
+      args: [
+        astBuilder.InputValueDefinition({
+          name: 'from',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'to',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+      type: this.mediaUsageType(),
+    })
+  }
+
+  private mediaUsageType = () =>
+    astBuilder.ObjectTypeDefinition({
+      name: 'MediaUsage',
+      fields: [
+        astBuilder.FieldDefinition({
+          name: 'totalCount',
+          required: true,
+          type: astBuilder.TYPES.Number,
+        }),
+        astBuilder.FieldDefinition({
+          name: 'paths',
+          list: true,
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+    })
+
+  /**
+   * A document as it was at a previous revision (eg. a commit from `_sys.history`)
+   * ```graphql
+   * # ex.
+   * {
+   *   documentAtRevision(collection: "post", relativePath: "hello.md", ref: "a1b2c3d") {
+   *     ...on Document { _values }
+   *   }
+   * }
+   * ```
+   */
+  public buildDocumentAtRevisionDefinition = async () => {
+    return astBuilder.FieldDefinition({
+      name: 'documentAtRevision',
+      required: true,
+      args: [
+        astBuilder.InputValueDefinition({
+          name: 'collection',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'relativePath',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'ref',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+      type: astBuilder.TYPES.MultiCollectionDocument,
+    })
+  }
+
   /**
    * ```graphql
    * # ex.
@@ -235,6 +550,16 @@ export class Builder {
         name: 'relativePath',
         type: astBuilder.TYPES.String,
       }),
+      // resolve the draft of the document when there is one
+      astBuilder.InputValueDefinition({
+        name: 'preview',
+        type: astBuilder.TYPES.Boolean,
+      }),
+      // resolve the translation of the document, for collections with `i18n`
+      astBuilder.InputValueDefinition({
+        name: 'locale',
+        type: astBuilder.TYPES.String,
+      }),
     ]
 
     const type = await this._buildMultiCollectionDocumentDefinition({
@@ -370,6 +695,16 @@ export class Builder {
             collections: collections.map((collection) => collection.name),
           }),
         }),
+        // save the changes as a draft instead of writing the content file
+        astBuilder.InputValueDefinition({
+          name: 'draft',
+          type: astBuilder.TYPES.Boolean,
+        }),
+        // fail instead of overwriting changes made since `_sys.hash` was read
+        astBuilder.InputValueDefinition({
+          name: 'ifMatch',
+          type: astBuilder.TYPES.String,
+        }),
       ],
       required: true,
       type: astBuilder.TYPES.MultiCollectionDocument,
@@ -404,11 +739,130 @@ export class Builder {
           required: true,
           type: astBuilder.TYPES.String,
         }),
+        astBuilder.InputValueDefinition({
+          name: 'ifMatch',
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+      required: true,
+      type: astBuilder.TYPES.MultiCollectionDocument,
+    })
+  }
+  /**
+   * Write the draft saved with `updateDocument(draft: true)` to the content file
+   * ```graphql
+   * # ex.
+   * {
+   *   publishDocument(collection: "post", relativePath: "hello.md") {
+   *     ...on Document { id }
+   *   }
+   * }
+   * ```
+   */
+  public buildPublishDocumentMutation = async () => {
+    return astBuilder.FieldDefinition({
+      name: 'publishDocument',
+      args: [
+        astBuilder.InputValueDefinition({
+          name: 'collection',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'relativePath',
+          required: true,
+          type: astBuilder.TYPES.String,
+        }),
+      ],
+      required: true,
+      type: astBuilder.TYPES.MultiCollectionDocument,
+    })
+  }
+
+  /**
+   * Create, update and delete documents across collections in a single request,
+   * every operation is validated before any of them is applied
+   * ```graphql
+   * # ex.
+   * {
+   *   batchDocuments(operations: [
+   *     { create: { relativePath: "hello.md", params: { post: { title: "Hello" } } } },
+   *     { delete: { collection: "author", relativePath: "jane.md" } }
+   *   ]) {
+   *     ...on Document { id }
+   *   }
+   * }
+   * ```
+   */
+  public buildBatchDocumentsMutation = async () => {
+    const collectionArg = (required: boolean) =>
+      astBuilder.InputValueDefinition({
+        name: 'collection',
+        required,
+        type: astBuilder.TYPES.String,
+      })
+    const relativePathArg = astBuilder.InputValueDefinition({
+      name: 'relativePath',
+      required: true,
+      type: astBuilder.TYPES.String,
+    })
+    return astBuilder.FieldDefinition({
+      name: 'batchDocuments',
+      args: [
+        astBuilder.InputValueDefinition({
+          name: 'operations',
+          list: true,
+          required: true,
+          type: astBuilder.InputObjectTypeDefinition({
+            name: 'BatchDocumentOperation',
+            fields: [
+              astBuilder.InputValueDefinition({
+                name: 'create',
+                type: astBuilder.InputObjectTypeDefinition({
+                  name: 'BatchCreateDocument',
+                  fields: [
+                    collectionArg(false),
+                    relativePathArg,
+                    astBuilder.InputValueDefinition({
+                      name: 'params',
+                      required: true,
+                      type: NAMER.dataMutationTypeName(['document']),
+                    }),
+                  ],
+                }),
+              }),
+              astBuilder.InputValueDefinition({
+                name: 'update',
+                type: astBuilder.InputObjectTypeDefinition({
+                  name: 'BatchUpdateDocument',
+                  fields: [
+                    collectionArg(false),
+                    relativePathArg,
+                    astBuilder.InputValueDefinition({
+                      name: 'params',
+                      required: true,
+                      type: NAMER.dataMutationUpdateTypeName(['document']),
+                    }),
+                  ],
+                }),
+              }),
+              astBuilder.InputValueDefinition({
+                name: 'delete',
+                type: astBuilder.InputObjectTypeDefinition({
+                  name: 'BatchDeleteDocument',
+                  fields: [collectionArg(true), relativePathArg],
+                }),
+              }),
+            ],
+          }),
+        }),
       ],
+      list: true,
       required: true,
       type: astBuilder.TYPES.MultiCollectionDocument,
     })
   }
+
   /**
    * ```graphql
    * # ex.
@@ -430,7 +884,19 @@ export class Builder {
         name: 'relativePath',
         type: astBuilder.TYPES.String,
       }),
+      astBuilder.InputValueDefinition({
+        name: 'preview',
+        type: astBuilder.TYPES.Boolean,
+      }),
     ]
+    if (collection.i18n) {
+      args.push(
+        astBuilder.InputValueDefinition({
+          name: 'locale',
+          type: astBuilder.TYPES.String,
+        })
+      )
+    }
     await this.addToLookupMap({
       type: type.name.value,
       resolveType: 'collectionDocument',
@@ -510,8 +976,25 @@ export class Builder {
     depth: number
   ) => Promise<SelectionSetNode | FieldNode | false> = async (field, depth) => {
     switch (field.type) {
-      case 'string':
       case 'image':
+        if (field.metadata) {
+          return astBuilder.FieldWithSelectionSetDefinition({
+            name: field.name,
+            selections: [
+              ...['src', 'alt', 'caption', 'width', 'height'].map((name) =>
+                astBuilder.FieldNodeDefinition({ name, type: 'String' })
+              ),
+              astBuilder.FieldWithSelectionSetDefinition({
+                name: 'focalPoint',
+                selections: ['x', 'y'].map((name) =>
+                  astBuilder.FieldNodeDefinition({ name, type: 'Float' })
+                ),
+              }),
+            ],
+          })
+        }
+        return astBuilder.FieldNodeDefinition(field)
+      case 'string':
       case 'datetime':
       case 'number':
       case 'boolean':
@@ -667,6 +1150,14 @@ export class Builder {
           required: true,
           type: await this._updateCollectionDocumentMutationType(collection),
         }),
+        astBuilder.InputValueDefinition({
+          name: 'draft',
+          type: astBuilder.TYPES.Boolean,
+        }),
+        astBuilder.InputValueDefinition({
+          name: 'ifMatch',
+          type: astBuilder.TYPES.String,
+        }),
       ],
     })
   }
@@ -736,6 +1227,9 @@ export class Builder {
       nodeType: NAMER.documentTypeName(collection.namespace),
       namespace: collection.namespace,
       collection,
+      // published documents are returned by default, see `resolveCollectionConnection`
+      includeStatusFilter: !!collection.publishing,
+      includeLocaleFilter: !!collection.i18n,
     })
   }
 
@@ -926,6 +1420,8 @@ export class Builder {
     collections,
     connectionNamespace,
     includeFolderFilter,
+    includeStatusFilter,
+    includeLocaleFilter,
   }: {
     fieldName: string
     namespace: string[]
@@ -933,6 +1429,8 @@ export class Builder {
     collections: Collection<true>[]
     connectionNamespace: string[]
     includeFolderFilter?: boolean
+    includeStatusFilter?: boolean
+    includeLocaleFilter?: boolean
   }) => {
     const connectionName = NAMER.referenceConnectionType(namespace)
     this.addToLookupMap({
@@ -948,6 +1446,8 @@ export class Builder {
       nodeType: nodeType,
       collections,
       includeFolderFilter,
+      includeStatusFilter,
+      includeLocaleFilter,
     })
   }
 
@@ -1040,6 +1540,10 @@ export class Builder {
         })
       case 'image':
       case 'string':
+        // images with metadata are objects, which aren't indexed
+        if (field.type === 'image' && field.metadata) {
+          return
+        }
         return astBuilder.InputValueDefinition({
           name: field.name,
           type: astBuilder.InputObjectTypeDefinition({
@@ -1129,8 +1633,20 @@ export class Builder {
           list: field.list,
           type: astBuilder.TYPES.Number,
         })
-      case 'datetime':
       case 'image':
+        if (field.metadata) {
+          return astBuilder.InputValueDefinition({
+            name: field.name,
+            list: field.list,
+            type: 'ImageMutation',
+          })
+        }
+        return astBuilder.InputValueDefinition({
+          name: field.name,
+          list: field.list,
+          type: astBuilder.TYPES.String,
+        })
+      case 'datetime':
       case 'string':
         return astBuilder.InputValueDefinition({
           name: field.name,
@@ -1288,6 +1804,8 @@ export class Builder {
     collection,
     collections,
     includeFolderFilter,
+    includeStatusFilter,
+    includeLocaleFilter,
   }: {
     fieldName: string
     namespace: string[]
@@ -1296,6 +1814,8 @@ export class Builder {
     collection?: Collectable
     collections?: Collectable[]
     includeFolderFilter?: boolean
+    includeStatusFilter?: boolean
+    includeLocaleFilter?: boolean
   }) => {
     const extra = [
       await this._connectionFilterBuilder({
@@ -1313,6 +1833,22 @@ export class Builder {
         })
       )
     }
+    if (includeStatusFilter) {
+      extra.push(
+        astBuilder.InputValueDefinition({
+          name: 'status',
+          type: 'DocumentPublishStatus',
+        })
+      )
+    }
+    if (includeLocaleFilter) {
+      extra.push(
+        astBuilder.InputValueDefinition({
+          name: 'locale',
+          type: astBuilder.TYPES.String,
+        })
+      )
+    }
     return astBuilder.FieldDefinition({
       name: fieldName,
       required: true,
@@ -1369,6 +1905,14 @@ Visit https://tina.io/docs/errors/ui-not-supported/ for more information
         }
       case 'image':
       case 'string':
+        if (field.type === 'image' && field.metadata) {
+          return astBuilder.FieldDefinition({
+            name: field.name,
+            list: field.list,
+            required: field.required,
+            type: 'Image',
+          })
+        }
         return astBuilder.FieldDefinition({
           name: field.name,
           list: field.list,
@@ -1466,6 +2010,12 @@ const listArgs = [
     name: 'sort',
     type: astBuilder.TYPES.String,
   }),
+  // sort by several fields, each ascending or descending
+  astBuilder.InputValueDefinition({
+    name: 'orderBy',
+    list: true,
+    type: 'DocumentSort',
+  }),
 ]
 
 const filterSelections = (arr: any[]) => {
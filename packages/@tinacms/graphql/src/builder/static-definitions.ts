@@ -89,6 +89,117 @@ const scalarDefinitions = [
     description: 'References another document, used as a foreign key',
   }),
   astBuilder.ScalarTypeDefinition({ name: 'JSON' }),
+  astBuilder.EnumDefinition({
+    name: 'DocumentPublishStatus',
+    values: ['published', 'scheduled', 'expired', 'all'],
+  }),
+  astBuilder.EnumDefinition({
+    name: 'DocumentSortOrder',
+    values: ['ASC', 'DESC'],
+  }),
+  astBuilder.InputObjectTypeDefinition({
+    name: 'DocumentSort',
+    fields: [
+      astBuilder.InputValueDefinition({
+        name: 'field',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.InputValueDefinition({
+        name: 'order',
+        type: 'DocumentSortOrder',
+      }),
+    ],
+  }),
+  astBuilder.ObjectTypeDefinition({
+    name: 'ImageFocalPoint',
+    fields: [
+      astBuilder.FieldDefinition({
+        name: 'x',
+        required: true,
+        type: astBuilder.TYPES.Number,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'y',
+        required: true,
+        type: astBuilder.TYPES.Number,
+      }),
+    ],
+  }),
+  astBuilder.ObjectTypeDefinition({
+    name: 'Image',
+    fields: [
+      astBuilder.FieldDefinition({
+        name: 'src',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'alt',
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'caption',
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'width',
+        type: astBuilder.TYPES.Number,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'height',
+        type: astBuilder.TYPES.Number,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'focalPoint',
+        type: 'ImageFocalPoint',
+      }),
+    ],
+  }),
+  astBuilder.InputObjectTypeDefinition({
+    name: 'ImageFocalPointMutation',
+    fields: [
+      astBuilder.InputValueDefinition({
+        name: 'x',
+        required: true,
+        type: astBuilder.TYPES.Number,
+      }),
+      astBuilder.InputValueDefinition({
+        name: 'y',
+        required: true,
+        type: astBuilder.TYPES.Number,
+      }),
+    ],
+  }),
+  astBuilder.InputObjectTypeDefinition({
+    name: 'ImageMutation',
+    fields: [
+      astBuilder.InputValueDefinition({
+        name: 'src',
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.InputValueDefinition({
+        name: 'alt',
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.InputValueDefinition({
+        name: 'caption',
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.InputValueDefinition({
+        name: 'width',
+        type: astBuilder.TYPES.Number,
+      }),
+      astBuilder.InputValueDefinition({
+        name: 'height',
+        type: astBuilder.TYPES.Number,
+      }),
+      astBuilder.InputValueDefinition({
+        name: 'focalPoint',
+        type: 'ImageFocalPointMutation',
+      }),
+    ],
+  }),
   astBuilder.ObjectTypeDefinition({
     name: 'SystemInfo',
     fields: [
@@ -139,11 +250,174 @@ const scalarDefinitions = [
         required: true,
         type: astBuilder.TYPES.String,
       }),
+      // a hash of the content file, to pass as `ifMatch` when changing the document
+      astBuilder.FieldDefinition({
+        name: 'hash',
+        required: false,
+        type: astBuilder.TYPES.String,
+      }),
       astBuilder.FieldDefinition({
         name: 'collection',
         required: true,
         type: astBuilder.TYPES.Collection,
       }),
+      astBuilder.FieldDefinition({
+        name: 'referencedBy',
+        required: true,
+        args: [
+          astBuilder.InputValueDefinition({
+            name: 'collections',
+            list: true,
+            type: astBuilder.TYPES.String,
+          }),
+          astBuilder.InputValueDefinition({
+            name: 'first',
+            type: astBuilder.TYPES.Number,
+          }),
+          astBuilder.InputValueDefinition({
+            name: 'after',
+            type: astBuilder.TYPES.String,
+          }),
+        ],
+        type: 'ReferencedByConnection',
+      }),
+      astBuilder.FieldDefinition({
+        name: 'locale',
+        required: false,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'translations',
+        required: true,
+        list: true,
+        type: astBuilder.TYPES.MultiCollectionDocument,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'history',
+        required: true,
+        args: [
+          astBuilder.InputValueDefinition({
+            name: 'first',
+            type: astBuilder.TYPES.Number,
+          }),
+          astBuilder.InputValueDefinition({
+            name: 'after',
+            type: astBuilder.TYPES.String,
+          }),
+        ],
+        type: 'DocumentHistoryConnection',
+      }),
+    ],
+  }),
+  astBuilder.ObjectTypeDefinition({
+    name: 'ReferencedByConnection',
+    interfaces: [astBuilder.NamedType({ name: astBuilder.TYPES.Connection })],
+    fields: [
+      astBuilder.FieldDefinition({
+        name: 'pageInfo',
+        required: true,
+        type: astBuilder.TYPES.PageInfo,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'totalCount',
+        required: true,
+        type: astBuilder.TYPES.Number,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'edges',
+        list: true,
+        type: 'ReferencedByEdge',
+      }),
+    ],
+  }),
+  astBuilder.ObjectTypeDefinition({
+    name: 'ReferencedByEdge',
+    fields: [
+      astBuilder.FieldDefinition({
+        name: 'cursor',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'node',
+        type: astBuilder.TYPES.MultiCollectionDocument,
+      }),
+    ],
+  }),
+  astBuilder.ObjectTypeDefinition({
+    name: 'DocumentHistoryConnection',
+    interfaces: [astBuilder.NamedType({ name: astBuilder.TYPES.Connection })],
+    fields: [
+      astBuilder.FieldDefinition({
+        name: 'pageInfo',
+        required: true,
+        type: astBuilder.TYPES.PageInfo,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'totalCount',
+        required: true,
+        type: astBuilder.TYPES.Number,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'edges',
+        list: true,
+        type: 'DocumentHistoryEdge',
+      }),
+    ],
+  }),
+  astBuilder.ObjectTypeDefinition({
+    name: 'DocumentHistoryEdge',
+    fields: [
+      astBuilder.FieldDefinition({
+        name: 'cursor',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'node',
+        required: true,
+        type: 'DocumentCommit',
+      }),
+    ],
+  }),
+  astBuilder.ObjectTypeDefinition({
+    name: 'DocumentCommit',
+    fields: [
+      astBuilder.FieldDefinition({
+        name: 'ref',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'message',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'date',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'author',
+        required: true,
+        type: 'CommitAuthor',
+      }),
+    ],
+  }),
+  astBuilder.ObjectTypeDefinition({
+    name: 'CommitAuthor',
+    fields: [
+      astBuilder.FieldDefinition({
+        name: 'name',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
+      astBuilder.FieldDefinition({
+        name: 'email',
+        required: true,
+        type: astBuilder.TYPES.String,
+      }),
     ],
   }),
   astBuilder.ObjectTypeDefinition({
@@ -2,7 +2,9 @@ import fs from 'fs-extra'
 import fg from 'fast-glob'
 import path from 'path'
 import normalize from 'normalize-path'
-import type { Bridge } from './index'
+import git from 'isomorphic-git'
+import type { Bridge, BridgeCommit } from './index'
+import { logFile, readFileAtRevision } from './git-history'
 
 /**
  * This is the bridge from whatever datasource we need for I/O.
@@ -40,6 +42,56 @@ export class FilesystemBridge implements Bridge {
     const basePath = basePathOverride || this.outputPath
     await fs.outputFileSync(path.join(basePath, filepath), data)
   }
+
+  /**
+   * The git repository the files are in (if any) and the path of `filepath` in it
+   */
+  private async gitLocation(filepath: string) {
+    const absolutePath = path.resolve(this.outputPath, filepath)
+    try {
+      const dir = await git.findRoot({ fs, filepath: this.outputPath })
+      return {
+        dir,
+        filepath: normalize(path.relative(dir, absolutePath)),
+      }
+    } catch (error) {
+      return null
+    }
+  }
+
+  /**
+   * The commits of the checked out branch which changed the file, most recent first.
+   * Uncommitted changes aren't included, and there is no history outside of a git repository
+   */
+  public async history(filepath: string): Promise<BridgeCommit[]> {
+    const location = await this.gitLocation(filepath)
+    if (!location) {
+      return []
+    }
+    try {
+      return await logFile(
+        { fs, dir: location.dir },
+        { ref: 'HEAD', filepath: location.filepath }
+      )
+    } catch (error) {
+      // eg. the repository has no commits yet
+      return []
+    }
+  }
+
+  /**
+   * The content of the file at the given commit, branch or tag
+   */
+  public async getAtRevision(filepath: string, ref: string) {
+    const location = await this.gitLocation(filepath)
+    if (!location) {
+      throw new Error(`${this.outputPath} is not in a git repository`)
+    }
+    return readFileAtRevision(
+      { fs, dir: location.dir },
+      { ref, filepath: location.filepath }
+    )
+  }
 }
 
 /**
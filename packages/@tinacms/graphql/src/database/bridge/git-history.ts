@@ -0,0 +1,52 @@
+import git, { CallbackFsClient, PromiseFsClient } from 'isomorphic-git'
+import type { BridgeCommit } from './index'
+
+type GitConfig = {
+  fs: CallbackFsClient | PromiseFsClient
+  dir: string
+  gitdir?: string
+  cache?: object
+}
+
+/**
+ * The oid of a branch, tag or (abbreviated) commit. Refs are tried first,
+ * so a branch named like a hex string (eg. `cafe`) isn't taken for an oid
+ */
+export const resolveRevision = async (config: GitConfig, ref: string) => {
+  try {
+    return await git.resolveRef({ ...config, ref })
+  } catch (error) {
+    if (!/^[0-9a-f]{4,40}$/i.test(ref)) {
+      throw error
+    }
+    return git.expandOid({ ...config, oid: ref })
+  }
+}
+
+/**
+ * The commits of `ref` which changed `filepath`, most recent first
+ */
+export const logFile = async (
+  config: GitConfig,
+  { ref, filepath }: { ref: string; filepath: string }
+): Promise<BridgeCommit[]> => {
+  const commits = await git.log({ ...config, ref, filepath, force: true })
+  return commits.map(({ oid, commit }) => ({
+    ref: oid,
+    message: commit.message.trim(),
+    author: { name: commit.author.name, email: commit.author.email },
+    date: new Date(commit.author.timestamp * 1000).toISOString(),
+  }))
+}
+
+/**
+ * The content of `filepath` at the given commit, branch or tag
+ */
+export const readFileAtRevision = async (
+  config: GitConfig,
+  { ref, filepath }: { ref: string; filepath: string }
+) => {
+  const oid = await resolveRevision(config, ref)
+  const { blob } = await git.readBlob({ ...config, oid, filepath })
+  return Buffer.from(blob).toString('utf8')
+}
@@ -1,9 +1,39 @@
+export type BridgeBatchOperation =
+  | { type: 'put'; filepath: string; data: string }
+  | { type: 'delete'; filepath: string }
+
+/**
+ * A revision of a file, as returned by `bridge.history`
+ */
+export type BridgeCommit = {
+  ref: string
+  message: string
+  author: { name: string; email: string }
+  date: string
+}
+
 export interface Bridge {
   rootPath: string
   glob(pattern: string, extension: string): Promise<string[]>
   delete(filepath: string): Promise<void>
   get(filepath: string): Promise<string>
   put(filepath: string, data: string): Promise<void>
+  /**
+   * Optionally, the bridge can apply several
+   * puts and deletes at once (eg. as a single commit),
+   * otherwise they are applied one by one.
+   */
+  batch?(operations: BridgeBatchOperation[]): Promise<void>
+  /**
+   * Optionally, the bridge can keep track of the revisions
+   * of a file, most recent first.
+   */
+  history?(filepath: string): Promise<BridgeCommit[]>
+  /**
+   * Optionally, the bridge can return the content
+   * of a file at a previous revision.
+   */
+  getAtRevision?(filepath: string, ref: string): Promise<string>
   /**
    * Optionally, the bridge can perform
    * operations in a separate path.
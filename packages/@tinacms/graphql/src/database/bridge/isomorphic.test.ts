@@ -1,6 +1,7 @@
 import fs from 'fs'
 import git from 'isomorphic-git'
 import { IsomorphicBridge } from './isomorphic'
+import { FilesystemBridge } from './filesystem'
 
 // Fix issue with test timing out
 jest.setTimeout(20000)
@@ -246,4 +247,144 @@ describe('isomorphic bridge', () => {
       ])
     })
   })
+  describe.each([['repo'], ['monorepo']])('batch with %p', (repoType) => {
+    let bridge: IsomorphicBridge
+    let gitRoot: string
+    beforeEach(() => {
+      bridge = bridgeMap[repoType]
+      gitRoot = repoType === 'repo' ? repoDir : monorepoDir
+    })
+
+    test('puts and deletes with a single commit', async () => {
+      await bridge.batch([
+        {
+          type: 'put',
+          filepath: 'content/posts/anotherPost.mdx',
+          data: '# My Updated Post',
+        },
+        {
+          type: 'put',
+          filepath: 'content/bios/bio1.mdx',
+          data: '# My First Bio',
+        },
+        { type: 'delete', filepath: 'content/authors/napoleon.mdx' },
+        { type: 'delete', filepath: 'content/authors/pedro.mdx' },
+      ])
+      const result = await bridge.glob('content', '.mdx')
+      expect(result).toEqual([
+        'content/bios/bio1.mdx',
+        'content/posts/anotherPost.mdx',
+        'content/posts/voteForPedro.mdx',
+      ])
+      expect(await bridge.get('content/posts/anotherPost.mdx')).toEqual(
+        '# My Updated Post'
+      )
+      const commits = await git.log({ fs, dir: gitRoot })
+      expect(commits.map(({ commit }) => commit.message.trim())).toEqual([
+        'Update from GraphQL client',
+        'Setup test',
+      ])
+    })
+
+    test('non-existent post', async () => {
+      await expect(
+        bridge.batch([
+          { type: 'put', filepath: 'content/posts/new.mdx', data: '# New' },
+          { type: 'delete', filepath: 'content/posts/foobar.mdx' },
+        ])
+      ).rejects.toMatchInlineSnapshot(
+        `[GraphQLError: Unable to resolve path: content/posts/foobar.mdx]`
+      )
+      const commits = await git.log({ fs, dir: gitRoot })
+      expect(commits.length).toEqual(1)
+    })
+  })
+  describe.each([['repo'], ['monorepo']])('history with %p', (repoType) => {
+    let bridge: IsomorphicBridge
+    beforeEach(() => {
+      bridge = bridgeMap[repoType]
+    })
+
+    test('lists the commits which changed a file', async () => {
+      const filepath = 'content/posts/anotherPost.mdx'
+      await bridge.put(filepath, '# My Updated Post')
+      await bridge.put('content/posts/voteForPedro.mdx', '# Vote For Me')
+      const history = await bridge.history(filepath)
+      expect(
+        history.map(({ message, author }) => ({ message, author }))
+      ).toEqual([
+        {
+          message: 'Update from GraphQL client',
+          author: { name: authorName, email: authorEmail },
+        },
+        {
+          message: 'Setup test',
+          author: { name: authorName, email: authorEmail },
+        },
+      ])
+      expect(await bridge.getAtRevision(filepath, history[1].ref)).toEqual(
+        contentMap[filepath]
+      )
+      expect(
+        await bridge.getAtRevision(filepath, history[0].ref.slice(0, 7))
+      ).toEqual('# My Updated Post')
+    })
+
+    test('resolves branches named like a commit', async () => {
+      const filepath = 'content/posts/anotherPost.mdx'
+      await git.branch({ fs, dir: bridge.isomorphicConfig.dir, ref: 'cafe' })
+      await bridge.put(filepath, '# My Updated Post')
+      expect(await bridge.getAtRevision(filepath, 'cafe')).toEqual(
+        contentMap[filepath]
+      )
+    })
+  })
+
+  describe.each([['repo'], ['monorepo']])(
+    'filesystem bridge history with %p',
+    (repoType) => {
+      let dir: string
+      let bridge: FilesystemBridge
+      let qualifiedPath: (filepath: string) => string
+      beforeEach(() => {
+        dir = repoType === 'repo' ? repoDir : monorepoDir
+        bridge = new FilesystemBridge(
+          repoType === 'repo' ? repoDir : `${monorepoDir}/${pathToTina}`
+        )
+        qualifiedPath = (filepath) =>
+          repoType === 'repo' ? filepath : `${pathToTina}/${filepath}`
+      })
+
+      test('lists the commits which changed a file', async () => {
+        const filepath = 'content/posts/anotherPost.mdx'
+        await bridge.put(filepath, '# My Updated Post')
+        await git.add({ fs, dir, filepath: qualifiedPath(filepath) })
+        await git.commit({
+          fs,
+          dir,
+          author: { name: authorName, email: authorEmail },
+          message: 'Update post',
+        })
+        await bridge.put(filepath, '# An uncommitted change')
+
+        const history = await bridge.history(filepath)
+        expect(history.map(({ message }) => message)).toEqual([
+          'Update post',
+          'Setup test',
+        ])
+        expect(await bridge.getAtRevision(filepath, history[1].ref)).toEqual(
+          contentMap[filepath]
+        )
+        expect(await bridge.getAtRevision(filepath, 'main')).toEqual(
+          '# My Updated Post'
+        )
+      })
+
+      test('has no history outside of a git repository', async () => {
+        const outside = new FilesystemBridge(`${root}/not-a-repo`)
+        await outside.put('content/posts/post.md', '# Post')
+        expect(await outside.history('content/posts/post.md')).toEqual([])
+      })
+    }
+  )
 })
@@ -6,11 +6,12 @@ import git, {
   WalkerEntry,
 } from 'isomorphic-git'
 import fs from 'fs-extra'
-import type { Bridge } from './index'
+import type { Bridge, BridgeBatchOperation, BridgeCommit } from './index'
 import globParent from 'glob-parent'
 import normalize from 'normalize-path'
 import { GraphQLError } from 'graphql'
 import { dirname } from 'path'
+import { logFile, readFileAtRevision } from './git-history'
 
 const flat =
   typeof Array.prototype.flat === 'undefined'
@@ -292,6 +293,92 @@ export class IsomorphicBridge implements Bridge {
     }
   }
 
+  /**
+   * Applies a set of changes to a tree and its subtrees, returning the OID of the
+   * updated tree, or undefined when the tree is left empty
+   *
+   * @param oid - the OID of the existing tree, if any
+   * @param changes - map of paths relative to the tree to the updated blob OID, or null to remove the blob
+   * @param path - the path of the tree, used for error messages
+   * @private
+   */
+  private async updateTree(
+    oid: string | undefined,
+    changes: Record<string, string | null>,
+    path: string
+  ): Promise<string | undefined> {
+    const existingTree: TreeEntry[] = oid
+      ? (
+          await git.readTree({
+            ...this.isomorphicConfig,
+            oid,
+            cache: this.cache,
+          })
+        ).tree
+      : []
+    let tree = existingTree
+    const subtreeChanges: Record<string, Record<string, string | null>> = {}
+    for (const [filepath, blobOid] of Object.entries(changes)) {
+      const [name, ...rest] = filepath.split('/')
+      if (rest.length) {
+        subtreeChanges[name] = {
+          ...subtreeChanges[name],
+          [rest.join('/')]: blobOid,
+        }
+        continue
+      }
+      const existingEntry = existingTree.find(
+        (entry) => entry.path === name && entry.type === 'blob'
+      )
+      if (blobOid === null && !existingEntry) {
+        throw new GraphQLError(
+          `Unable to resolve path: ${this.unqualifyPath(
+            path ? `${path}/${name}` : name
+          )}`,
+          null,
+          null,
+          null,
+          null,
+          null,
+          { status: 404 }
+        )
+      }
+      tree = tree.filter((entry) => entry.path !== name)
+      if (blobOid !== null) {
+        tree.push({
+          mode: existingEntry?.mode || '100644',
+          path: name,
+          oid: blobOid,
+          type: 'blob',
+        })
+      }
+    }
+
+    for (const [name, nestedChanges] of Object.entries(subtreeChanges)) {
+      const existingEntry = tree.find(
+        (entry) => entry.path === name && entry.type === 'tree'
+      )
+      const updatedOid = await this.updateTree(
+        existingEntry?.oid,
+        nestedChanges,
+        path ? `${path}/${name}` : name
+      )
+      tree = tree.filter((entry) => entry.path !== name)
+      // Empty folders are removed from the tree
+      if (updatedOid) {
+        tree.push({ mode: '040000', path: name, oid: updatedOid, type: 'tree' })
+      }
+    }
+
+    if (!tree.length) {
+      return undefined
+    }
+    return git.writeTree({
+      ...this.isomorphicConfig,
+      tree,
+    })
+  }
+
   /**
    * Creates a commit for the specified tree and updates the specified ref to point to the commit
    *
@@ -496,6 +583,26 @@ export class IsomorphicBridge implements Bridge {
     return Buffer.from(blob).toString('utf8')
   }
 
+  /**
+   * The commits which changed the file, most recent first
+   */
+  public async history(filepath: string): Promise<BridgeCommit[]> {
+    return logFile(
+      { ...this.isomorphicConfig, cache: this.cache },
+      { ref: await this.getRef(), filepath: this.qualifyPath(filepath) }
+    )
+  }
+
+  /**
+   * The content of the file at the given commit, branch or tag
+   */
+  public async getAtRevision(filepath: string, ref: string) {
+    return readFileAtRevision(
+      { ...this.isomorphicConfig, cache: this.cache },
+      { ref, filepath: this.qualifyPath(filepath) }
+    )
+  }
+
   public async put(filepath: string, data: string) {
     const ref = await this.getRef()
     const { pathParts, pathEntries } = await this.resolvePathEntries(
@@ -542,4 +649,61 @@ export class IsomorphicBridge implements Bridge {
 
     await this.onPut(filepath, data)
   }
+
+  /**
+   * Applies all of the operations with a single commit
+   */
+  public async batch(operations: BridgeBatchOperation[]) {
+    const ref = await this.getRef()
+    const commitOid = await git.resolveRef({
+      ...this.isomorphicConfig,
+      ref,
+    })
+    const { commit } = await git.readCommit({
+      ...this.isomorphicConfig,
+      oid: commitOid,
+      cache: this.cache,
+    })
+
+    const changes: Record<string, string | null> = {}
+    for (const operation of operations) {
+      changes[this.qualifyPath(operation.filepath)] =
+        operation.type === 'put'
+          ? await git.writeBlob({
+              ...this.isomorphicConfig,
+              blob: toUint8Array(Buffer.from(operation.data)),
+            })
+          : null
+    }
+
+    const updatedRootSha =
+      (await this.updateTree(commit.tree, changes, '')) ||
+      (await git.writeTree({ ...this.isomorphicConfig, tree: [] }))
+    if (updatedRootSha !== commit.tree) {
+      await this.commitTree(updatedRootSha, ref)
+    }
+
+    for (const operation of operations) {
+      const filepath = this.qualifyPath(operation.filepath)
+      if (operation.type === 'put') {
+        await git.updateIndex({
+          ...this.isomorphicConfig,
+          filepath,
+          add: true,
+          oid: changes[filepath],
+          cache: this.cache,
+        })
+        await this.onPut(operation.filepath, operation.data)
+      } else {
+        await git.updateIndex({
+          ...this.isomorphicConfig,
+          filepath,
+          force: true,
+          remove: true,
+          cache: this.cache,
+        })
+        await this.onDelete(operation.filepath)
+      }
+    }
+  }
 }
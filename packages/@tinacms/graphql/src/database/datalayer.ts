@@ -528,6 +528,70 @@ export const makeFilterChain = ({
   return filterChain
 }
 
+/** A field to sort by, documents with the same value are sorted by the next field */
+export type SortOption = {
+  field: string
+  order?: 'ASC' | 'DESC'
+}
+
+/**
+ * The name of the index which stores the documents in the order of `orderBy`,
+ * either the index of a single field or one of the `indexes` of the collection.
+ * An index can only be scanned in one direction so every field needs the same order
+ */
+export const findIndexForOrderBy = (
+  indexDefinitions: Record<string, IndexDefinition>,
+  orderBy: SortOption[]
+): string | undefined => {
+  const order = orderBy[0].order || 'ASC'
+  if (orderBy.some((option) => (option.order || 'ASC') !== order)) {
+    return
+  }
+  return Object.keys(indexDefinitions).find((name) => {
+    const fields = indexDefinitions[name].fields
+    return (
+      fields.length === orderBy.length &&
+      fields.every((field, idx) => field.name === orderBy[idx].field)
+    )
+  })
+}
+
+const isMissing = (value: unknown) => value === undefined || value === null
+
+const compareValues = (a: unknown, b: unknown) => {
+  if (isMissing(a)) {
+    return isMissing(b) ? 0 : 1
+  }
+  if (isMissing(b)) {
+    return -1
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b
+  }
+  const left = String(a)
+  const right = String(b)
+  return left < right ? -1 : left > right ? 1 : 0
+}
+
+/**
+ * Compare two documents according to `orderBy`, used when no index matches
+ */
+export const makeOrderByComparator =
+  (orderBy: SortOption[]) =>
+  (a: Record<string, unknown>, b: Record<string, unknown>) => {
+    for (const { field, order } of orderBy) {
+      const result = compareValues(a[field], b[field])
+      if (result !== 0) {
+        // missing values come last in either order
+        if (isMissing(a[field]) || isMissing(b[field])) {
+          return result
+        }
+        return order === 'DESC' ? -result : result
+      }
+    }
+    return 0
+  }
+
 export const makeFilterSuffixes = (
   filterChain: (BinaryFilter | TernaryFilter)[],
   index: IndexDefinition
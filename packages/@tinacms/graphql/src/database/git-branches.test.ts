@@ -0,0 +1,64 @@
+import os from 'os'
+import path from 'path'
+import fs from 'fs-extra'
+import git from 'isomorphic-git'
+import {
+  createGitBranch,
+  findGitRoot,
+  listGitBranches,
+  switchGitBranch,
+} from './git-branches'
+
+describe('git branches', () => {
+  let dir: string
+  const author = { name: 'Pedro Test', email: 'pedro-test@forestry.io' }
+  const commit = async (filepath: string, content: string) => {
+    await fs.outputFile(path.join(dir, filepath), content)
+    await git.add({ fs, dir, filepath })
+    return git.commit({ fs, dir, author, message: `Update ${filepath}` })
+  }
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'tinacms-git-branches-'))
+    await git.init({ fs, dir, defaultBranch: 'main' })
+    await commit('content/posts/hello.md', '# Hello')
+  })
+  afterEach(async () => {
+    await fs.remove(dir)
+  })
+
+  it('finds the root of the repository', async () => {
+    expect(await findGitRoot(path.join(dir, 'content/posts'))).toEqual(
+      dir.replace(/\\/g, '/')
+    )
+  })
+  it('creates and switches branches', async () => {
+    const sha = await git.resolveRef({ fs, dir, ref: 'main' })
+    await createGitBranch(dir, { baseBranch: 'main', branchName: 'feature' })
+    expect(await listGitBranches(dir)).toEqual([
+      { name: 'feature', current: false, commit: { sha } },
+      { name: 'main', current: true, commit: { sha } },
+    ])
+
+    await switchGitBranch(dir, 'feature')
+    await commit('content/posts/hello.md', '# Hello from feature')
+    await switchGitBranch(dir, 'main')
+    expect(
+      await fs.readFile(path.join(dir, 'content/posts/hello.md'), 'utf-8')
+    ).toEqual('# Hello')
+    expect(
+      (await listGitBranches(dir)).map((branch) => branch.current)
+    ).toEqual([false, true])
+  })
+  it('keeps local changes', async () => {
+    await createGitBranch(dir, { baseBranch: 'main', branchName: 'feature' })
+    await switchGitBranch(dir, 'feature')
+    await commit('content/posts/hello.md', '# Hello from feature')
+    await fs.writeFile(path.join(dir, 'content/posts/hello.md'), '# Unsaved')
+
+    await expect(switchGitBranch(dir, 'main')).rejects.toMatchObject({
+      code: 'CheckoutConflictError',
+    })
+    expect(await git.currentBranch({ fs, dir })).toEqual('feature')
+  })
+})
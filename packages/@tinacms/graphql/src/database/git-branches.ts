@@ -0,0 +1,68 @@
+/**
+
+*/
+
+import git from 'isomorphic-git'
+import fs from 'fs-extra'
+import normalize from 'normalize-path'
+
+export type GitBranch = {
+  name: string
+  /** Whether the branch is checked out */
+  current: boolean
+  commit: { sha: string }
+}
+
+/**
+ * The root of the git repository which `filepath` belongs to
+ */
+export const findGitRoot = (filepath: string) =>
+  git.findRoot({ fs, filepath: normalize(filepath) })
+
+/**
+ * The checked out branch, `undefined` when HEAD is detached
+ */
+export const currentGitBranch = async (gitRoot: string) =>
+  (await git.currentBranch({ fs, dir: normalize(gitRoot) })) || undefined
+
+/**
+ * The local branches of the repository, sorted by name
+ */
+export const listGitBranches = async (
+  gitRoot: string
+): Promise<GitBranch[]> => {
+  const config = { fs, dir: normalize(gitRoot) }
+  const current = await git.currentBranch(config)
+  const branches = await git.listBranches(config)
+  return Promise.all(
+    branches.sort().map(async (name) => ({
+      name,
+      current: name === current,
+      commit: { sha: await git.resolveRef({ ...config, ref: name }) },
+    }))
+  )
+}
+
+/**
+ * Create `branchName` at the head of `baseBranch`, without checking it out
+ */
+export const createGitBranch = async (
+  gitRoot: string,
+  { baseBranch, branchName }: { baseBranch: string; branchName: string }
+) => {
+  await git.branch({
+    fs,
+    dir: normalize(gitRoot),
+    ref: branchName,
+    object: baseBranch,
+  })
+  return branchName
+}
+
+/**
+ * Check out `branchName`. Fails without changing any file when a local
+ * change would be overwritten
+ */
+export const switchGitBranch = async (gitRoot: string, branchName: string) => {
+  await git.checkout({ fs, dir: normalize(gitRoot), ref: branchName })
+}
@@ -6,23 +6,33 @@ import micromatch from 'micromatch'
 
 import { createSchema } from '../schema/createSchema'
 import { atob, btoa, lastItem, sequential } from '../util'
-import { normalizePath, parseFile, stringifyFile } from './util'
+import {
+  normalizePath,
+  paginateByOffset,
+  parseOffsetCursor,
+  parseFile,
+  stringifyFile,
+} from './util'
+import { getDocumentLocale, getPublishStatus } from '@tinacms/schema-tools'
 import type {
   Collection,
   CollectionTemplateable,
+  PublishStatus,
   Schema,
   Template,
   TinaCloudCollection,
   TinaField,
   TinaSchema,
+  WebhookEvent,
 } from '@tinacms/schema-tools'
-import type { Bridge } from './bridge'
+import type { Bridge, BridgeBatchOperation } from './bridge'
 import { TinaFetchError, TinaQueryError } from '../resolver/error'
 import {
   BinaryFilter,
   coerceFilterChainOperands,
   DEFAULT_COLLECTION_SORT_KEY,
   DEFAULT_NUMERIC_LPAD,
+  findIndexForOrderBy,
   FOLDER_ROOT,
   FolderTreeBuilder,
   IndexDefinition,
@@ -30,6 +40,8 @@ import {
   makeFilterSuffixes,
   makeFolderOpsForCollection,
   makeIndexOpsForDocument,
+  makeOrderByComparator,
+  SortOption,
   TernaryFilter,
 } from './datalayer'
 import {
@@ -44,6 +56,22 @@ import {
   SUBLEVEL_OPTIONS,
 } from './level'
 import { replaceNameOverrides, applyNameOverrides } from './alias-utils'
+import {
+  makeSearchDeleteOps,
+  makeSearchOpsForDocument,
+  searchIndex,
+} from './search'
+import {
+  findReferrers,
+  makeReferenceDeleteOps,
+  makeReferenceOpsForDocument,
+} from './references'
+import {
+  findMediaUsage,
+  makeMediaUsageDeleteOps,
+  makeMediaUsageOpsForDocument,
+} from './media-usage'
+import type { WebhookDispatcher } from './webhooks'
 import sha from 'js-sha1'
 
 type IndexStatusEvent = {
@@ -62,6 +90,12 @@ export type CreateDatabase = {
   tinaDirectory?: string
   indexStatusCallback?: IndexStatusCallback
   version?: boolean
+  /** Notified when documents are created, updated and deleted */
+  webhooks?: WebhookDispatcher
+  /** Where the drafts are kept, defaults to `level` */
+  draftLevel?: Level
+  /** The branch of the content, drafts are kept per branch */
+  branch?: string
 }
 
 export const createDatabase = (config: CreateDatabase) => {
@@ -72,6 +106,8 @@ export const createDatabase = (config: CreateDatabase) => {
   })
 }
 const SYSTEM_FILES = ['_schema', '_graphql', '_lookup']
+/** Drafts are kept outside of the versioned level so that they survive a reindex */
+const DRAFTS_PREFIX = '_drafts'
 
 /** Options for {@link Database.query} **/
 export type QueryOptions = {
@@ -82,6 +118,8 @@ export type QueryOptions = {
   filterChain?: (BinaryFilter | TernaryFilter)[]
   /* sort (either field or index) */
   sort?: string
+  /* sort by several fields, takes precedence over `sort` */
+  orderBy?: SortOption[]
   /* limit results to first N items */
   first?: number
   /* limit results to last N items */
@@ -92,6 +130,50 @@ export type QueryOptions = {
   before?: string
   /* folder to query */
   folder?: string
+  /* only include documents with this publish status (for collections with `publishing`) */
+  status?: PublishStatus
+  /* only include documents in this locale (for collections with `i18n`) */
+  locale?: string
+}
+
+/** Options for {@link Database.search} **/
+export type SearchOptions = {
+  /* the search terms */
+  query: string
+  /* limit results to these collections */
+  collections?: string[]
+  /* limit results to first N items */
+  first?: number
+  /* specify cursor to start results at */
+  after?: string
+}
+
+export type ReferencedByOptions = {
+  /* the path of the referenced document */
+  path: string
+  /* limit results to documents in these collections */
+  collections?: string[]
+  /* limit results to first N items */
+  first?: number
+  /* specify cursor to start results at */
+  after?: string
+}
+
+/**
+ * A document to put or delete with `database.batch`
+ */
+export type DocumentBatchOperation =
+  | {
+      type: 'put'
+      filepath: string
+      data: { [key: string]: unknown }
+      collection?: string
+    }
+  | { type: 'delete'; filepath: string }
+
+export type HistoryOptions = {
+  first?: number
+  after?: string
 }
 
 const defaultStatusCallback: IndexStatusCallback = () => Promise.resolve()
@@ -104,6 +186,10 @@ export class Database {
   public level: Level | undefined
   public tinaDirectory: string
   public indexStatusCallback: IndexStatusCallback | undefined
+  public webhooks: WebhookDispatcher | undefined
+  /** The branch of the content, set it when switching branches to switch drafts as well */
+  public branch: string | undefined
+  private draftLevel: Level | undefined
   private onPut: OnPutCallback
   private onDelete: OnDeleteCallback
   private tinaSchema: TinaSchema | undefined
@@ -122,6 +208,11 @@ export class Database {
       config.indexStatusCallback || defaultStatusCallback
     this.onPut = config.onPut || defaultOnPut
     this.onDelete = config.onDelete || defaultOnDelete
+    this.webhooks = config.webhooks
+    this.branch = config.branch
+    this.draftLevel =
+      config.draftLevel &&
+      (new LevelProxy(config.draftLevel) as unknown as Level)
   }
 
   private collectionForPath = async (
@@ -192,7 +283,6 @@ export class Database {
       throw new Error(`Unexpected get for config file ${filepath}`)
     } else {
       const tinaSchema = await this.getSchema(this.level)
-      const extension = path.extname(filepath)
       const contentObject = await this.level
         .sublevel<string, Record<string, any>>(
           CONTENT_ROOT_PREFIX,
@@ -203,53 +293,199 @@ export class Database {
       if (!contentObject) {
         throw new GraphQLError(`Unable to find record ${filepath}`)
       }
-      const templateName =
-        hasOwnProperty(contentObject, '_template') &&
-        typeof contentObject._template === 'string'
-          ? contentObject._template
-          : undefined
-      const { collection, template } = hasOwnProperty(
-        contentObject,
-        '__collection'
+      return this.formatContentObject<T>(filepath, contentObject, tinaSchema)
+    }
+  }
+
+  /**
+   * A hash of the content file of a document, which changes whenever the file does.
+   * It's read from the file, so it's only computed when it's needed
+   */
+  public getContentHash = async (filepath: string) => {
+    if (!this.bridge) {
+      return null
+    }
+    return sha.hex(await this.bridge.get(normalizePath(filepath)))
+  }
+
+  /**
+   * The content of a document at a previous revision, in the same shape as `database.get`.
+   * This requires a bridge which keeps track of revisions, like the `IsomorphicBridge`
+   * or the `FilesystemBridge` in a git repository
+   */
+  public getAtRevision = async <T extends object>(
+    filepath: string,
+    ref: string
+  ): Promise<T> => {
+    await this.initLevel()
+    if (!this.bridge?.getAtRevision) {
+      throw new GraphQLError(
+        `Unable to get ${filepath} at revision ${ref}, revisions are not supported by the bridge`
       )
-        ? {
-            collection: tinaSchema.getCollection(
-              contentObject['__collection'] as string
-            ),
-            template: undefined,
-          } // folders have no templates
-        : tinaSchema.getCollectionAndTemplateByFullPath(filepath, templateName)
-
-      const field = template?.fields.find((field) => {
-        if (field.type === 'string' || field.type === 'rich-text') {
-          if (field.isBody) {
-            return true
-          }
-        }
-        return false
-      })
+    }
+    const tinaSchema = await this.getSchema(this.level)
+    const collection = await this.collectionForPath(filepath)
+    let dataString: string
+    try {
+      dataString = await this.bridge.getAtRevision(normalizePath(filepath), ref)
+    } catch (error) {
+      throw new GraphQLError(
+        `Unable to find ${filepath} at revision ${ref}: ${error.message}`
+      )
+    }
+    const data = parseFile(
+      dataString,
+      path.extname(filepath),
+      (yup) => yup.object({}),
+      {
+        frontmatterDelimiters: collection?.frontmatterDelimiters,
+        frontmatterFormat: collection?.frontmatterFormat,
+      }
+    )
+    const templateInfo = tinaSchema.getTemplatesForCollectable(collection)
+    const template = getTemplateForFile(templateInfo, data as any)
+    if (!template) {
+      throw new GraphQLError(
+        `Unable to determine the template of ${filepath} at revision ${ref}`
+      )
+    }
+    return this.formatContentObject<T>(
+      filepath,
+      replaceNameOverrides(template, data),
+      tinaSchema
+    )
+  }
+
+  /**
+   * The revisions of a document, most recent first, paginated with offset-based cursors.
+   * The connection is empty when the bridge doesn't keep track of revisions
+   */
+  public history = async (filepath: string, options: HistoryOptions = {}) => {
+    const { first, after } = options
+    const commits = this.bridge?.history
+      ? await this.bridge.history(normalizePath(filepath))
+      : []
+
+    const { totalCount, edges, pageInfo } = paginateByOffset(commits, {
+      first,
+      after,
+    })
+    return {
+      totalCount,
+      edges: edges.map(({ item, cursor }) => ({ node: item, cursor })),
+      pageInfo,
+    }
+  }
+
+  private getDraftLevel = () =>
+    (this.draftLevel || this.rootLevel).sublevel<string, Record<string, any>>(
+      DRAFTS_PREFIX,
+      SUBLEVEL_OPTIONS
+    )
+
+  /** Drafts are keyed by branch, so they don't follow a branch switch */
+  private getDraftKey = (filepath: string) =>
+    this.branch
+      ? `${this.branch}${INDEX_KEY_FIELD_SEPARATOR}${normalizePath(filepath)}`
+      : normalizePath(filepath)
+
+  /**
+   * The draft of a document in the same shape as `database.get`,
+   * or `undefined` when the document has no draft
+   */
+  public getDraft = async <T extends object>(
+    filepath: string
+  ): Promise<T | undefined> => {
+    await this.initLevel()
+    const draft = await this.getDraftLevel().get(this.getDraftKey(filepath))
+    if (!draft) {
+      return undefined
+    }
+    const tinaSchema = await this.getSchema(this.level)
+    return this.formatContentObject<T>(filepath, draft, tinaSchema)
+  }
+
+  /**
+   * Save a draft of a document, the content file and the index are left untouched
+   * until the draft is published with `database.publishDraft`
+   */
+  public putDraft = async (
+    filepath: string,
+    data: { [key: string]: unknown }
+  ) => {
+    await this.initLevel()
+    const dataFields = await this.formatBodyOnPayload(filepath, data)
+    await this.getDraftLevel().put(this.getDraftKey(filepath), dataFields)
+  }
+
+  public deleteDraft = async (filepath: string) => {
+    await this.getDraftLevel().del(this.getDraftKey(filepath))
+  }
+
+  /**
+   * Write the draft of a document to its content file and discard the draft
+   */
+  public publishDraft = async (filepath: string, collectionName?: string) => {
+    const draft = await this.getDraft<{ [key: string]: unknown }>(filepath)
+    if (!draft) {
+      throw new GraphQLError(`Unable to find a draft of ${filepath}`)
+    }
+    await this.put(filepath, draft, collectionName)
+    await this.deleteDraft(filepath)
+  }
+
+  private formatContentObject = <T extends object>(
+    filepath: string,
+    contentObject: Record<string, any>,
+    tinaSchema: TinaSchema
+  ): T => {
+    const extension = path.extname(filepath)
+    const templateName =
+      hasOwnProperty(contentObject, '_template') &&
+      typeof contentObject._template === 'string'
+        ? contentObject._template
+        : undefined
+    const { collection, template } = hasOwnProperty(
+      contentObject,
+      '__collection'
+    )
+      ? {
+          collection: tinaSchema.getCollection(
+            contentObject['__collection'] as string
+          ),
+          template: undefined,
+        } // folders have no templates
+      : tinaSchema.getCollectionAndTemplateByFullPath(filepath, templateName)
 
-      let data = contentObject
-      if ((extension === '.md' || extension === '.mdx') && field) {
-        if (hasOwnProperty(contentObject, '$_body')) {
-          const { $_body, ...rest } = contentObject
-          data = rest
-          data[field.name] = $_body as object
+    const field = template?.fields.find((field) => {
+      if (field.type === 'string' || field.type === 'rich-text') {
+        if (field.isBody) {
+          return true
         }
       }
-      return {
-        ...data,
-        _collection: collection.name,
-        _keepTemplateKey: !!collection.templates,
-        _template: template?.namespace
-          ? lastItem(template?.namespace)
-          : undefined,
-        _relativePath: filepath
-          .replace(collection.path, '')
-          .replace(/^\/|\/$/g, ''),
-        _id: filepath,
-      } as T
+      return false
+    })
+
+    let data = contentObject
+    if ((extension === '.md' || extension === '.mdx') && field) {
+      if (hasOwnProperty(contentObject, '$_body')) {
+        const { $_body, ...rest } = contentObject
+        data = rest
+        data[field.name] = $_body as object
+      }
     }
+    return {
+      ...data,
+      _collection: collection.name,
+      _keepTemplateKey: !!collection.templates,
+      _template: template?.namespace
+        ? lastItem(template?.namespace)
+        : undefined,
+      _relativePath: filepath
+        .replace(collection.path, '')
+        .replace(/^\/|\/$/g, ''),
+      _id: filepath,
+    } as T
   }
 
   public addPendingDocument = async (
@@ -357,58 +593,239 @@ export class Database {
       if (SYSTEM_FILES.includes(filepath)) {
         throw new Error(`Unexpected put for config file ${filepath}`)
       } else {
-        let collectionIndexDefinitions
-        if (collectionName) {
-          const indexDefinitions = await this.getIndexDefinitions(this.level)
-          collectionIndexDefinitions = indexDefinitions?.[collectionName]
-        }
-
-        const normalizedPath = normalizePath(filepath)
-        const dataFields = await this.formatBodyOnPayload(filepath, data)
-        const collection = await this.collectionForPath(filepath)
-
-        // If a collection match is specified, make sure the file matches the glob.
-        // TODO: Maybe we should service this error better in the frontend?
-        if (collection.match?.exclude || collection.match?.include) {
-          const matches = this.tinaSchema.getMatches({ collection })
-
-          const match = micromatch.isMatch(filepath, matches)
-
-          if (!match) {
-            throw new GraphQLError(
-              `File ${filepath} does not match collection ${
-                collection.name
-              } glob ${matches.join(
-                ','
-              )}. Please change the filename or update matches for ${
-                collection.name
-              } in your config file.`
-            )
-          }
-        }
-
-        const stringifiedFile = await this.stringifyFile(
+        const { normalizedPath, stringifiedFile, ops } = await this.makePutOps(
           filepath,
-          dataFields,
-          collection
+          data,
+          collectionName
         )
 
+        const event = await this.getPutEvent(normalizedPath)
         if (this.bridge) {
           await this.bridge.put(normalizedPath, stringifiedFile)
         }
         await this.onPut(normalizedPath, stringifiedFile)
-        const folderTreeBuilder = new FolderTreeBuilder()
-        const folderKey = folderTreeBuilder.update(
-          filepath,
-          collection.path || ''
+        await this.level.batch(ops)
+        await this.notifyWebhooks(event, normalizedPath, collectionName)
+      }
+      return true
+    } catch (error) {
+      throw new TinaFetchError(`Error in PUT for ${filepath}`, {
+        originalError: error,
+        file: filepath,
+        collection: collectionName,
+        stack: error.stack,
+      })
+    }
+  }
+
+  /**
+   * Put and delete several documents, the documents are stringified and
+   * indexed up front so that the index is updated with a single batch,
+   * and the bridge can write all of the files at once (eg. as a single commit)
+   */
+  public batch = async (operations: DocumentBatchOperation[]) => {
+    await this.initLevel()
+
+    const bridgeOperations: BridgeBatchOperation[] = []
+    const ops: BatchOp[] = []
+    const events: {
+      event: WebhookEvent
+      filepath: string
+      collection?: string
+    }[] = []
+    for (const operation of operations) {
+      if (operation.type === 'put') {
+        try {
+          if (SYSTEM_FILES.includes(operation.filepath)) {
+            throw new Error(
+              `Unexpected put for config file ${operation.filepath}`
+            )
+          }
+          const {
+            normalizedPath,
+            stringifiedFile,
+            ops: putOps,
+          } = await this.makePutOps(
+            operation.filepath,
+            operation.data,
+            operation.collection
+          )
+          bridgeOperations.push({
+            type: 'put',
+            filepath: normalizedPath,
+            data: stringifiedFile,
+          })
+          events.push({
+            event: await this.getPutEvent(normalizedPath),
+            filepath: normalizedPath,
+            collection: operation.collection,
+          })
+          ops.push(...putOps)
+        } catch (error) {
+          throw new TinaFetchError(`Error in PUT for ${operation.filepath}`, {
+            originalError: error,
+            file: operation.filepath,
+            collection: operation.collection,
+            stack: error.stack,
+          })
+        }
+      } else {
+        bridgeOperations.push({
+          type: 'delete',
+          filepath: normalizePath(operation.filepath),
+        })
+        events.push({
+          event: 'document.deleted',
+          filepath: normalizePath(operation.filepath),
+        })
+        ops.push(...(await this.makeDeleteOps(operation.filepath)))
+      }
+    }
+
+    if (this.bridge) {
+      if (this.bridge.batch) {
+        await this.bridge.batch(bridgeOperations)
+      } else {
+        await sequential(bridgeOperations, async (operation) => {
+          if (operation.type === 'put') {
+            await this.bridge.put(operation.filepath, operation.data)
+          } else {
+            await this.bridge.delete(operation.filepath)
+          }
+        })
+      }
+    }
+    await sequential(bridgeOperations, async (operation) => {
+      if (operation.type === 'put') {
+        await this.onPut(operation.filepath, operation.data)
+      } else {
+        await this.onDelete(operation.filepath)
+        await this.deleteDraft(operation.filepath)
+      }
+    })
+    await this.level.batch(ops)
+    await sequential(events, async ({ event, filepath, collection }) => {
+      await this.notifyWebhooks(event, filepath, collection)
+    })
+  }
+
+  /**
+   * Whether putting a document creates or updates it, must be called
+   * before the document is stored
+   */
+  private getPutEvent = async (
+    normalizedPath: string
+  ): Promise<WebhookEvent> => {
+    if (!this.webhooks) {
+      return 'document.updated'
+    }
+    const existing = await this.level
+      .sublevel<string, Record<string, any>>(
+        CONTENT_ROOT_PREFIX,
+        SUBLEVEL_OPTIONS
+      )
+      .get(normalizedPath)
+    return existing ? 'document.updated' : 'document.created'
+  }
+
+  /**
+   * Sends a content event to the webhooks, the deliveries aren't awaited
+   * so that slow endpoints don't hold up the change
+   */
+  private notifyWebhooks = async (
+    event: WebhookEvent,
+    filepath: string,
+    collectionName?: string
+  ) => {
+    if (!this.webhooks) {
+      return
+    }
+    const collection =
+      collectionName || (await this.collectionForPath(filepath))?.name
+    this.webhooks.dispatch(event, { path: filepath, collection })
+  }
+
+  /**
+   * Stringify a document and build the batch operations which store and index it
+   */
+  private makePutOps = async (
+    filepath: string,
+    data: { [key: string]: unknown },
+    collectionName?: string
+  ) => {
+    let collectionIndexDefinitions
+    if (collectionName) {
+      const indexDefinitions = await this.getIndexDefinitions(this.level)
+      collectionIndexDefinitions = indexDefinitions?.[collectionName]
+    }
+
+    const normalizedPath = normalizePath(filepath)
+    const dataFields = await this.formatBodyOnPayload(filepath, data)
+    const collection = await this.collectionForPath(filepath)
+
+    // If a collection match is specified, make sure the file matches the glob.
+    // TODO: Maybe we should service this error better in the frontend?
+    if (collection.match?.exclude || collection.match?.include) {
+      const matches = this.tinaSchema.getMatches({ collection })
+
+      const match = micromatch.isMatch(filepath, matches)
+
+      if (!match) {
+        throw new GraphQLError(
+          `File ${filepath} does not match collection ${
+            collection.name
+          } glob ${matches.join(
+            ','
+          )}. Please change the filename or update matches for ${
+            collection.name
+          } in your config file.`
         )
-        const putOps = [
+      }
+    }
+
+    const stringifiedFile = await this.stringifyFile(
+      filepath,
+      dataFields,
+      collection
+    )
+
+    const folderTreeBuilder = new FolderTreeBuilder()
+    const folderKey = folderTreeBuilder.update(filepath, collection.path || '')
+    const putOps = [
+      ...makeIndexOpsForDocument(
+        normalizedPath,
+        collectionName,
+        collectionIndexDefinitions,
+        dataFields,
+        'put',
+        this.level
+      ),
+      // folder indices
+      ...makeIndexOpsForDocument(
+        normalizedPath,
+        `${collection?.name}_${folderKey}`,
+        collectionIndexDefinitions,
+        dataFields,
+        'put',
+        this.level
+      ),
+    ]
+
+    const existingItem = await this.level
+      .sublevel<string, Record<string, any>>(
+        CONTENT_ROOT_PREFIX,
+        SUBLEVEL_OPTIONS
+      )
+      .get(normalizedPath)
+
+    const delOps = existingItem
+      ? [
           ...makeIndexOpsForDocument(
             normalizedPath,
             collectionName,
             collectionIndexDefinitions,
-            dataFields,
-            'put',
+            existingItem,
+            'del',
             this.level
           ),
           // folder indices
@@ -416,66 +833,56 @@ export class Database {
             normalizedPath,
             `${collection?.name}_${folderKey}`,
             collectionIndexDefinitions,
-            dataFields,
-            'put',
+            existingItem,
+            'del',
             this.level
           ),
         ]
+      : []
 
-        const existingItem = await this.level
-          .sublevel<string, Record<string, any>>(
-            CONTENT_ROOT_PREFIX,
-            SUBLEVEL_OPTIONS
-          )
-          .get(normalizedPath)
-
-        const delOps = existingItem
-          ? [
-              ...makeIndexOpsForDocument(
-                normalizedPath,
-                collectionName,
-                collectionIndexDefinitions,
-                existingItem,
-                'del',
-                this.level
-              ),
-              // folder indices
-              ...makeIndexOpsForDocument(
-                normalizedPath,
-                `${collection?.name}_${folderKey}`,
-                collectionIndexDefinitions,
-                existingItem,
-                'del',
-                this.level
-              ),
-            ]
-          : []
-
-        const ops: BatchOp[] = [
-          ...delOps,
-          ...putOps,
-          {
-            type: 'put',
-            key: normalizedPath,
-            value: dataFields,
-            sublevel: this.level.sublevel<string, Record<string, any>>(
-              CONTENT_ROOT_PREFIX,
-              SUBLEVEL_OPTIONS
-            ),
-          },
-        ]
+    const { template } = await this.getTemplateDetailsForFile(
+      collection,
+      dataFields
+    )
+    const searchOps = await makeSearchOpsForDocument(
+      this.level,
+      normalizedPath,
+      collection.name,
+      template,
+      dataFields
+    )
+    const referenceOps = await makeReferenceOpsForDocument(
+      this.level,
+      normalizedPath,
+      collection.name,
+      template,
+      dataFields
+    )
+    const mediaUsageOps = await makeMediaUsageOpsForDocument(
+      this.level,
+      normalizedPath,
+      collection.name,
+      template,
+      dataFields
+    )
 
-        await this.level.batch(ops)
-      }
-      return true
-    } catch (error) {
-      throw new TinaFetchError(`Error in PUT for ${filepath}`, {
-        originalError: error,
-        file: filepath,
-        collection: collectionName,
-        stack: error.stack,
-      })
-    }
+    const ops: BatchOp[] = [
+      ...delOps,
+      ...putOps,
+      ...searchOps,
+      ...referenceOps,
+      ...mediaUsageOps,
+      {
+        type: 'put',
+        key: normalizedPath,
+        value: dataFields,
+        sublevel: this.level.sublevel<string, Record<string, any>>(
+          CONTENT_ROOT_PREFIX,
+          SUBLEVEL_OPTIONS
+        ),
+      },
+    ]
+    return { normalizedPath, stringifiedFile, ops }
   }
 
   public async getTemplateDetailsForFile(
@@ -680,7 +1087,8 @@ export class Database {
                 if (
                   (field.indexed !== undefined && field.indexed === false) ||
                   field.type ===
-                    'object' /* TODO do we want indexes on objects? */
+                    'object' /* TODO do we want indexes on objects? */ ||
+                  (field.type === 'image' && field.metadata)
                 ) {
                   continue
                 }
@@ -713,6 +1121,11 @@ export class Database {
                       name: indexField.name,
                       type: field?.type,
                       list: !!field?.list,
+                      // numbers are padded like in single field indexes so they sort numerically
+                      pad:
+                        field?.type === 'number'
+                          ? { fillString: '0', maxLength: DEFAULT_NUMERIC_LPAD }
+                          : undefined,
                     }
                   }),
                 }
@@ -750,10 +1163,12 @@ export class Database {
       after,
       last,
       before,
-      sort = DEFAULT_COLLECTION_SORT_KEY,
       collection,
       filterChain: rawFilterChain,
       folder,
+      status,
+      locale,
+      orderBy,
     } = queryOptions
     let limit = 50
     if (first) {
@@ -762,29 +1177,45 @@ export class Database {
       limit = last
     }
 
+    const allIndexDefinitions = await this.getIndexDefinitions(this.level)
+    const indexDefinitions = allIndexDefinitions?.[queryOptions.collection]
+    if (!indexDefinitions) {
+      throw new Error(
+        `No indexDefinitions for collection ${queryOptions.collection}`
+      )
+    }
+
+    // `orderBy` is served by an index with the same fields when there is one,
+    // otherwise the documents are sorted in memory and paginated by offset
+    const orderByIndex = orderBy?.length
+      ? findIndexForOrderBy(indexDefinitions, orderBy)
+      : undefined
+    const sortInMemory = Boolean(orderBy?.length) && !orderByIndex
+    const descending = Boolean(orderByIndex) && orderBy[0].order === 'DESC'
+    const sort = orderBy?.length
+      ? orderByIndex || DEFAULT_COLLECTION_SORT_KEY
+      : queryOptions.sort || DEFAULT_COLLECTION_SORT_KEY
+
     const query: {
       gt?: string
       gte?: string
       lt?: string
       lte?: string
       reverse: boolean
-    } = { reverse: !!last }
+    } = { reverse: descending !== !!last }
 
-    if (after) {
-      query.gt = atob(after)
-    } else if (before) {
-      query.lt = atob(before)
-    }
-
-    const allIndexDefinitions = await this.getIndexDefinitions(this.level)
-    const indexDefinitions = allIndexDefinitions?.[queryOptions.collection]
-    if (!indexDefinitions) {
-      throw new Error(
-        `No indexDefinitions for collection ${queryOptions.collection}`
-      )
+    if (!sortInMemory) {
+      if (after) {
+        query[descending ? 'lt' : 'gt'] = atob(after)
+      } else if (before) {
+        query[descending ? 'gt' : 'lt'] = atob(before)
+      }
     }
 
     const filterChain = coerceFilterChainOperands(rawFilterChain)
+    const collectionDefinition = locale
+      ? (await this.getSchema(this.level)).getCollection(collection)
+      : undefined
 
     // Because we default to DEFAULT_COLLECTION_SORT_KEY, the only way this is
     // actually undefined is if the caller specified a non-existent sort key
@@ -821,6 +1252,7 @@ export class Database {
     }
 
     let edges: { cursor: string; path: string }[] = []
+    const documents: Record<string, Record<string, any>> = {}
     let startKey: string = ''
     let endKey: string = ''
     let hasPreviousPage = false
@@ -873,9 +1305,37 @@ export class Database {
       if (!itemFilter(itemRecord)) {
         continue
       }
+      if (
+        collectionDefinition?.i18n &&
+        getDocumentLocale(
+          collectionDefinition.i18n,
+          filepath
+            .substring(normalizePath(collectionDefinition.path).length)
+            .replace(/^\//, '')
+        ) !== locale
+      ) {
+        continue
+      }
+      if (status) {
+        const document = filterSuffixes
+          ? await rootLevel.get(filepath)
+          : itemRecord
+        // folders don't have a publish status
+        if (
+          document &&
+          !document['__folderBasename'] &&
+          getPublishStatus(document) !== status
+        ) {
+          continue
+        }
+      }
 
-      if (limit !== -1 && edges.length >= limit) {
-        if (query.reverse) {
+      if (sortInMemory) {
+        documents[filepath] = filterSuffixes
+          ? await rootLevel.get(filepath)
+          : itemRecord
+      } else if (limit !== -1 && edges.length >= limit) {
+        if (last) {
           hasPreviousPage = true
         } else {
           hasNextPage = true
@@ -888,6 +1348,42 @@ export class Database {
       edges = [...edges, { cursor: key, path: filepath }]
     }
 
+    if (sortInMemory) {
+      const sorted = edges
+        .map((edge) => edge.path)
+        .sort((a, b) => {
+          // folders come first
+          const folderA = !!documents[a]?.['__folderBasename']
+          const folderB = !!documents[b]?.['__folderBasename']
+          if (folderA !== folderB) {
+            return folderA ? -1 : 1
+          }
+          return (
+            makeOrderByComparator(orderBy)(documents[a], documents[b]) ||
+            (a < b ? -1 : a > b ? 1 : 0)
+          )
+        })
+      // a negative limit returns all the documents, like an index scan
+      const count = limit < 0 ? sorted.length : limit
+      let start = after ? parseOffsetCursor(after) + 1 : 0
+      let end = start + count
+      if (last) {
+        end = before ? parseOffsetCursor(before) : sorted.length
+        start = Math.max(0, end - count)
+      }
+      edges = sorted
+        .slice(start, end)
+        .map((path, idx) => ({ cursor: String(start + idx), path }))
+      hasPreviousPage = start > 0
+      hasNextPage = end < sorted.length
+      if (last) {
+        // like a reversed index scan, `last` returns the documents in reverse
+        edges.reverse()
+      }
+      startKey = edges.length ? edges[0].cursor : ''
+      endKey = edges.length ? edges[edges.length - 1].cursor : ''
+    }
+
     return {
       edges: await sequential(edges, async (edge) => {
         try {
@@ -923,6 +1419,96 @@ export class Database {
       },
     }
   }
+
+  /**
+   * Full-text search across the content of all (or the given) collections.
+   * Results are ranked by relevance and paginated with offset-based cursors.
+   */
+  public search = async (searchOptions: SearchOptions, hydrator) => {
+    await this.initLevel()
+    const { query, collections, first, after } = searchOptions
+    const matches = await searchIndex(this.level, query, collections)
+
+    const { totalCount, edges, pageInfo } = paginateByOffset(matches, {
+      first,
+      after,
+    })
+
+    return {
+      totalCount,
+      edges: await sequential(edges, async ({ item: match, cursor }) => {
+        try {
+          return {
+            node: await hydrator(match.path),
+            cursor,
+            score: match.score,
+            highlights: match.highlights,
+          }
+        } catch (error) {
+          throw new TinaQueryError({
+            originalError: error,
+            file: match.path,
+            stack: error.stack,
+          })
+        }
+      }),
+      pageInfo,
+    }
+  }
+
+  /**
+   * The paths of the documents which reference `filepath`
+   */
+  public getReferrers = async (filepath: string, collections?: string[]) => {
+    await this.initLevel()
+    return findReferrers(this.level, normalizePath(filepath), collections)
+  }
+
+  /**
+   * The paths of the documents which use the media at `src`, as it's
+   * written in the content files, optionally limited to `collections`
+   */
+  public getMediaUsage = async (src: string, collections?: string[]) => {
+    await this.initLevel()
+    return findMediaUsage(this.level, src, collections)
+  }
+
+  /**
+   * The documents which reference the document at `path`, looked up in the
+   * reverse-reference index and paginated with offset-based cursors.
+   */
+  public referencedBy = async (
+    referencedByOptions: ReferencedByOptions,
+    hydrator
+  ) => {
+    const { path: filepath, collections, first, after } = referencedByOptions
+    const referrers = await this.getReferrers(filepath, collections)
+
+    const { totalCount, edges, pageInfo } = paginateByOffset(referrers, {
+      first,
+      after,
+    })
+
+    return {
+      totalCount,
+      edges: await sequential(edges, async ({ item: referrer, cursor }) => {
+        try {
+          return {
+            node: await hydrator(referrer),
+            cursor,
+          }
+        } catch (error) {
+          throw new TinaQueryError({
+            originalError: error,
+            file: referrer,
+            stack: error.stack,
+          })
+        }
+      }),
+      pageInfo,
+    }
+  }
+
   private async indexStatusCallbackWrapper<T>(
     fn: () => Promise<T>,
     post?: () => Promise<void>
@@ -1088,58 +1674,67 @@ export class Database {
 
   public delete = async (filepath: string) => {
     await this.initLevel()
+    const ops = await this.makeDeleteOps(filepath)
+    if (ops.length) {
+      await this.level.batch(ops)
+    }
+    await this.deleteDraft(filepath)
+
+    if (this.bridge) {
+      await this.bridge.delete(normalizePath(filepath))
+    }
+    await this.onDelete(normalizePath(filepath))
+    await this.notifyWebhooks('document.deleted', normalizePath(filepath))
+  }
+
+  /**
+   * Build the batch operations which remove a document and its index entries
+   */
+  private makeDeleteOps = async (filepath: string): Promise<BatchOp[]> => {
     const collection = await this.collectionForPath(filepath)
     let collectionIndexDefinitions
     if (collection) {
       const indexDefinitions = await this.getIndexDefinitions(this.level)
       collectionIndexDefinitions = indexDefinitions?.[collection.name]
     }
-    this.level.sublevel<string, Record<string, any>>(
-      CONTENT_ROOT_PREFIX,
-      SUBLEVEL_OPTIONS
-    )
     const itemKey = normalizePath(filepath)
     const rootSublevel = this.level.sublevel<string, Record<string, any>>(
       CONTENT_ROOT_PREFIX,
       SUBLEVEL_OPTIONS
     )
     const item = await rootSublevel.get(itemKey)
-    if (item) {
-      const folderTreeBuilder = new FolderTreeBuilder()
-      const folderKey = folderTreeBuilder.update(
-        filepath,
-        collection.path || ''
-      )
-      await this.level.batch([
-        ...makeIndexOpsForDocument<Record<string, any>>(
-          filepath,
-          collection.name,
-          collectionIndexDefinitions,
-          item,
-          'del',
-          this.level
-        ),
-        // folder indices
-        ...makeIndexOpsForDocument(
-          filepath,
-          `${collection.name}_${folderKey}`,
-          collectionIndexDefinitions,
-          item,
-          'del',
-          this.level
-        ),
-        {
-          type: 'del',
-          key: itemKey,
-          sublevel: rootSublevel,
-        },
-      ])
+    if (!item) {
+      return []
     }
-
-    if (this.bridge) {
-      await this.bridge.delete(normalizePath(filepath))
-    }
-    await this.onDelete(normalizePath(filepath))
+    const folderTreeBuilder = new FolderTreeBuilder()
+    const folderKey = folderTreeBuilder.update(filepath, collection.path || '')
+    return [
+      ...makeIndexOpsForDocument<Record<string, any>>(
+        filepath,
+        collection.name,
+        collectionIndexDefinitions,
+        item,
+        'del',
+        this.level
+      ),
+      // folder indices
+      ...makeIndexOpsForDocument(
+        filepath,
+        `${collection.name}_${folderKey}`,
+        collectionIndexDefinitions,
+        item,
+        'del',
+        this.level
+      ),
+      ...(await makeSearchDeleteOps(this.level, itemKey)),
+      ...(await makeReferenceDeleteOps(this.level, itemKey)),
+      ...(await makeMediaUsageDeleteOps(this.level, itemKey)),
+      {
+        type: 'del',
+        key: itemKey,
+        sublevel: rootSublevel,
+      },
+    ]
   }
 
   public _indexAllContent = async (level: Level, schema?: Schema) => {
@@ -1328,6 +1923,33 @@ const _indexContent = async (
           'put',
           level
         ),
+        ...(collection
+          ? await makeSearchOpsForDocument(
+              level,
+              normalizedPath,
+              collection.name,
+              template,
+              aliasedData as Record<string, unknown>
+            )
+          : []),
+        ...(collection
+          ? await makeReferenceOpsForDocument(
+              level,
+              normalizedPath,
+              collection.name,
+              template,
+              aliasedData as Record<string, unknown>
+            )
+          : []),
+        ...(collection
+          ? await makeMediaUsageOpsForDocument(
+              level,
+              normalizedPath,
+              collection.name,
+              template,
+              aliasedData as Record<string, unknown>
+            )
+          : []),
         {
           type: 'put',
           key: normalizedPath,
@@ -1424,6 +2046,9 @@ const _deleteIndexContent = async (
           'del',
           database.level
         ),
+        ...(await makeSearchDeleteOps(database.level, itemKey)),
+        ...(await makeReferenceDeleteOps(database.level, itemKey)),
+        ...(await makeMediaUsageDeleteOps(database.level, itemKey)),
         { type: 'del', key: itemKey, sublevel: rootLevel },
       ])
     }
@@ -0,0 +1,182 @@
+/**
+
+*/
+
+import type { RichTextType, Template, TinaField } from '@tinacms/schema-tools'
+import { parseMDX, stringifyMDX } from '../mdx'
+
+export type MapResult<T> = { value: T; changed: boolean }
+
+/**
+ * What `mapFieldValues` rewrites, each callback returns `undefined` for the
+ * values it leaves to the walker
+ */
+export type FieldValueMapper = {
+  /** Map the value of a field, objects and rich-text are walked into otherwise */
+  field: (field: TinaField<true>, value: unknown) => MapResult<unknown> | void
+  /**
+   * Map a node of a rich-text tree, templates and children are walked into
+   * otherwise. Without it, rich-text is only parsed when it has templates
+   */
+  richTextNode?: (node: Record<string, unknown>) => MapResult<unknown> | void
+}
+
+const identity = (url: string) => url
+
+const mapRichTextTree = (
+  node: unknown,
+  field: RichTextType<true>,
+  mapper: FieldValueMapper
+): MapResult<unknown> => {
+  if (Array.isArray(node)) {
+    let changed = false
+    const items = node.map((item) => {
+      const result = mapRichTextTree(item, field, mapper)
+      changed = changed || result.changed
+      return result.value
+    })
+    return { value: changed ? items : node, changed }
+  }
+  if (!node || typeof node !== 'object') {
+    return { value: node, changed: false }
+  }
+  const element = node as Record<string, unknown>
+  const nodeResult = mapper.richTextNode?.(element)
+  if (nodeResult) {
+    return nodeResult
+  }
+  let changed = false
+  let props = element.props
+  if (
+    (element.type === 'mdxJsxFlowElement' ||
+      element.type === 'mdxJsxTextElement') &&
+    props &&
+    typeof props === 'object'
+  ) {
+    const template = (field.templates as Template<true>[] | undefined)?.find(
+      (template) =>
+        typeof template === 'object' && template.name === element.name
+    )
+    if (template) {
+      const result = mapFieldValues(
+        template.fields as TinaField<true>[],
+        props as Record<string, unknown>,
+        mapper
+      )
+      props = result.value
+      changed = result.changed
+    }
+  }
+  const children = mapRichTextTree(element.children, field, mapper)
+  if (!changed && !children.changed) {
+    return { value: node, changed: false }
+  }
+  return {
+    value: {
+      ...element,
+      ...(element.props ? { props } : {}),
+      ...(element.children ? { children: children.value } : {}),
+    },
+    changed: true,
+  }
+}
+
+const mapRichTextValue = (
+  value: unknown,
+  field: RichTextType<true>,
+  mapper: FieldValueMapper
+): MapResult<unknown> => {
+  if (!value || (!mapper.richTextNode && !field.templates?.length)) {
+    return { value, changed: false }
+  }
+  if (typeof value !== 'string') {
+    return mapRichTextTree(value, field, mapper)
+  }
+  const tree = parseMDX(value, field, identity)
+  const result = mapRichTextTree(tree, field, mapper)
+  if (!result.changed) {
+    return { value, changed: false }
+  }
+  return {
+    value: stringifyMDX(
+      result.value as ReturnType<typeof parseMDX>,
+      field,
+      identity
+    ),
+    changed: true,
+  }
+}
+
+const mapObjectValue = (
+  value: unknown,
+  field: TinaField<true> & { type: 'object' },
+  mapper: FieldValueMapper
+): MapResult<unknown> => {
+  if (!value || typeof value !== 'object') {
+    return { value, changed: false }
+  }
+  const nestedFields = field.fields
+    ? field.fields
+    : (field.templates as Template<true>[] | undefined)?.find(
+        (template) =>
+          template.name === (value as Record<string, unknown>)._template
+      )?.fields
+  if (!nestedFields) {
+    return { value, changed: false }
+  }
+  return mapFieldValues(
+    nestedFields as TinaField<true>[],
+    value as Record<string, unknown>,
+    mapper
+  )
+}
+
+/**
+ * Walk `data` according to `fields`, including objects and rich-text
+ * templates, passing the values to `mapper`. A value mapped to `undefined`
+ * is removed.
+ *
+ * The input is never mutated, `changed` tells whether any value was replaced
+ */
+export const mapFieldValues = (
+  fields: TinaField<true>[],
+  data: Record<string, unknown>,
+  mapper: FieldValueMapper
+): MapResult<Record<string, unknown>> => {
+  if (!data || typeof data !== 'object') {
+    return { value: data, changed: false }
+  }
+  let changed = false
+  const accumulator = { ...data }
+  for (const field of fields) {
+    const value = data[field.name]
+    if (value === undefined || value === null) {
+      continue
+    }
+    let result = mapper.field(field, value) || { value, changed: false }
+    if (field.type === 'rich-text' && !result.changed) {
+      result = mapRichTextValue(value, field, mapper)
+    } else if (field.type === 'object' && !result.changed) {
+      if (Array.isArray(value)) {
+        let listChanged = false
+        const items = value.map((item) => {
+          const itemResult = mapObjectValue(item, field, mapper)
+          listChanged = listChanged || itemResult.changed
+          return itemResult.value
+        })
+        result = { value: items, changed: listChanged }
+      } else {
+        result = mapObjectValue(value, field, mapper)
+      }
+    }
+    if (result.changed) {
+      if (result.value === undefined) {
+        delete accumulator[field.name]
+      } else {
+        accumulator[field.name] = result.value
+      }
+      changed = true
+    }
+  }
+  return { value: changed ? accumulator : data, changed }
+}
@@ -0,0 +1,149 @@
+import { MemoryLevel } from 'memory-level'
+import type { Template, TinaField } from '@tinacms/schema-tools'
+import {
+  collectMedia,
+  findMediaUsage,
+  makeMediaUsageDeleteOps,
+  makeMediaUsageOpsForDocument,
+  mapFieldMedia,
+} from './media-usage'
+import { Level, LevelProxy } from './level'
+
+const fields = [
+  {
+    type: 'image',
+    name: 'hero',
+    namespace: ['post', 'hero'],
+  },
+  {
+    type: 'object',
+    name: 'gallery',
+    list: true,
+    namespace: ['post', 'gallery'],
+    fields: [
+      {
+        type: 'image',
+        name: 'image',
+        namespace: ['post', 'gallery', 'image'],
+      },
+    ],
+  },
+  {
+    type: 'rich-text',
+    name: 'body',
+    isBody: true,
+    namespace: ['post', 'body'],
+    templates: [
+      {
+        name: 'Figure',
+        namespace: ['post', 'body', 'Figure'],
+        fields: [
+          {
+            type: 'image',
+            name: 'src',
+            namespace: ['post', 'body', 'Figure', 'src'],
+          },
+        ],
+      },
+    ],
+  },
+] as TinaField<true>[]
+
+const moved = {
+  '/uploads/hero.png': '/uploads/posts/hero.png',
+  '/uploads/cat.png': '/uploads/animals/cat.png',
+}
+
+describe('mapFieldMedia', () => {
+  it('rewrites images in objects, rich-text and rich-text templates', () => {
+    const data = {
+      hero: { src: '/uploads/hero.png', alt: 'A hero' },
+      gallery: [{ image: '/uploads/cat.png' }, { image: '/uploads/dog.png' }],
+      body: '![A cat](/uploads/cat.png)\n\n<Figure src="/uploads/hero.png" />\n',
+    }
+    const { value, changed } = mapFieldMedia(fields, data, (src) => moved[src])
+    expect(changed).toEqual(true)
+    expect(value.hero).toEqual({
+      src: '/uploads/posts/hero.png',
+      alt: 'A hero',
+    })
+    expect(value.gallery).toEqual([
+      { image: '/uploads/animals/cat.png' },
+      { image: '/uploads/dog.png' },
+    ])
+    expect(value.body).toContain('(/uploads/animals/cat.png)')
+    expect(value.body).toContain('src="/uploads/posts/hero.png"')
+    // the input is left untouched
+    expect(data.hero.src).toEqual('/uploads/hero.png')
+  })
+
+  it('returns the same data when no media is used', () => {
+    const data = {
+      hero: '/uploads/dog.png',
+      body: 'Some text that mentions /uploads/cat.png\n',
+    }
+    const result = mapFieldMedia(fields, data, (src) => moved[src])
+    expect(result).toEqual({ value: data, changed: false })
+  })
+})
+
+const template = {
+  name: 'post',
+  namespace: ['post'],
+  fields,
+} as Template<true>
+
+const createLevel = () =>
+  new LevelProxy(
+    new MemoryLevel<string, Record<string, any>>()
+  ) as unknown as Level
+
+const put = async (level: Level, filepath: string, data: any) => {
+  await level.batch(
+    await makeMediaUsageOpsForDocument(level, filepath, 'post', template, data)
+  )
+}
+
+describe('collectMedia', () => {
+  it('collects media from the markdown body', () => {
+    expect(
+      collectMedia(template, {
+        hero: '/uploads/hero.png',
+        $_body: '![A cat](/uploads/cat.png)\n',
+      })
+    ).toEqual(['/uploads/hero.png', '/uploads/cat.png'])
+  })
+})
+
+describe('findMediaUsage', () => {
+  it('keeps the media usage index up to date', async () => {
+    const level = createLevel()
+    await put(level, 'content/posts/one.md', {
+      hero: '/uploads/cat.png',
+    })
+    await put(level, 'content/posts/two.md', {
+      gallery: [{ image: '/uploads/hero.png' }],
+      $_body: '![A cat](/uploads/cat.png)\n',
+    })
+
+    expect(await findMediaUsage(level, '/uploads/cat.png')).toEqual([
+      'content/posts/one.md',
+      'content/posts/two.md',
+    ])
+    // a file name which starts with the same characters is another file
+    expect(await findMediaUsage(level, '/uploads/cat')).toEqual([])
+
+    await put(level, 'content/posts/one.md', {
+      hero: '/uploads/dog.png',
+    })
+    expect(await findMediaUsage(level, '/uploads/cat.png')).toEqual([
+      'content/posts/two.md',
+    ])
+
+    await level.batch(
+      await makeMediaUsageDeleteOps(level, 'content/posts/two.md')
+    )
+    expect(await findMediaUsage(level, '/uploads/cat.png')).toEqual([])
+    expect(await findMediaUsage(level, '/uploads/hero.png')).toEqual([])
+  })
+})
@@ -0,0 +1,142 @@
+/**
+
+*/
+
+import type { Template, TinaField } from '@tinacms/schema-tools'
+import type { BatchOp, Level } from './level'
+import { mapFieldValues, MapResult } from './map-fields'
+import { createReverseIndex } from './reverse-index'
+import { withBodyField } from './util'
+
+export const MEDIA_USAGE_INDEX_PREFIX = '_media_usage'
+export const MEDIA_USAGE_DOCUMENTS_PREFIX = '_media_usage_documents'
+
+/**
+ * Called with the `src` of every media file found in a document. Return a
+ * new `src` to replace it, or `undefined` to leave it untouched.
+ */
+export type MediaMapper = (src: string) => string | undefined
+
+const mapSrc = (src: unknown, mapper: MediaMapper): MapResult<unknown> => {
+  if (typeof src !== 'string' || !src) {
+    return { value: src, changed: false }
+  }
+  const next = mapper(src)
+  if (next === undefined || next === src) {
+    return { value: src, changed: false }
+  }
+  return { value: next, changed: true }
+}
+
+const mapImageValue = (
+  value: unknown,
+  mapper: MediaMapper
+): MapResult<unknown> => {
+  if (Array.isArray(value)) {
+    let changed = false
+    const items = value.map((item) => {
+      const result = mapImageValue(item, mapper)
+      changed = changed || result.changed
+      return result.value
+    })
+    return { value: changed ? items : value, changed }
+  }
+  // images with `metadata` are stored as `{ src, alt, ... }`
+  if (value && typeof value === 'object') {
+    const image = value as Record<string, unknown>
+    const result = mapSrc(image.src, mapper)
+    return result.changed
+      ? { value: { ...image, src: result.value }, changed: true }
+      : { value, changed: false }
+  }
+  return mapSrc(value, mapper)
+}
+
+/**
+ * Walk `data` according to `fields`, passing the `src` of every `image` field
+ * and rich-text image to `mapper`, including images nested in objects and in
+ * rich-text templates.
+ *
+ * The input is never mutated, `changed` tells whether any value was replaced
+ */
+export const mapFieldMedia = (
+  fields: TinaField<true>[],
+  data: Record<string, unknown>,
+  mapper: MediaMapper
+): MapResult<Record<string, unknown>> =>
+  mapFieldValues(fields, data, {
+    field: (field, value) =>
+      field.type === 'image' ? mapImageValue(value, mapper) : undefined,
+    richTextNode: (node) => {
+      if (node.type !== 'img') {
+        return undefined
+      }
+      const result = mapSrc(node.url, mapper)
+      return result.changed
+        ? { value: { ...node, url: result.value }, changed: true }
+        : { value: node, changed: false }
+    },
+  })
+
+/**
+ * Collect the `src` of the media used by a document, `data` is in the shape
+ * stored in the content sublevel
+ */
+export const collectMedia = (
+  template: Template,
+  data: Record<string, unknown>
+): string[] => {
+  const media = new Set<string>()
+  try {
+    mapFieldMedia(
+      template.fields as TinaField<true>[],
+      withBodyField(template, data),
+      (src) => {
+        media.add(src)
+        return undefined
+      }
+    )
+  } catch (e) {
+    // rich-text which can't be parsed doesn't stop the document from being indexed
+  }
+  return Array.from(media)
+}
+
+const mediaUsageIndex = createReverseIndex({
+  indexPrefix: MEDIA_USAGE_INDEX_PREFIX,
+  documentsPrefix: MEDIA_USAGE_DOCUMENTS_PREFIX,
+  valuesKey: 'media',
+})
+
+/**
+ * Create the batch operations which remove the media of a document
+ * from the media usage index
+ */
+export const makeMediaUsageDeleteOps = mediaUsageIndex.makeDeleteOps
+
+/**
+ * Create the batch operations which (re)index the media of a document,
+ * removing the media of the previous version of the document
+ */
+export const makeMediaUsageOpsForDocument = async (
+  level: Level,
+  filepath: string,
+  collection: string,
+  template: Template | undefined,
+  data: Record<string, unknown>
+): Promise<BatchOp[]> =>
+  mediaUsageIndex.makePutOps(
+    level,
+    filepath,
+    collection,
+    template ? collectMedia(template, data) : []
+  )
+
+/**
+ * The paths of the documents which use the media at `src`, sorted by path
+ */
+export const findMediaUsage = (
+  level: Level,
+  src: string,
+  collections?: string[]
+) => mediaUsageIndex.find(level, src, collections)
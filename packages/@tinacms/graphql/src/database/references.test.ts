@@ -0,0 +1,182 @@
+import { MemoryLevel } from 'memory-level'
+import type { Template, TinaField } from '@tinacms/schema-tools'
+import {
+  collectReferences,
+  findReferrers,
+  makeReferenceDeleteOps,
+  makeReferenceOpsForDocument,
+  mapFieldReferences,
+} from './references'
+import { Level, LevelProxy } from './level'
+
+const fields = [
+  {
+    type: 'reference',
+    name: 'author',
+    collections: ['author'],
+    namespace: ['post', 'author'],
+  },
+  {
+    type: 'object',
+    name: 'related',
+    list: true,
+    namespace: ['post', 'related'],
+    fields: [
+      {
+        type: 'reference',
+        name: 'post',
+        collections: ['post'],
+        namespace: ['post', 'related', 'post'],
+      },
+    ],
+  },
+  {
+    type: 'rich-text',
+    name: 'body',
+    isBody: true,
+    namespace: ['post', 'body'],
+    templates: [
+      {
+        name: 'Quote',
+        namespace: ['post', 'body', 'Quote'],
+        fields: [
+          {
+            type: 'reference',
+            name: 'author',
+            collections: ['author'],
+            namespace: ['post', 'body', 'Quote', 'author'],
+          },
+        ],
+      },
+    ],
+  },
+] as TinaField<true>[]
+
+const renamed = {
+  'content/authors/jane.md': 'content/authors/jane-doe.md',
+  'content/posts/hello.md': 'content/posts/archive/hello.md',
+}
+
+describe('mapFieldReferences', () => {
+  it('rewrites references in objects and rich-text templates', () => {
+    const data = {
+      author: 'content/authors/jane.md',
+      related: [
+        { post: 'content/posts/hello.md' },
+        { post: 'content/posts/other.md' },
+      ],
+      body: '<Quote author="content/authors/jane.md" />\n',
+    }
+    const { value, changed } = mapFieldReferences(
+      fields,
+      data,
+      (reference) => renamed[reference]
+    )
+    expect(changed).toEqual(true)
+    expect(value.author).toEqual('content/authors/jane-doe.md')
+    expect(value.related).toEqual([
+      { post: 'content/posts/archive/hello.md' },
+      { post: 'content/posts/other.md' },
+    ])
+    expect(value.body).toContain('author="content/authors/jane-doe.md"')
+    // the input is left untouched
+    expect(data.author).toEqual('content/authors/jane.md')
+  })
+
+  it('removes references when the mapper returns null', () => {
+    const { value } = mapFieldReferences(
+      fields,
+      {
+        author: 'content/authors/jane.md',
+        related: [
+          { post: 'content/posts/hello.md' },
+          { post: 'content/posts/other.md' },
+        ],
+      },
+      (reference) =>
+        ['content/authors/jane.md', 'content/posts/hello.md'].includes(
+          reference
+        )
+          ? null
+          : undefined
+    )
+    expect(value).toEqual({
+      related: [{}, { post: 'content/posts/other.md' }],
+    })
+  })
+
+  it('returns the same data when nothing is referenced', () => {
+    const data = {
+      author: 'content/authors/john.md',
+      body: 'Some text that mentions content/authors/jane.md\n',
+    }
+    const result = mapFieldReferences(
+      fields,
+      data,
+      (reference) => renamed[reference]
+    )
+    expect(result).toEqual({ value: data, changed: false })
+  })
+})
+
+const template = {
+  name: 'post',
+  namespace: ['post'],
+  fields,
+} as Template<true>
+
+const createLevel = () =>
+  new LevelProxy(
+    new MemoryLevel<string, Record<string, any>>()
+  ) as unknown as Level
+
+const put = async (level: Level, filepath: string, data: any) => {
+  await level.batch(
+    await makeReferenceOpsForDocument(level, filepath, 'post', template, data)
+  )
+}
+
+describe('collectReferences', () => {
+  it('collects references from the markdown body', () => {
+    expect(
+      collectReferences(template, {
+        author: 'content/authors/john.md',
+        $_body: '<Quote author="content/authors/jane.md" />\n',
+      })
+    ).toEqual(['content/authors/john.md', 'content/authors/jane.md'])
+  })
+})
+
+describe('findReferrers', () => {
+  it('keeps the reverse-reference index up to date', async () => {
+    const level = createLevel()
+    await put(level, 'content/posts/one.md', {
+      author: 'content/authors/jane.md',
+    })
+    await put(level, 'content/posts/two.md', {
+      related: [{ post: 'content/posts/one.md' }],
+      $_body: '<Quote author="content/authors/jane.md" />\n',
+    })
+
+    expect(await findReferrers(level, 'content/authors/jane.md')).toEqual([
+      'content/posts/one.md',
+      'content/posts/two.md',
+    ])
+    expect(
+      await findReferrers(level, 'content/authors/jane.md', ['author'])
+    ).toEqual([])
+
+    await put(level, 'content/posts/one.md', {
+      author: 'content/authors/john.md',
+    })
+    expect(await findReferrers(level, 'content/authors/jane.md')).toEqual([
+      'content/posts/two.md',
+    ])
+
+    await level.batch(
+      await makeReferenceDeleteOps(level, 'content/posts/two.md')
+    )
+    expect(await findReferrers(level, 'content/authors/jane.md')).toEqual([])
+    expect(await findReferrers(level, 'content/posts/one.md')).toEqual([])
+  })
+})
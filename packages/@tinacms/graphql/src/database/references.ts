@@ -0,0 +1,123 @@
+/**
+
+*/
+
+import type { ReferenceType, Template, TinaField } from '@tinacms/schema-tools'
+import type { BatchOp, Level } from './level'
+import { mapFieldValues, MapResult } from './map-fields'
+import { createReverseIndex } from './reverse-index'
+import { withBodyField } from './util'
+
+export const REFERENCES_INDEX_PREFIX = '_references'
+export const REFERENCES_DOCUMENTS_PREFIX = '_references_documents'
+
+/**
+ * Called with every reference value found in a document. Return a new
+ * value to replace the reference, `null` to remove it, or `undefined`
+ * to leave it untouched.
+ */
+export type ReferenceMapper = (
+  value: string,
+  field: ReferenceType<true>
+) => string | null | undefined
+
+const mapReferenceValue = (
+  value: unknown,
+  field: ReferenceType<true>,
+  mapper: ReferenceMapper
+): MapResult<unknown> => {
+  if (Array.isArray(value)) {
+    let changed = false
+    const items = []
+    value.forEach((item) => {
+      const result = mapReferenceValue(item, field, mapper)
+      changed = changed || result.changed
+      // removed references are left out of the list
+      if (result.value !== undefined) {
+        items.push(result.value)
+      }
+    })
+    return { value: changed ? items : value, changed }
+  }
+  if (typeof value !== 'string' || !value) {
+    return { value, changed: false }
+  }
+  const next = mapper(value, field)
+  if (next === undefined || next === value) {
+    return { value, changed: false }
+  }
+  return { value: next === null ? undefined : next, changed: true }
+}
+
+/**
+ * Walk `data` according to `fields`, passing every reference value to `mapper`,
+ * including references nested in objects and in rich-text templates.
+ *
+ * The input is never mutated, `changed` tells whether any value was replaced
+ */
+export const mapFieldReferences = (
+  fields: TinaField<true>[],
+  data: Record<string, unknown>,
+  mapper: ReferenceMapper
+): MapResult<Record<string, unknown>> =>
+  mapFieldValues(fields, data, {
+    field: (field, value) =>
+      field.type === 'reference'
+        ? mapReferenceValue(value, field, mapper)
+        : undefined,
+  })
+
+/**
+ * Collect the paths referenced by a document, `data` is in the shape stored
+ * in the content sublevel
+ */
+export const collectReferences = (
+  template: Template,
+  data: Record<string, unknown>
+): string[] => {
+  const references = new Set<string>()
+  mapFieldReferences(
+    template.fields as TinaField<true>[],
+    withBodyField(template, data),
+    (value) => {
+      references.add(value)
+      return undefined
+    }
+  )
+  return Array.from(references)
+}
+
+const referencesIndex = createReverseIndex({
+  indexPrefix: REFERENCES_INDEX_PREFIX,
+  documentsPrefix: REFERENCES_DOCUMENTS_PREFIX,
+  valuesKey: 'references',
+})
+
+/**
+ * Create the batch operations which remove the references of a document
+ * from the reverse-reference index
+ */
+export const makeReferenceDeleteOps = referencesIndex.makeDeleteOps
+
+/**
+ * Create the batch operations which (re)index the references of a document,
+ * removing the references of the previous version of the document
+ */
+export const makeReferenceOpsForDocument = async (
+  level: Level,
+  filepath: string,
+  collection: string,
+  template: Template | undefined,
+  data: Record<string, unknown>
+): Promise<BatchOp[]> =>
+  referencesIndex.makePutOps(
+    level,
+    filepath,
+    collection,
+    template ? collectReferences(template, data) : []
+  )
+
+/**
+ * The paths of the documents which reference `filepath`, sorted by path
+ */
+export const findReferrers = referencesIndex.find
@@ -0,0 +1,128 @@
+/**
+
+*/
+
+import {
+  BatchOp,
+  INDEX_KEY_FIELD_SEPARATOR,
+  Level,
+  SUBLEVEL_OPTIONS,
+} from './level'
+
+/**
+ * An index from the values found in documents (like the paths they
+ * reference) to the paths of those documents. The values of each document
+ * are stored as well, so they can be removed when it changes
+ */
+export const createReverseIndex = <K extends string>({
+  indexPrefix,
+  documentsPrefix,
+  valuesKey,
+}: {
+  indexPrefix: string
+  documentsPrefix: string
+  /** The key of the values in the record stored for each document */
+  valuesKey: K
+}) => {
+  type DocumentRecord = { collection: string } & Record<K, string[]>
+
+  const getLevels = (level: Level) => {
+    return {
+      index: level.sublevel<string, Record<string, any>>(
+        indexPrefix,
+        SUBLEVEL_OPTIONS
+      ),
+      documents: level.sublevel<string, Record<string, any>>(
+        documentsPrefix,
+        SUBLEVEL_OPTIONS
+      ),
+    }
+  }
+
+  const makeKey = (value: string, filepath: string) =>
+    `${value}${INDEX_KEY_FIELD_SEPARATOR}${filepath}`
+
+  /**
+   * Create the batch operations which remove a document from the index
+   */
+  const makeDeleteOps = async (
+    level: Level,
+    filepath: string
+  ): Promise<BatchOp[]> => {
+    const { index, documents } = getLevels(level)
+    const existing = (await documents.get(filepath)) as
+      | DocumentRecord
+      | undefined
+    if (!existing) {
+      return []
+    }
+    return [
+      ...existing[valuesKey].map(
+        (value): BatchOp => ({
+          type: 'del',
+          key: makeKey(value, filepath),
+          sublevel: index,
+        })
+      ),
+      { type: 'del', key: filepath, sublevel: documents },
+    ]
+  }
+
+  /**
+   * Create the batch operations which (re)index the values of a document,
+   * removing the values of the previous version of the document
+   */
+  const makePutOps = async (
+    level: Level,
+    filepath: string,
+    collection: string,
+    values: string[]
+  ): Promise<BatchOp[]> => {
+    const delOps = await makeDeleteOps(level, filepath)
+    if (!values.length) {
+      return delOps
+    }
+    const { index, documents } = getLevels(level)
+    const record = { collection, [valuesKey]: values } as DocumentRecord
+    return [
+      ...delOps,
+      ...values.map(
+        (value): BatchOp => ({
+          type: 'put',
+          key: makeKey(value, filepath),
+          value: { collection },
+          sublevel: index,
+        })
+      ),
+      { type: 'put', key: filepath, value: record, sublevel: documents },
+    ]
+  }
+
+  /**
+   * The paths of the documents with `value`, sorted by path. When
+   * `collections` is given, only the documents of those collections
+   */
+  const find = async (
+    level: Level,
+    value: string,
+    collections?: string[]
+  ): Promise<string[]> => {
+    const { index } = getLevels(level)
+    const filepaths: string[] = []
+    // @ts-ignore
+    // It looks like tslint is confused by the multiple iterator() overloads
+    const iterator = index.iterator<string, Record<string, any>>({
+      gte: `${value}${INDEX_KEY_FIELD_SEPARATOR}`,
+      lt: `${value}${INDEX_KEY_FIELD_SEPARATOR}\uFFFF`,
+    })
+    for await (const [key, record] of iterator) {
+      if (collections && !collections.includes(record.collection)) {
+        continue
+      }
+      filepaths.push(key.substring(value.length + 1))
+    }
+    return filepaths
+  }
+
+  return { makeDeleteOps, makePutOps, find }
+}
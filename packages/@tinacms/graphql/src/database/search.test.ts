@@ -0,0 +1,117 @@
+import { MemoryLevel } from 'memory-level'
+import type { Template } from '@tinacms/schema-tools'
+import {
+  extractSearchableText,
+  makeSearchDeleteOps,
+  makeSearchOpsForDocument,
+  makeSnippet,
+  searchIndex,
+  tokenize,
+} from './search'
+import { Level, LevelProxy } from './level'
+
+const template = {
+  name: 'post',
+  namespace: ['post'],
+  fields: [
+    { type: 'string', name: 'title', namespace: ['post', 'title'] },
+    {
+      type: 'string',
+      name: 'slug',
+      searchable: false,
+      namespace: ['post', 'slug'],
+    },
+    {
+      type: 'rich-text',
+      name: 'body',
+      isBody: true,
+      namespace: ['post', 'body'],
+    },
+  ],
+} as Template<true>
+
+const createLevel = () =>
+  new LevelProxy(
+    new MemoryLevel<string, Record<string, any>>()
+  ) as unknown as Level
+
+const put = async (level: Level, filepath: string, data: any) => {
+  await level.batch(
+    await makeSearchOpsForDocument(level, filepath, 'post', template, data)
+  )
+}
+
+describe('tokenize', () => {
+  it('normalizes case and diacritics and drops stop words', () => {
+    expect(tokenize('The Café is OPEN, a-ok!')).toEqual(['cafe', 'open', 'ok'])
+  })
+})
+
+describe('extractSearchableText', () => {
+  it('walks the rich-text body and skips unsearchable fields', () => {
+    const text = extractSearchableText(template, {
+      title: 'Hello',
+      slug: 'hello-world',
+      $_body: '# Heading\n\nSome **bold** text',
+    })
+    expect(text).toEqual({ title: 'Hello', body: 'Heading Some bold text' })
+  })
+})
+
+describe('makeSnippet', () => {
+  it('wraps matches in mark tags', () => {
+    expect(makeSnippet('Tina is a <headless> CMS', ['cms'])).toEqual(
+      'Tina is a &lt;headless&gt; <mark>CMS</mark>'
+    )
+  })
+})
+
+describe('searchIndex', () => {
+  it('ranks documents containing every term', async () => {
+    const level = createLevel()
+    await put(level, 'posts/one.md', {
+      title: 'Static sites',
+      $_body: 'Building static sites with markdown',
+    })
+    await put(level, 'posts/two.md', {
+      title: 'Markdown tips',
+      $_body: 'Markdown markdown markdown',
+    })
+
+    const results = await searchIndex(level, 'static mark')
+    expect(results.map((result) => result.path)).toEqual(['posts/one.md'])
+    expect(results[0].highlights).toEqual([
+      { field: 'title', snippet: '<mark>Static</mark> sites' },
+      {
+        field: 'body',
+        snippet:
+          'Building <mark>static</mark> sites with <mark>markdown</mark>',
+      },
+    ])
+
+    const markdownResults = await searchIndex(level, 'markdown')
+    expect(markdownResults.map((result) => result.path)).toEqual([
+      'posts/two.md',
+      'posts/one.md',
+    ])
+  })
+
+  it('removes stale postings when a document is updated or deleted', async () => {
+    const level = createLevel()
+    await put(level, 'posts/one.md', { title: 'Original title' })
+    await put(level, 'posts/one.md', { title: 'Updated title' })
+
+    expect(await searchIndex(level, 'original')).toEqual([])
+    expect(await searchIndex(level, 'updated')).toHaveLength(1)
+
+    await level.batch(await makeSearchDeleteOps(level, 'posts/one.md'))
+    expect(await searchIndex(level, 'title')).toEqual([])
+  })
+
+  it('filters by collection', async () => {
+    const level = createLevel()
+    await put(level, 'posts/one.md', { title: 'Hello' })
+    expect(await searchIndex(level, 'hello', ['author'])).toEqual([])
+    expect(await searchIndex(level, 'hello', ['post'])).toHaveLength(1)
+  })
+})
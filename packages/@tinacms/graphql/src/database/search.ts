@@ -0,0 +1,433 @@
+/**
+
+*/
+
+import type { Template, TinaField } from '@tinacms/schema-tools'
+import { parseMDX } from '../mdx'
+import {
+  BatchOp,
+  INDEX_KEY_FIELD_SEPARATOR,
+  Level,
+  SUBLEVEL_OPTIONS,
+} from './level'
+import { withBodyField } from './util'
+
+export const SEARCH_INDEX_PREFIX = '_search'
+export const SEARCH_DOCUMENTS_PREFIX = '_search_documents'
+
+const MIN_TERM_LENGTH = 2
+const MAX_TERM_LENGTH = 64
+const SNIPPET_RADIUS = 80
+
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'for',
+  'from',
+  'in',
+  'is',
+  'it',
+  'of',
+  'on',
+  'or',
+  'that',
+  'the',
+  'this',
+  'to',
+  'was',
+  'with',
+])
+
+/** The record stored for each document, used for scoring, cleanup and snippets */
+export type SearchDocumentRecord = {
+  collection: string
+  length: number
+  terms: Record<string, number>
+  fields: Record<string, string>
+}
+
+export type SearchHighlight = {
+  field: string
+  snippet: string
+}
+
+export type SearchMatch = {
+  path: string
+  score: number
+  highlights: SearchHighlight[]
+}
+
+const normalizeTerm = (value: string) =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+
+/**
+ * Split text into normalized terms, ignoring stop words and
+ * terms which are too short or too long to be useful
+ */
+export const tokenize = (text: string): string[] => {
+  if (!text) {
+    return []
+  }
+  return normalizeTerm(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(
+      (term) =>
+        term.length >= MIN_TERM_LENGTH &&
+        term.length <= MAX_TERM_LENGTH &&
+        !STOP_WORDS.has(term)
+    )
+}
+
+/**
+ * Collect the plain text of a rich-text tree, including the
+ * string props of any embedded templates
+ */
+export const extractTextFromRichText = (node: unknown): string => {
+  const result: string[] = []
+  const walk = (value: unknown) => {
+    if (!value) {
+      return
+    }
+    if (Array.isArray(value)) {
+      value.forEach(walk)
+      return
+    }
+    if (typeof value !== 'object') {
+      return
+    }
+    const item = value as Record<string, unknown>
+    if (item.type === 'text' && typeof item.text === 'string') {
+      result.push(item.text)
+      return
+    }
+    if (item.type === 'code_block' && typeof item.value === 'string') {
+      result.push(item.value)
+    }
+    if (item.props && typeof item.props === 'object') {
+      Object.values(item.props).forEach((prop) => {
+        if (typeof prop === 'string') {
+          result.push(` ${prop} `)
+        } else {
+          walk(prop)
+        }
+      })
+    }
+    walk(item.children)
+    // separate the text of sibling elements
+    result.push(' ')
+  }
+  walk(node)
+  return result.join('').replace(/\s+/g, ' ').trim()
+}
+
+const extractTextFromFields = (
+  fields: TinaField<true>[],
+  data: Record<string, unknown>,
+  prefix: string,
+  accumulator: Record<string, string[]>
+) => {
+  for (const field of fields) {
+    if (field.searchable === false) {
+      continue
+    }
+    const value = data?.[field.name]
+    if (value === undefined || value === null) {
+      continue
+    }
+    const fieldPath = prefix ? `${prefix}.${field.name}` : field.name
+    const push = (text: string) => {
+      if (!text) {
+        return
+      }
+      accumulator[fieldPath] = accumulator[fieldPath] || []
+      accumulator[fieldPath].push(text)
+    }
+    switch (field.type) {
+      case 'string':
+        ;(Array.isArray(value) ? value : [value]).forEach((item) => {
+          if (typeof item === 'string') {
+            push(item)
+          }
+        })
+        break
+      case 'rich-text':
+        if (typeof value === 'string') {
+          try {
+            const tree = parseMDX(value, field, (url) => url)
+            push(extractTextFromRichText(tree))
+          } catch (e) {
+            // fall back to the raw markdown when it can't be parsed
+            push(value)
+          }
+        } else {
+          push(extractTextFromRichText(value))
+        }
+        break
+      case 'object':
+        ;(Array.isArray(value) ? value : [value]).forEach((item) => {
+          if (!item || typeof item !== 'object') {
+            return
+          }
+          const nestedFields = field.fields
+            ? field.fields
+            : field.templates?.find(
+                (template) =>
+                  template.name === (item as Record<string, unknown>)._template
+              )?.fields
+          if (nestedFields) {
+            extractTextFromFields(
+              nestedFields as TinaField<true>[],
+              item as Record<string, unknown>,
+              fieldPath,
+              accumulator
+            )
+          }
+        })
+        break
+    }
+  }
+}
+
+/**
+ * Build the searchable text for a document, keyed by field path. `data` is
+ * in the shape stored in the content sublevel
+ */
+export const extractSearchableText = (
+  template: Template,
+  data: Record<string, unknown>
+): Record<string, string> => {
+  const accumulator: Record<string, string[]> = {}
+  extractTextFromFields(
+    template.fields as TinaField<true>[],
+    withBodyField(template, data),
+    '',
+    accumulator
+  )
+  const result: Record<string, string> = {}
+  Object.entries(accumulator).forEach(([fieldPath, texts]) => {
+    result[fieldPath] = texts.join(' ')
+  })
+  return result
+}
+
+const getSearchLevels = (level: Level) => {
+  return {
+    postings: level.sublevel<string, Record<string, any>>(
+      SEARCH_INDEX_PREFIX,
+      SUBLEVEL_OPTIONS
+    ),
+    documents: level.sublevel<string, Record<string, any>>(
+      SEARCH_DOCUMENTS_PREFIX,
+      SUBLEVEL_OPTIONS
+    ),
+  }
+}
+
+const makePostingKey = (term: string, filepath: string) =>
+  `${term}${INDEX_KEY_FIELD_SEPARATOR}${filepath}`
+
+/**
+ * Create the batch operations which remove a document from the search index
+ */
+export const makeSearchDeleteOps = async (
+  level: Level,
+  filepath: string
+): Promise<BatchOp[]> => {
+  const { postings, documents } = getSearchLevels(level)
+  const existing = (await documents.get(filepath)) as
+    | SearchDocumentRecord
+    | undefined
+  if (!existing) {
+    return []
+  }
+  return [
+    ...Object.keys(existing.terms).map(
+      (term): BatchOp => ({
+        type: 'del',
+        key: makePostingKey(term, filepath),
+        sublevel: postings,
+      })
+    ),
+    { type: 'del', key: filepath, sublevel: documents },
+  ]
+}
+
+/**
+ * Create the batch operations which (re)index a document, removing
+ * any postings left over from the previous version of the document
+ */
+export const makeSearchOpsForDocument = async (
+  level: Level,
+  filepath: string,
+  collection: string,
+  template: Template | undefined,
+  data: Record<string, unknown>
+): Promise<BatchOp[]> => {
+  const delOps = await makeSearchDeleteOps(level, filepath)
+  if (!template) {
+    return delOps
+  }
+  const { postings, documents } = getSearchLevels(level)
+  const fields = extractSearchableText(template, data)
+  const terms: Record<string, number> = {}
+  let length = 0
+  Object.values(fields).forEach((text) => {
+    tokenize(text).forEach((term) => {
+      terms[term] = (terms[term] || 0) + 1
+      length++
+    })
+  })
+
+  const record: SearchDocumentRecord = { collection, length, terms, fields }
+  return [
+    ...delOps,
+    ...Object.entries(terms).map(
+      ([term, tf]): BatchOp => ({
+        type: 'put',
+        key: makePostingKey(term, filepath),
+        value: { tf, collection },
+        sublevel: postings,
+      })
+    ),
+    { type: 'put', key: filepath, value: record, sublevel: documents },
+  ]
+}
+
+const escapeHTML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+
+/**
+ * Find the first match of any of the given terms in `text` and
+ * return the surrounding text with every match wrapped in `<mark>`
+ */
+export const makeSnippet = (
+  text: string,
+  terms: string[],
+  prefixTerm?: string
+): string | undefined => {
+  const wordRegex = /[\p{L}\p{N}]+/gu
+  const matches: { start: number; end: number }[] = []
+  let match: RegExpExecArray | null
+  while ((match = wordRegex.exec(text))) {
+    const term = normalizeTerm(match[0])
+    if (terms.includes(term) || (prefixTerm && term.startsWith(prefixTerm))) {
+      matches.push({ start: match.index, end: match.index + match[0].length })
+    }
+  }
+  if (!matches.length) {
+    return undefined
+  }
+  const start = Math.max(0, matches[0].start - SNIPPET_RADIUS)
+  const end = Math.min(text.length, matches[0].end + SNIPPET_RADIUS)
+  let snippet = ''
+  let cursor = start
+  for (const { start: matchStart, end: matchEnd } of matches) {
+    if (matchStart < start || matchEnd > end) {
+      continue
+    }
+    snippet += escapeHTML(text.slice(cursor, matchStart))
+    snippet += `<mark>${escapeHTML(text.slice(matchStart, matchEnd))}</mark>`
+    cursor = matchEnd
+  }
+  snippet += escapeHTML(text.slice(cursor, end))
+  return `${start > 0 ? '…' : ''}${snippet.trim()}${
+    end < text.length ? '…' : ''
+  }`
+}
+
+/**
+ * Rank all documents containing every term of the query. The last term
+ * is matched as a prefix so results can be shown while the user is typing.
+ */
+export const searchIndex = async (
+  level: Level,
+  query: string,
+  collections?: string[]
+): Promise<SearchMatch[]> => {
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  if (!queryTerms.length) {
+    return []
+  }
+  const { postings, documents } = getSearchLevels(level)
+
+  let documentCount = 0
+  // @ts-ignore
+  for await (const _key of documents.keys()) {
+    documentCount++
+  }
+
+  const prefixTerm = queryTerms[queryTerms.length - 1]
+  const exactTerms = queryTerms.slice(0, -1)
+  const scores = new Map<string, number>()
+  const matchCounts = new Map<string, number>()
+  for (const term of queryTerms) {
+    const isPrefix = term === prefixTerm
+    const termFrequencies = new Map<string, number>()
+    // @ts-ignore
+    // It looks like tslint is confused by the multiple iterator() overloads
+    const iterator = postings.iterator<string, Record<string, any>>({
+      gte: isPrefix ? term : `${term}${INDEX_KEY_FIELD_SEPARATOR}`,
+      lt: isPrefix
+        ? `${term}\uFFFF`
+        : `${term}${INDEX_KEY_FIELD_SEPARATOR}\uFFFF`,
+    })
+    for await (const [key, value] of iterator) {
+      const separatorIdx = key.indexOf(INDEX_KEY_FIELD_SEPARATOR)
+      const filepath = key.substring(separatorIdx + 1)
+      if (collections?.length && !collections.includes(value.collection)) {
+        continue
+      }
+      termFrequencies.set(
+        filepath,
+        (termFrequencies.get(filepath) || 0) + value.tf
+      )
+    }
+    const idf = Math.log(1 + documentCount / (termFrequencies.size || 1))
+    termFrequencies.forEach((tf, filepath) => {
+      scores.set(
+        filepath,
+        (scores.get(filepath) || 0) + (1 + Math.log(tf)) * idf
+      )
+      matchCounts.set(filepath, (matchCounts.get(filepath) || 0) + 1)
+    })
+  }
+
+  const results: SearchMatch[] = []
+  for (const [filepath, score] of Array.from(scores.entries())) {
+    if (matchCounts.get(filepath) !== queryTerms.length) {
+      continue
+    }
+    const record = (await documents.get(filepath)) as
+      | SearchDocumentRecord
+      | undefined
+    if (!record) {
+      continue
+    }
+    const highlights: SearchHighlight[] = []
+    Object.entries(record.fields).forEach(([field, text]) => {
+      const snippet = makeSnippet(text, exactTerms, prefixTerm)
+      if (snippet) {
+        highlights.push({ field, snippet })
+      }
+    })
+    results.push({
+      path: filepath,
+      // normalize by document length so short, focused documents rank higher
+      score: score / Math.sqrt(record.length || 1),
+      highlights,
+    })
+  }
+
+  return results.sort(
+    (a, b) => b.score - a.score || a.path.localeCompare(b.path)
+  )
+}
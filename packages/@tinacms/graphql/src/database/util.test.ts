@@ -0,0 +1,25 @@
+import { btoa, paginateByOffset } from './util'
+
+describe('paginateByOffset', () => {
+  const items = ['a', 'b', 'c', 'd', 'e']
+
+  it('returns the page after the cursor', () => {
+    const first = paginateByOffset(items, { first: 2 })
+    expect(first.edges.map(({ item }) => item)).toEqual(['a', 'b'])
+    expect(first.pageInfo.hasNextPage).toEqual(true)
+
+    const second = paginateByOffset(items, {
+      first: 2,
+      after: first.pageInfo.endCursor,
+    })
+    expect(second.edges.map(({ item }) => item)).toEqual(['c', 'd'])
+    expect(second.totalCount).toEqual(5)
+    expect(second.pageInfo.hasPreviousPage).toEqual(true)
+  })
+  it('rejects a cursor which is not an offset', () => {
+    expect(() => paginateByOffset(items, { after: btoa('abc') })).toThrow(
+      `Invalid cursor ${btoa('abc')}`
+    )
+    expect(() => paginateByOffset(items, { after: btoa('-1') })).toThrow()
+  })
+})
@@ -6,7 +6,9 @@ import * as yup from 'yup'
 import toml from '@iarna/toml'
 import yaml from 'js-yaml'
 import matter from 'gray-matter'
+import { GraphQLError } from 'graphql'
 import { normalizePath } from '@tinacms/schema-tools'
+import type { Template } from '@tinacms/schema-tools'
 
 import { assertShape } from '../util'
 
@@ -130,3 +132,58 @@ export const atob = (b64Encoded: string) => {
 export const btoa = (string: string) => {
   return Buffer.from(string).toString('base64')
 }
+
+/**
+ * The position of an item in a list, from an offset-based cursor
+ */
+export const parseOffsetCursor = (cursor: string) => {
+  const offset = Number(atob(cursor))
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new GraphQLError(`Invalid cursor ${cursor}`)
+  }
+  return offset
+}
+
+/**
+ * A page of `items` with offset-based cursors, the cursor of an item is its
+ * position in the list. Without a positive `first` the page has 50 items
+ */
+export const paginateByOffset = <T>(
+  items: T[],
+  { first, after }: { first?: number; after?: string }
+) => {
+  const offset = after ? parseOffsetCursor(after) + 1 : 0
+  const limit = first && first > 0 ? first : 50
+  const edges = items.slice(offset, offset + limit).map((item, idx) => ({
+    item,
+    cursor: btoa(String(offset + idx)),
+  }))
+  return {
+    totalCount: items.length,
+    edges,
+    pageInfo: {
+      hasPreviousPage: offset > 0,
+      hasNextPage: offset + limit < items.length,
+      startCursor: edges.length ? edges[0].cursor : '',
+      endCursor: edges.length ? edges[edges.length - 1].cursor : '',
+    },
+  }
+}
+
+/**
+ * The values of a document stored in the content sublevel, where the body of
+ * markdown documents lives under `$_body`, with the body under the name of
+ * its field
+ */
+export const withBodyField = (
+  template: Template,
+  data: Record<string, unknown>
+) => {
+  const bodyField = template.fields.find(
+    (field) =>
+      (field.type === 'string' || field.type === 'rich-text') && field.isBody
+  )
+  return bodyField && data && '$_body' in data
+    ? { ...data, [bodyField.name]: data['$_body'] }
+    : data
+}
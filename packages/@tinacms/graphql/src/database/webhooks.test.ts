@@ -0,0 +1,151 @@
+import os from 'os'
+import path from 'path'
+import fs from 'fs-extra'
+import {
+  signWebhookPayload,
+  SIGNATURE_HEADER,
+  WebhookDispatcher,
+} from './webhooks'
+
+const respond = (...statuses: number[]) => {
+  const fetch = jest.fn()
+  for (const status of statuses) {
+    fetch.mockResolvedValueOnce({ ok: status < 300, status })
+  }
+  return fetch
+}
+
+describe('WebhookDispatcher', () => {
+  it('sends the matching events to each webhook', async () => {
+    const fetch = respond(200)
+    const webhooks = new WebhookDispatcher(
+      [
+        { url: 'https://a.test', events: ['document.deleted'] },
+        { url: 'https://b.test', collections: ['post'] },
+      ],
+      { fetch }
+    )
+
+    const deliveries = await webhooks.dispatch('document.updated', {
+      path: 'content/posts/hello.md',
+      collection: 'post',
+    })
+    expect(deliveries).toEqual([
+      expect.objectContaining({ url: 'https://b.test', status: 'delivered' }),
+    ])
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe('https://b.test')
+    expect(JSON.parse(init.body)).toEqual(
+      expect.objectContaining({
+        event: 'document.updated',
+        path: 'content/posts/hello.md',
+        collection: 'post',
+      })
+    )
+    await expect(
+      webhooks.dispatch('document.updated', {
+        path: 'content/authors/napolean.json',
+        collection: 'author',
+      })
+    ).resolves.toEqual([])
+  })
+  it('signs the payload with the secret', async () => {
+    const fetch = respond(200)
+    const webhooks = new WebhookDispatcher(
+      [{ url: 'https://a.test', secret: 'shh' }],
+      { fetch }
+    )
+
+    await webhooks.dispatch('media.uploaded', { path: '/uploads/cat.png' })
+    const [, init] = fetch.mock.calls[0]
+    expect(init.headers[SIGNATURE_HEADER]).toBe(
+      signWebhookPayload(init.body, 'shh')
+    )
+  })
+  it('retries failed deliveries and logs them', async () => {
+    const logPath = path.join(
+      os.tmpdir(),
+      `tina-webhooks-${process.pid}`,
+      'webhooks.log'
+    )
+    const flaky = respond(500, 503, 200)
+    const fetch = jest.fn((url: string) =>
+      url === 'https://a.test'
+        ? flaky()
+        : url === 'https://b.test'
+        ? Promise.reject(new Error('ECONNREFUSED'))
+        : Promise.resolve({ ok: false, status: 404 })
+    )
+    const warn = jest.fn()
+    const webhooks = new WebhookDispatcher(
+      [
+        { url: 'https://a.test' },
+        { url: 'https://b.test', retries: 0 },
+        { url: 'https://c.test' },
+      ],
+      { fetch, logPath, retryDelay: 1, warn }
+    )
+
+    try {
+      const deliveries = await webhooks.dispatch('document.created', {
+        path: 'content/posts/hello.md',
+      })
+      expect(deliveries).toEqual([
+        expect.objectContaining({ status: 'delivered', attempts: 3 }),
+        expect.objectContaining({
+          status: 'failed',
+          attempts: 1,
+          error: 'ECONNREFUSED',
+        }),
+        // client errors aren't retried
+        expect.objectContaining({
+          status: 'failed',
+          attempts: 1,
+          statusCode: 404,
+        }),
+      ])
+      const log = (await fs.readFile(logPath, 'utf-8')).trim().split('\n')
+      expect(log.map((line) => JSON.parse(line).url).sort()).toEqual([
+        'https://a.test',
+        'https://b.test',
+        'https://c.test',
+      ])
+      expect(warn.mock.calls.map(([message]) => message).sort()).toEqual([
+        'Webhook document.created to https://b.test failed after 1 attempts: ECONNREFUSED',
+        'Webhook document.created to https://c.test failed after 1 attempts: Responded with 404',
+      ])
+    } finally {
+      await fs.remove(path.dirname(logPath))
+    }
+  })
+  it('needs fetch up front', () => {
+    const fetch = globalThis.fetch
+    try {
+      // @ts-ignore older versions of Node.js have no fetch
+      delete globalThis.fetch
+      expect(() => new WebhookDispatcher([{ url: 'https://a.test' }])).toThrow(
+        'Webhooks need a global `fetch`'
+      )
+      expect(
+        () =>
+          new WebhookDispatcher([{ url: 'https://a.test' }], {
+            fetch: respond(200),
+          })
+      ).not.toThrow()
+    } finally {
+      globalThis.fetch = fetch
+    }
+  })
+  it('waits for the deliveries which are underway', async () => {
+    const fetch = respond(500, 200)
+    const webhooks = new WebhookDispatcher([{ url: 'https://a.test' }], {
+      fetch,
+      retryDelay: 10,
+    })
+
+    webhooks.dispatch('document.deleted', { path: 'content/posts/hello.md' })
+    await webhooks.settled()
+    expect(fetch).toHaveBeenCalledTimes(2)
+    await expect(webhooks.settled()).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,211 @@
+/**
+
+*/
+
+import { createHmac, randomBytes } from 'crypto'
+import fs from 'fs-extra'
+import path from 'path'
+import type { Webhook, WebhookEvent } from '@tinacms/schema-tools'
+
+/** The body of the `POST` request sent for an event */
+export type WebhookPayload = {
+  id: string
+  event: WebhookEvent
+  /** The path of the document, or the `src` of the media */
+  path: string
+  collection?: string
+  timestamp: string
+}
+
+/** An entry of the delivery log */
+export type WebhookDelivery = {
+  id: string
+  url: string
+  event: WebhookEvent
+  path: string
+  status: 'delivered' | 'failed'
+  attempts: number
+  statusCode?: number
+  error?: string
+  timestamp: string
+}
+
+type FetchFunction = (
+  url: string,
+  init: { method: string; headers: Record<string, string>; body: string }
+) => Promise<{ ok: boolean; status: number }>
+
+export type WebhookDispatcherOptions = {
+  /** A JSON-lines file which every delivery is appended to */
+  logPath?: string
+  /** The delay before the first retry, doubled for each one after it */
+  retryDelay?: number
+  /** Defaults to the global `fetch`, which Node.js has since version 18 */
+  fetch?: FetchFunction
+  /** Called with a message for each delivery which failed */
+  warn?: (message: string) => void
+}
+
+const DEFAULT_RETRIES = 3
+const DEFAULT_RETRY_DELAY = 1000
+
+export const SIGNATURE_HEADER = 'X-Tina-Signature'
+
+/** The value of the `X-Tina-Signature` header for `body` */
+export const signWebhookPayload = (body: string, secret: string) =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`
+
+/**
+ * Whether the status of a failed delivery may succeed later, client errors
+ * other than rate limiting won't
+ */
+const isRetryable = (statusCode?: number) =>
+  !statusCode || statusCode >= 500 || statusCode === 429
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Sends the content events to the webhooks of the config.
+ *
+ * Deliveries never throw, failures are retried with an exponential backoff
+ * and recorded in the delivery log
+ */
+export class WebhookDispatcher {
+  private readonly fetch: FetchFunction
+  private readonly pending = new Set<Promise<WebhookDelivery[]>>()
+
+  constructor(
+    public webhooks: Webhook[],
+    private readonly options: WebhookDispatcherOptions = {}
+  ) {
+    if (!options.fetch && typeof globalThis.fetch !== 'function') {
+      throw new Error(
+        'Webhooks need a global `fetch`, which is available from Node.js 18. Upgrade Node.js or pass a `fetch` option to the WebhookDispatcher'
+      )
+    }
+    this.fetch =
+      options.fetch || (globalThis.fetch.bind(globalThis) as FetchFunction)
+  }
+
+  /**
+   * Sends the event to every matching webhook, resolving with the
+   * deliveries once they have succeeded or ran out of retries
+   */
+  public dispatch = async (
+    event: WebhookEvent,
+    args: { path: string; collection?: string }
+  ): Promise<WebhookDelivery[]> => {
+    const webhooks = this.webhooks.filter((webhook) =>
+      this.matches(webhook, event, args.collection)
+    )
+    if (!webhooks.length) {
+      return []
+    }
+    const payload: WebhookPayload = {
+      id: randomBytes(16).toString('hex'),
+      event,
+      path: args.path,
+      collection: args.collection,
+      timestamp: new Date().toISOString(),
+    }
+    const deliveries = Promise.all(
+      webhooks.map((webhook) => this.deliver(webhook, payload))
+    )
+    this.pending.add(deliveries)
+    try {
+      return await deliveries
+    } finally {
+      this.pending.delete(deliveries)
+    }
+  }
+
+  /**
+   * Resolves once the deliveries which are underway have succeeded or ran
+   * out of retries, commands should wait for it before exiting
+   */
+  public settled = async () => {
+    await Promise.all(Array.from(this.pending))
+  }
+
+  private matches(webhook: Webhook, event: WebhookEvent, collection?: string) {
+    if (webhook.events && !webhook.events.includes(event)) {
+      return false
+    }
+    if (event.startsWith('document.') && webhook.collections) {
+      return !!collection && webhook.collections.includes(collection)
+    }
+    return true
+  }
+
+  private async deliver(
+    webhook: Webhook,
+    payload: WebhookPayload
+  ): Promise<WebhookDelivery> {
+    const body = JSON.stringify(payload)
+    const headers: Record<string, string> = {
+      ...webhook.headers,
+      'Content-Type': 'application/json',
+      'X-Tina-Event': payload.event,
+      'X-Tina-Delivery': payload.id,
+    }
+    if (webhook.secret) {
+      headers[SIGNATURE_HEADER] = signWebhookPayload(body, webhook.secret)
+    }
+    const retries = webhook.retries ?? DEFAULT_RETRIES
+    const retryDelay = this.options.retryDelay ?? DEFAULT_RETRY_DELAY
+    let attempts = 0
+    let statusCode: number | undefined
+    let error: string | undefined
+    while (attempts <= retries) {
+      if (attempts > 0) {
+        await wait(retryDelay * 2 ** (attempts - 1))
+      }
+      attempts++
+      try {
+        const response = await this.fetch(webhook.url, {
+          method: 'POST',
+          headers,
+          body,
+        })
+        statusCode = response.status
+        error = response.ok ? undefined : `Responded with ${response.status}`
+      } catch (e) {
+        statusCode = undefined
+        error = e instanceof Error ? e.message : String(e)
+      }
+      if (!error || !isRetryable(statusCode)) {
+        break
+      }
+    }
+    const delivery: WebhookDelivery = {
+      id: payload.id,
+      url: webhook.url,
+      event: payload.event,
+      path: payload.path,
+      status: error ? 'failed' : 'delivered',
+      attempts,
+      statusCode,
+      error,
+      timestamp: new Date().toISOString(),
+    }
+    await this.log(delivery)
+    return delivery
+  }
+
+  private async log(delivery: WebhookDelivery) {
+    if (delivery.error && this.options.warn) {
+      this.options.warn(
+        `Webhook ${delivery.event} to ${delivery.url} failed after ${delivery.attempts} attempts: ${delivery.error}`
+      )
+    }
+    if (!this.options.logPath) {
+      return
+    }
+    try {
+      await fs.ensureDir(path.dirname(this.options.logPath))
+      await fs.appendFile(this.options.logPath, `${JSON.stringify(delivery)}\n`)
+    } catch (e) {
+      // the log is only a debugging aid, it never fails a delivery
+    }
+  }
+}
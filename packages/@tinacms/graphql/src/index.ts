@@ -11,8 +11,22 @@ export { resolve } from './resolve'
 export * from './resolver/error'
 export { createDatabase } from './database'
 export { TinaLevelClient } from './level/tinaLevel'
+export {
+  WebhookDispatcher,
+  signWebhookPayload,
+  SIGNATURE_HEADER,
+} from './database/webhooks'
+export type {
+  WebhookPayload,
+  WebhookDelivery,
+  WebhookDispatcherOptions,
+} from './database/webhooks'
 export type {
   QueryOptions,
+  SearchOptions,
+  ReferencedByOptions,
+  DocumentBatchOperation,
+  HistoryOptions,
   Database,
   OnDeleteCallback,
   OnPutCallback,
@@ -45,4 +59,16 @@ export {
   AuditFileSystemBridge,
 } from './database/bridge/filesystem'
 export { IsomorphicBridge } from './database/bridge/isomorphic'
-export type { Bridge } from './database/bridge'
+export {
+  findGitRoot,
+  currentGitBranch,
+  listGitBranches,
+  createGitBranch,
+  switchGitBranch,
+} from './database/git-branches'
+export type { GitBranch } from './database/git-branches'
+export type {
+  Bridge,
+  BridgeBatchOperation,
+  BridgeCommit,
+} from './database/bridge'
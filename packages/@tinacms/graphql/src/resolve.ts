@@ -10,7 +10,7 @@ import {
   GraphQLError,
   parse,
 } from 'graphql'
-import type { TinaSchema } from '@tinacms/schema-tools'
+import type { TinaSchema, TinaUser } from '@tinacms/schema-tools'
 import type { GraphQLConfig } from './types'
 import { createSchema } from './schema/createSchema'
 import { createResolver } from './resolver'
@@ -30,6 +30,7 @@ export const resolve = async ({
   silenceErrors,
   verbose,
   isAudit,
+  user,
 }: {
   config?: GraphQLConfig
   query: string
@@ -38,6 +39,11 @@ export const resolve = async ({
   silenceErrors?: boolean
   verbose?: boolean
   isAudit?: boolean
+  /**
+   * The user making the request, as verified by the server. The operations
+   * on each collection are limited to the roles of the user
+   */
+  user?: TinaUser
 }) => {
   try {
     const verboseValue = verbose ?? true
@@ -57,6 +63,7 @@ export const resolve = async ({
       database,
       tinaSchema,
       isAudit: isAudit || false,
+      user,
     })
 
     const res = await graphql({
@@ -181,6 +188,201 @@ export const resolve = async ({
             }
           }
 
+          /**
+           * `search`
+           *
+           * Full-text search across collections, eg.
+           * ```graphql
+           * {
+           *   search(query: "hello world") {
+           *     edges {
+           *       highlights { field snippet }
+           *       node { ...on Document { id } }
+           *     }
+           *   }
+           * }
+           * ```
+           */
+          if (
+            info.fieldName === 'search' &&
+            info.parentType.toString() === 'Query'
+          ) {
+            return resolver.resolveSearch({ args })
+          }
+
+          /**
+           * `_sys.referencedBy`
+           *
+           * The documents which reference this document, eg.
+           * ```graphql
+           * {
+           *   author(relativePath: "jane.md") {
+           *     _sys {
+           *       referencedBy(collections: ["post"]) {
+           *         edges { node { ...on Document { id } } }
+           *       }
+           *     }
+           *   }
+           * }
+           * ```
+           */
+          if (
+            info.fieldName === 'referencedBy' &&
+            info.parentType.toString() === 'SystemInfo'
+          ) {
+            return resolver.resolveReferencedBy({
+              args,
+              // @ts-ignore source is the `_sys` object of the document
+              path: source.path,
+            })
+          }
+
+          /**
+           * `_sys.history`
+           *
+           * The revisions of this document, eg.
+           * ```graphql
+           * {
+           *   post(relativePath: "hello.md") {
+           *     _sys {
+           *       history(first: 10) {
+           *         edges { node { ref message date author { name } } }
+           *       }
+           *     }
+           *   }
+           * }
+           * ```
+           */
+          if (
+            info.fieldName === 'history' &&
+            info.parentType.toString() === 'SystemInfo'
+          ) {
+            return resolver.resolveHistory({
+              args,
+              // @ts-ignore source is the `_sys` object of the document
+              path: source.path,
+            })
+          }
+
+          /**
+           * `_sys.hash`
+           *
+           * Read from the content file only when it's requested, documents
+           * at a previous revision have none
+           */
+          if (
+            info.fieldName === 'hash' &&
+            info.parentType.toString() === 'SystemInfo'
+          ) {
+            return value === null
+              ? null
+              : resolver.resolveContentHash({
+                  // @ts-ignore source is the `_sys` object of the document
+                  path: source.path,
+                })
+          }
+
+          /**
+           * `_sys.translations`
+           *
+           * The same document in the other locales of its collection
+           */
+          if (
+            info.fieldName === 'translations' &&
+            info.parentType.toString() === 'SystemInfo'
+          ) {
+            return resolver.resolveTranslations({
+              // @ts-ignore source is the `_sys` object of the document
+              path: source.path,
+            })
+          }
+
+          /**
+           * `documentAtRevision`
+           *
+           * A document as it was at a previous revision
+           */
+          if (
+            info.fieldName === 'documentAtRevision' &&
+            info.parentType.toString() === 'Query'
+          ) {
+            return resolver.resolveDocumentAtRevision({ args })
+          }
+
+          /**
+           * `documentDeleteImpact`
+           *
+           * The documents which would be affected by deleting a document,
+           * used to preview the changes of a delete
+           */
+          if (
+            info.fieldName === 'documentDeleteImpact' &&
+            info.parentType.toString() === 'Query'
+          ) {
+            return resolver.resolveDocumentDeleteImpact({ args })
+          }
+
+          /**
+           * `documentReferrers`
+           *
+           * The documents which reference a document or the documents of a folder,
+           * used to preview the changes of a rename
+           */
+          if (
+            info.fieldName === 'documentReferrers' &&
+            info.parentType.toString() === 'Query'
+          ) {
+            return resolver.resolveDocumentReferrers({ args })
+          }
+
+          /**
+           * `mediaUsage`
+           *
+           * The documents which use a media file, used to warn before it's deleted
+           */
+          if (
+            info.fieldName === 'mediaUsage' &&
+            info.parentType.toString() === 'Query'
+          ) {
+            return resolver.resolveMediaUsage({ args })
+          }
+
+          /**
+           * `updateMediaReferences`
+           *
+           * Point the documents which use a media file to its new location
+           */
+          if (
+            info.fieldName === 'updateMediaReferences' &&
+            info.parentType.toString() === 'Mutation'
+          ) {
+            return resolver.resolveUpdateMediaReferences({ args })
+          }
+
+          /**
+           * `batchDocuments`
+           *
+           * Create, update and delete documents across collections in one request
+           */
+          if (
+            info.fieldName === 'batchDocuments' &&
+            info.parentType.toString() === 'Mutation'
+          ) {
+            return resolver.resolveBatchDocuments({ args })
+          }
+
+          /**
+           * `publishDocument`
+           *
+           * Write the draft of a document to its content file
+           */
+          if (
+            info.fieldName === 'publishDocument' &&
+            info.parentType.toString() === 'Mutation'
+          ) {
+            return resolver.resolvePublishDocument({ args })
+          }
+
           // We assume the value is already fully resolved
           if (!lookup) {
             return value
@@ -333,6 +535,8 @@ export const resolve = async ({
               return resolver.resolveCollectionConnection({
                 args,
                 collection: tinaSchema.getCollection(lookup.collection),
+                // scheduled and expired documents are hidden unless requested
+                defaultStatus: 'published',
               })
             /**
              * A polymorphic data set, it can be from a document's data
@@ -30,6 +30,21 @@ export class TinaGraphQLError extends Error implements GraphQLError {
   }
 }
 
+/**
+ * The content file of a document has changed since the `ifMatch` hash of a
+ * mutation was read, the mutation is rejected so it doesn't overwrite it
+ */
+export class TinaConflictError extends TinaGraphQLError {
+  constructor(args: { path: string; ifMatch: string; hash: string | null }) {
+    super(`The document ${args.path} has changed since it was read`, {
+      code: 'CONFLICT',
+      path: args.path,
+      ifMatch: args.ifMatch,
+      hash: args.hash,
+    })
+  }
+}
+
 export type TypeFetchErrorArgs = {
   stack?: string
   file?: string
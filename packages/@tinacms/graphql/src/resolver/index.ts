@@ -4,6 +4,7 @@
 
 import path from 'path'
 import { Database } from '../database'
+import type { DocumentBatchOperation } from '../database'
 import { assertShape, lastItem, sequential } from '../util'
 import { NAMER } from '../ast-builder'
 import isValid from 'date-fns/isValid'
@@ -11,29 +12,55 @@ import { parseMDX, stringifyMDX } from '../mdx'
 
 import type {
   Collectable,
+  CollectionOperation,
+  PublishStatus,
   ReferenceType,
   Collection,
   TinaField,
   Template,
   TinaSchema,
+  TinaUser,
 } from '@tinacms/schema-tools'
 
+import {
+  getDocumentLocale,
+  getLocalizedPath,
+  isOperationAllowed,
+  validateValues,
+} from '@tinacms/schema-tools'
 import type { GraphQLConfig } from '../types'
 
-import { TinaGraphQLError, TinaParseDocumentError } from './error'
+import {
+  TinaConflictError,
+  TinaGraphQLError,
+  TinaParseDocumentError,
+} from './error'
 import { collectConditionsForField, resolveReferences } from './filter-utils'
 import {
   resolveMediaRelativeToCloud,
   resolveMediaCloudToRelative,
+  resolveImageMetadata,
 } from './media-utils'
 import { GraphQLError } from 'graphql'
-import { FilterCondition, makeFilterChain } from '../database/datalayer'
+import {
+  FilterCondition,
+  makeFilterChain,
+  SortOption,
+} from '../database/datalayer'
+import { normalizePath } from '../database/util'
+import { mapFieldReferences } from '../database/references'
+import { mapFieldMedia } from '../database/media-usage'
 
 interface ResolverConfig {
   config?: GraphQLConfig
   database: Database
   tinaSchema: TinaSchema
   isAudit: boolean
+  /**
+   * The user making the request, the operations on each collection are
+   * limited to the roles of the user. Requests without a user are trusted
+   */
+  user?: TinaUser
 }
 
 export const createResolver = (args: ResolverConfig) => {
@@ -49,11 +76,81 @@ export class Resolver {
   public database: Database
   public tinaSchema: TinaSchema
   public isAudit: boolean
+  public user?: TinaUser
   constructor(public init: ResolverConfig) {
     this.config = init.config
     this.database = init.database
     this.tinaSchema = init.tinaSchema
     this.isAudit = init.isAudit
+    this.user = init.user
+  }
+  public isAllowed = (collection: string, operation: CollectionOperation) => {
+    if (!this.user) {
+      return true
+    }
+    return isOperationAllowed({
+      roles: this.tinaSchema.schema.config?.admin?.auth?.roles,
+      user: this.user,
+      collection,
+      operation,
+    })
+  }
+  private assertAllowed = (
+    collection: string,
+    operation: CollectionOperation
+  ) => {
+    if (!this.isAllowed(collection, operation)) {
+      throw new TinaGraphQLError(
+        `You are not allowed to ${operation} documents of the ${collection} collection`,
+        { code: 'FORBIDDEN', collection, operation }
+      )
+    }
+  }
+  /**
+   * Checks the operation for the collection of each of the documents
+   */
+  private assertAllowedForPaths = (
+    paths: string[],
+    operation: CollectionOperation
+  ) => {
+    paths.forEach((documentPath) => {
+      const collection = this.tinaSchema.getCollectionByFullPath(documentPath)
+      if (collection) {
+        this.assertAllowed(collection.name, operation)
+      }
+    })
+  }
+  /**
+   * The requested collections, or all of the collections the user may read
+   */
+  private readableCollections = (collections?: string[]) => {
+    if (collections) {
+      collections.forEach((collection) =>
+        this.assertAllowed(collection, 'read')
+      )
+      return collections
+    }
+    if (!this.user) {
+      return undefined
+    }
+    return this.tinaSchema
+      .getCollections()
+      .map((collection) => collection.name)
+      .filter((collection) => this.isAllowed(collection, 'read'))
+  }
+  /**
+   * The paths of the documents the user may read, documents of other
+   * collections are left out rather than rejected
+   */
+  private readablePaths = (paths: string[]) => {
+    const collections = this.readableCollections()
+    if (!collections) {
+      return paths
+    }
+    return paths.filter((documentPath) => {
+      const collection = this.tinaSchema.getCollectionByFullPath(documentPath)
+      return !!collection && collections.includes(collection.name)
+    })
   }
   public resolveCollection = async (
     args,
@@ -77,15 +174,25 @@ export class Resolver {
       ...extraFields,
     }
   }
-  public getRaw = async (fullPath: unknown) => {
+  /**
+   * With `preview`, the draft of the document is returned when there is one
+   */
+  public getRaw = async (
+    fullPath: unknown,
+    { preview }: { preview?: boolean } = {}
+  ) => {
     if (typeof fullPath !== 'string') {
       throw new Error(`fullPath must be of type string for getDocument request`)
     }
 
-    return this.database.get<{
-      _collection: string
-      _template: string
-    }>(fullPath)
+    type RawData = { _collection: string; _template: string }
+    if (preview) {
+      const draft = await this.database.getDraft<RawData>(fullPath)
+      if (draft) {
+        return draft
+      }
+    }
+    return this.database.get<RawData>(fullPath)
   }
   public getDocumentOrDirectory = async (fullPath: unknown) => {
     if (typeof fullPath !== 'string') {
@@ -104,19 +211,24 @@ export class Resolver {
       return this.transformDocumentIntoPayload(fullPath, rawData)
     }
   }
-  public getDocument = async (fullPath: unknown) => {
+  public getDocument = async (
+    fullPath: unknown,
+    options: { preview?: boolean } = {}
+  ) => {
     if (typeof fullPath !== 'string') {
       throw new Error(`fullPath must be of type string for getDocument request`)
     }
 
-    const rawData = await this.getRaw(fullPath)
+    const rawData = await this.getRaw(fullPath, options)
     return this.transformDocumentIntoPayload(fullPath, rawData)
   }
 
   private transformDocumentIntoPayload = async (
     fullPath: string,
-    rawData: { _collection; _template }
+    rawData: { _collection; _template },
+    { isRevision = false }: { isRevision?: boolean } = {}
   ) => {
+    this.assertAllowed(rawData._collection, 'read')
     const collection = this.tinaSchema.getCollection(rawData._collection)
     try {
       const template = await this.tinaSchema.getTemplateForData({
@@ -180,6 +292,12 @@ export class Resolver {
           breadcrumbs,
           collection,
           template: lastItem(template.namespace),
+          locale: collection.i18n
+            ? getDocumentLocale(collection.i18n, relativePath)
+            : null,
+          // the hash of the content file is only read when it's requested,
+          // see `resolveContentHash`
+          ...(isRevision ? { hash: null } : {}),
         },
         _values: data,
         _rawData: rawData,
@@ -195,12 +313,107 @@ export class Resolver {
       throw e
     }
   }
+  /**
+   * Delete a document, applying the `onDelete` policy of the reference
+   * fields which point to it: documents with a `nullify` reference are
+   * updated, documents with a `cascade` reference are deleted as well, and
+   * any `restrict` reference prevents the deletion. References without a
+   * policy are left as they are. The changes are written with a single
+   * `database.batch` call
+   */
   public deleteDocument = async (fullPath: unknown) => {
     if (typeof fullPath !== 'string') {
       throw new Error(`fullPath must be of type string for getDocument request`)
     }
 
-    await this.database.delete(fullPath)
+    const { restricted, nullified, cascaded } = await this.getDeleteImpact(
+      fullPath
+    )
+    if (restricted.length) {
+      throw new TinaGraphQLError(
+        `Unable to delete document, ${fullPath} is referenced by ${restricted.join(
+          ', '
+        )}`,
+        { code: 'DOCUMENT_REFERENCED', referencedBy: restricted }
+      )
+    }
+    this.assertAllowedForPaths(cascaded, 'delete')
+    this.assertAllowedForPaths(nullified, 'update')
+    const deleted = [fullPath, ...cascaded]
+    const operations: DocumentBatchOperation[] = []
+    await sequential(nullified, async (referrer) => {
+      const rawData = await this.getRaw(referrer)
+      const template = await this.tinaSchema.getTemplateForData({
+        data: rawData,
+        collection: this.tinaSchema.getCollection(rawData._collection),
+      })
+      const { value } = mapFieldReferences(
+        template.fields as TinaField<true>[],
+        rawData,
+        (reference) => (deleted.includes(reference) ? null : undefined)
+      )
+      operations.push({
+        type: 'put',
+        filepath: referrer,
+        data: value,
+        collection: rawData._collection,
+      })
+    })
+    deleted.forEach((documentPath) => {
+      operations.push({ type: 'delete', filepath: documentPath })
+    })
+    // a failure leaves every document as it was instead of
+    // leaving references to a deleted document behind
+    await this.database.batch(operations)
+  }
+
+  /**
+   * Work out which documents are affected by deleting the document at `fullPath`,
+   * following the `onDelete` policy of the fields which reference it
+   */
+  public getDeleteImpact = async (fullPath: string) => {
+    const deleted = new Set<string>([fullPath])
+    const nullified = new Set<string>()
+    const restricted = new Set<string>()
+    const queue = [fullPath]
+    while (queue.length) {
+      const documentPath = queue.shift()
+      const referrers = await this.database.getReferrers(documentPath)
+      await sequential(referrers, async (referrer) => {
+        if (deleted.has(referrer)) {
+          return
+        }
+        const rawData = await this.getRaw(referrer)
+        const template = await this.tinaSchema.getTemplateForData({
+          data: rawData,
+          collection: this.tinaSchema.getCollection(rawData._collection),
+        })
+        const policies = new Set<string>()
+        mapFieldReferences(
+          template.fields as TinaField<true>[],
+          rawData,
+          (reference, field) => {
+            if (reference === documentPath && field.onDelete) {
+              policies.add(field.onDelete)
+            }
+            return undefined
+          }
+        )
+        if (policies.has('cascade')) {
+          deleted.add(referrer)
+          queue.push(referrer)
+        } else if (policies.has('restrict')) {
+          restricted.add(referrer)
+        } else if (policies.has('nullify')) {
+          nullified.add(referrer)
+        }
+      })
+    }
+    return {
+      restricted: Array.from(restricted).filter((item) => !deleted.has(item)),
+      nullified: Array.from(nullified).filter((item) => !deleted.has(item)),
+      cascaded: Array.from(deleted).filter((item) => item !== fullPath),
+    }
   }
 
   public buildObjectMutations = (fieldValue: any, field: Collectable) => {
@@ -275,6 +488,102 @@ export class Resolver {
     }
   }
 
+  /**
+   * Check the values of a document against the `validation` rules of its
+   * fields before it's written, `unique` fields are checked against the other
+   * documents of the collection (in the same locale), including the documents
+   * which are put or deleted along with it in a batch
+   */
+  private validateDocument = async (
+    collection: Collection<true>,
+    realPath: string,
+    values: Record<string, unknown>,
+    batch: {
+      puts: Record<
+        string,
+        { data: Record<string, unknown>; collection: string }
+      >
+      deletes: string[]
+    } = { puts: {}, deletes: [] }
+  ) => {
+    const templateInfo = this.tinaSchema.getTemplatesForCollectable(collection)
+    const template =
+      templateInfo.type === 'object'
+        ? templateInfo.template
+        : templateInfo.templates.find(
+            (template) => lastItem(template.namespace) === values._template
+          )
+    if (!template) {
+      return
+    }
+    const fields = template.fields as TinaField[]
+    const errors = validateValues(fields, values)
+    await sequential(fields, async (field) => {
+      const value = values[field.name]
+      if (
+        !field.validation?.unique ||
+        value === undefined ||
+        value === null ||
+        value === '' ||
+        errors.some((error) => error.path[0] === field.name)
+      ) {
+        return
+      }
+      const conditions: FilterCondition[] = []
+      collectConditionsForField(
+        field.name,
+        field,
+        { eq: value as object },
+        '',
+        (condition) => conditions.push(condition)
+      )
+      const localeOf = (filepath: string) =>
+        collection.i18n
+          ? getDocumentLocale(
+              collection.i18n,
+              filepath.replace(collection.path, '').replace(/^\/|\/$/g, '')
+            )
+          : undefined
+      const locale = localeOf(realPath)
+      const { edges } = await this.database.query(
+        {
+          collection: collection.name,
+          filterChain: makeFilterChain({ conditions }),
+          locale,
+        },
+        async (filepath: string) => filepath
+      )
+      // the stored value of the documents in the batch is about to change
+      const storedDuplicate = edges.some(
+        (edge) =>
+          edge.node !== realPath &&
+          !batch.deletes.includes(edge.node) &&
+          !batch.puts[edge.node]
+      )
+      const batchDuplicate = Object.entries(batch.puts).some(
+        ([filepath, put]) =>
+          filepath !== realPath &&
+          put.collection === collection.name &&
+          put.data[field.name] === value &&
+          localeOf(filepath) === locale
+      )
+      if (storedDuplicate || batchDuplicate) {
+        errors.push({
+          path: [field.name],
+          message: field.validation.message || 'Must be unique',
+        })
+      }
+    })
+    if (errors.length) {
+      throw new TinaGraphQLError(
+        `Validation failed for ${realPath}: ${errors
+          .map((error) => `${error.path.join('.')}: ${error.message}`)
+          .join('; ')}`,
+        { code: 'VALIDATION_FAILED', errors }
+      )
+    }
+  }
+
   public createResolveDocument = async ({
     collection,
     realPath,
@@ -334,6 +643,8 @@ export class Resolver {
       collection
     )
 
+    // @ts-ignore
+    await this.validateDocument(collection, realPath, params)
     // @ts-ignore
     await this.database.put(realPath, params, collection.name)
     return this.getDocument(realPath)
@@ -406,6 +717,18 @@ export class Resolver {
       collection
     )
     //@ts-ignore
+    if (args.draft) {
+      // drafts build on the previous draft, the content file is left untouched
+      const draft = await this.database.getDraft(realPath)
+      await this.database.putDraft(realPath, {
+        ...(draft || oldDoc),
+        ...params,
+      })
+      return this.getDocument(realPath, { preview: true })
+    }
+    //@ts-ignore
+    await this.validateDocument(collection, realPath, { ...oldDoc, ...params })
+    //@ts-ignore
     await this.database.put(realPath, { ...oldDoc, ...params }, collection.name)
     return this.getDocument(realPath)
   }
@@ -464,10 +787,22 @@ export class Resolver {
     )
 
     const collection = await this.tinaSchema.getCollection(collectionLookup)
-    const realPath = path.join(collection?.path, args.relativePath)
+    // @ts-ignore
+    const locale: string | undefined = args.locale
+    const realPath = path.join(
+      collection?.path,
+      // queries can request the translation of a document
+      !isMutation && locale && collection?.i18n
+        ? getLocalizedPath(collection.i18n, args.relativePath, locale)
+        : args.relativePath
+    )
     const alreadyExists = await this.database.documentExists(realPath)
 
     if (isMutation) {
+      this.assertAllowed(
+        collection.name,
+        isCreation ? 'create' : isDeletion ? 'delete' : 'update'
+      )
       if (isCreation) {
         /**
          * createDocument, create<Collection>Document
@@ -490,11 +825,47 @@ export class Resolver {
           )
         }
         if (isUpdateName) {
-          throw new Error(
-            `Unable to update document, ${realPath} does not exist`
+          // the relative path can also be a folder when moving all of its documents
+          const folderDocuments = await this.getFolderDocuments(
+            collection,
+            args.relativePath
           )
+          if (!folderDocuments.length) {
+            throw new Error(
+              `Unable to update document, ${realPath} does not exist`
+            )
+          }
+          assertShape<{ params: { relativePath: string } }>(args, (yup) =>
+            yup.object({
+              params: yup
+                .object({ relativePath: yup.string().required() })
+                .required(),
+            })
+          )
+          const newFolderPath = normalizePath(
+            path.join(collection?.path, args.params.relativePath)
+          )
+          const folderPath = normalizePath(realPath)
+          const renamed: Record<string, string> = {}
+          folderDocuments.forEach((documentPath) => {
+            renamed[documentPath] = `${newFolderPath}${documentPath.substring(
+              folderPath.length
+            )}`
+          })
+          await this.renameDocuments(collection, renamed)
+          return {
+            __typename: 'Folder',
+            name: path.basename(newFolderPath),
+            path: newFolderPath,
+          }
         }
       }
+      if (alreadyExists) {
+        assertShape<{ ifMatch?: string | null }>(args, (yup) =>
+          yup.object({ ifMatch: yup.string().nullable() })
+        )
+        await this.assertIfMatch(realPath, args.ifMatch)
+      }
       if (isDeletion) {
         const doc = await this.getDocument(realPath)
         await this.deleteDocument(realPath)
@@ -508,16 +879,14 @@ export class Resolver {
         assertShape<{ relativePath: string }>(args?.params, (yup) =>
           yup.object({ relativePath: yup.string().required() })
         )
-        // Get the real document
-        const doc = await this.getDocument(realPath)
         const newRealPath = path.join(
           collection?.path,
           args.params.relativePath
         )
-        // Update the document
-        await this.database.put(newRealPath, doc._rawData, collection.name)
-        // Delete the old document
-        await this.deleteDocument(realPath)
+        // Move the document and update the documents which reference it
+        await this.renameDocuments(collection, {
+          [normalizePath(realPath)]: normalizePath(newRealPath),
+        })
         return this.getDocument(newRealPath)
       }
       /**
@@ -537,10 +906,621 @@ export class Resolver {
       /**
        * getDocument, get<Collection>Document
        */
-      return this.getDocument(realPath)
+      return this.getDocument(realPath, {
+        // @ts-ignore
+        preview: Boolean(args.preview),
+      })
+    }
+  }
+
+  /**
+   * The hash of the content file of a document, as `_sys.hash`
+   */
+  public resolveContentHash = async ({ path }: { path: string }) =>
+    this.database.getContentHash(path)
+
+  /**
+   * Throws when the content file of the document no longer has the hash
+   * the mutation expects
+   */
+  private assertIfMatch = async (realPath: string, ifMatch?: string) => {
+    if (!ifMatch) {
+      return
+    }
+    const hash = await this.database.getContentHash(realPath)
+    if (hash !== ifMatch) {
+      throw new TinaConflictError({
+        path: normalizePath(realPath),
+        ifMatch,
+        hash,
+      })
+    }
+  }
+
+  /**
+   * The paths of all documents stored under `relativePath` in the collection
+   */
+  private getFolderDocuments = async (
+    collection: Collection<true>,
+    relativePath: string
+  ): Promise<string[]> => {
+    const folderPath = normalizePath(path.join(collection.path, relativePath))
+    const result = await this.database.query(
+      {
+        collection: collection.name,
+        filterChain: makeFilterChain({ conditions: [] }),
+        first: -1,
+      },
+      (documentPath: string) => documentPath
+    )
+    return result.edges
+      .map((edge) => edge.node as string)
+      .filter((documentPath) => documentPath.startsWith(`${folderPath}/`))
+  }
+
+  /**
+   * Find the documents with a reference to any of the given paths,
+   * leaving out the given documents themselves
+   */
+  public findReferrers = async (paths: string[]): Promise<string[]> => {
+    const referrers = new Set<string>()
+    await sequential(paths, async (documentPath) => {
+      const documentReferrers = await this.database.getReferrers(documentPath)
+      documentReferrers.forEach((referrer) => {
+        if (!paths.includes(referrer)) {
+          referrers.add(referrer)
+        }
+      })
+    })
+    return Array.from(referrers).sort()
+  }
+
+  /**
+   * Move documents from one path to another (given as `{ [from]: to }`) and
+   * rewrite every reference to them, including the references between the
+   * moved documents themselves
+   */
+  private renameDocuments = async (
+    collection: Collection<true>,
+    renamed: Record<string, string>
+  ) => {
+    const paths = Object.keys(renamed)
+    await sequential(paths, async (from) => {
+      if (await this.database.documentExists(renamed[from])) {
+        throw new Error(
+          `Unable to update document, ${renamed[from]} already exists`
+        )
+      }
+    })
+    const referrers = await this.findReferrers(paths)
+    this.assertAllowedForPaths(referrers, 'update')
+    const rewrite = async (rawData: { _collection: string }) => {
+      const template = await this.tinaSchema.getTemplateForData({
+        data: rawData,
+        collection: this.tinaSchema.getCollection(rawData._collection),
+      })
+      return mapFieldReferences(
+        template.fields as TinaField<true>[],
+        rawData,
+        (value) => renamed[value]
+      )
+    }
+
+    const operations: DocumentBatchOperation[] = []
+    const drafts: Record<string, Record<string, unknown>> = {}
+    await sequential(paths, async (from) => {
+      const { value } = await rewrite(await this.getRaw(from))
+      operations.push({
+        type: 'put',
+        filepath: renamed[from],
+        data: value,
+        collection: collection.name,
+      })
+      const draft = await this.database.getDraft<{ _collection: string }>(from)
+      if (draft) {
+        drafts[renamed[from]] = (await rewrite(draft)).value
+      }
+    })
+    await sequential(referrers, async (referrer) => {
+      const { value, changed } = await rewrite(await this.getRaw(referrer))
+      if (changed) {
+        operations.push({
+          type: 'put',
+          filepath: referrer,
+          data: value,
+          collection: value._collection as string,
+        })
+      }
+    })
+    // the references to the old paths have been rewritten, so there's
+    // no `onDelete` policy to apply
+    paths.forEach((from) => {
+      operations.push({ type: 'delete', filepath: from })
+    })
+    await this.database.batch(operations)
+    // the drafts move along with the documents, the batch discards the
+    // drafts of the old paths
+    await sequential(Object.keys(drafts), async (filepath) => {
+      await this.database.putDraft(filepath, drafts[filepath])
+    })
+  }
+
+  /**
+   * Create, update and delete several documents at once. Every operation is
+   * validated before any of them is applied, the `onDelete` policy of deleted
+   * documents is taken into account, and the changes are written with a single
+   * `database.batch` call
+   */
+  public resolveBatchDocuments = async ({ args }: { args: unknown }) => {
+    assertShape<{ operations: Record<string, unknown>[] }>(args, (yup) =>
+      yup.object({ operations: yup.array().of(yup.object()).required() })
+    )
+    const collectionNames = this.tinaSchema
+      .getCollections()
+      .map((item) => item.name)
+
+    const puts: Record<
+      string,
+      { data: Record<string, unknown>; collection: string }
+    > = {}
+    const deletes: string[] = []
+    // the index of the operation which puts each document, to report its errors
+    const putIndexes: Record<string, number> = {}
+    // the documents which are returned, deleted documents are resolved up front
+    const results: (string | Record<string, unknown>)[] = []
+    const operationError = (index: number, error) =>
+      new TinaGraphQLError(
+        `Invalid operation at index ${index}: ${error.message}`,
+        {
+          code:
+            error.extensions?.code === 'FORBIDDEN'
+              ? 'FORBIDDEN'
+              : 'INVALID_BATCH_OPERATION',
+          index,
+          ...(error.extensions?.errors
+            ? { errors: error.extensions.errors }
+            : {}),
+        }
+      )
+    for (const [index, operation] of args.operations.entries()) {
+      try {
+        const types = Object.keys(operation).filter(
+          (key) => operation[key] !== null && operation[key] !== undefined
+        )
+        if (types.length !== 1) {
+          throw new Error(
+            `Expected exactly one of "create", "update" or "delete" but got ${
+              types.length ? types.join(', ') : 'none'
+            }`
+          )
+        }
+        const type = types[0]
+        const input = operation[type] as {
+          collection?: string
+          relativePath: string
+          params?: Record<string, unknown>
+        }
+        const collectionLookup =
+          input.collection || Object.keys(input.params || {})[0]
+        assertShape<string>(
+          collectionLookup,
+          (yup) => yup.mixed().oneOf(collectionNames),
+          `"collection" must be one of: [${collectionNames.join(
+            ', '
+          )}] but got ${collectionLookup}`
+        )
+        const collection = this.tinaSchema.getCollection(collectionLookup)
+        if (['create', 'update', 'delete'].includes(type)) {
+          this.assertAllowed(collection.name, type as CollectionOperation)
+        }
+        const realPath = normalizePath(
+          path.join(collection.path, input.relativePath)
+        )
+        if (puts[realPath] || deletes.includes(realPath)) {
+          throw new Error(`${realPath} is changed by more than one operation`)
+        }
+        const alreadyExists = await this.database.documentExists(realPath)
+        switch (type) {
+          case 'create': {
+            if (alreadyExists) {
+              throw new Error(
+                `Unable to add document, ${realPath} already exists`
+              )
+            }
+            const data = this.buildObjectMutations(
+              input.params[collection.name],
+              collection
+            ) as Record<string, unknown>
+            puts[realPath] = { data, collection: collection.name }
+            putIndexes[realPath] = index
+            results.push(realPath)
+            break
+          }
+          case 'update': {
+            if (!alreadyExists) {
+              throw new Error(
+                `Unable to update document, ${realPath} does not exist`
+              )
+            }
+            if (input.params.relativePath) {
+              throw new Error(
+                `Unable to update document, renaming documents is not supported in a batch`
+              )
+            }
+            const oldDoc = await this.getRaw(realPath)
+            const data = this.buildObjectMutations(
+              input.params[collection.name],
+              collection
+            )
+            puts[realPath] = {
+              data: { ...oldDoc, ...data },
+              collection: collection.name,
+            }
+            putIndexes[realPath] = index
+            results.push(realPath)
+            break
+          }
+          case 'delete': {
+            if (!alreadyExists) {
+              throw new Error(
+                `Unable to delete document, ${realPath} does not exist`
+              )
+            }
+            deletes.push(realPath)
+            results.push(await this.getDocument(realPath))
+            break
+          }
+          default:
+            throw new Error(`Unknown operation ${type}`)
+        }
+      } catch (error) {
+        throw operationError(index, error)
+      }
+    }
+
+    // the documents are validated once the whole batch is known,
+    // so `unique` values are checked against the rest of the batch
+    await sequential(Object.keys(puts), async (realPath) => {
+      try {
+        await this.validateDocument(
+          this.tinaSchema.getCollection(puts[realPath].collection),
+          realPath,
+          puts[realPath].data,
+          { puts, deletes }
+        )
+      } catch (error) {
+        throw operationError(putIndexes[realPath], error)
+      }
+    })
+
+    // apply the `onDelete` policy of the references to the deleted documents
+    const deleted = new Set<string>(deletes)
+    const nullified = new Set<string>()
+    const restricted = new Set<string>()
+    await sequential(deletes, async (documentPath) => {
+      const impact = await this.getDeleteImpact(documentPath)
+      impact.cascaded.forEach((item) => deleted.add(item))
+      impact.nullified.forEach((item) => nullified.add(item))
+      impact.restricted.forEach((item) => restricted.add(item))
+    })
+    this.assertAllowedForPaths(
+      Array.from(deleted).filter((item) => !deletes.includes(item)),
+      'delete'
+    )
+    this.assertAllowedForPaths(Array.from(nullified), 'update')
+    const referencedBy = Array.from(restricted).filter(
+      (item) => !deleted.has(item)
+    )
+    if (referencedBy.length) {
+      throw new TinaGraphQLError(
+        `Unable to delete documents, they are referenced by ${referencedBy.join(
+          ', '
+        )}`,
+        { code: 'DOCUMENT_REFERENCED', referencedBy }
+      )
+    }
+    const conflicts = Array.from(deleted).filter((item) => puts[item])
+    if (conflicts.length) {
+      throw new TinaGraphQLError(
+        `Unable to delete documents, ${conflicts.join(
+          ', '
+        )} would be deleted and updated by the same batch`,
+        { code: 'INVALID_BATCH_OPERATION' }
+      )
+    }
+    await sequential(Array.from(nullified), async (referrer) => {
+      if (deleted.has(referrer)) {
+        return
+      }
+      const { data, collection } = puts[referrer] || {
+        data: await this.getRaw(referrer),
+        collection: undefined,
+      }
+      const template = await this.tinaSchema.getTemplateForData({
+        data,
+        collection: this.tinaSchema.getCollection(
+          collection || (data._collection as string)
+        ),
+      })
+      const { value } = mapFieldReferences(
+        template.fields as TinaField<true>[],
+        data,
+        (reference) => (deleted.has(reference) ? null : undefined)
+      )
+      puts[referrer] = {
+        data: value,
+        collection: collection || (data._collection as string),
+      }
+    })
+
+    await this.database.batch([
+      ...Object.entries(puts).map(([filepath, { data, collection }]) => ({
+        type: 'put' as const,
+        filepath,
+        data,
+        collection,
+      })),
+      ...Array.from(deleted).map((filepath) => ({
+        type: 'delete' as const,
+        filepath,
+      })),
+    ])
+
+    return sequential(results, async (result) =>
+      typeof result === 'string' ? this.getDocument(result) : result
+    )
+  }
+
+  public resolveReferencedBy = async ({
+    args,
+    path: documentPath,
+  }: {
+    args: Record<string, string | string[] | number>
+    path: string
+  }) => {
+    assertShape<{
+      collections?: string[]
+      first?: number
+      after?: string
+    }>(args, (yup) => yup.object())
+    return this.database.referencedBy(
+      {
+        path: documentPath,
+        collections: this.readableCollections(args.collections),
+        first: args.first,
+        after: args.after,
+      },
+      this.getDocument
+    )
+  }
+
+  /**
+   * The documents with the same path as `documentPath` in the other locales of its collection
+   */
+  public resolveTranslations = async ({
+    path: documentPath,
+  }: {
+    path: string
+  }) => {
+    const collection = this.tinaSchema.getCollectionByFullPath(documentPath)
+    if (!collection?.i18n) {
+      return []
+    }
+    const relativePath = documentPath
+      .replace(collection.path, '')
+      .replace(/^\/|\/$/g, '')
+    const locale = getDocumentLocale(collection.i18n, relativePath)
+    const translations = []
+    await sequential(collection.i18n.locales, async (translationLocale) => {
+      if (translationLocale === locale) {
+        return
+      }
+      const translationPath = normalizePath(
+        path.join(
+          collection.path,
+          getLocalizedPath(collection.i18n, relativePath, translationLocale)
+        )
+      )
+      if (await this.database.documentExists(translationPath)) {
+        translations.push(await this.getDocument(translationPath))
+      }
+    })
+    return translations
+  }
+
+  public resolveHistory = async ({
+    args,
+    path: documentPath,
+  }: {
+    args: Record<string, string | number>
+    path: string
+  }) => {
+    assertShape<{ first?: number; after?: string }>(args, (yup) => yup.object())
+    return this.database.history(documentPath, {
+      first: args.first,
+      after: args.after,
+    })
+  }
+
+  public resolveDocumentAtRevision = async ({ args }: { args: unknown }) => {
+    assertShape<{ collection: string; relativePath: string; ref: string }>(
+      args,
+      (yup) =>
+        yup.object({
+          collection: yup.string().required(),
+          relativePath: yup.string().required(),
+          ref: yup.string().required(),
+        })
+    )
+    const collection = this.tinaSchema.getCollection(args.collection)
+    const realPath = normalizePath(
+      path.join(collection.path, args.relativePath)
+    )
+    const rawData = await this.database.getAtRevision<{
+      _collection: string
+      _template: string
+    }>(realPath, args.ref)
+    return this.transformDocumentIntoPayload(realPath, rawData, {
+      isRevision: true,
+    })
+  }
+
+  /**
+   * Write the draft of a document to its content file
+   */
+  public resolvePublishDocument = async ({ args }: { args: unknown }) => {
+    assertShape<{ collection: string; relativePath: string }>(args, (yup) =>
+      yup.object({
+        collection: yup.string().required(),
+        relativePath: yup.string().required(),
+      })
+    )
+    const collection = this.tinaSchema.getCollection(args.collection)
+    this.assertAllowed(collection.name, 'update')
+    const realPath = normalizePath(
+      path.join(collection.path, args.relativePath)
+    )
+    const draft = await this.database.getDraft<Record<string, unknown>>(
+      realPath
+    )
+    if (!draft) {
+      throw new TinaGraphQLError(
+        `Unable to publish ${realPath}, the document has no draft`,
+        { code: 'DRAFT_NOT_FOUND' }
+      )
+    }
+    // drafts are validated when they're published
+    await this.validateDocument(collection, realPath, draft)
+    await this.database.publishDraft(realPath, collection.name)
+    return this.getDocument(realPath)
+  }
+
+  public resolveDocumentDeleteImpact = async ({ args }: { args: unknown }) => {
+    assertShape<{ collection: string; relativePath: string }>(args, (yup) =>
+      yup.object({
+        collection: yup.string().required(),
+        relativePath: yup.string().required(),
+      })
+    )
+    const collection = this.tinaSchema.getCollection(args.collection)
+    this.assertAllowed(collection.name, 'read')
+    const { restricted, nullified, cascaded } = await this.getDeleteImpact(
+      normalizePath(path.join(collection.path, args.relativePath))
+    )
+    return {
+      restricted: this.readablePaths(restricted),
+      nullified: this.readablePaths(nullified),
+      cascaded: this.readablePaths(cascaded),
+    }
+  }
+
+  public resolveDocumentReferrers = async ({ args }: { args: unknown }) => {
+    assertShape<{ collection: string; relativePath: string }>(args, (yup) =>
+      yup.object({
+        collection: yup.string().required(),
+        relativePath: yup.string().required(),
+      })
+    )
+    const collection = this.tinaSchema.getCollection(args.collection)
+    this.assertAllowed(collection.name, 'read')
+    const realPath = normalizePath(
+      path.join(collection.path, args.relativePath)
+    )
+    const paths = (await this.database.documentExists(realPath))
+      ? [realPath]
+      : await this.getFolderDocuments(collection, args.relativePath)
+    const referrers = paths.length
+      ? this.readablePaths(await this.findReferrers(paths))
+      : []
+    return {
+      documentCount: paths.length,
+      totalCount: referrers.length,
+      paths: referrers,
     }
   }
 
+  /**
+   * Media values are stored relative to the media root, so Tina Cloud
+   * asset urls are converted before looking them up
+   */
+  private relativeMediaSrc = (src: string) =>
+    resolveMediaCloudToRelative(
+      src,
+      this.config,
+      this.tinaSchema.schema
+    ) as string
+
+  public resolveMediaUsage = async ({ args }: { args: unknown }) => {
+    assertShape<{ src: string }>(args, (yup) =>
+      yup.object({ src: yup.string().required() })
+    )
+    const paths = await this.database.getMediaUsage(
+      this.relativeMediaSrc(args.src),
+      this.readableCollections()
+    )
+    return { totalCount: paths.length, paths }
+  }
+
+  /**
+   * Replace the media at `from` with `to` in every document which uses it,
+   * including their drafts
+   */
+  public resolveUpdateMediaReferences = async ({ args }: { args: unknown }) => {
+    assertShape<{ from: string; to: string }>(args, (yup) =>
+      yup.object({
+        from: yup.string().required(),
+        to: yup.string().required(),
+      })
+    )
+    const from = this.relativeMediaSrc(args.from)
+    const to = this.relativeMediaSrc(args.to)
+    const paths = await this.database.getMediaUsage(from)
+    this.assertAllowedForPaths(paths, 'update')
+    const rewrite = async (rawData: { _collection: string }) => {
+      const template = await this.tinaSchema.getTemplateForData({
+        data: rawData,
+        collection: this.tinaSchema.getCollection(rawData._collection),
+      })
+      return mapFieldMedia(
+        template.fields as TinaField<true>[],
+        rawData,
+        (src) => (src === from ? to : undefined)
+      )
+    }
+    const operations: DocumentBatchOperation[] = []
+    const drafts: Record<string, Record<string, unknown>> = {}
+    await sequential(paths, async (documentPath) => {
+      const { value, changed } = await rewrite(await this.getRaw(documentPath))
+      if (changed) {
+        operations.push({
+          type: 'put',
+          filepath: documentPath,
+          data: value,
+          collection: value._collection as string,
+        })
+      }
+      const draft = await this.database.getDraft<{ _collection: string }>(
+        documentPath
+      )
+      if (draft) {
+        const { value: draftValue, changed: draftChanged } = await rewrite(
+          draft
+        )
+        if (draftChanged) {
+          drafts[documentPath] = draftValue
+        }
+      }
+    })
+    // the documents are written at once, as a single commit with the git bridges
+    if (operations.length) {
+      await this.database.batch(operations)
+    }
+    await sequential(Object.keys(drafts), async (filepath) => {
+      await this.database.putDraft(filepath, drafts[filepath])
+    })
+    return { totalCount: paths.length, paths }
+  }
+
   public resolveCollectionConnections = async ({ ids }: { ids: string[] }) => {
     return {
       totalCount: ids.length,
@@ -633,11 +1613,15 @@ export class Resolver {
     args,
     collection,
     hydrator,
+    defaultStatus = 'all',
   }: {
     args: Record<string, Record<string, object> | string | number>
     collection: Collection<true>
     hydrator?: (string) => any
+    /* the publish status used when none is requested, for collections with `publishing` */
+    defaultStatus?: PublishStatus | 'all'
   }) => {
+    this.assertAllowed(collection.name, 'read')
     let conditions: FilterCondition[]
     if (args.filter) {
       if (collection.fields) {
@@ -667,17 +1651,38 @@ export class Resolver {
       }
     }
 
+    const orderBy = (args.orderBy as unknown as SortOption[]) || []
+    const fieldNames = collection.fields
+      ? collection.fields.map((field) => field.name)
+      : (collection.templates as Template[]).flatMap((template) =>
+          template.fields.map((field) => field.name)
+        )
+    for (const { field } of orderBy) {
+      if (!fieldNames.includes(field)) {
+        throw new Error(
+          `Unable to sort by ${field}, it is not a field of collection ${collection.name}`
+        )
+      }
+    }
+
     const queryOptions = {
       filterChain: makeFilterChain({
         conditions: conditions || [],
       }),
       collection: collection.name,
       sort: args.sort as string,
+      orderBy,
       first: args.first as number,
       last: args.last as number,
       before: args.before as string,
       after: args.after as string,
       folder: args.folder as string,
+      status: undefined as PublishStatus | undefined,
+      locale: collection.i18n ? (args.locale as string) : undefined,
+    }
+    if (collection.publishing) {
+      const status = (args.status as PublishStatus | 'all') || defaultStatus
+      queryOptions.status = status === 'all' ? undefined : status
     }
 
     const result = await this.database.query(
@@ -709,6 +1714,42 @@ export class Resolver {
     }
   }
 
+  public resolveSearch = async ({
+    args,
+  }: {
+    args: Record<string, string | string[] | number>
+  }) => {
+    assertShape<{
+      query: string
+      collections?: string[]
+      first?: number
+      after?: string
+    }>(args, (yup) => yup.object({ query: yup.string().required() }))
+    const collectionNames = this.tinaSchema
+      .getCollections()
+      .map((item) => item.name)
+    args.collections?.forEach((collectionName) => {
+      if (!collectionNames.includes(collectionName)) {
+        throw new Error(
+          `"collections" must be one of: [${collectionNames.join(
+            ', '
+          )}] but got ${collectionName}`
+        )
+      }
+    })
+    const collections = this.readableCollections(args.collections)
+
+    return this.database.search(
+      {
+        query: args.query,
+        collections,
+        first: args.first,
+        after: args.after,
+      },
+      this.getDocument
+    )
+  }
+
   private buildFieldMutations = (
     fieldParams: FieldParams,
     template: Template<true>
@@ -736,6 +1777,16 @@ export class Resolver {
           accum[fieldName] = fieldValue
           break
         case 'image':
+          if (field.metadata) {
+            accum[fieldName] = resolveImageMetadata(fieldValue, (src) =>
+              resolveMediaCloudToRelative(
+                src,
+                this.config,
+                this.tinaSchema.schema
+              )
+            )
+            break
+          }
           accum[fieldName] = resolveMediaCloudToRelative(
             fieldValue as string,
             this.config,
@@ -796,6 +1847,16 @@ export class Resolver {
         }
         break
       case 'image':
+        if (field.metadata) {
+          accumulator[field.name] = resolveImageMetadata(value, (src) =>
+            resolveMediaRelativeToCloud(
+              src,
+              this.config,
+              this.tinaSchema.schema
+            )
+          )
+          break
+        }
         accumulator[field.name] = resolveMediaRelativeToCloud(
           value as string,
           this.config,
@@ -7,6 +7,7 @@ import type { GraphQLConfig } from '../types'
 import {
   resolveMediaRelativeToCloud,
   resolveMediaCloudToRelative,
+  resolveImageMetadata,
 } from './media-utils'
 
 describe('resolveMedia', () => {
@@ -126,4 +127,23 @@ describe('resolveMedia', () => {
       `https://assets.other-cloud-media-service.com/112233/llama.png`
     )
   })
+  /**
+   * Images with `metadata` are objects, only their `src` is resolved.
+   */
+  it('resolves the src of images with metadata', () => {
+    const config: GraphQLConfig = {
+      useRelativeMedia: false,
+      assetsHost,
+      clientId,
+    }
+
+    const resolved = resolveImageMetadata(
+      { src: relativeURL, alt: 'A llama', caption: null },
+      (src) => resolveMediaRelativeToCloud(src, config, schema)
+    )
+    expect(resolved).toEqual({ src: cloudURL, alt: 'A llama' })
+
+    const resolvedString = resolveImageMetadata(relativeURL, (src) => src)
+    expect(resolvedString).toEqual({ src: relativeURL })
+  })
 })
@@ -92,6 +92,37 @@ export const resolveMediaRelativeToCloud = (
   }
 }
 
+/**
+ * Resolves the `src` of an `image` value with `metadata`, which is an object
+ * holding the `src` and the details of the asset. Values saved before
+ * `metadata` was enabled are plain strings and become `{ src }`
+ *
+ * @param {unknown} value
+ * @param {(src: string) => unknown} resolveSrc
+ * @returns {object}
+ */
+export const resolveImageMetadata = (
+  value: unknown,
+  resolveSrc: (src: string) => unknown
+) => {
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveImageMetadata(item, resolveSrc))
+  }
+  if (!value) {
+    return value
+  }
+  const image: { [key: string]: unknown } = {}
+  const entries =
+    typeof value === 'string' ? [['src', value]] : Object.entries(value)
+  for (const [key, item] of entries) {
+    // unset details are left out of the document
+    if (item !== null && item !== undefined) {
+      image[key] = key === 'src' ? resolveSrc(item as string) : item
+    }
+  }
+  return image
+}
+
 const cleanUpSlashes = (path: string): string => {
   if (path) {
     return `/${path.replace(/^\/+|\/+$/gm, '')}`
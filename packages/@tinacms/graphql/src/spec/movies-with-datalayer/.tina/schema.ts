@@ -15,6 +15,7 @@ const tinaSchema: Schema = {
           name: 'title',
           label: 'Title',
           type: 'string',
+          validation: { unique: true, maxLength: 40 },
         },
         {
           name: 'releaseDate',
@@ -31,6 +32,7 @@ const tinaSchema: Schema = {
           label: 'Director',
           name: 'director',
           collections: ['director'],
+          onDelete: 'restrict',
         },
         {
           name: 'genre',
@@ -44,6 +46,13 @@ const tinaSchema: Schema = {
           label: 'Rating',
           required: true,
           type: 'number',
+          validation: { min: 0, max: 10 },
+        },
+        {
+          name: 'poster',
+          label: 'Poster',
+          type: 'image',
+          metadata: true,
         },
 
         // {
@@ -104,6 +113,7 @@ const tinaSchema: Schema = {
               label: 'Child',
               name: 'child',
               collections: ['relative'],
+              onDelete: 'nullify',
             },
           ],
         },
@@ -143,6 +153,7 @@ const tinaSchema: Schema = {
       label: 'Actor',
       name: 'actor',
       path: 'content/actors',
+      publishing: true,
       fields: [
         {
           type: 'string',
@@ -160,6 +171,7 @@ const tinaSchema: Schema = {
       label: 'Relative',
       name: 'relative',
       path: 'content/relative',
+      i18n: { locales: ['en', 'fr'], defaultLocale: 'en', strategy: 'suffix' },
       fields: [
         {
           type: 'string',
@@ -3,9 +3,11 @@
 */
 
 import path from 'path'
-import { setupFixture, setupFixture2, print, Fixture } from '../setup'
+import { setup, setupFixture, setupFixture2, print, Fixture } from '../setup'
+import { resolve } from '../../resolve'
 import { tinaSchema } from './.tina/schema'
 import { MemoryLevel } from 'memory-level'
+import { WebhookDispatcher } from '../../database/webhooks'
 const rootPath = path.join(__dirname, '/')
 
 const fixtures: Fixture[] = [
@@ -28,6 +30,46 @@ const fixtures: Fixture[] = [
     name: 'getDirectorList',
     assert: 'output',
   },
+  {
+    name: 'search',
+    description: 'Full-text search across collections',
+    assert: 'output',
+  },
+  {
+    name: 'getDirectorReferrers',
+    description: 'Querying the documents which reference a document',
+    assert: 'output',
+  },
+  {
+    name: 'getDirectorHistory',
+    description: 'Querying the history of a document',
+    assert: 'output',
+  },
+  {
+    name: 'getActorList',
+    description: 'Scheduled documents are hidden from publishing collections',
+    assert: 'output',
+  },
+  {
+    name: 'getRelativeTranslations',
+    description: 'Querying the translations of a document',
+    assert: 'output',
+  },
+  {
+    name: 'getMovieListOrderBy',
+    description: 'Sorting on several fields and in descending order',
+    assert: 'output',
+  },
+  {
+    name: 'getMoviePosters',
+    description: 'Querying images with metadata',
+    assert: 'output',
+  },
+  {
+    name: 'getMediaUsage',
+    description: 'Querying the documents which use a media file',
+    assert: 'output',
+  },
 ]
 
 const mutationFixtures: Fixture[] = [
@@ -54,6 +96,58 @@ const mutationFixtures: Fixture[] = [
     assert: 'output',
     expectError: true,
   },
+  {
+    name: 'updateMovieDocumentInvalid',
+    description: 'Updating a document with values which fail validation',
+    assert: 'output',
+    expectError: true,
+  },
+  {
+    name: 'renameDirectorDocument',
+    description: 'Renaming a document updates the documents referencing it',
+    assert: 'file',
+    filename: 'content/movies/star-wars.md',
+  },
+  {
+    name: 'deleteReferencedDocument',
+    description: 'Deleting a document with restricted references',
+    assert: 'output',
+    expectError: true,
+  },
+  {
+    name: 'deleteRelativeDocument',
+    description: 'Deleting a document removes nullified references to it',
+    assert: 'file',
+    filename: 'content/directors/george.md',
+  },
+  {
+    name: 'batchDocuments',
+    description: 'Creating, updating and deleting documents in one batch',
+    assert: 'output',
+  },
+  {
+    name: 'batchDocumentsInvalid',
+    description: 'A batch is rejected when one of its operations is invalid',
+    assert: 'output',
+    expectError: true,
+  },
+  {
+    name: 'updateMovieDraft',
+    description: 'Saving a draft leaves the content file untouched',
+    assert: 'file',
+    filename: 'content/movies/star-wars.md',
+  },
+  {
+    name: 'publishMovieDraft',
+    description: 'Publishing a draft writes it to the content file',
+    assert: 'output',
+  },
+  {
+    name: 'updateMediaReferences',
+    description: 'Moving a media file updates the documents which use it',
+    assert: 'file',
+    filename: 'content/movies/the-rock.md',
+  },
 ]
 
 let consoleErrMock
@@ -123,3 +217,277 @@ describe('A schema with indexing', () => {
     })
   })
 })
+
+describe('A schema with roles', () => {
+  const query = `query {
+    movie(relativePath: "star-wars.md") { title }
+    search(query: "george") { totalCount }
+  }`
+  const mutation = `mutation {
+    updateMovie(relativePath: "star-wars.md", params: { title: "Star War" }) {
+      title
+    }
+  }`
+  const request = async (source: string, roles: string[]) => {
+    const { database } = await setup(
+      rootPath,
+      tinaSchema,
+      new MemoryLevel<string, Record<string, any>>({ valueEncoding: 'json' }),
+      {
+        admin: {
+          auth: {
+            roles: {
+              viewer: { movie: ['read'] },
+              editor: { '*': ['read'], movie: ['update'] },
+              casting: { director: ['read'] },
+              guest: {},
+            },
+          },
+        },
+      }
+    )
+    return resolve({
+      query: source,
+      variables: {},
+      database,
+      user: { roles },
+    })
+  }
+
+  it('allows the operations of the roles of the user', async () => {
+    const response = await request(mutation, ['editor'])
+    expect(response.errors).toBeUndefined()
+    expect(response.data.updateMovie.title).toEqual('Star War')
+  })
+  it('rejects the operations the user lacks', async () => {
+    const response = await request(mutation, ['viewer'])
+    expect(consoleErrMock).toHaveBeenCalled()
+    expect(response.errors[0].message).toEqual(
+      'You are not allowed to update documents of the movie collection'
+    )
+    expect(response.errors[0].extensions.code).toEqual('FORBIDDEN')
+  })
+  it('only searches the collections the user may read', async () => {
+    const editor = await request(query, ['editor'])
+    const viewer = await request(query, ['viewer'])
+    expect(viewer.data.movie.title).toEqual(editor.data.movie.title)
+    expect(viewer.data.search.totalCount).toBeLessThan(
+      editor.data.search.totalCount
+    )
+  })
+  it('only lists the media usage of the collections the user may read', async () => {
+    const usage = `query { mediaUsage(src: "/uploads/raiders.jpg") { paths } }`
+    const viewer = await request(usage, ['viewer'])
+    const guest = await request(usage, ['guest'])
+    expect(viewer.data.mediaUsage.paths).toEqual([
+      'content/movies/indiana-jones.md',
+    ])
+    expect(guest.data.mediaUsage.paths).toEqual([])
+  })
+  it('only lists the referrers the user may read', async () => {
+    const referrers = `query {
+      documentReferrers(collection: "director", relativePath: "george.md") {
+        totalCount
+        paths
+      }
+      documentDeleteImpact(collection: "director", relativePath: "george.md") {
+        nullified
+        restricted
+        cascaded
+      }
+    }`
+    const editor = await request(referrers, ['editor'])
+    const casting = await request(referrers, ['casting'])
+    expect(editor.data.documentReferrers.paths).toContain(
+      'content/movies/star-wars.md'
+    )
+    expect(casting.data.documentReferrers).toEqual({
+      totalCount: 0,
+      paths: [],
+    })
+    expect(casting.data.documentDeleteImpact).toEqual({
+      nullified: [],
+      restricted: [],
+      cascaded: [],
+    })
+  })
+})
+
+describe('Mutations with ifMatch', () => {
+  const request = async (ifMatch: (hash: string) => string) => {
+    const { database } = await setup(
+      rootPath,
+      tinaSchema,
+      new MemoryLevel<string, Record<string, any>>({ valueEncoding: 'json' })
+    )
+    const query = await resolve({
+      query: `query { movie(relativePath: "star-wars.md") { _sys { hash } } }`,
+      variables: {},
+      database,
+    })
+    const hash = query.data.movie._sys.hash
+    const mutation = await resolve({
+      query: `mutation($ifMatch: String) {
+        updateMovie(relativePath: "star-wars.md", params: { title: "Star War" }, ifMatch: $ifMatch) {
+          title
+        }
+      }`,
+      variables: { ifMatch: ifMatch(hash) },
+      database,
+    })
+    return { hash, mutation }
+  }
+
+  it('exposes the hash of the content file', async () => {
+    const { hash } = await request((hash) => hash)
+    expect(hash).toMatch(/^[0-9a-f]{40}$/)
+  })
+  it('only reads the content file when the hash is requested', async () => {
+    const { database } = await setup(
+      rootPath,
+      tinaSchema,
+      new MemoryLevel<string, Record<string, any>>({ valueEncoding: 'json' })
+    )
+    const get = jest.spyOn(database.bridge, 'get')
+    await resolve({
+      query: `query { movie(relativePath: "star-wars.md") { title } }`,
+      variables: {},
+      database,
+    })
+    expect(get).not.toHaveBeenCalled()
+  })
+  it('updates the document when the hash matches', async () => {
+    const { mutation } = await request((hash) => hash)
+    expect(mutation.errors).toBeUndefined()
+    expect(mutation.data.updateMovie.title).toEqual('Star War')
+  })
+  it('rejects the update when the content file has changed', async () => {
+    const { mutation } = await request(() => 'stale')
+    expect(consoleErrMock).toHaveBeenCalled()
+    expect(mutation.errors[0].message).toEqual(
+      'The document content/movies/star-wars.md has changed since it was read'
+    )
+    expect(mutation.errors[0].extensions.code).toEqual('CONFLICT')
+  })
+})
+
+describe('Drafts', () => {
+  it('are kept per branch', async () => {
+    const { database } = await setup(
+      rootPath,
+      tinaSchema,
+      new MemoryLevel<string, Record<string, any>>({ valueEncoding: 'json' })
+    )
+    database.branch = 'main'
+    await database.putDraft('content/movies/star-wars.md', {
+      title: 'Star War',
+    })
+    database.branch = 'feature'
+    expect(await database.getDraft('content/movies/star-wars.md')).toEqual(
+      undefined
+    )
+    database.branch = 'main'
+    expect(
+      await database.getDraft<{ title: string }>('content/movies/star-wars.md')
+    ).toMatchObject({ title: 'Star War' })
+  })
+})
+
+describe('Batches with unique fields', () => {
+  const request = async (operations: string) => {
+    const { database } = await setup(
+      rootPath,
+      tinaSchema,
+      new MemoryLevel<string, Record<string, any>>({ valueEncoding: 'json' })
+    )
+    return resolve({
+      query: `mutation { batchDocuments(operations: [${operations}]) { __typename } }`,
+      variables: {},
+      database,
+    })
+  }
+
+  it('rejects documents which share a value in the batch', async () => {
+    const response = await request(`
+      { create: { relativePath: "jaws.md", params: { movie: { title: "Jaws", rating: 8 } } } }
+      { create: { relativePath: "jaws-2.md", params: { movie: { title: "Jaws", rating: 8 } } } }
+    `)
+    expect(consoleErrMock).toHaveBeenCalled()
+    expect(response.errors[0].message).toEqual(
+      'Invalid operation at index 0: Validation failed for content/movies/jaws.md: title: Must be unique'
+    )
+  })
+  it('accepts values which are freed in the batch', async () => {
+    const response = await request(`
+      { update: { relativePath: "star-wars.md", params: { movie: { title: "The Rock" } } } }
+      { update: { relativePath: "the-rock.md", params: { movie: { title: "Star Wars" } } } }
+    `)
+    expect(response.errors).toBeUndefined()
+  })
+})
+
+describe('Webhooks', () => {
+  const setupWithWebhooks = async () => {
+    const { database } = await setup(
+      rootPath,
+      tinaSchema,
+      new MemoryLevel<string, Record<string, any>>({ valueEncoding: 'json' })
+    )
+    const webhooks = new WebhookDispatcher([{ url: 'https://a.test' }], {
+      fetch: jest.fn().mockResolvedValue({ ok: true, status: 200 }),
+    })
+    const dispatch = jest.spyOn(webhooks, 'dispatch')
+    database.webhooks = webhooks
+    return { database, dispatch }
+  }
+
+  it('tells created documents from updated ones', async () => {
+    const { database, dispatch } = await setupWithWebhooks()
+    await database.put(
+      'content/movies/star-wars.md',
+      { title: 'Star War' },
+      'movie'
+    )
+    await database.put('content/movies/jaws.md', { title: 'Jaws' }, 'movie')
+    expect(dispatch.mock.calls).toEqual([
+      [
+        'document.updated',
+        { path: 'content/movies/star-wars.md', collection: 'movie' },
+      ],
+      [
+        'document.created',
+        { path: 'content/movies/jaws.md', collection: 'movie' },
+      ],
+    ])
+  })
+  it('sends the collection of deleted documents', async () => {
+    const { database, dispatch } = await setupWithWebhooks()
+    await database.delete('content/movies/the-rock.md')
+    expect(dispatch).toHaveBeenCalledWith('document.deleted', {
+      path: 'content/movies/the-rock.md',
+      collection: 'movie',
+    })
+  })
+  it('sends the events of batches once they are stored', async () => {
+    const { database, dispatch } = await setupWithWebhooks()
+    await database.batch([
+      {
+        type: 'put',
+        filepath: 'content/movies/jaws.md',
+        data: { title: 'Jaws' },
+        collection: 'movie',
+      },
+      { type: 'delete', filepath: 'content/movies/the-rock.md' },
+    ])
+    expect(dispatch.mock.calls).toEqual([
+      [
+        'document.created',
+        { path: 'content/movies/jaws.md', collection: 'movie' },
+      ],
+      [
+        'document.deleted',
+        { path: 'content/movies/the-rock.md', collection: 'movie' },
+      ],
+    ])
+  })
+})
@@ -8,7 +8,8 @@ import { toMatchFile } from 'jest-file-snapshot'
 import { buildASTSchema, printSchema } from 'graphql'
 
 import { FilesystemBridge } from '../database/bridge/filesystem'
-import type { Schema } from '@tinacms/schema-tools'
+import type { BridgeCommit } from '../database/bridge'
+import type { Config, Schema } from '@tinacms/schema-tools'
 
 import { resolve } from '../resolve'
 import { createDatabase } from '../database'
@@ -24,6 +25,23 @@ class MockFilesystemBridge extends FilesystemBridge {
   async put(filepath: string, data: string) {
     // noop
   }
+  async delete(filepath: string) {
+    // noop
+  }
+  // a fixed history, the fixtures are committed to the repo of tinacms itself
+  async history(filepath: string): Promise<BridgeCommit[]> {
+    return [
+      {
+        ref: '0000000000000000000000000000000000000000',
+        message: 'Add the fixtures',
+        author: { name: 'Pedro Test', email: 'pedro-test@forestry.io' },
+        date: '2022-01-01T00:00:00.000Z',
+      },
+    ]
+  }
+  async getAtRevision(filepath: string, ref: string) {
+    return this.get(filepath)
+  }
 }
 
 // FIXME: CI for macos runs very slow
@@ -32,7 +50,8 @@ jest.setTimeout(10000)
 export const setup = async (
   rootPath: string,
   schema: Schema,
-  level: Level
+  level: Level,
+  config?: Omit<Config, 'schema'>
 ): Promise<{
   database: Database
 }> => {
@@ -43,9 +62,10 @@ export const setup = async (
     tinaDirectory: '.tina',
   })
   const { graphQLSchema, tinaSchema } = await buildDotTinaFiles({
+    // @ts-ignore
     database: setupDatabase,
     // @ts-ignore
-    config: { schema },
+    config: { ...config, schema },
   })
   await setupDatabase.indexContent({ graphQLSchema, tinaSchema })
 
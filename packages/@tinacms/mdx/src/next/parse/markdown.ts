@@ -1,4 +1,6 @@
 import { fromMarkdown as mdastFromMarkdown } from 'mdast-util-from-markdown'
+import { gfm } from 'micromark-extension-gfm'
+import { gfmFromMarkdown } from 'mdast-util-gfm'
 import { mdxJsx } from '../shortcodes'
 import { mdxJsxFromMarkdown } from '../shortcodes/mdast'
 import { getFieldPatterns } from '../util'
@@ -18,8 +20,9 @@ export const fromMarkdown = (value: string, field: RichTextField) => {
   const tree = mdastFromMarkdown(value, {
     extensions: [
       mdxJsx({ acorn: acornDefault, patterns, addResult: true, skipHTML }),
+      gfm(),
     ],
-    mdastExtensions: [mdxJsxFromMarkdown({ patterns })],
+    mdastExtensions: [mdxJsxFromMarkdown({ patterns }), gfmFromMarkdown()],
   })
 
   return tree
@@ -1,4 +1,4 @@
-import { getMarks } from '../../stringify'
+import { getMarks, Marks } from '../../stringify'
 import type * as Md from 'mdast'
 import type * as Plate from '../../parse/plate'
 import type { RichTextField } from '@tinacms/schema-tools'
@@ -128,6 +128,12 @@ const inlineElementExceptLink = (
         value: content.value,
       }
     }
+    case 'footnote_reference':
+      return {
+        type: 'footnoteReference',
+        identifier: content.identifier,
+        label: content.label,
+      }
     default:
       // @ts-expect-error type is 'never'
       if (!content.type && typeof content.text === 'string') {
@@ -203,8 +209,7 @@ export const eat = (
     nonMatchingSiblingIndex = content.length - 1
   }
   const matchingSiblings = content.slice(1, nonMatchingSiblingIndex + 1)
-  const markCounts: { [key in 'strong' | 'emphasis' | 'inlineCode']?: number } =
-    {}
+  const markCounts: { [key in Marks]?: number } = {}
   marks.forEach((mark) => {
     let count = 1
     matchingSiblings.every((sibling, index) => {
@@ -216,9 +221,9 @@ export const eat = (
     markCounts[mark] = count
   })
   let count = 0
-  let markToProcess: 'strong' | 'emphasis' | 'inlineCode' | null = null
+  let markToProcess: Marks | null = null
   Object.entries(markCounts).forEach(([mark, markCount]) => {
-    const m = mark as 'strong' | 'emphasis' | 'inlineCode'
+    const m = mark as Marks
     if (markCount > count) {
       count = markCount
       markToProcess = m
@@ -258,7 +263,7 @@ export const eat = (
 }
 const cleanNode = (
   node: InlineElementWithCallback,
-  mark: 'strong' | 'emphasis' | 'inlineCode' | null
+  mark: Marks | null
 ): Plate.InlineElement => {
   if (!mark) {
     return node
@@ -268,6 +273,7 @@ const cleanNode = (
     strong: 'bold',
     emphasis: 'italic',
     inlineCode: 'code',
+    delete: 'strikethrough',
   }[mark]
   Object.entries(node).map(([key, value]) => {
     if (key !== markToClear) {
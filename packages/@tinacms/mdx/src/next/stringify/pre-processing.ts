@@ -1,3 +1,4 @@
+import { flatten } from 'lodash-es'
 import { eat } from './marks'
 import { stringifyProps } from './acorn'
 import type { RichTextField } from '@tinacms/schema-tools'
@@ -126,6 +127,35 @@ export const blockElement = (
           },
         ],
       }
+    case 'table':
+      return {
+        type: 'table',
+        align: content.align,
+        children: content.children.map((row) => ({
+          type: 'tableRow',
+          children: row.children.map((cell) => ({
+            type: 'tableCell',
+            // GFM cells hold a single line, join the paragraphs of the editor
+            children: eat(
+              flatten(cell.children.map((child) => child.children)),
+              field,
+              imageCallback
+            ),
+          })),
+        })),
+      }
+    case 'footnote_definition':
+      return {
+        type: 'footnoteDefinition',
+        identifier: content.identifier,
+        label: content.label,
+        children: [
+          {
+            type: 'paragraph',
+            children: eat(content.children, field, imageCallback),
+          },
+        ],
+      }
     default:
       throw new Error(`BlockElement: ${content.type} is not yet supported`)
   }
@@ -137,6 +167,9 @@ const listItemElement = (
 ): Md.ListItem => {
   return {
     type: 'listItem',
+    ...(typeof content.checked === 'boolean'
+      ? { checked: content.checked }
+      : {}),
     // spread is always false since we don't support block elements in list items
     // good explanation of the difference: https://stackoverflow.com/questions/43503528/extra-lines-appearing-between-list-items-in-github-markdown
     spread: false,
@@ -188,7 +221,7 @@ const blockContentElement = (
   }
 }
 
-export type Marks = 'strong' | 'emphasis' | 'inlineCode'
+export type Marks = 'strong' | 'emphasis' | 'inlineCode' | 'delete'
 
 export const getMarks = (content: Plate.InlineElement) => {
   const marks: Marks[] = []
@@ -204,5 +237,8 @@ export const getMarks = (content: Plate.InlineElement) => {
   if (content.code) {
     marks.push('inlineCode')
   }
+  if (content.strikethrough) {
+    marks.push('delete')
+  }
   return marks
 }
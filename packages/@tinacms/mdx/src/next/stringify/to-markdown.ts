@@ -1,4 +1,5 @@
-import { Handlers, toMarkdown } from 'mdast-util-to-markdown'
+import { Handlers, Options, toMarkdown } from 'mdast-util-to-markdown'
+import { gfmToMarkdown } from 'mdast-util-gfm'
 import { text } from 'mdast-util-to-markdown/lib/handle/text'
 import { mdxJsxToMarkdown } from '../shortcodes/mdast'
 import type { RichTextField } from '@tinacms/schema-tools'
@@ -49,7 +50,11 @@ export const toTinaMarkdown = (tree: Md.Root, field: RichTextField) => {
     return text(node, parent, context, safeOptions)
   }
   return toMarkdown(tree, {
-    extensions: [mdxJsxToMarkdown({ patterns })],
+    extensions: [
+      mdxJsxToMarkdown({ patterns }),
+      // mdast-util-gfm is typed against another version of mdast-util-to-markdown
+      gfmToMarkdown() as Options,
+    ],
     listItemIndent: 'one',
     handlers,
   })
@@ -0,0 +1,7 @@
+import { RichTextField } from '@tinacms/schema-tools'
+
+export const field: RichTextField = {
+  name: 'body',
+  type: 'rich-text',
+  parser: { type: 'markdown' },
+}
@@ -0,0 +1,6 @@
+import { RichTextField } from '@tinacms/schema-tools'
+
+export const field: RichTextField = {
+  name: 'body',
+  type: 'rich-text',
+}
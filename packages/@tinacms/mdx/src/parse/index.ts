@@ -8,6 +8,8 @@ import { remark } from 'remark'
 import remarkMdx, { Root } from 'remark-mdx'
 import { parseMDX as parseMDXNext } from '../next'
 import { fromMarkdown } from 'mdast-util-from-markdown'
+import { gfm } from 'micromark-extension-gfm'
+import { gfmFromMarkdown } from 'mdast-util-gfm'
 import { remarkToSlate, RichTextParseError } from './remarkToPlate'
 import type { RichTextType } from '@tinacms/schema-tools'
 import type * as Plate from './plate'
@@ -82,12 +84,26 @@ export const markdownToAst = (value: string, field: RichTextType) => {
     }
   })
   return fromMarkdown(value, {
-    extensions: [tinaDirective(patterns)],
-    mdastExtensions: [directiveFromMarkdown],
+    extensions: [tinaDirective(patterns), gfm()],
+    mdastExtensions: [directiveFromMarkdown, gfmFromMarkdown()],
   })
 }
+/**
+ * Adds the GitHub-flavored markdown syntax (tables, strikethrough, task lists
+ * and footnotes) to the remark parser
+ */
+function remarkGfm(this: { data: () => Record<string, unknown> }) {
+  const data = this.data()
+  const add = (key: string, value: unknown) => {
+    const list = (data[key] || (data[key] = [])) as unknown[]
+    list.push(value)
+  }
+  add('micromarkExtensions', gfm())
+  add('fromMarkdownExtensions', gfmFromMarkdown())
+}
+
 export const mdxToAst = (value: string) => {
-  return remark().use(remarkMdx).parse(value)
+  return remark().use(remarkMdx).use(remarkGfm).parse(value)
 }
 export const MDX_PARSE_ERROR_MSG =
   'TinaCMS supports a stricter version of markdown and a subset of MDX. https://tina.io/docs/editing/mdx/#differences-from-other-mdx-implementations'
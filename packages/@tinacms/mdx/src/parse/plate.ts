@@ -89,10 +89,14 @@ export type ListItemChildrenElement =
   | OrderedListElement
 
 /**
+ * @remarks
+ * `checked` is set for the items of task lists (`- [ ]` and `- [x]`)
+ *
  * @group BlockElement
  */
 export type ListItemElement = {
   type: 'li'
+  checked?: boolean
   children: ListItemChildrenElement[]
 }
 /**
@@ -126,6 +130,44 @@ export type ParagraphElement = {
   children: InlineElement[]
 }
 
+/**
+ * @group TableElements
+ */
+export type TableCellElement = {
+  type: 'td' | 'th'
+  children: [ParagraphElement]
+}
+/**
+ * @remarks
+ * The cells of the first row are `th` elements
+ *
+ * @group TableElements
+ */
+export type TableRowElement = {
+  type: 'tr'
+  children: TableCellElement[]
+}
+/**
+ * @remarks
+ * `align` holds the alignment of each column
+ *
+ * @group BlockElement
+ */
+export type TableElement = {
+  type: 'table'
+  align?: ('left' | 'right' | 'center' | null)[]
+  children: TableRowElement[]
+}
+/**
+ * @group BlockElement
+ */
+export type FootnoteDefinitionElement = {
+  type: 'footnote_definition'
+  identifier: string
+  label?: string | null
+  children: InlineElement[]
+}
+
 /**
  * @group BlockElement
  */
@@ -142,6 +184,8 @@ export type BlockElement =
   | ParagraphElement
   | OrderedListElement
   | UnorderedListElement
+  | TableElement
+  | FootnoteDefinitionElement
 
 /**
  * @group InlineElement
@@ -170,6 +214,7 @@ export type TextElement = {
   bold?: boolean
   italic?: boolean
   code?: boolean
+  strikethrough?: boolean
 }
 /**
  * @remarks
@@ -193,6 +238,15 @@ export type LinkElement = {
   title?: string | null
   children: InlineElement[]
 }
+/**
+ * @group InlineElement
+ */
+export type FootnoteReferenceElement = {
+  type: 'footnote_reference'
+  identifier: string
+  label?: string | null
+  children: [EmptyTextElement]
+}
 /**
  * @group InlineElement
  */
@@ -216,6 +270,7 @@ export type InlineElement =
   | LinkElement
   | ImageElement
   | HTMLInlineElement
+  | FootnoteReferenceElement
 
 /**
  * @remarks
@@ -82,6 +82,10 @@ export const remarkToSlate = (
         }
       case 'list':
         return list(content)
+      case 'table':
+        return table(content)
+      case 'footnoteDefinition':
+        return footnoteDefinition(content)
       case 'html':
         return html(content)
       // @ts-ignore
@@ -137,6 +141,48 @@ export const remarkToSlate = (
     }
   }
 
+  const table = (content: Md.Table): Plate.TableElement => {
+    const extra: Pick<Plate.TableElement, 'align'> = {}
+    if (content.align?.some(Boolean)) {
+      extra.align = content.align
+    }
+    return {
+      type: 'table',
+      ...extra,
+      children: content.children.map((row, index) => ({
+        type: 'tr',
+        children: row.children.map((cell) => {
+          const children = flatten(cell.children.map(phrasingContent))
+          return {
+            type: index === 0 ? 'th' : 'td',
+            children: [
+              {
+                type: 'p',
+                // empty cells still need a text node for the editor
+                children: children.length
+                  ? children
+                  : [{ type: 'text', text: '' }],
+              },
+            ],
+          }
+        }),
+      })),
+    }
+  }
+
+  const footnoteDefinition = (
+    content: Md.FootnoteDefinition
+  ): Plate.FootnoteDefinitionElement => {
+    return {
+      type: 'footnote_definition',
+      identifier: content.identifier,
+      label: content.label,
+      children: flatten(
+        content.children.map((child) => unwrapBlockContent(child))
+      ),
+    }
+  }
+
   const listItem = (content: Md.ListItem): Plate.ListItemElement => {
     /**
      * lic (list item content) maps 1-1 with a paragraph element
@@ -150,8 +196,14 @@ export const remarkToSlate = (
      * but in Plate we don't have that, so we can't have a ol inside a ul in plate
      */
 
+    const extra: Pick<Plate.ListItemElement, 'checked'> = {}
+    // task list items
+    if (typeof content.checked === 'boolean') {
+      extra.checked = content.checked
+    }
     return {
       type: 'li',
+      ...extra,
       // @ts-ignore
       children: content.children.map((child) => {
         switch (child.type) {
@@ -297,6 +349,7 @@ export const remarkToSlate = (
       case 'emphasis':
       case 'image':
       case 'strong':
+      case 'delete':
         return phrashingMark(content)
       case 'html':
         return html_inline(content)
@@ -322,6 +375,15 @@ export const remarkToSlate = (
         return phrashingMark(content)
       case 'strong':
         return phrashingMark(content)
+      case 'delete':
+        return phrashingMark(content)
+      case 'footnoteReference':
+        return {
+          type: 'footnote_reference',
+          identifier: content.identifier,
+          label: content.label,
+          children: [{ type: 'text', text: '' }],
+        }
       case 'break':
         return breakContent()
       case 'inlineCode':
@@ -354,7 +416,7 @@ export const remarkToSlate = (
 
   const phrashingMark = (
     node: Md.PhrasingContent,
-    marks: ('bold' | 'italic' | 'code')[] = []
+    marks: ('bold' | 'italic' | 'code' | 'strikethrough')[] = []
   ): Plate.InlineElement[] => {
     const accum: Plate.InlineElement[] = []
     switch (node.type) {
@@ -369,6 +431,17 @@ export const remarkToSlate = (
         })
         break
       }
+      case 'delete': {
+        const children = flatten(
+          node.children.map((child) =>
+            phrashingMark(child, [...marks, 'strikethrough'])
+          )
+        )
+        children.forEach((child) => {
+          accum.push(child)
+        })
+        break
+      }
       case 'inlineCode': {
         const markProps: { [key: string]: boolean } = {}
         marks.forEach((mark) => (markProps[mark] = true))
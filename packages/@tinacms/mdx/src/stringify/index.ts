@@ -4,7 +4,9 @@
 
 */
 
-import { Handlers, toMarkdown } from 'mdast-util-to-markdown'
+import { Handlers, Options, toMarkdown } from 'mdast-util-to-markdown'
+import { gfmToMarkdown } from 'mdast-util-gfm'
+import { flatten } from 'lodash-es'
 import { text } from 'mdast-util-to-markdown/lib/handle/text'
 import {
   mdxJsxToMarkdown,
@@ -133,7 +135,12 @@ export const toTinaMarkdown = (tree: Md.Root, field: RichTextType) => {
     return text(node, parent, context, safeOptions)
   }
   return toMarkdown(tree, {
-    extensions: [directiveToMarkdown(patterns), mdxJsxToMarkdown()],
+    extensions: [
+      directiveToMarkdown(patterns),
+      mdxJsxToMarkdown(),
+      // mdast-util-gfm is typed against another version of mdast-util-to-markdown
+      gfmToMarkdown() as Options,
+    ],
     listItemIndent: 'one',
     handlers,
   })
@@ -280,6 +287,35 @@ export const blockElement = (
           },
         ],
       }
+    case 'table':
+      return {
+        type: 'table',
+        align: content.align,
+        children: content.children.map((row) => ({
+          type: 'tableRow',
+          children: row.children.map((cell) => ({
+            type: 'tableCell',
+            // GFM cells hold a single line, join the paragraphs of the editor
+            children: eat(
+              flatten(cell.children.map((child) => child.children)),
+              field,
+              imageCallback
+            ),
+          })),
+        })),
+      }
+    case 'footnote_definition':
+      return {
+        type: 'footnoteDefinition',
+        identifier: content.identifier,
+        label: content.label,
+        children: [
+          {
+            type: 'paragraph',
+            children: eat(content.children, field, imageCallback),
+          },
+        ],
+      }
     default:
       throw new Error(`BlockElement: ${content.type} is not yet supported`)
   }
@@ -291,6 +327,9 @@ const listItemElement = (
 ): Md.ListItem => {
   return {
     type: 'listItem',
+    ...(typeof content.checked === 'boolean'
+      ? { checked: content.checked }
+      : {}),
     // spread is always false since we don't support block elements in list items
     // good explanation of the difference: https://stackoverflow.com/questions/43503528/extra-lines-appearing-between-list-items-in-github-markdown
     spread: false,
@@ -342,7 +381,7 @@ const blockContentElement = (
   }
 }
 
-export type Marks = 'strong' | 'emphasis' | 'inlineCode'
+export type Marks = 'strong' | 'emphasis' | 'inlineCode' | 'delete'
 
 export const getMarks = (content: Plate.InlineElement) => {
   const marks: Marks[] = []
@@ -358,5 +397,8 @@ export const getMarks = (content: Plate.InlineElement) => {
   if (content.code) {
     marks.push('inlineCode')
   }
+  if (content.strikethrough) {
+    marks.push('delete')
+  }
   return marks
 }
@@ -4,7 +4,7 @@
 
 */
 
-import { getMarks } from './index'
+import { getMarks, Marks } from './index'
 import type * as Md from 'mdast'
 import type * as Plate from '../parse/plate'
 import type { RichTextType } from '@tinacms/schema-tools'
@@ -125,6 +125,12 @@ const inlineElementExceptLink = (
         value: content.value,
       }
     }
+    case 'footnote_reference':
+      return {
+        type: 'footnoteReference',
+        identifier: content.identifier,
+        label: content.label,
+      }
     default:
       // @ts-expect-error type is 'never'
       if (!content.type && typeof content.text === 'string') {
@@ -200,8 +206,7 @@ export const eat = (
     nonMatchingSiblingIndex = content.length - 1
   }
   const matchingSiblings = content.slice(1, nonMatchingSiblingIndex + 1)
-  const markCounts: { [key in 'strong' | 'emphasis' | 'inlineCode']?: number } =
-    {}
+  const markCounts: { [key in Marks]?: number } = {}
   marks.forEach((mark) => {
     let count = 1
     matchingSiblings.every((sibling, index) => {
@@ -213,9 +218,9 @@ export const eat = (
     markCounts[mark] = count
   })
   let count = 0
-  let markToProcess: 'strong' | 'emphasis' | 'inlineCode' | null = null
+  let markToProcess: Marks | null = null
   Object.entries(markCounts).forEach(([mark, markCount]) => {
-    const m = mark as 'strong' | 'emphasis' | 'inlineCode'
+    const m = mark as Marks
     if (markCount > count) {
       count = markCount
       markToProcess = m
@@ -255,7 +260,7 @@ export const eat = (
 }
 const cleanNode = (
   node: InlineElementWithCallback,
-  mark: 'strong' | 'emphasis' | 'inlineCode' | null
+  mark: Marks | null
 ): Plate.InlineElement => {
   if (!mark) {
     return node
@@ -265,6 +270,7 @@ const cleanNode = (
     strong: 'bold',
     emphasis: 'italic',
     inlineCode: 'code',
+    delete: 'strikethrough',
   }[mark]
   Object.entries(node).map(([key, value]) => {
     if (key !== markToClear) {
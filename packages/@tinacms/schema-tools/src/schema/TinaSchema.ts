@@ -10,6 +10,7 @@ import {
 } from '../types/index'
 import { lastItem, assertShape } from '../util'
 import { normalizePath } from '../util/normalizePath'
+import { addPublishingFields } from './publishing'
 
 type Version = {
   fullVersion: string
@@ -35,6 +36,7 @@ export class TinaSchema {
   constructor(public config: { version?: Version; meta?: Meta } & Schema) {
     // @ts-ignore
     this.schema = config
+    this.schema.collections?.forEach(addPublishingFields)
     this.walkFields(({ field, collection, path }) => {
       if (field.type === 'rich-text') {
         if (field.parser) {
@@ -328,7 +330,12 @@ export class TinaSchema {
           return this.transformCollectablePayload(value, field)
         }
       }
-    else {
+    else if (field.type === 'image' && field.metadata) {
+      // values saved before `metadata` was enabled only hold the `src`
+      const toImage = (item: unknown) =>
+        typeof item === 'string' ? (item ? { src: item } : null) : item
+      return Array.isArray(value) ? value.map(toImage) : toImage(value)
+    } else {
       return value
     }
   }
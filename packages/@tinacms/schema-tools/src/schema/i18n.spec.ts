@@ -0,0 +1,40 @@
+import type { CollectionI18n } from '../types/index'
+import { getDocumentLocale, getLocalizedPath } from './i18n'
+
+const folder: CollectionI18n = {
+  locales: ['en', 'fr', 'de'],
+  defaultLocale: 'en',
+  strategy: 'folder',
+}
+const suffix: CollectionI18n = { ...folder, strategy: 'suffix' }
+
+describe('getDocumentLocale', () => {
+  it.each([
+    [folder, 'hello.md', 'en'],
+    [folder, 'blog/hello.md', 'en'],
+    [folder, 'fr/blog/hello.md', 'fr'],
+    [folder, 'fr.md', 'en'],
+    [suffix, 'hello.md', 'en'],
+    [suffix, 'blog/hello.de.md', 'de'],
+    [suffix, 'hello.world.md', 'en'],
+  ])('with %p finds the locale of %s', (i18n, relativePath, locale) => {
+    expect(getDocumentLocale(i18n, relativePath)).toEqual(locale)
+  })
+})
+
+describe('getLocalizedPath', () => {
+  it.each([
+    [folder, 'blog/hello.md', 'fr', 'fr/blog/hello.md'],
+    [folder, 'fr/blog/hello.md', 'de', 'de/blog/hello.md'],
+    [folder, 'fr/blog/hello.md', 'en', 'blog/hello.md'],
+    [suffix, 'blog/hello.md', 'fr', 'blog/hello.fr.md'],
+    [suffix, 'blog/hello.fr.md', 'de', 'blog/hello.de.md'],
+    [suffix, 'blog/hello.fr.md', 'en', 'blog/hello.md'],
+    [suffix, 'hello.md', 'en', 'hello.md'],
+  ])(
+    'with %p maps %s to the %s locale',
+    (i18n, relativePath, locale, expected) => {
+      expect(getLocalizedPath(i18n, relativePath, locale)).toEqual(expected)
+    }
+  )
+})
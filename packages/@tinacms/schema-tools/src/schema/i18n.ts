@@ -0,0 +1,79 @@
+/**
+
+*/
+
+import type { CollectionI18n } from '../types/index'
+
+/**
+ * Split a relative path into its folder, name and extension,
+ * eg. `blog/hello.fr.md` gives `['blog/', 'hello.fr', '.md']`
+ */
+const splitPath = (relativePath: string): [string, string, string] => {
+  const slash = relativePath.lastIndexOf('/')
+  const folder = relativePath.substring(0, slash + 1)
+  const basename = relativePath.substring(slash + 1)
+  const dot = basename.lastIndexOf('.')
+  return dot > 0
+    ? [folder, basename.substring(0, dot), basename.substring(dot)]
+    : [folder, basename, '']
+}
+
+const isTranslationLocale = (i18n: CollectionI18n, value: string) =>
+  value !== i18n.defaultLocale && i18n.locales.includes(value)
+
+/**
+ * The locale of a document from its path relative to the collection.
+ *
+ * Documents in the default locale are stored without a locale, with the
+ * `folder` strategy the other locales live in a folder named after the locale
+ * (`fr/hello.md`), with the `suffix` strategy the locale is added before the
+ * extension (`hello.fr.md`)
+ */
+export const getDocumentLocale = (
+  i18n: CollectionI18n,
+  relativePath: string
+): string => {
+  if (i18n.strategy === 'folder') {
+    const [first = '', ...rest] = relativePath.split('/')
+    return rest.length && isTranslationLocale(i18n, first)
+      ? first
+      : i18n.defaultLocale
+  }
+  const [, name] = splitPath(relativePath)
+  const suffix = name.substring(name.lastIndexOf('.') + 1)
+  return name.includes('.') && isTranslationLocale(i18n, suffix)
+    ? suffix
+    : i18n.defaultLocale
+}
+
+/**
+ * The path of a document in another locale, the document itself
+ * is returned when `locale` is the locale of the document
+ */
+export const getLocalizedPath = (
+  i18n: CollectionI18n,
+  relativePath: string,
+  locale: string
+): string => {
+  const current = getDocumentLocale(i18n, relativePath)
+  let defaultPath = relativePath
+  if (current !== i18n.defaultLocale) {
+    if (i18n.strategy === 'folder') {
+      defaultPath = relativePath.substring(current.length + 1)
+    } else {
+      const [folder, name, extension] = splitPath(relativePath)
+      defaultPath = `${folder}${name.substring(
+        0,
+        name.length - current.length - 1
+      )}${extension}`
+    }
+  }
+  if (locale === i18n.defaultLocale) {
+    return defaultPath
+  }
+  if (i18n.strategy === 'folder') {
+    return `${locale}/${defaultPath}`
+  }
+  const [folder, name, extension] = splitPath(defaultPath)
+  return `${folder}${name}.${locale}${extension}`
+}
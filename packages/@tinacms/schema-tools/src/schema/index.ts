@@ -6,3 +6,8 @@ export * from './addNamespaceToSchema'
 export * from './TinaSchema'
 export * from './resolveField'
 export * from './resolveForm'
+export * from './publishing'
+export * from './i18n'
+export * from './validation'
+export * from './permissions'
+export * from './uploads'
@@ -0,0 +1,36 @@
+import { isOperationAllowed } from './permissions'
+
+describe('isOperationAllowed', () => {
+  const roles = {
+    viewer: { '*': ['read' as const] },
+    editor: { post: ['create' as const, 'update' as const] },
+  }
+  it('allows everything without roles', () => {
+    expect(
+      isOperationAllowed({
+        user: { roles: [] },
+        collection: 'post',
+        operation: 'delete',
+      })
+    ).toBe(true)
+  })
+  it('combines the roles of the user', () => {
+    const user = { roles: ['viewer', 'editor'] }
+    const allowed = (collection: string, operation) =>
+      isOperationAllowed({ roles, user, collection, operation })
+    expect(allowed('author', 'read')).toBe(true)
+    expect(allowed('author', 'update')).toBe(false)
+    expect(allowed('post', 'update')).toBe(true)
+    expect(allowed('post', 'delete')).toBe(false)
+  })
+  it('allows nothing for unknown roles', () => {
+    expect(
+      isOperationAllowed({
+        roles,
+        user: { roles: ['owner'] },
+        collection: 'post',
+        operation: 'read',
+      })
+    ).toBe(false)
+  })
+})
@@ -0,0 +1,41 @@
+/**
+
+*/
+
+import type {
+  CollectionOperation,
+  RolePermissions,
+  TinaUser,
+} from '../types/index'
+
+/**
+ * Whether the user may perform `operation` on the documents of `collection`,
+ * the permissions of all of the roles of the user are combined.
+ *
+ * Everything is allowed when no roles are configured
+ */
+export const isOperationAllowed = ({
+  roles,
+  user,
+  collection,
+  operation,
+}: {
+  roles?: Record<string, RolePermissions>
+  user: TinaUser
+  collection: string
+  operation: CollectionOperation
+}) => {
+  if (!roles) {
+    return true
+  }
+  return (user.roles || []).some((role) => {
+    const permissions = roles[role]
+    return (
+      !!permissions &&
+      [
+        ...(permissions['*'] || []),
+        ...(permissions[collection] || []),
+      ].includes(operation)
+    )
+  })
+}
@@ -0,0 +1,74 @@
+import { Schema } from '../types/index'
+import { addNamespaceToSchema } from './addNamespaceToSchema'
+import { getPublishStatus } from './publishing'
+import { TinaSchema } from './TinaSchema'
+
+describe('getPublishStatus', () => {
+  const now = new Date('2022-06-01T00:00:00.000Z')
+  it('is published without dates', () => {
+    expect(getPublishStatus({}, now)).toEqual('published')
+  })
+  it('is scheduled before publishAt', () => {
+    expect(
+      getPublishStatus({ publishAt: '2022-07-01T00:00:00.000Z' }, now)
+    ).toEqual('scheduled')
+  })
+  it('is expired from unpublishAt on', () => {
+    expect(
+      getPublishStatus(
+        {
+          publishAt: '2022-05-01T00:00:00.000Z',
+          unpublishAt: '2022-06-01T00:00:00.000Z',
+        },
+        now
+      )
+    ).toEqual('expired')
+  })
+})
+
+describe('publishing fields', () => {
+  it('are added to collections with publishing', () => {
+    const schema: Schema = {
+      collections: [
+        {
+          name: 'post',
+          path: 'content/posts',
+          publishing: true,
+          fields: [
+            { type: 'string', name: 'title' },
+            { type: 'datetime', name: 'unpublishAt', label: 'Expires' },
+          ],
+        },
+        {
+          name: 'author',
+          path: 'content/authors',
+          fields: [{ type: 'string', name: 'name' }],
+        },
+      ],
+    }
+    const tinaSchema = new TinaSchema({
+      ...addNamespaceToSchema(schema, []),
+    })
+    const post = tinaSchema.getCollection('post')
+    expect(
+      post.fields.map(({ name, label, namespace }) => ({
+        name,
+        label,
+        namespace,
+      }))
+    ).toEqual([
+      { name: 'title', label: undefined, namespace: ['post', 'title'] },
+      {
+        name: 'unpublishAt',
+        label: 'Expires',
+        namespace: ['post', 'unpublishAt'],
+      },
+      {
+        name: 'publishAt',
+        label: 'Publish at',
+        namespace: ['post', 'publishAt'],
+      },
+    ])
+    expect(tinaSchema.getCollection('author').fields.length).toEqual(1)
+  })
+})
@@ -0,0 +1,90 @@
+/**
+
+*/
+
+import type { Collection, Template, TinaField } from '../types/index'
+
+export const PUBLISH_AT_FIELD = 'publishAt'
+export const UNPUBLISH_AT_FIELD = 'unpublishAt'
+
+export type PublishStatus = 'published' | 'scheduled' | 'expired'
+
+const toDate = (value: unknown) => {
+  if (!value || (typeof value !== 'string' && !(value instanceof Date))) {
+    return undefined
+  }
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? undefined : date
+}
+
+/**
+ * The publish status of a document from a collection with `publishing`,
+ * a document without a `publishAt` date is published right away and a
+ * document without an `unpublishAt` date never expires
+ */
+export const getPublishStatus = (
+  values: Record<string, unknown>,
+  now: Date = new Date()
+): PublishStatus => {
+  const publishAt = toDate(values?.[PUBLISH_AT_FIELD])
+  const unpublishAt = toDate(values?.[UNPUBLISH_AT_FIELD])
+  if (unpublishAt && unpublishAt <= now) {
+    return 'expired'
+  }
+  if (publishAt && publishAt > now) {
+    return 'scheduled'
+  }
+  return 'published'
+}
+
+const publishingFields = (namespace: string[]): TinaField<true>[] => [
+  {
+    type: 'datetime',
+    name: PUBLISH_AT_FIELD,
+    label: 'Publish at',
+    description: 'The document is hidden until this date',
+    ui: { timeFormat: 'HH:mm' },
+    namespace: [...namespace, PUBLISH_AT_FIELD],
+  },
+  {
+    type: 'datetime',
+    name: UNPUBLISH_AT_FIELD,
+    label: 'Unpublish at',
+    description: 'The document is hidden from this date on',
+    ui: { timeFormat: 'HH:mm' },
+    namespace: [...namespace, UNPUBLISH_AT_FIELD],
+  },
+]
+
+const addFields = (fields: TinaField<true>[], namespace: string[]) => {
+  publishingFields(namespace).forEach((field) => {
+    // leave fields which are defined in the schema alone
+    if (!fields.find((existing) => existing.name === field.name)) {
+      fields.push(field)
+    }
+  })
+}
+
+/**
+ * Add the `publishAt` and `unpublishAt` fields to a collection with `publishing`
+ */
+export const addPublishingFields = (collection: Collection<true>) => {
+  if (!collection.publishing) {
+    return
+  }
+  if (collection.fields) {
+    addFields(
+      collection.fields as TinaField<true>[],
+      collection.namespace || [collection.name]
+    )
+  } else {
+    collection.templates?.forEach((template: Template<true>) => {
+      if (typeof template === 'object') {
+        addFields(
+          template.fields as TinaField<true>[],
+          template.namespace || [collection.name, template.name]
+        )
+      }
+    })
+  }
+}
@@ -5,6 +5,17 @@
 import { TinaField } from '../types/index'
 import { TinaSchema } from './TinaSchema'
 import { lastItem, NAMER } from '../util'
+import { validateField } from './validation'
+
+/** The `ui` of a field, whose `validate` is wrapped to check the field rules */
+type FieldUI = Omit<NonNullable<TinaField<true>['ui']>, 'validate'> & {
+  validate?: (
+    value: unknown,
+    allValues: { [key: string]: unknown },
+    meta: unknown,
+    field: unknown
+  ) => string | undefined | void
+}
 
 /**
  * Turns a field the schema (schema.{js,ts} file) into a valid front end FieldConfig
@@ -18,7 +29,18 @@ export const resolveField = (
   component: TinaField<true>['ui']['component']
   type: string
 } => {
-  const extraFields = field.ui || {}
+  const extraFields: FieldUI = { ...((field.ui || {}) as FieldUI) }
+  if (field.required || field.validation) {
+    // the form checks the same rules as the server before its own `validate`
+    const validate = extraFields.validate
+    extraFields.validate = (
+      value: unknown,
+      allValues: { [key: string]: unknown },
+      meta: unknown,
+      uiField: unknown
+    ) =>
+      validateField(field, value) || validate?.(value, allValues, meta, uiField)
+  }
   switch (field.type) {
     case 'number':
       return {
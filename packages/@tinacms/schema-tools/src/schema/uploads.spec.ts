@@ -0,0 +1,135 @@
+/**
+
+*/
+
+import type { Schema } from '../types/index'
+import {
+  checkUpload,
+  detectMimeType,
+  getMimeType,
+  getUploadRules,
+  matchesMimeType,
+} from './uploads'
+
+const bytes = (text: string) =>
+  Uint8Array.from(Array.from(text), (character) => character.charCodeAt(0))
+
+describe('getUploadRules', () => {
+  it('finds the image fields of collections, objects and templates', () => {
+    const schema: Schema = {
+      collections: [
+        {
+          name: 'post',
+          path: 'posts',
+          fields: [
+            { type: 'image', name: 'hero', maxSize: 1024, accept: 'image/*' },
+            {
+              type: 'object',
+              name: 'gallery',
+              list: true,
+              fields: [{ type: 'image', name: 'photo', minWidth: 100 }],
+            },
+            {
+              type: 'rich-text',
+              name: 'body',
+              isBody: true,
+              templates: [
+                {
+                  name: 'figure',
+                  fields: [{ type: 'image', name: 'src' }],
+                },
+              ],
+            },
+          ],
+        },
+        {
+          name: 'page',
+          path: 'pages',
+          templates: [
+            {
+              name: 'landing',
+              fields: [{ type: 'image', name: 'cover', maxHeight: 500 }],
+            },
+          ],
+        },
+      ],
+    }
+    expect(getUploadRules(schema)).toEqual([
+      { maxSize: 1024, accept: 'image/*' },
+      { minWidth: 100 },
+      {},
+      { maxHeight: 500 },
+    ])
+  })
+})
+
+describe('detectMimeType', () => {
+  it('reads the type from the content of the file', () => {
+    expect(detectMimeType(bytes('\x89PNG\r\n\x1a\n...'), 'cat.jpg')).toEqual(
+      'image/png'
+    )
+    expect(detectMimeType(bytes('%PDF-1.7'), 'cat.png')).toEqual(
+      'application/pdf'
+    )
+    expect(
+      detectMimeType(bytes('<?xml version="1.0"?><svg width="1">'), 'cat.png')
+    ).toEqual('image/svg+xml')
+    expect(detectMimeType(bytes('\x00\x01\x02'), 'cat.png')).toEqual(
+      'application/octet-stream'
+    )
+  })
+  it('uses the extension to tell apart files of the same kind', () => {
+    expect(detectMimeType(bytes('a,b\n1,2'), 'table.csv')).toEqual('text/csv')
+    expect(detectMimeType(bytes('a,b\n1,2'), 'table.png')).toEqual('text/plain')
+    expect(detectMimeType(bytes('PK\x03\x04'), 'report.docx')).toEqual(
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    )
+    expect(detectMimeType(bytes('PK\x03\x04'), 'report.png')).toEqual(
+      'application/zip'
+    )
+  })
+})
+
+describe('getMimeType', () => {
+  it('reads the type from the extension of the file', () => {
+    expect(getMimeType('photos/cat.JPG')).toEqual('image/jpeg')
+    expect(getMimeType('report.pdf')).toEqual('application/pdf')
+    expect(getMimeType('archive.tar.gz')).toEqual('application/octet-stream')
+    expect(getMimeType('README')).toEqual('application/octet-stream')
+  })
+})
+
+describe('matchesMimeType', () => {
+  it('matches exact types and wildcards', () => {
+    expect(matchesMimeType('image/png', ['image/*'])).toBe(true)
+    expect(matchesMimeType('image/png', ['video/*', 'image/png'])).toBe(true)
+    expect(matchesMimeType('application/pdf', ['image/*'])).toBe(false)
+    expect(matchesMimeType('image/png', [])).toBe(false)
+  })
+})
+
+describe('checkUpload', () => {
+  const file = { name: 'cat.png', size: 2048, mimeType: 'image/png' }
+
+  it('accepts the files which meet the rules of one of the fields', () => {
+    expect(
+      checkUpload(file, [{ accept: 'application/pdf' }, { maxSize: 4096 }])
+    ).toEqual([])
+    expect(checkUpload(file, [])).toEqual([])
+    expect(checkUpload(file, [{ maxSize: 1024 }, {}])).toEqual([])
+  })
+  it('reports the errors of the closest field', () => {
+    expect(
+      checkUpload({ ...file, width: 50, height: 50 }, [
+        { accept: 'application/pdf', maxSize: 1024 },
+        { accept: 'image/*', minWidth: 100 },
+      ])
+    ).toEqual(['cat.png is 50×50 pixels, it must be at least 100 pixels wide'])
+    expect(checkUpload(file, [{ maxSize: 1024 }])).toEqual([
+      'cat.png is 2 KB, the limit is 1 KB',
+    ])
+  })
+  it('passes the images which could not be measured', () => {
+    expect(checkUpload(file, [{ minWidth: 100, maxHeight: 10 }])).toEqual([])
+  })
+})
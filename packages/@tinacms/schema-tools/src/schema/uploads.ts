@@ -0,0 +1,278 @@
+/**
+
+*/
+
+import type { Schema, Template, TinaField } from '../types/index'
+
+/**
+ * The limits an `image` field sets on the files uploaded to it
+ */
+export type UploadRules = {
+  maxSize?: number
+  accept?: string
+  minWidth?: number
+  maxWidth?: number
+  minHeight?: number
+  maxHeight?: number
+}
+
+/**
+ * What the server knows about an uploaded file, `width` and `height` are only
+ * needed when the rules limit them
+ */
+export type UploadedFileInfo = {
+  name: string
+  size: number
+  /** The type of the content of the file, see `detectMimeType` */
+  mimeType: string
+  width?: number
+  height?: number
+}
+
+const RULE_NAMES = [
+  'maxSize',
+  'accept',
+  'minWidth',
+  'maxWidth',
+  'minHeight',
+  'maxHeight',
+] as const
+
+const collectUploadRules = (
+  fields: TinaField[] | undefined,
+  result: UploadRules[]
+) => {
+  for (const field of fields || []) {
+    if (field.type === 'image') {
+      const rules: UploadRules = {}
+      RULE_NAMES.forEach((name) => {
+        if (field[name] !== undefined) {
+          Object.assign(rules, { [name]: field[name] })
+        }
+      })
+      result.push(rules)
+    }
+    if (field.type === 'object' || field.type === 'rich-text') {
+      if (field.type === 'object') {
+        collectUploadRules(field.fields as TinaField[], result)
+      }
+      ;((field.templates || []) as Template[]).forEach((template) => {
+        if (typeof template === 'object') {
+          collectUploadRules(template.fields, result)
+        }
+      })
+    }
+  }
+}
+
+/**
+ * The rules of every `image` field of the schema. The server can't tell which
+ * field a file is uploaded for, so an upload has to meet the rules of one of them
+ */
+export const getUploadRules = (schema: Schema): UploadRules[] => {
+  const result: UploadRules[] = []
+  for (const collection of schema?.collections || []) {
+    collectUploadRules(collection.fields as TinaField[], result)
+    ;((collection.templates || []) as Template[]).forEach((template) =>
+      collectUploadRules(template.fields, result)
+    )
+  }
+  return result
+}
+
+/** Whether the dimensions of the images have to be measured to check `rules` */
+export const hasDimensionRules = (rules: UploadRules[]) =>
+  rules.some(
+    ({ minWidth, maxWidth, minHeight, maxHeight }) =>
+      minWidth || maxWidth || minHeight || maxHeight
+  )
+
+const startsWith = (bytes: Uint8Array, signature: string, offset = 0) =>
+  Array.from(signature).every(
+    (character, idx) => bytes[offset + idx] === character.charCodeAt(0)
+  )
+
+/** The MIME types of the extensions of the files commonly found in a media library */
+export const MIME_TYPES = {
+  avif: 'image/avif',
+  gif: 'image/gif',
+  ico: 'image/x-icon',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  tif: 'image/tiff',
+  tiff: 'image/tiff',
+  webp: 'image/webp',
+  mp4: 'video/mp4',
+  mov: 'video/quicktime',
+  webm: 'video/webm',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  txt: 'text/plain',
+  json: 'application/json',
+  pdf: 'application/pdf',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+}
+
+const TYPES_BY_EXTENSION: Record<string, string | undefined> = MIME_TYPES
+
+const getExtension = (filename: string) =>
+  filename.includes('.') ? filename.split('.').pop()?.toLowerCase() || '' : ''
+
+/**
+ * The MIME type of a file according to its extension, for listing files
+ * without reading them. Use `detectMimeType` for the files which are uploaded
+ */
+export const getMimeType = (filename: string) =>
+  TYPES_BY_EXTENSION[getExtension(filename)] || 'application/octet-stream'
+
+/** Whether `mimeType` matches one of `patterns`, eg. `image/*` or `application/pdf` */
+export const matchesMimeType = (mimeType: string, patterns: string[]) =>
+  patterns.some((pattern) =>
+    pattern.endsWith('/*')
+      ? mimeType.startsWith(pattern.slice(0, -1))
+      : mimeType === pattern
+  )
+
+/**
+ * The MIME type of a file according to its first bytes (a few KB), the type
+ * sent along with an upload is chosen by the client so it can't be trusted.
+ * The extension is only used to tell apart the files of the same kind, like
+ * text files or Office documents
+ */
+export const detectMimeType = (bytes: Uint8Array, filename: string) => {
+  const byExtension = (types: string[], fallback: string) => {
+    const mimeType = getMimeType(filename)
+    return types.includes(mimeType) ? mimeType : fallback
+  }
+
+  if (startsWith(bytes, '\x89PNG\r\n\x1a\n')) return 'image/png'
+  if (startsWith(bytes, '\xff\xd8\xff')) return 'image/jpeg'
+  if (startsWith(bytes, 'GIF87a') || startsWith(bytes, 'GIF89a')) {
+    return 'image/gif'
+  }
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WEBP', 8)) {
+    return 'image/webp'
+  }
+  if (startsWith(bytes, 'RIFF') && startsWith(bytes, 'WAVE', 8)) {
+    return 'audio/wav'
+  }
+  if (startsWith(bytes, 'ftyp', 4)) {
+    if (startsWith(bytes, 'avif', 8) || startsWith(bytes, 'avis', 8)) {
+      return 'image/avif'
+    }
+    return startsWith(bytes, 'qt  ', 8) ? 'video/quicktime' : 'video/mp4'
+  }
+  if (startsWith(bytes, 'II*\x00') || startsWith(bytes, 'MM\x00*')) {
+    return 'image/tiff'
+  }
+  if (startsWith(bytes, '\x00\x00\x01\x00')) return 'image/x-icon'
+  if (startsWith(bytes, '%PDF-')) return 'application/pdf'
+  if (startsWith(bytes, '\x1a\x45\xdf\xa3')) return 'video/webm'
+  if (
+    startsWith(bytes, 'ID3') ||
+    (bytes[0] === 0xff && ((bytes[1] ?? 0) & 0xe0) === 0xe0)
+  ) {
+    return 'audio/mpeg'
+  }
+  if (startsWith(bytes, 'PK\x03\x04')) {
+    return byExtension([MIME_TYPES.docx, MIME_TYPES.xlsx], 'application/zip')
+  }
+  if (startsWith(bytes, '\xd0\xcf\x11\xe0')) {
+    return byExtension(
+      [MIME_TYPES.doc, MIME_TYPES.xls],
+      'application/octet-stream'
+    )
+  }
+  // the rest is told apart from binary files by the absence of null bytes
+  if (bytes.includes(0)) {
+    return 'application/octet-stream'
+  }
+  // the markup of svg images is ASCII, so the bytes don't need to be decoded
+  const text = Array.from(bytes, (byte) => String.fromCharCode(byte)).join('')
+  if (/<svg[\s>]/i.test(text)) {
+    return 'image/svg+xml'
+  }
+  return byExtension(
+    ['text/csv', 'text/markdown', 'text/plain', 'application/json'],
+    'text/plain'
+  )
+}
+
+const matchesAccept = (mimeType: string, accept: string) =>
+  matchesMimeType(
+    mimeType,
+    accept
+      .split(',')
+      .map((pattern) => pattern.trim())
+      .filter(Boolean)
+  )
+
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let size = bytes
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size = size / 1024
+    unit++
+  }
+  return `${Math.round(size * 10) / 10} ${units[unit]}`
+}
+
+const findUploadErrors = (file: UploadedFileInfo, rules: UploadRules) => {
+  const errors: string[] = []
+  const { name, size, mimeType, width, height } = file
+  if (rules.accept && !matchesAccept(mimeType, rules.accept)) {
+    errors.push(`${name} is not one of the accepted types (${rules.accept})`)
+  }
+  if (rules.maxSize && size > rules.maxSize) {
+    errors.push(
+      `${name} is ${formatBytes(size)}, the limit is ${formatBytes(
+        rules.maxSize
+      )}`
+    )
+  }
+  // images which can't be measured pass
+  const pixels = `${name} is ${width}×${height} pixels`
+  if (width && rules.minWidth && width < rules.minWidth) {
+    errors.push(`${pixels}, it must be at least ${rules.minWidth} pixels wide`)
+  }
+  if (width && rules.maxWidth && width > rules.maxWidth) {
+    errors.push(`${pixels}, it must be at most ${rules.maxWidth} pixels wide`)
+  }
+  if (height && rules.minHeight && height < rules.minHeight) {
+    errors.push(`${pixels}, it must be at least ${rules.minHeight} pixels high`)
+  }
+  if (height && rules.maxHeight && height > rules.maxHeight) {
+    errors.push(`${pixels}, it must be at most ${rules.maxHeight} pixels high`)
+  }
+  return errors
+}
+
+/**
+ * The reasons why a file can't be uploaded, empty when it meets the rules
+ * of one of the fields (or when there are no `image` fields). Otherwise the
+ * reasons are the ones of the field it comes closest to
+ */
+export const checkUpload = (
+  file: UploadedFileInfo,
+  rules: UploadRules[]
+): string[] => {
+  let closest: string[] | undefined
+  for (const fieldRules of rules) {
+    const errors = findUploadErrors(file, fieldRules)
+    if (!errors.length) {
+      return []
+    }
+    if (!closest || errors.length < closest.length) {
+      closest = errors
+    }
+  }
+  return closest || []
+}
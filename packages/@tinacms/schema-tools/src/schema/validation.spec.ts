@@ -0,0 +1,93 @@
+/**
+
+*/
+
+import type { TinaField } from '../types/index'
+import { validateField, validateValues } from './validation'
+
+describe('validateField', () => {
+  it('requires a value for required fields', () => {
+    const field: TinaField = { type: 'string', name: 'title', required: true }
+    expect(validateField(field, '')).toEqual('Required')
+    expect(validateField(field, undefined)).toEqual('Required')
+    expect(validateField(field, 'Hello')).toBeUndefined()
+  })
+  it('requires the src of images with metadata', () => {
+    const field: TinaField = {
+      type: 'image',
+      name: 'hero',
+      metadata: true,
+      required: true,
+    }
+    expect(validateField(field, { alt: 'A hero' })).toEqual('Required')
+    expect(validateField(field, { src: '/hero.png' })).toBeUndefined()
+  })
+  it('checks string rules', () => {
+    const field: TinaField = {
+      type: 'string',
+      name: 'slug',
+      validation: { pattern: '^[a-z-]+$', minLength: 3, maxLength: 10 },
+    }
+    expect(validateField(field, 'ab')).toEqual('Must be at least 3 characters')
+    expect(validateField(field, 'a-very-long-slug')).toEqual(
+      'Must be at most 10 characters'
+    )
+    expect(validateField(field, 'Hello')).toEqual('Must match ^[a-z-]+$')
+    expect(validateField(field, 'hello')).toBeUndefined()
+  })
+  it('checks options', () => {
+    const field: TinaField = {
+      type: 'string',
+      name: 'genre',
+      options: ['scifi', { label: 'Drama', value: 'drama' }],
+    }
+    expect(validateField(field, 'comedy')).toEqual(
+      'Must be one of scifi, drama'
+    )
+    expect(validateField(field, 'drama')).toBeUndefined()
+  })
+  it('bounds numbers and the items of lists', () => {
+    const rating: TinaField = {
+      type: 'number',
+      name: 'rating',
+      validation: { min: 0, max: 10 },
+    }
+    expect(validateField(rating, 11)).toEqual('Must be at most 10')
+    expect(validateField(rating, 0)).toBeUndefined()
+    const tags: TinaField = {
+      type: 'string',
+      name: 'tags',
+      list: true,
+      validation: { min: 1, max: 2, message: 'Pick one or two tags' },
+    }
+    expect(validateField(tags, ['a', 'b', 'c'])).toEqual('Pick one or two tags')
+    expect(validateField(tags, ['a'])).toBeUndefined()
+  })
+})
+
+describe('validateValues', () => {
+  it('reports the path of nested errors', () => {
+    const fields: TinaField[] = [
+      { type: 'string', name: 'title', required: true },
+      {
+        type: 'object',
+        name: 'blocks',
+        list: true,
+        templates: [
+          {
+            name: 'hero',
+            fields: [{ type: 'string', name: 'headline', required: true }],
+          },
+        ],
+      },
+    ]
+    expect(
+      validateValues(fields, {
+        blocks: [{ _template: 'hero', headline: 'Hi' }, { _template: 'hero' }],
+      })
+    ).toEqual([
+      { path: ['title'], message: 'Required' },
+      { path: ['blocks', 1, 'headline'], message: 'Required' },
+    ])
+  })
+})
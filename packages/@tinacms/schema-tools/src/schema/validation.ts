@@ -0,0 +1,129 @@
+/**
+
+*/
+
+import type { Option, TinaField } from '../types/index'
+
+export type FieldValidationError = {
+  path: (string | number)[]
+  message: string
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  value === '' ||
+  (Array.isArray(value) && value.length === 0)
+
+/** Images with `metadata` hold an object, which is empty without a `src` */
+const isEmptyImage = (field: TinaField, value: unknown) =>
+  field.type === 'image' &&
+  field.metadata &&
+  !field.list &&
+  isEmpty((value as { src?: unknown } | null)?.src)
+
+const optionValue = (option: Option) =>
+  typeof option === 'string' ? option : option.value
+
+const validateItem = (field: TinaField, value: unknown): string | undefined => {
+  const rules = field.validation || {}
+  if (typeof value === 'string') {
+    if (field.type === 'string' && field.options) {
+      const values = field.options.map(optionValue)
+      if (!values.includes(value)) {
+        return `Must be one of ${values.join(', ')}`
+      }
+    }
+    if (typeof rules.minLength === 'number' && value.length < rules.minLength) {
+      return `Must be at least ${rules.minLength} characters`
+    }
+    if (typeof rules.maxLength === 'number' && value.length > rules.maxLength) {
+      return `Must be at most ${rules.maxLength} characters`
+    }
+    if (rules.pattern && !new RegExp(rules.pattern).test(value)) {
+      return `Must match ${rules.pattern}`
+    }
+  }
+  if (typeof value === 'number' && !field.list) {
+    if (typeof rules.min === 'number' && value < rules.min) {
+      return `Must be at least ${rules.min}`
+    }
+    if (typeof rules.max === 'number' && value > rules.max) {
+      return `Must be at most ${rules.max}`
+    }
+  }
+}
+
+/**
+ * The error for the value of a single field, or `undefined` when it's valid.
+ * Nested fields of objects are not checked, see `validateValues`
+ */
+export const validateField = (
+  field: TinaField,
+  value: unknown
+): string | undefined => {
+  const rules = field.validation || {}
+  const error = (() => {
+    if (isEmpty(value) || isEmptyImage(field, value)) {
+      return field.required ? 'Required' : undefined
+    }
+    if (field.list && Array.isArray(value)) {
+      if (typeof rules.min === 'number' && value.length < rules.min) {
+        return `Must have at least ${rules.min} items`
+      }
+      if (typeof rules.max === 'number' && value.length > rules.max) {
+        return `Must have at most ${rules.max} items`
+      }
+      for (const item of value) {
+        const itemError = validateItem(field, item)
+        if (itemError) {
+          return itemError
+        }
+      }
+      return undefined
+    }
+    return validateItem(field, value)
+  })()
+  return error && rules.message ? rules.message : error
+}
+
+/**
+ * Check the values of a document, or of an object, against the rules of its
+ * fields. Objects with templates are matched by their `_template` value
+ */
+export const validateValues = (
+  fields: TinaField[],
+  values: Record<string, unknown>,
+  path: (string | number)[] = []
+): FieldValidationError[] => {
+  const errors: FieldValidationError[] = []
+  for (const field of fields) {
+    const value = values?.[field.name]
+    const message = validateField(field, value)
+    if (message) {
+      errors.push({ path: [...path, field.name], message })
+      continue
+    }
+    if (field.type !== 'object' || isEmpty(value)) {
+      continue
+    }
+    const items = (field.list ? value : [value]) as Record<string, unknown>[]
+    items.forEach((item, index) => {
+      const itemPath = field.list
+        ? [...path, field.name, index]
+        : [...path, field.name]
+      const template = field.templates
+        ? field.templates.find(
+            (template) =>
+              typeof template !== 'string' && template.name === item._template
+          )
+        : field
+      if (template && typeof template !== 'string') {
+        errors.push(
+          ...validateValues(template.fields as TinaField[], item, itemPath)
+        )
+      }
+    })
+  }
+  return errors
+}
@@ -139,10 +139,41 @@ type FieldGeneric<
       ui?: UIField<Type, false> & ExtraFieldUIProps
     }
 
+/**
+ * Rules checked by the form and by the server when a document is saved
+ */
+export interface FieldValidation {
+  /**
+   * A regular expression which string values must match
+   */
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  /**
+   * The bounds of a number, or of the number of items of a `list` field
+   */
+  min?: number
+  max?: number
+  /**
+   * No other document of the collection may have the same value,
+   * only supported on top-level fields
+   */
+  unique?: boolean
+  /**
+   * Replaces the default error message
+   */
+  message?: string
+}
+
 export interface BaseField {
   label?: string | boolean
   required?: boolean
+  validation?: FieldValidation
   indexed?: boolean
+  /**
+   * Set to `false` to leave this field out of the full-text search index
+   */
+  searchable?: boolean
   name: string
   nameOverride?: string
   description?: string
@@ -204,6 +235,53 @@ export type ImageField = (
 ) &
   BaseField & {
     type: 'image'
+    /**
+     * Store the alt text, caption, focal point and dimensions of the
+     * selected asset along with its `src`. The value of the field is
+     * then an object instead of a string
+     *
+     * ```ts
+     * {
+     *   type: 'image',
+     *   name: 'hero',
+     *   metadata: true,
+     * }
+     * ```
+     */
+    metadata?: boolean
+    /**
+     * The largest file which can be uploaded to the field, in bytes
+     */
+    maxSize?: number
+    /**
+     * The MIME types which can be uploaded to the field, separated by
+     * commas. Defaults to the `accept` of the Media Store
+     *
+     * ```ts
+     * {
+     *   type: 'image',
+     *   name: 'hero',
+     *   accept: 'image/jpeg,image/png',
+     * }
+     * ```
+     */
+    accept?: string
+    /**
+     * The smallest width of the images uploaded to the field, in pixels
+     */
+    minWidth?: number
+    /**
+     * The largest width of the images uploaded to the field, in pixels
+     */
+    maxWidth?: number
+    /**
+     * The smallest height of the images uploaded to the field, in pixels
+     */
+    minHeight?: number
+    /**
+     * The largest height of the images uploaded to the field, in pixels
+     */
+    maxHeight?: number
   }
 
 export type ReferenceField = (
@@ -223,6 +301,16 @@ export type ReferenceField = (
      * ```
      */
     collections: string[]
+    /**
+     * What happens to this reference when the referenced document is deleted:
+     *
+     * - `restrict` refuses to delete the referenced document
+     * - `nullify` removes the reference from this document
+     * - `cascade` deletes this document as well
+     *
+     * Without it, the reference is left as it is
+     */
+    onDelete?: 'restrict' | 'nullify' | 'cascade'
   }
 
 type RichTextAst = { type: 'root'; children: Record<string, unknown>[] }
@@ -417,6 +505,22 @@ export type Template<WithNamespace extends boolean = false> = {
   fields: Field<WithNamespace>[]
 } & MaybeNamespace<WithNamespace>
 
+export type CollectionOperation = 'read' | 'create' | 'update' | 'delete'
+
+/**
+ * The operations allowed on the documents of each collection, `'*'` applies to every collection
+ */
+export type RolePermissions = Record<string, CollectionOperation[]>
+
+/**
+ * The user making a request, as verified by the GraphQL server
+ */
+export interface TinaUser {
+  id?: string
+  roles: string[]
+  [key: string]: unknown
+}
+
 type TokenObject = {
   id_token: string
   access_token?: string
@@ -469,6 +573,26 @@ export interface Config<
 
       onLogin?: (args: { token: TokenObject }) => Promise<void>
       onLogout?: () => Promise<void>
+      /**
+       * The operations each role may perform on the documents of each collection,
+       * `'*'` applies to every collection.
+       *
+       * They are enforced for the users which a self-hosted GraphQL server passes
+       * to `resolve`, and the admin hides the actions a user lacks when `getUser`
+       * returns the `roles` of the user. The dev server verifies the users with
+       * the `verifyToken` function exported by `tina/database`.
+       *
+       * The `media` entry sets the operations allowed on the media library
+       *
+       * ```ts
+       * roles: {
+       *   viewer: { '*': ['read'] },
+       *   editor: { '*': ['read'], post: ['create', 'update'], media: ['create'] },
+       *   admin: { '*': ['read', 'create', 'update', 'delete'] },
+       * }
+       * ```
+       */
+      roles?: Record<string, RolePermissions>
     }
   }
   /**
@@ -577,6 +701,21 @@ export interface Config<
         }
         loadCustomStore?: never
       }
+  /**
+   * Notify other services, like a search indexer or a CDN, when content changes
+   *
+   * ```ts
+   * webhooks: [
+   *   {
+   *     url: 'https://example.com/api/purge',
+   *     events: ['document.updated', 'document.deleted'],
+   *     collections: ['post'],
+   *     secret: process.env.WEBHOOK_SECRET,
+   *   },
+   * ]
+   * ```
+   */
+  webhooks?: Webhook[]
   /**
    * Used to override the default Tina Cloud API URL
    *
@@ -592,6 +731,42 @@ export interface Config<
   formifyCallback?: FormifyCallback
   documentCreatorCallback?: DocumentCreatorCallback
 }
+export type WebhookEvent =
+  | 'document.created'
+  | 'document.updated'
+  | 'document.deleted'
+  | 'media.uploaded'
+
+export interface Webhook {
+  /**
+   * The url which receives a `POST` request for each event
+   */
+  url: string
+  /**
+   * The events to send, defaults to all of them
+   */
+  events?: WebhookEvent[]
+  /**
+   * Only send the events of documents in these collections,
+   * media events are always sent
+   */
+  collections?: string[]
+  /**
+   * Signs the payload with HMAC SHA-256, the signature is sent
+   * in the `X-Tina-Signature` header as `sha256=<hex digest>`
+   */
+  secret?: string
+  /**
+   * Extra headers, eg. for authorization
+   */
+  headers?: Record<string, string>
+  /**
+   * How many times a failed delivery is retried
+   * @default 3
+   */
+  retries?: number
+}
+
 export type TinaCMSConfig<
   CMSCallback = undefined,
   FormifyCallback = undefined,
@@ -639,6 +814,27 @@ interface BaseCollection {
     include?: string
     exclude?: string
   }
+  /**
+   * Adds `publishAt` and `unpublishAt` fields to the documents of the collection,
+   * documents which are scheduled or expired are left out of the collection's
+   * connection unless they are requested with the `status` argument
+   */
+  publishing?: boolean
+  /**
+   * Stores the documents of the collection in several locales, see {@link CollectionI18n}
+   */
+  i18n?: CollectionI18n
+}
+
+export type CollectionI18n = {
+  locales: string[]
+  defaultLocale: string
+  /**
+   * Documents in the default locale are stored without a locale, the other locales
+   * are stored in a folder named after the locale with `folder` (`fr/hello.md`)
+   * or with the locale before the extension with `suffix` (`hello.fr.md`)
+   */
+  strategy: 'folder' | 'suffix'
 }
 
 type TemplateCollection<WithNamespace extends boolean = false> = {
@@ -707,6 +903,16 @@ export interface UICollection {
    * Forms for this collection will be editable from the global sidebar rather than the form panel
    */
   global?: boolean | { icon?: any; layout: 'fullscreen' | 'popup' }
+  /**
+   * Periodically save the changes of a document while it's being edited,
+   * every `interval` milliseconds (30 seconds by default)
+   *
+   * eg:
+   * ```ts
+   * autosave: { interval: 60000 }
+   * ```
+   */
+  autosave?: boolean | { interval?: number }
   /**
    * Provide the path that your document is viewable on your site
    *
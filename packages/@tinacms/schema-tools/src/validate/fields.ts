@@ -38,11 +38,38 @@ const Option = z.union(
     },
   }
 )
+const FieldValidation = z.object({
+  pattern: z
+    .string()
+    .refine(
+      (val) => {
+        try {
+          new RegExp(val)
+          return true
+        } catch (e) {
+          return false
+        }
+      },
+      (val) => ({
+        message: `pattern "${val}" is not a valid regular expression`,
+      })
+    )
+    .optional(),
+  minLength: z.number().int().nonnegative().optional(),
+  maxLength: z.number().int().nonnegative().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  unique: z.boolean().optional(),
+  message: z.string().optional(),
+})
+
 const TinaField = z.object({
   name,
   label: z.string().or(z.boolean()).optional(),
   description: z.string().optional(),
   required: z.boolean().optional(),
+  searchable: z.boolean().optional(),
+  validation: FieldValidation.optional(),
 })
 
 const FieldWithList = TinaField.extend({ list: z.boolean().optional() })
@@ -77,6 +104,13 @@ const ImageField = TinaScalerBase.extend({
     invalid_type_error: typeTypeError,
     required_error: typeRequiredError,
   }),
+  metadata: z.boolean().optional(),
+  maxSize: z.number().int().positive().optional(),
+  accept: z.string().optional(),
+  minWidth: z.number().int().positive().optional(),
+  maxWidth: z.number().int().positive().optional(),
+  minHeight: z.number().int().positive().optional(),
+  maxHeight: z.number().int().positive().optional(),
 })
 
 const DateTimeField = TinaScalerBase.extend({
@@ -96,6 +130,7 @@ const ReferenceField = FieldWithList.extend({
     invalid_type_error: typeTypeError,
     required_error: typeRequiredError,
   }),
+  onDelete: z.enum(['restrict', 'nullify', 'cascade']).optional(),
 })
 
 // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
@@ -56,6 +56,8 @@ const validSchema: Schema = {
       name: 'post',
       path: 'content/post',
       format: 'md',
+      publishing: true,
+      i18n: { locales: ['en', 'fr'], defaultLocale: 'en', strategy: 'suffix' },
       fields: [
         {
           type: 'string',
@@ -77,6 +79,7 @@ const validSchema: Schema = {
               name: 'post',
               type: 'reference',
               collections: ['post'],
+              onDelete: 'nullify',
             },
             {
               type: 'object',
@@ -419,6 +422,68 @@ const schemaWithIsTitleNotValid2 = {
     },
   ],
 }
+const schemaWithBadOnDelete = {
+  collections: [
+    {
+      name: 'foo',
+      path: 'foo/bar',
+      fields: [
+        {
+          type: 'reference',
+          name: 'foo',
+          collections: ['foo'],
+          onDelete: 'ignore',
+        },
+      ],
+    },
+  ],
+}
+const schemaWithBadPublishing = {
+  collections: [
+    {
+      name: 'foo',
+      path: 'foo/bar',
+      publishing: 'yes',
+      fields: [{ type: 'string', name: 'title' }],
+    },
+  ],
+}
+const schemaWithBadDefaultLocale = {
+  collections: [
+    {
+      name: 'foo',
+      path: 'foo/bar',
+      i18n: { locales: ['en', 'fr'], defaultLocale: 'de', strategy: 'folder' },
+      fields: [{ type: 'string', name: 'title' }],
+    },
+  ],
+}
+const schemaWithBadPattern = {
+  collections: [
+    {
+      name: 'foo',
+      path: 'foo/bar',
+      fields: [
+        { type: 'string', name: 'title', validation: { pattern: '([a-z]' } },
+      ],
+    },
+  ],
+}
+const schemaWithBadMaxSize = {
+  collections: [
+    {
+      name: 'foo',
+      path: 'foo/bar',
+      fields: [{ type: 'image', name: 'hero', maxSize: '2MB' }],
+    },
+  ],
+}
+const schemaWithBadWebhookEvent = {
+  collections: validSchema.collections,
+  config: {
+    webhooks: [{ url: 'https://example.com/hook', events: ['document.moved'] }],
+  },
+}
 describe('validateSchema', () => {
   it('Passes on a valid schema', () => {
     validateSchema({ schema: validSchema })
@@ -485,6 +550,36 @@ describe('validateSchema', () => {
       validateSchema({ schema: schemaWithIsTitleNotValid2 })
     }).toThrow()
   })
+  it('fails when an invalid `onDelete` policy is given', () => {
+    expect(() => {
+      validateSchema({ schema: schemaWithBadOnDelete })
+    }).toThrow()
+  })
+  it('fails when `publishing` is not a boolean', () => {
+    expect(() => {
+      validateSchema({ schema: schemaWithBadPublishing })
+    }).toThrow()
+  })
+  it('fails when the default locale is not one of the locales', () => {
+    expect(() => {
+      validateSchema({ schema: schemaWithBadDefaultLocale })
+    }).toThrow()
+  })
+  it('fails when a validation pattern is not a regular expression', () => {
+    expect(() => {
+      validateSchema({ schema: schemaWithBadPattern })
+    }).toThrow()
+  })
+  it('fails when the `maxSize` of an image is not a number of bytes', () => {
+    expect(() => {
+      validateSchema({ schema: schemaWithBadMaxSize })
+    }).toThrow()
+  })
+  it('fails when a webhook has an unknown event', () => {
+    expect(() => {
+      validateSchema({ schema: schemaWithBadWebhookEvent })
+    }).toThrow()
+  })
   it('passes when a valid configuration for `isTitle` is given', () => {
     validateSchema({ schema: schemaWithIsTitleValid })
     expect(consoleErrMock).not.toHaveBeenCalled()
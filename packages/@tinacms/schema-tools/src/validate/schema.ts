@@ -58,6 +58,17 @@ export const CollectionBaseSchema = z.object({
       }
     }),
   format: z.enum(FORMATS).optional(),
+  publishing: z.boolean().optional(),
+  i18n: z
+    .object({
+      locales: z.array(z.string()).min(1),
+      defaultLocale: z.string(),
+      strategy: z.enum(['folder', 'suffix']),
+    })
+    .refine((val) => val.locales.includes(val.defaultLocale), {
+      message: 'i18n.defaultLocale must be one of i18n.locales',
+    })
+    .optional(),
 })
 
 // Zod did not handel this union very well so we will handle it ourselves
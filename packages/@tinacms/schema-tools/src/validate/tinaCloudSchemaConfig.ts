@@ -12,7 +12,35 @@ const tinaConfigKey = z
   })
   .strict()
   .optional()
+const webhookZod = z
+  .object({
+    url: z.string().url(),
+    events: z
+      .array(
+        z.enum([
+          'document.created',
+          'document.updated',
+          'document.deleted',
+          'media.uploaded',
+        ])
+      )
+      .optional(),
+    collections: z.array(z.string()).optional(),
+    secret: z.string().optional(),
+    headers: z.record(z.string()).optional(),
+    retries: z.number().int().min(0).optional(),
+  })
+  .strict()
+const rolesZod = z.record(
+  z.record(z.array(z.enum(['read', 'create', 'update', 'delete'])))
+)
 export const tinaConfigZod = z.object({
+  admin: z
+    .object({
+      auth: z.object({ roles: rolesZod.optional() }).passthrough().optional(),
+    })
+    .passthrough()
+    .optional(),
   client: z.object({ referenceDepth: z.number().optional() }).optional(),
   media: z
     .object({
@@ -20,6 +48,7 @@ export const tinaConfigZod = z.object({
       loadCustomStore: z.function().optional(),
     })
     .optional(),
+  webhooks: z.array(webhookZod).optional(),
 })
 
 export const validateTinaCloudSchemaConfig = (config: unknown): Config => {
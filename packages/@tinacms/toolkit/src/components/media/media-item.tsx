@@ -12,18 +12,85 @@ interface MediaItemProps {
   item: Media & { new?: boolean }
   onClick(_item: Media | false): void
   active: boolean
+  selected?: boolean
+  /**
+   * Adds or removes the file from the selection,
+   * files can't be selected when it's omitted
+   */
+  onSelect?(_item: Media): void
+  /**
+   * Called when a file is dragged, files can't be dragged when it's omitted
+   */
+  onDragStart?(_item: Media): void
+  /**
+   * Called when the dragged files are dropped on a folder
+   */
+  onDrop?(_folder: Media): void
 }
 
-export function ListMediaItem({ item, onClick, active }: MediaItemProps) {
+/**
+ * Lets files be dragged onto folders to move them
+ */
+const dragProps = ({
+  item,
+  onDragStart,
+  onDrop,
+}: MediaItemProps): React.LiHTMLAttributes<HTMLLIElement> => {
+  if (item.type === 'file') {
+    return onDragStart
+      ? {
+          draggable: true,
+          onDragStart: (e) => {
+            e.dataTransfer.effectAllowed = 'move'
+            e.dataTransfer.setData('text/plain', item.id)
+            onDragStart(item)
+          },
+        }
+      : {}
+  }
+  return onDrop
+    ? {
+        onDragOver: (e) => {
+          e.preventDefault()
+          e.dataTransfer.dropEffect = 'move'
+        },
+        onDrop: (e) => {
+          e.preventDefault()
+          e.stopPropagation()
+          onDrop(item)
+        },
+      }
+    : {}
+}
+
+const SelectCheckbox = ({ item, selected, onSelect }: MediaItemProps) => {
+  if (!onSelect || item.type !== 'file') {
+    return null
+  }
+  return (
+    <input
+      type="checkbox"
+      aria-label={`Select ${item.filename}`}
+      className="absolute top-1.5 right-1.5 z-20 w-4 h-4 cursor-pointer"
+      checked={!!selected}
+      onClick={(e) => e.stopPropagation()}
+      onChange={() => onSelect(item)}
+    />
+  )
+}
+
+export function ListMediaItem(props: MediaItemProps) {
+  const { item, onClick, active, selected } = props
   const FileIcon = item.type === 'dir' ? BiFolder : BiFile
   const thumbnail = (item.thumbnails || {})['75x75']
   return (
     <li
-      className={`relative flex shrink-0 gap-3 items-center py-2 pl-2 pr-3 transition duration-150 ease-out cursor-pointer border-b border-gray-150 ${
-        active
+      className={`relative flex shrink-0 gap-3 items-center py-2 pl-2 pr-8 transition duration-150 ease-out cursor-pointer border-b border-gray-150 ${
+        active || selected
           ? 'bg-gradient-to-r from-white to-gray-50/50 text-blue-500 hover:bg-gray-50'
           : 'bg-white hover:bg-gray-50/50'
       }`}
+      {...dragProps(props)}
       onClick={() => {
         if (!active) {
           onClick(item)
@@ -32,6 +99,7 @@ export function ListMediaItem({ item, onClick, active }: MediaItemProps) {
         }
       }}
     >
+      <SelectCheckbox {...props} />
       {item.new && (
         <span className="absolute top-1.5 left-1.5 rounded-full shadow bg-green-100 border border-green-200 text-[10px] tracking-wide	 font-bold text-green-600 px-1.5 py-0.5 z-10">
           NEW
@@ -55,17 +123,20 @@ export function ListMediaItem({ item, onClick, active }: MediaItemProps) {
   )
 }
 
-export function GridMediaItem({ item, active, onClick }: MediaItemProps) {
+export function GridMediaItem(props: MediaItemProps) {
+  const { item, active, onClick, selected } = props
   const FileIcon = item.type === 'dir' ? BiFolder : BiFile
   const thumbnail = (item.thumbnails || {})['400x400']
   return (
     <li
       className={`relative pb-[100%] h-0 block border border-gray-100 rounded-md overflow-hidden flex justify-center shrink-0 w-full transition duration-150 ease-out ${
-        active
+        active || selected
           ? 'shadow-outline'
           : 'shadow hover:shadow-md hover:scale-103 hover:border-gray-150'
       } ${item.type === 'dir' ? 'cursor-pointer' : ''}`}
+      {...dragProps(props)}
     >
+      <SelectCheckbox {...props} />
       {item.new && (
         <span className="absolute top-1.5 left-1.5 rounded-full shadow bg-green-100 border border-green-200 text-[10px] tracking-wide	 font-bold text-green-600 px-1.5 py-0.5 z-10">
           NEW
@@ -5,7 +5,7 @@
 */
 
 import React from 'react'
-import { useEffect, useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
 import { useCMS } from '../../react-tinacms/use-cms'
 import {
   BiArrowToBottom,
@@ -22,6 +22,10 @@ import {
   Media,
   MediaListOffset,
   MediaListError,
+  MediaMetadata,
+  MediaMoveOptions,
+  MediaListSort,
+  MediaUploadRules,
 } from '../../packages/core'
 import { Button, IconButton } from '../../packages/styles'
 import { FileError, useDropzone } from 'react-dropzone'
@@ -33,12 +37,25 @@ import { IoMdSync, IoMdRefresh, IoMdFolder } from 'react-icons/io'
 import { CloseIcon, TrashIcon } from '../../packages/icons'
 import {
   absoluteImgURL,
+  checkUploadRules,
   DEFAULT_MEDIA_UPLOAD_TYPES,
   dropzoneAcceptFromString,
   isImage,
 } from './utils'
-import { DeleteModal, NewFolderModal, SyncModal } from './modal'
+import {
+  DeleteModal,
+  NewFolderModal,
+  RenameModal,
+  SyncModal,
+  UpdateReferencesModal,
+} from './modal'
+import {
+  fetchMediaUsage,
+  updateMediaReferences,
+  useMediaUsage,
+} from './media-usage'
 import { CopyField } from './copy-field'
+import { Input, TextArea } from '../../packages/fields/components'
 
 // taken from https://davidwalsh.name/javascript-polling
 async function poll(
@@ -104,8 +121,18 @@ export interface MediaRequest {
   onSelect?(_media: Media): void
   close?(): void
   allowDelete?: boolean
+  uploadRules?: MediaUploadRules
 }
 
+/**
+ * The path of a folder in the media list
+ */
+const folderPath = (folder: Media) =>
+  // Only join when there is a directory to join to
+  folder.directory === '.' || folder.directory === ''
+    ? folder.filename
+    : join(folder.directory, folder.filename)
+
 export function MediaManager() {
   const cms = useCMS()
 
@@ -155,6 +182,7 @@ export function MediaPicker({
   allowDelete,
   onSelect,
   close,
+  uploadRules,
   ...props
 }: MediaRequest) {
   const cms = useCMS()
@@ -165,6 +193,7 @@ export function MediaPicker({
 
   const [deleteModalOpen, setDeleteModalOpen] = React.useState(false)
   const [newFolderModalOpen, setNewFolderModalOpen] = React.useState(false)
+  const [renameModalOpen, setRenameModalOpen] = React.useState(false)
   const [listError, setListError] = useState<MediaListError>(defaultListError)
   const [directory, setDirectory] = useState<string | undefined>(
     props.directory
@@ -178,8 +207,24 @@ export function MediaPicker({
   const [showSync, setShowSync] = useState(false)
 
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid')
+  const [searchInput, setSearchInput] = useState('')
+  const [search, setSearch] = useState('')
+  const [filter, setFilter] = useState<MediaFilter>(MEDIA_FILTERS[0])
+  const [sort, setSort] = useState<MediaListSort | undefined>()
   const [activeItem, setActiveItem] = useState<Media | false>(false)
   const closePreview = () => setActiveItem(false)
+  const [selectedItems, setSelectedItems] = useState<Media[]>([])
+  const isSelected = (item: Media) =>
+    selectedItems.some((selected) => selected.id === item.id)
+  const [deleteSelected, setDeleteSelected] = useState(false)
+  // the files being dragged onto a folder
+  const draggedItems = useRef<Media[]>([])
+  const activeUsage = useMediaUsage(activeItem ? [activeItem] : [])
+  const selectedUsage = useMediaUsage(deleteSelected ? selectedItems : [])
+  // the moved files which are still used by documents at their old location
+  const [referenceUpdates, setReferenceUpdates] = useState<ReferenceUpdate[]>(
+    []
+  )
 
   /**
    * current offset is last element in offsetHistory[]
@@ -224,6 +269,11 @@ export function MediaPicker({
         offset,
         limit: cms.media.pageSize,
         directory,
+        // searching looks through the sub-directories too
+        search: search || undefined,
+        recursive: !!search,
+        mimeTypes: filter.mimeTypes,
+        sort,
         thumbnailSizes: [
           { w: 75, h: 75 },
           { w: 400, h: 400 },
@@ -232,6 +282,7 @@ export function MediaPicker({
       })
       .then((list) => {
         setList(list)
+        setSelectedItems([])
         setListState('loaded')
       })
       .catch((e) => {
@@ -250,21 +301,26 @@ export function MediaPicker({
     loadMedia()
 
     return cms.events.subscribe(
-      ['media:delete:success', 'media:pageSize'],
+      ['media:delete:success', 'media:deleteMany:success', 'media:pageSize'],
       loadMedia
     )
-  }, [offset, directory, cms.media.isConfigured])
+  }, [offset, directory, search, filter, sort, cms.media.isConfigured])
+
+  // wait for the editor to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (searchInput === search) return
+      setSearch(searchInput)
+      resetOffset()
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [searchInput])
 
   const onClickMediaItem = (item: Media) => {
     if (!item) {
       setActiveItem(false)
     } else if (item.type === 'dir') {
-      // Only join when there is a directory to join to
-      setDirectory(
-        item.directory === '.' || item.directory === ''
-          ? item.filename
-          : join(item.directory, item.filename)
-      )
+      setDirectory(folderPath(item))
       resetOffset()
     } else {
       setActiveItem(item)
@@ -278,6 +334,86 @@ export function MediaPicker({
     }
   }
 
+  let toggleSelectedItem: (_item: Media) => void
+  // files are selected to delete or move several at once
+  if (allowDelete || cms.media.supportsMove) {
+    toggleSelectedItem = (item: Media) => {
+      setSelectedItems((selectedItems) =>
+        selectedItems.some((selected) => selected.id === item.id)
+          ? selectedItems.filter((selected) => selected.id !== item.id)
+          : [...selectedItems, item]
+      )
+    }
+  }
+
+  /**
+   * Move the media, then offer to update the documents which use it
+   */
+  const moveMediaItems = async (
+    moves: [Media, MediaMoveOptions][]
+  ): Promise<Media[]> => {
+    const moved: Media[] = []
+    try {
+      for (const [item, options] of moves) {
+        moved.push(await cms.media.move(item, options))
+      }
+    } catch {
+      // the failure is reported by the media:move:failure alert
+    }
+    const updates = await Promise.all(
+      moved.map(async (to, index) => {
+        const from = moves[index][0]
+        return {
+          from: from.src,
+          to: to.src,
+          usage: (await fetchMediaUsage(cms, from.src)) || [],
+        }
+      })
+    )
+    setReferenceUpdates(
+      updates.filter(({ from, to, usage }) => from && to && usage.length)
+    )
+    return moved
+  }
+
+  const updateReferences = async () => {
+    try {
+      const updated = new Set<string>()
+      for (const { from, to } of referenceUpdates) {
+        const paths = await updateMediaReferences(cms, from, to)
+        paths.forEach((path) => updated.add(path))
+      }
+      cms.alerts.success(
+        `Updated ${updated.size} ${
+          updated.size === 1 ? 'document' : 'documents'
+        }`
+      )
+    } catch (e) {
+      console.error(e)
+      cms.alerts.error('Failed to update the documents which use the media')
+    }
+  }
+
+  let onDragMediaItem: (_item: Media) => void
+  let onDropOnFolder: (_folder: Media) => void
+  let renameMediaItem: () => void
+  if (cms.media.supportsMove) {
+    // dragging a selected file moves the whole selection
+    onDragMediaItem = (item: Media) => {
+      draggedItems.current = isSelected(item) ? selectedItems : [item]
+    }
+    onDropOnFolder = async (folder: Media) => {
+      const items = draggedItems.current
+      draggedItems.current = []
+      await moveMediaItems(
+        items.map((item) => [item, { directory: folderPath(folder) }])
+      )
+      setActiveItem(false)
+      loadMedia()
+    }
+    renameMediaItem = () => setRenameModalOpen(true)
+  }
+
   let selectMediaItem: (_item: Media) => void
 
   if (onSelect) {
@@ -290,20 +426,32 @@ export function MediaPicker({
   const [uploading, setUploading] = useState(false)
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     accept: dropzoneAcceptFromString(
-      cms.media.accept || DEFAULT_MEDIA_UPLOAD_TYPES
+      uploadRules?.accept || cms.media.accept || DEFAULT_MEDIA_UPLOAD_TYPES
     ),
     multiple: true,
     onDrop: async (files, fileRejections) => {
       try {
         setUploading(true)
-        const mediaItems = await cms.media.persist(
-          files.map((file) => {
-            return {
-              directory: directory || '/',
-              file,
-            }
-          })
+        const checkedFiles = await Promise.all(
+          files.map(async (file) => ({
+            file,
+            errors: await checkUploadRules(file, uploadRules),
+          }))
         )
+        const ruleErrors = checkedFiles.flatMap(({ errors }) => errors)
+        const acceptedFiles = checkedFiles
+          .filter(({ errors }) => !errors.length)
+          .map(({ file }) => file)
+        const mediaItems = acceptedFiles.length
+          ? await cms.media.persist(
+              acceptedFiles.map((file) => {
+                return {
+                  directory: directory || '/',
+                  file,
+                }
+              })
+            )
+          : []
 
         // Codes here https://github.com/react-dropzone/react-dropzone/blob/c36ab5bd8b8fd74e2074290d80e3ecb93d26b014/typings/react-dropzone.d.ts#LL13-L18C2
         const errorCodes = {
@@ -323,8 +471,8 @@ export function MediaPicker({
         }
 
         // Upload Failed
-        if (fileRejections.length > 0) {
-          const messages = []
+        if (fileRejections.length > 0 || ruleErrors.length > 0) {
+          const messages = [...ruleErrors]
           fileRejections.map((fileRejection) => {
             messages.push(
               `${fileRejection.file.name}: ${fileRejection.errors
@@ -446,6 +594,7 @@ export function MediaPicker({
       {deleteModalOpen && (
         <DeleteModal
           filename={activeItem ? activeItem.filename : ''}
+          usage={activeUsage}
           deleteFunc={() => {
             if (activeItem) {
               deleteMediaItem(activeItem)
@@ -455,16 +604,59 @@ export function MediaPicker({
           close={() => setDeleteModalOpen(false)}
         />
       )}
+      {deleteSelected && (
+        <DeleteModal
+          filename={`${selectedItems.length} ${
+            selectedItems.length === 1 ? 'file' : 'files'
+          }`}
+          usage={selectedUsage}
+          deleteFunc={() => {
+            cms.media.deleteMany(selectedItems).catch(() => {
+              // the failure is reported by the media:deleteMany:failure alert
+            })
+            setActiveItem(false)
+          }}
+          close={() => setDeleteSelected(false)}
+        />
+      )}
+      {renameModalOpen && activeItem && (
+        <RenameModal
+          filename={activeItem.filename}
+          onSubmit={async (filename) => {
+            const [moved] = await moveMediaItems([
+              [activeItem, { directory: activeItem.directory, filename }],
+            ])
+            if (moved) {
+              setActiveItem(moved)
+              loadMedia()
+            }
+          }}
+          close={() => setRenameModalOpen(false)}
+        />
+      )}
+      {referenceUpdates.length > 0 && (
+        <UpdateReferencesModal
+          usage={Array.from(
+            new Set(referenceUpdates.flatMap(({ usage }) => usage))
+          )}
+          updateFunc={updateReferences}
+          close={() => setReferenceUpdates([])}
+        />
+      )}
       {newFolderModalOpen && (
         <NewFolderModal
-          onSubmit={(name) => {
-            setDirectory((oldDir) => {
-              if (oldDir) {
-                return join(oldDir, name)
-              } else {
-                return name
+          persistent={cms.media.supportsFolders}
+          onSubmit={async (name) => {
+            const newDirectory = directory ? join(directory, name) : name
+            if (cms.media.supportsFolders) {
+              try {
+                await cms.media.createFolder(newDirectory)
+              } catch {
+                // the failure is reported by the media:folder:failure alert
+                return
               }
-            })
+            }
+            setDirectory(newDirectory)
             resetOffset()
           }}
           close={() => setNewFolderModalOpen(false)}
@@ -479,6 +671,17 @@ export function MediaPicker({
           </div>
 
           <div className="flex items-center gap-4">
+            {allowDelete && selectedItems.length > 0 && (
+              <Button
+                busy={false}
+                variant="white"
+                onClick={() => setDeleteSelected(true)}
+                className="whitespace-nowrap"
+              >
+                Delete {selectedItems.length} Selected
+                <TrashIcon className="w-6 h-full ml-2 opacity-70 text-red-500" />
+              </Button>
+            )}
             <Button
               busy={false}
               variant="white"
@@ -515,6 +718,51 @@ export function MediaPicker({
           </div>
         </div>
 
+        <div className="flex flex-wrap items-center bg-gray-50 border-b border-gray-150 gap-4 py-2 px-5 flex-shrink-0">
+          <div className="flex-1 min-w-[200px] max-w-sm">
+            <Input
+              type="search"
+              value={searchInput}
+              placeholder="Search media..."
+              onChange={(e) => setSearchInput(e.target.value)}
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            {MEDIA_FILTERS.map((mediaFilter) => (
+              <button
+                key={mediaFilter.label}
+                className={`rounded-full border px-3 py-0.5 text-sm font-medium transition-colors duration-150 ease-out ${
+                  filter === mediaFilter
+                    ? 'bg-blue-500 border-blue-500 text-white'
+                    : 'bg-white border-gray-200 text-gray-600 hover:border-blue-500'
+                }`}
+                onClick={() => {
+                  setFilter(mediaFilter)
+                  resetOffset()
+                }}
+              >
+                {mediaFilter.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-600 ml-auto">
+            Sort by
+            <select
+              className="rounded-md border border-gray-200 bg-white py-1 pl-2 pr-6 text-sm text-gray-700 shadow-inner focus:outline-none focus:border-blue-500"
+              value={sort || ''}
+              onChange={(e) => {
+                setSort((e.target.value as MediaListSort) || undefined)
+                resetOffset()
+              }}
+            >
+              <option value="">Default</option>
+              <option value="name">Name</option>
+              <option value="date">Newest</option>
+              <option value="size">Largest</option>
+            </select>
+          </label>
+        </div>
+
         <div className="flex h-full overflow-hidden bg-white">
           <div className="flex w-full flex-col h-full @container">
             <ul
@@ -542,6 +790,10 @@ export function MediaPicker({
                     item={item}
                     onClick={onClickMediaItem}
                     active={activeItem && activeItem.id === item.id}
+                    selected={isSelected(item)}
+                    onSelect={toggleSelectedItem}
+                    onDragStart={onDragMediaItem}
+                    onDrop={onDropOnFolder}
                   />
                 ))}
 
@@ -552,6 +804,10 @@ export function MediaPicker({
                     item={item}
                     onClick={onClickMediaItem}
                     active={activeItem && activeItem.id === item.id}
+                    selected={isSelected(item)}
+                    onSelect={toggleSelectedItem}
+                    onDragStart={onDragMediaItem}
+                    onDrop={onDropOnFolder}
                   />
                 ))}
             </ul>
@@ -574,6 +830,8 @@ export function MediaPicker({
             deleteMediaItem={() => {
               setDeleteModalOpen(true)
             }}
+            renameMediaItem={renameMediaItem}
+            usage={activeUsage}
           />
         </div>
       </MediaPickerWrap>
@@ -591,14 +849,105 @@ export function MediaPicker({
   )
 }
 
+type MediaFilter = {
+  label: string
+  mimeTypes?: string[]
+}
+
+const MEDIA_FILTERS: MediaFilter[] = [
+  { label: 'All' },
+  { label: 'Images', mimeTypes: ['image/*'] },
+  { label: 'Videos', mimeTypes: ['video/*'] },
+  {
+    label: 'Documents',
+    mimeTypes: [
+      'text/*',
+      'application/pdf',
+      'application/json',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ],
+  },
+]
+
+type ReferenceUpdate = {
+  from: string
+  to: string
+  usage: string[]
+}
+
+type MetadataState = 'unsupported' | 'loading' | 'loaded' | 'saving'
+
+/**
+ * Loads the metadata of the active item, when the Media Store supports it
+ */
+const useMediaMetadata = (activeItem: Media | false) => {
+  const cms = useCMS()
+  const [metadata, setMetadata] = useState<MediaMetadata>({})
+  const [metadataState, setMetadataState] =
+    useState<MetadataState>('unsupported')
+
+  useEffect(() => {
+    setMetadata({})
+    if (!activeItem || !cms.media.supportsMetadata) {
+      setMetadataState('unsupported')
+      return
+    }
+    let cancelled = false
+    setMetadataState('loading')
+    cms.media
+      .getMetadata(activeItem)
+      .then((metadata) => {
+        if (cancelled) return
+        setMetadata(metadata || {})
+        setMetadataState('loaded')
+      })
+      .catch((e) => {
+        console.error(e)
+        if (!cancelled) setMetadataState('unsupported')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [activeItem && activeItem.id])
+
+  const saveMetadata = async (metadata: MediaMetadata) => {
+    if (!activeItem) return
+    setMetadataState('saving')
+    try {
+      setMetadata(await cms.media.updateMetadata(activeItem, metadata))
+      cms.alerts.success(`Saved the details of ${activeItem.filename}`)
+    } catch (e) {
+      console.error(e)
+      cms.alerts.error(`Failed to save the details of ${activeItem.filename}`)
+    }
+    setMetadataState('loaded')
+  }
+
+  return { metadata, setMetadata, metadataState, saveMetadata }
+}
+
 const ActiveItemPreview = ({
   activeItem,
   close,
   selectMediaItem,
   deleteMediaItem,
   allowDelete,
+  renameMediaItem,
+  usage,
 }) => {
   const thumbnail = activeItem ? (activeItem.thumbnails || {})['1000x1000'] : ''
+  const { metadata, setMetadata, metadataState, saveMetadata } =
+    useMediaMetadata(activeItem)
+  const editMetadata = metadataState !== 'unsupported' && isImage(thumbnail)
+  const updateMetadata = (update: MediaMetadata) =>
+    setMetadata((metadata) => ({ ...metadata, ...update }))
+  // the dimensions are read from the preview, not entered by the editor
+  const [dimensions, setDimensions] = useState<MediaMetadata>({})
+  const details = { ...metadata, ...dimensions }
+
   return (
     <div
       className={`shrink-0 h-full flex flex-col items-start gap-3 overflow-y-auto bg-white border-l border-gray-100 bg-white shadow-md transition ease-out duration-150 ${
@@ -625,11 +974,44 @@ const ActiveItemPreview = ({
           </div>
           {isImage(thumbnail) ? (
             <div className="w-full max-h-[75%]">
-              <img
-                className="block border border-gray-100 rounded-md overflow-hidden max-w-full max-h-full object-fit h-auto shadow"
-                src={thumbnail}
-                alt={activeItem.filename}
-              />
+              <div
+                className={`relative inline-block max-w-full max-h-full ${
+                  editMetadata ? 'cursor-crosshair' : ''
+                }`}
+                onClick={(e) => {
+                  if (!editMetadata) return
+                  // the focal point is relative to the size of the image
+                  const rect = e.currentTarget.getBoundingClientRect()
+                  updateMetadata({
+                    focalPoint: {
+                      x: roundFocalPoint((e.clientX - rect.left) / rect.width),
+                      y: roundFocalPoint((e.clientY - rect.top) / rect.height),
+                    },
+                  })
+                }}
+              >
+                <img
+                  className="block border border-gray-100 rounded-md overflow-hidden max-w-full max-h-full object-fit h-auto shadow"
+                  src={thumbnail}
+                  alt={metadata.alt || activeItem.filename}
+                  onLoad={(e) => {
+                    const { naturalWidth, naturalHeight } = e.currentTarget
+                    setDimensions({
+                      width: naturalWidth,
+                      height: naturalHeight,
+                    })
+                  }}
+                />
+                {editMetadata && metadata.focalPoint && (
+                  <span
+                    className="absolute w-4 h-4 -ml-2 -mt-2 rounded-full border-2 border-white bg-blue-500 shadow pointer-events-none"
+                    style={{
+                      left: `${metadata.focalPoint.x * 100}%`,
+                      top: `${metadata.focalPoint.y * 100}%`,
+                    }}
+                  />
+                )}
+              </div>
             </div>
           ) : (
             <span className="p-3 border border-gray-100 rounded-md overflow-hidden bg-gray-50 shadow">
@@ -638,6 +1020,23 @@ const ActiveItemPreview = ({
           )}
           <div className="grow h-full w-full shrink flex flex-col gap-3 items-start justify-start">
             <CopyField value={absoluteImgURL(activeItem.src)} label="URL" />
+            {usage && (
+              <p className="text-sm text-gray-500" title={usage.join('\n')}>
+                {usage.length
+                  ? `Used in ${usage.length} ${
+                      usage.length === 1 ? 'document' : 'documents'
+                    }`
+                  : 'Not used in any documents'}
+              </p>
+            )}
+            {editMetadata && (
+              <MediaDetails
+                metadata={details}
+                updateMetadata={updateMetadata}
+                busy={metadataState !== 'loaded'}
+                save={() => saveMetadata(details)}
+              />
+            )}
           </div>
           <div className="shrink-0 w-full flex flex-col justify-end items-start">
             <div className="flex w-full gap-3">
@@ -646,12 +1045,28 @@ const ActiveItemPreview = ({
                   size="medium"
                   variant="primary"
                   className="grow"
-                  onClick={() => selectMediaItem(activeItem)}
+                  onClick={() =>
+                    selectMediaItem(
+                      editMetadata
+                        ? { ...activeItem, metadata: details }
+                        : activeItem
+                    )
+                  }
                 >
                   Insert
                   <BiArrowToBottom className="ml-1 -mr-0.5 w-6 h-auto text-white opacity-70" />
                 </Button>
               )}
+              {renameMediaItem && (
+                <Button
+                  variant="white"
+                  size="medium"
+                  className="grow max-w-[40%]"
+                  onClick={renameMediaItem}
+                >
+                  Rename
+                </Button>
+              )}
               {allowDelete && (
                 <Button
                   variant="white"
@@ -671,6 +1086,57 @@ const ActiveItemPreview = ({
   )
 }
 
+const roundFocalPoint = (value: number) =>
+  Math.round(Math.min(Math.max(value, 0), 1) * 100) / 100
+
+const MediaDetails = ({
+  metadata,
+  updateMetadata,
+  busy,
+  save,
+}: {
+  metadata: MediaMetadata
+  updateMetadata: (update: MediaMetadata) => void
+  busy: boolean
+  save: () => void
+}) => {
+  return (
+    <div className="w-full flex flex-col gap-3">
+      <div className="w-full">
+        <label className="w-full mb-1 block flex-1 text-sm font-bold leading-5 text-gray-700">
+          Alt Text
+        </label>
+        <Input
+          value={metadata.alt || ''}
+          onChange={(e) => updateMetadata({ alt: e.target.value })}
+        />
+      </div>
+      <div className="w-full">
+        <label className="w-full mb-1 block flex-1 text-sm font-bold leading-5 text-gray-700">
+          Caption
+        </label>
+        <TextArea
+          value={metadata.caption || ''}
+          onChange={(e) => updateMetadata({ caption: e.target.value })}
+        />
+      </div>
+      <p className="text-sm text-gray-500">
+        {metadata.focalPoint
+          ? `Focal point at ${Math.round(
+              metadata.focalPoint.x * 100
+            )}%, ${Math.round(metadata.focalPoint.y * 100)}%.`
+          : 'Click the image to set its focal point.'}
+        {metadata.width && metadata.height
+          ? ` ${metadata.width} × ${metadata.height} pixels.`
+          : ''}
+      </p>
+      <Button variant="white" size="medium" busy={busy} onClick={save}>
+        Save Details
+      </Button>
+    </div>
+  )
+}
+
 const UploadButton = ({ onClick, uploading }: any) => {
   return (
     <Button
@@ -0,0 +1,85 @@
+/**
+
+
+
+*/
+
+import { useEffect, useState } from 'react'
+import { useCMS } from '../../react-tinacms/use-cms'
+import type { Media } from '../../packages/core'
+import type { TinaCMS } from '../../tina-cms'
+
+/**
+ * The paths of the documents which use the media at `src`.
+ *
+ * Returns `undefined` when the media usage can't be looked up, eg. when
+ * the Content API doesn't index media usage
+ */
+export const fetchMediaUsage = async (
+  cms: TinaCMS,
+  src?: string
+): Promise<string[] | undefined> => {
+  if (!src || !cms.api.tina?.request) return undefined
+  try {
+    const response = await cms.api.tina.request(
+      `#graphql
+      query($src: String!) {
+        mediaUsage(src: $src) {
+          paths
+        }
+      }`,
+      { variables: { src } }
+    )
+    return response.mediaUsage.paths
+  } catch (e) {
+    console.error(e)
+    return undefined
+  }
+}
+
+/**
+ * Point the documents which use the media at `from` to `to`,
+ * resolves with the paths of the documents which were updated
+ */
+export const updateMediaReferences = async (
+  cms: TinaCMS,
+  from: string,
+  to: string
+): Promise<string[]> => {
+  const response = await cms.api.tina.request(
+    `#graphql
+    mutation($from: String!, $to: String!) {
+      updateMediaReferences(from: $from, to: $to) {
+        paths
+      }
+    }`,
+    { variables: { from, to } }
+  )
+  return response.updateMediaReferences.paths
+}
+
+/**
+ * Loads the documents which use any of the `items`
+ */
+export const useMediaUsage = (items: Media[]) => {
+  const cms = useCMS()
+  const [paths, setPaths] = useState<string[] | undefined>()
+  const sources = items.map((item) => item.src).filter(Boolean)
+
+  useEffect(() => {
+    setPaths(undefined)
+    if (!sources.length) return
+    let cancelled = false
+    Promise.all(sources.map((src) => fetchMediaUsage(cms, src))).then(
+      (results) => {
+        if (cancelled || results.some((result) => !result)) return
+        setPaths(Array.from(new Set(results.flat())))
+      }
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [sources.join('\n')])
+
+  return paths
+}
@@ -13,16 +13,38 @@ interface DeleteModalProps {
   close(): void
   deleteFunc(): void
   filename: string
+  /**
+   * The paths of the documents which use the media being deleted
+   */
+  usage?: string[]
 }
 interface NewFolderModalProps {
   onSubmit(filename: string): void
   close(): void
+  /**
+   * Whether the Media Store keeps empty folders
+   */
+  persistent?: boolean
+}
+interface UpdateReferencesModalProps {
+  updateFunc(): Promise<void>
+  close(): void
+  /**
+   * The paths of the documents which use the media that was moved
+   */
+  usage: string[]
+}
+interface RenameModalProps {
+  onSubmit(filename: string): void
+  close(): void
+  filename: string
 }
 
 export const DeleteModal = ({
   close,
   deleteFunc,
   filename,
+  usage,
 }: DeleteModalProps) => {
   return (
     <Modal>
@@ -32,6 +54,15 @@ export const DeleteModal = ({
           <p>
             Are you sure you want to delete <strong>{filename}</strong>?
           </p>
+          {usage && usage.length > 0 && (
+            <>
+              <p className="text-sm text-red-600 mt-4 mb-2">
+                <span className="font-bold">Warning</span> &ndash; Used in{' '}
+                {documentCount(usage)}, which will be left with a broken link:
+              </p>
+              <UsageList usage={usage} />
+            </>
+          )}
         </ModalBody>
         <ModalActions>
           <Button style={{ flexGrow: 2 }} onClick={close}>
@@ -53,7 +84,11 @@ export const DeleteModal = ({
   )
 }
 
-export const NewFolderModal = ({ onSubmit, close }: NewFolderModalProps) => {
+export const NewFolderModal = ({
+  onSubmit,
+  close,
+  persistent,
+}: NewFolderModalProps) => {
   const [folderName, setFolderName] = React.useState('')
   return (
     <Modal>
@@ -63,10 +98,12 @@ export const NewFolderModal = ({ onSubmit, close }: NewFolderModalProps) => {
           <p className="text-base text-gray-700 mb-2">
             Please provide a name for your folder.
           </p>
-          <p className="text-sm text-gray-500 mb-4 italic">
-            <span className="font-bold">Note</span> &ndash; If you navigate away
-            before uploading a media item, the folder will disappear.
-          </p>
+          {!persistent && (
+            <p className="text-sm text-gray-500 mb-4 italic">
+              <span className="font-bold">Note</span> &ndash; If you navigate
+              away before uploading a media item, the folder will disappear.
+            </p>
+          )}
           <Input
             value={folderName}
             placeholder="Folder Name"
@@ -96,6 +133,101 @@ export const NewFolderModal = ({ onSubmit, close }: NewFolderModalProps) => {
   )
 }
 
+export const RenameModal = ({
+  onSubmit,
+  close,
+  filename,
+}: RenameModalProps) => {
+  const [newFilename, setNewFilename] = React.useState(filename)
+  const isValid = !!newFilename && !newFilename.includes('/')
+  return (
+    <Modal>
+      <PopupModal>
+        <ModalHeader close={close}>Rename {filename}</ModalHeader>
+        <ModalBody padded={true}>
+          <p className="text-base text-gray-700 mb-2">
+            Please provide a new name for the file.
+          </p>
+          <Input
+            value={newFilename}
+            placeholder="File Name"
+            required
+            onChange={(e) => setNewFilename(e.target.value)}
+          />
+        </ModalBody>
+        <ModalActions>
+          <Button style={{ flexGrow: 2 }} onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            disabled={!isValid}
+            style={{ flexGrow: 3 }}
+            variant="primary"
+            onClick={() => {
+              if (!isValid) return
+              onSubmit(newFilename)
+              close()
+            }}
+          >
+            Rename
+          </Button>
+        </ModalActions>
+      </PopupModal>
+    </Modal>
+  )
+}
+
+export const UpdateReferencesModal = ({
+  updateFunc,
+  close,
+  usage,
+}: UpdateReferencesModalProps) => {
+  const [updating, setUpdating] = React.useState(false)
+  return (
+    <Modal>
+      <PopupModal>
+        <ModalHeader close={close}>Update Documents</ModalHeader>
+        <ModalBody padded={true}>
+          <p className="text-base text-gray-700 mb-2">
+            The media you moved is used in {documentCount(usage)}. Would you
+            like to point them to its new location?
+          </p>
+          <UsageList usage={usage} />
+        </ModalBody>
+        <ModalActions>
+          <Button style={{ flexGrow: 2 }} onClick={close}>
+            Leave As Is
+          </Button>
+          <Button
+            busy={updating}
+            disabled={updating}
+            style={{ flexGrow: 3 }}
+            variant="primary"
+            onClick={async () => {
+              setUpdating(true)
+              await updateFunc()
+              close()
+            }}
+          >
+            Update Documents
+          </Button>
+        </ModalActions>
+      </PopupModal>
+    </Modal>
+  )
+}
+
+const documentCount = (usage: string[]) =>
+  `${usage.length} ${usage.length === 1 ? 'document' : 'documents'}`
+
+const UsageList = ({ usage }: { usage: string[] }) => (
+  <ul className="text-sm text-gray-500 max-h-40 overflow-y-auto list-disc pl-5">
+    {usage.map((path) => (
+      <li key={path}>{path}</li>
+    ))}
+  </ul>
+)
+
 export const SyncModal = ({ close, syncFunc, folder, branch }) => {
   return (
     <Modal>
@@ -0,0 +1,47 @@
+/**
+
+
+
+*/
+
+import { checkUploadRules, formatBytes, matchesAccept } from './utils'
+
+const file = (name: string, type: string, size: number) =>
+  new File([new Uint8Array(size)], name, { type })
+
+describe('matchesAccept', () => {
+  it('matches exact types and wildcards', () => {
+    expect(matchesAccept('image/png', 'image/jpeg, image/png')).toBe(true)
+    expect(matchesAccept('image/webp', 'image/*')).toBe(true)
+    expect(matchesAccept('application/pdf', 'image/*')).toBe(false)
+  })
+})
+
+describe('formatBytes', () => {
+  it('uses the largest unit below the size', () => {
+    expect(formatBytes(512)).toBe('512 B')
+    expect(formatBytes(2.5 * 1024 * 1024)).toBe('2.5 MB')
+  })
+})
+
+describe('checkUploadRules', () => {
+  it('accepts files which meet the rules', async () => {
+    await expect(
+      checkUploadRules(file('a.pdf', 'application/pdf', 10), {
+        accept: 'application/pdf',
+        maxSize: 1024,
+      })
+    ).resolves.toEqual([])
+  })
+  it('explains which rules a file breaks', async () => {
+    await expect(
+      checkUploadRules(file('a.pdf', 'application/pdf', 2048), {
+        accept: 'image/*',
+        maxSize: 1024,
+      })
+    ).resolves.toEqual([
+      'a.pdf is not one of the accepted types (image/*)',
+      'a.pdf is 2 KB, the limit is 1 KB',
+    ])
+  })
+})
@@ -1,3 +1,5 @@
+import type { MediaUploadRules } from '../../packages/core'
+
 const supportedFileTypes = [
   'text/*',
   'application/pdf',
@@ -25,6 +27,93 @@ export const isImage = (filename: string): boolean => {
   return /\.(gif|jpg|jpeg|tiff|png|svg|webp|avif)(\?.*)?$/i.test(filename)
 }
 
+/**
+ * Whether a MIME type is one of the types of an `accept` string,
+ * which may contain wildcards like `image/*`
+ */
+export const matchesAccept = (type: string, accept: string) =>
+  accept
+    .split(',')
+    .map((pattern) => pattern.trim())
+    .filter(Boolean)
+    .some((pattern) =>
+      pattern.endsWith('/*')
+        ? type.startsWith(pattern.slice(0, -1))
+        : type === pattern
+    )
+
+export const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let size = bytes
+  let unit = 0
+  while (size >= 1024 && unit < units.length - 1) {
+    size = size / 1024
+    unit++
+  }
+  return `${Math.round(size * 10) / 10} ${units[unit]}`
+}
+
+const readImageDimensions = (file: File) =>
+  new Promise<{ width: number; height: number } | undefined>((resolve) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve({ width: image.naturalWidth, height: image.naturalHeight })
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      resolve(undefined)
+    }
+    image.src = url
+  })
+
+/**
+ * The reasons why `file` can't be uploaded, empty when it meets the `rules`
+ */
+export const checkUploadRules = async (
+  file: File,
+  rules: MediaUploadRules = {}
+): Promise<string[]> => {
+  const errors: string[] = []
+  if (rules.accept && !matchesAccept(file.type, rules.accept)) {
+    errors.push(
+      `${file.name} is not one of the accepted types (${rules.accept})`
+    )
+  }
+  if (rules.maxSize && file.size > rules.maxSize) {
+    errors.push(
+      `${file.name} is ${formatBytes(file.size)}, the limit is ${formatBytes(
+        rules.maxSize
+      )}`
+    )
+  }
+  const { minWidth, maxWidth, minHeight, maxHeight } = rules
+  if (
+    (minWidth || maxWidth || minHeight || maxHeight) &&
+    file.type.startsWith('image/')
+  ) {
+    const dimensions = await readImageDimensions(file)
+    if (dimensions) {
+      const { width, height } = dimensions
+      const size = `${file.name} is ${width}×${height} pixels`
+      if (minWidth && width < minWidth) {
+        errors.push(`${size}, it must be at least ${minWidth} pixels wide`)
+      }
+      if (maxWidth && width > maxWidth) {
+        errors.push(`${size}, it must be at most ${maxWidth} pixels wide`)
+      }
+      if (minHeight && height < minHeight) {
+        errors.push(`${size}, it must be at least ${minHeight} pixels high`)
+      }
+      if (maxHeight && height > maxHeight) {
+        errors.push(`${size}, it must be at most ${maxHeight} pixels high`)
+      }
+    }
+  }
+  return errors
+}
+
 export const absoluteImgURL = (str: string) => {
   if (str.startsWith('http')) return str
   return `${window.location.origin}${str}`
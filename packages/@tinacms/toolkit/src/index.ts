@@ -11,9 +11,12 @@ export * from './packages/react-modals'
 export type {
   Media,
   MediaUploadOptions,
+  MediaUploadRules,
   MediaStore,
   MediaListOptions,
   MediaList,
+  MediaMoveOptions,
+  MediaListSort,
 } from './packages/core'
 export { MdxFieldPluginExtendible } from './packages/fields/plugins/MdxFieldPlugin'
 export {
@@ -35,6 +38,12 @@ export type { TinaState } from './tina-state'
 export * from './packages/forms'
 export * from './packages/icons'
 export * from './packages/react-dismissible'
+export {
+  BrowserStorageClient,
+  getFormSchemaVersion,
+  useUnsavedChanges,
+} from './packages/browser-storage'
+export type { UnsavedChanges } from './packages/browser-storage'
 export {
   Nav,
   LocalWarning,
@@ -4,3 +4,4 @@
 
 export * from './browser-storage-client'
 export * from './use-form-browser-cache'
+export * from './use-unsaved-changes'
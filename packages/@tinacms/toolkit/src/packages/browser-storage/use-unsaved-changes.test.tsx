@@ -0,0 +1,98 @@
+/**
+
+*/
+
+import { render, act } from '@testing-library/react'
+import React from 'react'
+import { TinaCMSProvider } from '../../components/TinaCMSProvider'
+import { TinaCMS } from '../../tina-cms'
+import { Form } from '../forms'
+import { BrowserStorageClient } from './browser-storage-client'
+import {
+  getFormSchemaVersion,
+  UnsavedChanges,
+  useUnsavedChanges,
+} from './use-unsaved-changes'
+
+const fields = [{ name: 'title', component: 'text' }]
+
+const setup = () => {
+  const cms = new TinaCMS()
+  const storage = new BrowserStorageClient(window.sessionStorage, 'test')
+  cms.registerApi('storage', storage)
+  const form = new Form({
+    id: 'content/posts/hello.md',
+    label: 'Hello',
+    fields,
+    initialValues: { title: 'Hello' },
+    onSubmit: () => {},
+  })
+  // final-form only tracks the dirtiness of the fields rendered by the form
+  form.finalForm.registerField('title', () => {}, {})
+  let result: ReturnType<typeof useUnsavedChanges>
+  const Subject = () => {
+    result = useUnsavedChanges(form)
+    return null
+  }
+  const renderSubject = () =>
+    render(
+      <TinaCMSProvider cms={cms}>
+        <Subject />
+      </TinaCMSProvider>
+    )
+  return { storage, form, renderSubject, result: () => result }
+}
+
+describe('useUnsavedChanges', () => {
+  it('saves the values while the form is dirty', () => {
+    const { storage, form, renderSubject } = setup()
+    renderSubject()
+
+    act(() => {
+      form.change('title', 'Hello World')
+    })
+    expect(storage.load(form.id)).toEqual({
+      values: { title: 'Hello World' },
+      version: getFormSchemaVersion(fields),
+      updatedAt: expect.any(Number),
+    })
+
+    act(() => {
+      form.finalForm.reset()
+    })
+    expect(storage.load(form.id)).toBeUndefined()
+  })
+  it('restores the saved changes', () => {
+    const { storage, form, renderSubject, result } = setup()
+    const saved: UnsavedChanges = {
+      values: { title: 'Hello World' },
+      version: getFormSchemaVersion(fields),
+      updatedAt: Date.now(),
+    }
+    storage.save(form.id, saved)
+    renderSubject()
+
+    expect(result().unsavedChanges).toEqual(saved)
+    // the saved changes are kept until they're restored
+    expect(storage.load(form.id)).toEqual(saved)
+
+    act(() => {
+      result().restore()
+    })
+    expect(result().unsavedChanges).toBeNull()
+    expect(form.values).toEqual({ title: 'Hello World' })
+    expect(form.dirty).toBe(true)
+  })
+  it('drops the changes saved for another version of the schema', () => {
+    const { storage, form, renderSubject, result } = setup()
+    storage.save(form.id, {
+      values: { heading: 'Hello World' },
+      version: getFormSchemaVersion([{ name: 'heading', component: 'text' }]),
+      updatedAt: Date.now(),
+    })
+    renderSubject()
+
+    expect(result().unsavedChanges).toBeNull()
+    expect(storage.load(form.id)).toBeUndefined()
+  })
+})
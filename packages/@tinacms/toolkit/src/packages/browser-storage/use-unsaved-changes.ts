@@ -0,0 +1,108 @@
+/**
+
+*/
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Form, AnyField } from '../../packages/forms'
+import { useCMS } from '../../packages/react-core'
+import { BrowserStorageClient } from './browser-storage-client'
+
+export interface UnsavedChanges<S = any> {
+  values: S
+  /**
+   * The schema version of the form when the values were saved, changes
+   * are dropped once the fields of the form no longer match them
+   */
+  version: string
+  /** When the values were saved, in milliseconds since the epoch */
+  updatedAt: number
+}
+
+const describeFields = (fields: AnyField[] = []) =>
+  fields.map((field) => ({
+    name: field.name,
+    type: field.type,
+    component:
+      typeof field.component === 'string' ? field.component : undefined,
+    list: field.list,
+    fields: field.fields && describeFields(field.fields),
+    templates:
+      field.templates &&
+      Object.entries(field.templates).map(([key, template]: [string, any]) => ({
+        name: template.name || key,
+        fields: describeFields(template.fields),
+      })),
+  }))
+
+/**
+ * A hash of the structure of the fields, so values saved for an
+ * older schema aren't restored into a form they no longer fit
+ */
+export function getFormSchemaVersion(fields: AnyField[]) {
+  const description = JSON.stringify(describeFields(fields))
+  let hash = 5381
+  for (let i = 0; i < description.length; i++) {
+    hash = (hash * 33) ^ description.charCodeAt(i)
+  }
+  return (hash >>> 0).toString(36)
+}
+
+/**
+ * Persists the values of the form to `cms.api.storage` while it's dirty,
+ * so they survive a closed tab.
+ *
+ * When the form is opened with changes left over from an earlier session
+ * they're held back until they're either restored or discarded.
+ */
+export function useUnsavedChanges(form: Form) {
+  const cms = useCMS()
+  const storage: BrowserStorageClient | undefined = cms.api.storage
+  const version = useMemo(() => getFormSchemaVersion(form.fields), [form])
+  const [unsavedChanges, setUnsavedChanges] = useState<UnsavedChanges | null>(
+    null
+  )
+  const pending = useRef<UnsavedChanges | null>(null)
+
+  useEffect(() => {
+    if (!storage) return
+
+    const saved: UnsavedChanges | undefined = storage.load(form.id)
+    pending.current = null
+    if (saved && saved.version !== version) {
+      storage.clear(form.id)
+    } else if (saved && form.pristine) {
+      pending.current = saved
+    }
+    setUnsavedChanges(pending.current)
+
+    return form.subscribe(
+      ({ values, dirty }) => {
+        if (pending.current) return
+
+        if (dirty) {
+          storage.save(form.id, { values, version, updatedAt: Date.now() })
+        } else {
+          storage.clear(form.id)
+        }
+      },
+      { values: true, dirty: true }
+    )
+  }, [form, storage, version])
+
+  const restore = useCallback(() => {
+    const saved = pending.current
+    pending.current = null
+    setUnsavedChanges(null)
+    if (saved) {
+      form.updateValues(saved.values)
+    }
+  }, [form])
+
+  const discard = useCallback(() => {
+    pending.current = null
+    setUnsavedChanges(null)
+    storage?.clear(form.id)
+  }, [form, storage])
+
+  return { unsavedChanges, restore, discard }
+}
@@ -10,11 +10,16 @@ import {
   MediaUploadOptions,
   MediaList,
   MediaListOptions,
+  MediaMetadata,
+  MediaMoveOptions,
   E_UNAUTHORIZED,
   E_BAD_ROUTE,
 } from './media'
 import { CMS } from './cms'
-import { DEFAULT_MEDIA_UPLOAD_TYPES } from '../../components/media/utils'
+import {
+  DEFAULT_MEDIA_UPLOAD_TYPES,
+  isImage,
+} from '../../components/media/utils'
 
 const s3ErrorRegex = /<Error>.*<Code>(.+)<\/Code>.*<Message>(.+)<\/Message>.*/
 
@@ -42,6 +47,12 @@ export class DummyMediaStore implements MediaStore {
 
 export class TinaMediaStore implements MediaStore {
   fetchFunction = (input: RequestInfo, init?: RequestInit) => {
+    this.setup()
+    // the local server rejects requests without a token once it verifies them,
+    // the signed upload urls of Tina Cloud must be fetched as they are
+    if (this.isLocal) {
+      return this.api.fetchWithToken(input, init)
+    }
     return fetch(input, init)
   }
 
@@ -235,8 +246,12 @@ export class TinaMediaStore implements MediaStore {
   }
 
   private genThumbnail(src: string, dimensions: { w: number; h: number }) {
-    return !this.isLocal
-      ? `${src}?fit=crop&max-w=${dimensions.w}&max-h=${dimensions.h}`
+    if (!this.isLocal) {
+      return `${src}?fit=crop&max-w=${dimensions.w}&max-h=${dimensions.h}`
+    }
+    // the local media server resizes images, keeping their aspect ratio
+    return isImage(src)
+      ? `${this.url}/transform${src}?w=${dimensions.w}&h=${dimensions.h}&fit=inside`
       : src
   }
 
@@ -247,9 +262,9 @@ export class TinaMediaStore implements MediaStore {
     if (!this.isLocal) {
       if (await this.isAuthenticated()) {
         res = await this.api.fetchWithToken(
-          `${this.url}/list/${options.directory || ''}?limit=${
-            options.limit || 20
-          }${options.offset ? `&cursor=${options.offset}` : ''}`
+          `${this.url}/list/${options.directory || ''}?${this.listQuery(
+            options
+          )}`
         )
 
         if (res.status == 401) {
@@ -264,9 +279,7 @@ export class TinaMediaStore implements MediaStore {
       }
     } else {
       res = await this.fetchFunction(
-        `${this.url}/list/${options.directory || ''}?limit=${
-          options.limit || 20
-        }${options.offset ? `&cursor=${options.offset}` : ''}`
+        `${this.url}/list/${options.directory || ''}?${this.listQuery(options)}`
       )
 
       if (res.status == 404) {
@@ -285,7 +298,8 @@ export class TinaMediaStore implements MediaStore {
     const items: Media[] = []
     for (const file of files) {
       items.push({
-        directory: options.directory || '',
+        // files listed recursively may be in a sub-directory
+        directory: file.directory ?? (options.directory || ''),
         type: 'file',
         id: file.filename,
         filename: file.filename,
@@ -312,10 +326,154 @@ export class TinaMediaStore implements MediaStore {
     }
   }
 
+  private listQuery(options: MediaListOptions) {
+    const params = new URLSearchParams({ limit: String(options.limit || 20) })
+    if (options.offset) params.set('cursor', String(options.offset))
+    if (options.search) params.set('search', options.search)
+    if (options.mimeTypes?.length) {
+      params.set('mimeTypes', options.mimeTypes.join(','))
+    }
+    if (options.sort) params.set('sort', options.sort)
+    if (options.recursive) params.set('recursive', 'true')
+    return params.toString()
+  }
+
   parse = (img) => {
     return img.src
   }
 
+  /**
+   * Metadata is kept in a sidecar file of the media folder by the
+   * local server, it isn't available from Tina Cloud
+   */
+  private metadataUrl(media: Media) {
+    this.setup()
+    if (!this.isLocal) {
+      throw new Error('Media metadata is only supported in local mode')
+    }
+    const path = `${
+      media.directory ? `${media.directory}/${media.filename}` : media.filename
+    }`
+    return `${this.url}/metadata/${path.replace(/^\/+/, '')}`
+  }
+
+  async getMetadata(media: Media): Promise<MediaMetadata> {
+    const res = await this.fetchFunction(this.metadataUrl(media))
+    const result = await res.json()
+    if (!result.ok) {
+      throw new Error(result.message)
+    }
+    return result.metadata
+  }
+
+  async updateMetadata(
+    media: Media,
+    metadata: MediaMetadata
+  ): Promise<MediaMetadata> {
+    const res = await this.fetchFunction(this.metadataUrl(media), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(metadata),
+    })
+    const result = await res.json()
+    if (!result.ok) {
+      throw new Error(result.message)
+    }
+    return result.metadata
+  }
+
+  /**
+   * Folders only exist in Tina Cloud while they contain a file, so
+   * a new folder isn't stored until something is uploaded to it
+   */
+  async createFolder(directory: string): Promise<Media> {
+    this.setup()
+    const path = directory.replace(/^\/+/, '').replace(/\/+$/, '')
+    if (this.isLocal) {
+      const res = await this.fetchFunction(`${this.url}/folder/${path}`, {
+        method: 'POST',
+      })
+      const result = await res.json()
+      if (!result.ok) {
+        throw new Error(result.message)
+      }
+    }
+    const parts = path.split('/')
+    return {
+      type: 'dir',
+      id: parts[parts.length - 1],
+      filename: parts[parts.length - 1],
+      directory: parts.slice(0, -1).join('/'),
+    }
+  }
+
+  async move(media: Media, options: MediaMoveOptions): Promise<Media> {
+    this.setup()
+    if (!this.isLocal) {
+      throw new Error('Moving media is only supported in local mode')
+    }
+    const filename = options.filename || media.filename
+    const oldPath = this.mediaPath(media)
+    const res = await this.fetchFunction(`${this.url}/move/${oldPath}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ directory: options.directory, filename }),
+    })
+    const result = await res.json()
+    if (!result.ok) {
+      throw new Error(result.message)
+    }
+    const newPath = this.mediaPath({
+      ...media,
+      directory: options.directory,
+      filename,
+    })
+    const src = media.src?.endsWith(oldPath)
+      ? media.src.slice(0, -oldPath.length) + newPath
+      : media.src
+    return {
+      ...media,
+      id: filename,
+      filename,
+      directory: options.directory,
+      src,
+      thumbnails: src
+        ? Object.keys(media.thumbnails || {}).reduce((acc, size) => {
+            acc[size] = src
+            return acc
+          }, {})
+        : media.thumbnails,
+    }
+  }
+
+  async deleteMany(media: Media[]) {
+    this.setup()
+    if (!this.isLocal) {
+      for (const item of media) {
+        await this.delete(item)
+      }
+      return
+    }
+    const res = await this.fetchFunction(`${this.url}/delete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        files: media.map((item) => this.mediaPath(item)),
+      }),
+    })
+    const result = await res.json()
+    if (!result.ok) {
+      throw new Error(result.message)
+    }
+  }
+
+  private mediaPath(media: Media) {
+    const path = `${
+      media.directory ? `${media.directory}/${media.filename}` : media.filename
+    }`
+    return path.replace(/^\/+/, '')
+  }
+
   async delete(media: Media) {
     const path = `${
       media.directory ? `${media.directory}/${media.filename}` : media.filename
@@ -0,0 +1,89 @@
+/**
+
+
+
+*/
+
+import { EventBus } from './event'
+import { Media, MediaManager, MediaStore } from './media'
+
+const image = (filename: string): Media => ({
+  type: 'file',
+  id: filename,
+  filename,
+  directory: '',
+})
+
+const createStore = (store: Partial<MediaStore> = {}): MediaStore => ({
+  accept: '*',
+  persist: jest.fn(),
+  delete: jest.fn(),
+  list: jest.fn(),
+  ...store,
+})
+
+describe('MediaManager', () => {
+  describe('deleteMany', () => {
+    it('deletes the media in one call when the store supports it', async () => {
+      const store = createStore({ deleteMany: jest.fn() })
+      const media = new MediaManager(store, new EventBus())
+      const items = [image('a.png'), image('b.png')]
+
+      await media.deleteMany(items)
+
+      expect(store.deleteMany).toHaveBeenCalledWith(items)
+      expect(store.delete).not.toHaveBeenCalled()
+    })
+    it('deletes the media one at a time otherwise', async () => {
+      const store = createStore()
+      const media = new MediaManager(store, new EventBus())
+      const items = [image('a.png'), image('b.png')]
+
+      await media.deleteMany(items)
+
+      expect(store.delete).toHaveBeenCalledTimes(2)
+      expect(store.delete).toHaveBeenCalledWith(items[1])
+    })
+    it('dispatches a failure event when the store throws', async () => {
+      const error = new Error('nope')
+      const store = createStore({
+        deleteMany: jest.fn().mockRejectedValue(error),
+      })
+      const events = new EventBus()
+      const listener = jest.fn()
+      events.subscribe('media:deleteMany:failure', listener)
+      const media = new MediaManager(store, events)
+
+      await expect(media.deleteMany([image('a.png')])).rejects.toBe(error)
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ error }))
+    })
+  })
+  describe('move', () => {
+    it('returns the media at its new location', async () => {
+      const moved = { ...image('b.png'), directory: 'posts' }
+      const store = createStore({ move: jest.fn().mockResolvedValue(moved) })
+      const media = new MediaManager(store, new EventBus())
+
+      expect(media.supportsMove).toBe(true)
+      await expect(
+        media.move(image('a.png'), { directory: 'posts', filename: 'b.png' })
+      ).resolves.toBe(moved)
+    })
+    it('throws when the store does not support it', async () => {
+      const media = new MediaManager(createStore(), new EventBus())
+
+      expect(media.supportsMove).toBe(false)
+      await expect(
+        media.move(image('a.png'), { directory: 'posts' })
+      ).rejects.toThrow()
+    })
+  })
+  describe('createFolder', () => {
+    it('throws when the store does not support it', async () => {
+      const media = new MediaManager(createStore(), new EventBus())
+
+      expect(media.supportsFolders).toBe(false)
+      await expect(media.createFolder('posts')).rejects.toThrow()
+    })
+  })
+})
@@ -38,6 +38,36 @@ export interface Media {
    * A url that provides a smaller image of the media file
    */
   thumbnails?: { [name: string]: string }
+
+  /**
+   * The details of the file, only set when the Media Store
+   * supports metadata
+   */
+  metadata?: MediaMetadata
+}
+
+/**
+ * Details about a media file which are stored alongside it
+ */
+export interface MediaMetadata {
+  /**
+   * A description of the image for screen readers
+   */
+  alt?: string
+
+  caption?: string
+
+  /**
+   * The point of the image to keep in view when it's cropped,
+   * from `0` to `1` along each axis
+   */
+  focalPoint?: { x: number; y: number }
+
+  /**
+   * The dimensions of the image in pixels
+   */
+  width?: number
+  height?: number
 }
 
 export interface MediaUploadOptions {
@@ -51,6 +81,35 @@ export interface MediaUploadOptions {
   file: File
 }
 
+/**
+ * The constraints of an upload, declared by `image` fields.
+ */
+export interface MediaUploadRules {
+  /**
+   * The largest file, in bytes.
+   */
+  maxSize?: number
+  /**
+   * The accepted MIME types separated by commas, eg. `image/*,application/pdf`.
+   */
+  accept?: string
+  minWidth?: number
+  maxWidth?: number
+  minHeight?: number
+  maxHeight?: number
+}
+
+export interface MediaMoveOptions {
+  /**
+   * The directory the file is moved into.
+   */
+  directory: string
+  /**
+   * The new name of the file, the current name is kept when omitted.
+   */
+  filename?: string
+}
+
 /**
  * Represents some external service for storing and
  * managing media.
@@ -77,9 +136,44 @@ export interface MediaStore {
    * Lists all media in a specific directory.
    */
   list(options?: MediaListOptions): Promise<MediaList>
+
+  /**
+   * Fetches the metadata of a media object.
+   */
+  getMetadata?(media: Media): Promise<MediaMetadata>
+
+  /**
+   * Replaces the metadata of a media object and returns
+   * the stored metadata.
+   */
+  updateMetadata?(media: Media, metadata: MediaMetadata): Promise<MediaMetadata>
+
+  /**
+   * Creates an empty folder at the given path and
+   * returns it as a `dir` Media object.
+   */
+  createFolder?(directory: string): Promise<Media>
+
+  /**
+   * Moves or renames a media object and returns it
+   * at its new location.
+   */
+  move?(media: Media, options: MediaMoveOptions): Promise<Media>
+
+  /**
+   * Deletes several media objects from the store at once.
+   */
+  deleteMany?(media: Media[]): Promise<void>
 }
 
 export declare type MediaListOffset = string | number
+
+/**
+ * The order of listed media. Names are sorted alphabetically, dates from
+ * newest to oldest and sizes from largest to smallest.
+ */
+export declare type MediaListSort = 'name' | 'date' | 'size'
+
 /**
  * The options available when listing media.
  */
@@ -88,6 +182,24 @@ export interface MediaListOptions {
   limit?: number
   offset?: MediaListOffset
   thumbnailSizes?: { w: number; h: number }[]
+  /**
+   * Only list media whose filename contains this text, ignoring case.
+   */
+  search?: string
+  /**
+   * Only list files of these MIME types, wildcards like `image/*` are
+   * allowed. Directories are always listed.
+   */
+  mimeTypes?: string[]
+  /**
+   * Directories are always listed before files.
+   */
+  sort?: MediaListSort
+  /**
+   * List the files of every sub-directory of `directory` instead of
+   * the sub-directories themselves.
+   */
+  recursive?: boolean
 }
 
 /**
@@ -144,6 +256,18 @@ export class MediaManager implements MediaStore {
     return this.store.accept
   }
 
+  get supportsMetadata() {
+    return !!(this.store.getMetadata && this.store.updateMetadata)
+  }
+
+  get supportsFolders() {
+    return !!this.store.createFolder
+  }
+
+  get supportsMove() {
+    return !!this.store.move
+  }
+
   async persist(files: MediaUploadOptions[]): Promise<Media[]> {
     try {
       this.events.dispatch({ type: 'media:upload:start', uploaded: files })
@@ -183,6 +307,75 @@ export class MediaManager implements MediaStore {
     }
   }
 
+  /**
+   * Falls back to deleting the media one at a time when the
+   * Media Store can't delete several objects at once
+   */
+  async deleteMany(media: Media[]): Promise<void> {
+    try {
+      this.events.dispatch({ type: 'media:deleteMany:start', media })
+      if (this.store.deleteMany) {
+        await this.store.deleteMany(media)
+      } else {
+        for (const item of media) {
+          await this.store.delete(item)
+        }
+      }
+      this.events.dispatch({ type: 'media:deleteMany:success', media })
+    } catch (error) {
+      this.events.dispatch({
+        type: 'media:deleteMany:failure',
+        media,
+        error,
+      })
+      throw error
+    }
+  }
+
+  async createFolder(directory: string): Promise<Media> {
+    if (!this.store.createFolder) {
+      throw new Error('The Media Store does not support creating folders')
+    }
+    try {
+      this.events.dispatch({ type: 'media:folder:start', directory })
+      const folder = await this.store.createFolder(directory)
+      this.events.dispatch({
+        type: 'media:folder:success',
+        directory,
+        media: folder,
+      })
+      return folder
+    } catch (error) {
+      this.events.dispatch({ type: 'media:folder:failure', directory, error })
+      throw error
+    }
+  }
+
+  async move(media: Media, options: MediaMoveOptions): Promise<Media> {
+    if (!this.store.move) {
+      throw new Error('The Media Store does not support moving media')
+    }
+    try {
+      this.events.dispatch({ type: 'media:move:start', media, ...options })
+      const moved = await this.store.move(media, options)
+      this.events.dispatch({
+        type: 'media:move:success',
+        media,
+        ...options,
+        moved,
+      })
+      return moved
+    } catch (error) {
+      this.events.dispatch({
+        type: 'media:move:failure',
+        media,
+        ...options,
+        error,
+      })
+      throw error
+    }
+  }
+
   async list(options: MediaListOptions): Promise<MediaList> {
     try {
       this.events.dispatch({ type: 'media:list:start', ...options })
@@ -194,12 +387,50 @@ export class MediaManager implements MediaStore {
       throw error
     }
   }
+
+  async getMetadata(media: Media): Promise<MediaMetadata> {
+    if (!this.store.getMetadata) {
+      return {}
+    }
+    return this.store.getMetadata(media)
+  }
+
+  async updateMetadata(
+    media: Media,
+    metadata: MediaMetadata
+  ): Promise<MediaMetadata> {
+    if (!this.store.updateMetadata) {
+      throw new Error('The Media Store does not support metadata')
+    }
+    try {
+      this.events.dispatch({ type: 'media:metadata:start', media, metadata })
+      const updated = await this.store.updateMetadata(media, metadata)
+      this.events.dispatch({
+        type: 'media:metadata:success',
+        media,
+        metadata: updated,
+      })
+      return updated
+    } catch (error) {
+      this.events.dispatch({
+        type: 'media:metadata:failure',
+        media,
+        metadata,
+        error,
+      })
+      throw error
+    }
+  }
 }
 
 export interface SelectMediaOptions {
   allowDelete?: boolean
   directory?: string
   onSelect?(media: Media): void
+  /**
+   * The constraints of the files uploaded while selecting media.
+   */
+  uploadRules?: MediaUploadRules
 }
 
 interface MediaListErrorConfig {
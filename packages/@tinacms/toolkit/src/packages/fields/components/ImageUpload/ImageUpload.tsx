@@ -22,6 +22,10 @@ interface ImageUploadProps {
   value?: string
   src?: string
   loading?: boolean
+  /**
+   * The MIME types which can be dropped, defaults to the `accept` of the Media Store
+   */
+  accept?: string
 }
 
 const StyledImage = ({ src }) => {
@@ -53,11 +57,11 @@ const StyledFile = ({ src }) => {
 export const ImageUpload = React.forwardRef<
   HTMLButtonElement,
   ImageUploadProps
->(({ onDrop, onClear, onClick, value, src, loading }, ref) => {
+>(({ onDrop, onClear, onClick, value, src, loading, accept }, ref) => {
   const cms = useCMS()
   const { getRootProps, getInputProps } = useDropzone({
     accept: dropzoneAcceptFromString(
-      cms.media.accept || DEFAULT_MEDIA_UPLOAD_TYPES
+      accept || cms.media.accept || DEFAULT_MEDIA_UPLOAD_TYPES
     ),
     onDrop,
     noClick: !!onClick,
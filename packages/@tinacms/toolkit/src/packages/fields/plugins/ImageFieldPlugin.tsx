@@ -1,28 +1,54 @@
 import * as React from 'react'
 import { wrapFieldsWithMeta } from './wrapFieldWithMeta'
 import { InputProps, ImageUpload } from '../components'
-import { Media, MediaStore } from '../../core'
+import { Media, MediaStore, MediaUploadRules } from '../../core'
 import { useCMS } from '../../react-core'
 import { parse } from './textFormat'
 import { useState, useEffect } from 'react'
 import { FileError } from 'react-dropzone'
+import { checkUploadRules } from '../../../components/media/utils'
 
 interface ImageProps {
   path: string
   uploadDir?(formValues: any): string
   clearable?: boolean
+  metadata?: boolean
+  maxSize?: number
+  accept?: string
+  minWidth?: number
+  maxWidth?: number
+  minHeight?: number
+  maxHeight?: number
 }
 
+/**
+ * The constraints of the files uploaded to the field, `undefined` when there are none
+ */
+const uploadRules = (field: ImageProps): MediaUploadRules | undefined => {
+  const { maxSize, accept, minWidth, maxWidth, minHeight, maxHeight } = field
+  const rules = { maxSize, accept, minWidth, maxWidth, minHeight, maxHeight }
+  return Object.values(rules).some((rule) => rule !== undefined)
+    ? rules
+    : undefined
+}
+
+/**
+ * Images with `metadata` hold an object with the `src` and the details
+ * of the media, values saved before hold the `src` only
+ */
+const imageSrc = (value: any): string =>
+  value && typeof value === 'object' ? value.src : value
+
 export const ImageField = wrapFieldsWithMeta<InputProps, ImageProps>(
   (props) => {
     const ref = React.useRef(null)
     const cms = useCMS()
     const { value } = props.input
-    const src = value
+    const src = imageSrc(value)
     const [isImgUploading, setIsImgUploading] = useState(false)
     let onClear: any
     if (props.field.clearable) {
-      onClear = () => props.input.onChange('')
+      onClear = () => props.input.onChange(props.field.metadata ? null : '')
     }
 
     React.useEffect(() => {
@@ -40,29 +66,39 @@ export const ImageField = wrapFieldsWithMeta<InputProps, ImageProps>(
               cms.media.store.parse(media)
             : media
 
-        props.input.onChange(parsedValue)
+        if (props.field.metadata && !Array.isArray(media)) {
+          props.input.onChange({ ...media.metadata, src: parsedValue })
+        } else {
+          props.input.onChange(parsedValue)
+        }
       }
     }
     const uploadDir = props.field.uploadDir || (() => '')
+    const rules = uploadRules(props.field)
 
     return (
       <ImageUpload
         ref={ref}
-        value={value}
+        value={src}
         src={src}
         loading={isImgUploading}
+        accept={rules?.accept}
         onClick={() => {
           const directory = uploadDir(props.form.getState().values)
           cms.media.open({
             allowDelete: true,
             directory,
             onSelect: onChange,
+            uploadRules: rules,
           })
         }}
         onDrop={async ([file]: File[], fileRejections) => {
           setIsImgUploading(true)
           try {
-            if (file) {
+            const errors = file ? await checkUploadRules(file, rules) : []
+            if (errors.length) {
+              cms.alerts.error(`Upload Failed. ${errors.join('. ')}.`)
+            } else if (file) {
               const directory = uploadDir(props.form.getState().values)
               const [media] = await cms.media.persist([
                 {
@@ -127,8 +163,9 @@ export const ImageField = wrapFieldsWithMeta<InputProps, ImageProps>(
 export const ImageFieldPlugin = {
   name: 'image',
   Component: ImageField,
-  parse,
+  parse: (value: any, name: string, field: any) =>
+    field.metadata ? value || null : parse(value),
   validate(value: any, values: any, meta: any, field: any) {
-    if (field.required && !value) return 'Required'
+    if (field.required && !imageSrc(value)) return 'Required'
   },
 }
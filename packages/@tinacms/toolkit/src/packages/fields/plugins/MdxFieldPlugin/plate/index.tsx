@@ -16,6 +16,10 @@ import { createImgPlugin } from './plugins/create-img-plugin'
 import { createInvalidMarkdownPlugin } from './plugins/create-invalid-markdown-plugin'
 // import { createSlashPlugin } from './plugins/create-slash-plugin'
 import { createLinkPlugin } from './plugins/create-link-plugin'
+import {
+  createFootnoteReferencePlugin,
+  createFootnoteDefinitionPlugin,
+} from './plugins/create-footnote-plugin'
 import { uuid } from './plugins/ui/helpers'
 import { RichTextType } from '..'
 
@@ -39,6 +43,8 @@ export const RichEditor = (props: RichTextType) => {
           createImgPlugin(),
           createInvalidMarkdownPlugin(),
           createLinkPlugin(),
+          createFootnoteReferencePlugin(),
+          createFootnoteDefinitionPlugin(),
           // This is a bit buggy
           // createSlashPlugin(),
         ],
@@ -22,6 +22,8 @@ import {
   createItalicPlugin,
   createUnderlinePlugin,
   createCodePlugin,
+  createStrikethroughPlugin,
+  createTablePlugin,
 } from '@udecode/plate-headless'
 import { ReactEditor } from 'slate-react'
 import {
@@ -45,7 +47,9 @@ export const plugins = [
   createItalicPlugin(),
   createUnderlinePlugin(),
   createCodePlugin(),
+  createStrikethroughPlugin(),
   createListPlugin(),
+  createTablePlugin(),
   createHorizontalRulePlugin(),
   // Allows us to do things like copy/paste, remembering the state of the element (like mdx)
   createNodeIdPlugin(),
@@ -65,6 +69,11 @@ const isListActive = (editor, type) => {
   return !!res && res.list[0].type === type
 }
 
+const isTaskListActive = (editor) => {
+  const res = !!editor?.selection && getListItemEntry(editor)
+  return !!res && typeof res.listItem[0].checked === 'boolean'
+}
+
 const normalize = (node: any) => {
   if (
     [ELEMENT_MDX_BLOCK, ELEMENT_MDX_INLINE, ELEMENT_IMG].includes(node.type)
@@ -164,6 +173,7 @@ export const helpers = {
   isNodeActive,
   isMarkActive,
   isListActive,
+  isTaskListActive,
   currentNodeSupportsMDX,
   normalize,
 }
@@ -0,0 +1,89 @@
+/**
+
+*/
+
+import React from 'react'
+import {
+  createPluginFactory,
+  getNodeEntries,
+  insertNodes,
+  PlateEditor,
+} from '@udecode/plate-headless'
+import { insertInlineElement } from '../core/common'
+import { classNames } from '../ui/helpers'
+
+export const ELEMENT_FOOTNOTE_REFERENCE = 'footnote_reference'
+export const ELEMENT_FOOTNOTE_DEFINITION = 'footnote_definition'
+
+export const createFootnoteReferencePlugin = createPluginFactory({
+  key: ELEMENT_FOOTNOTE_REFERENCE,
+  isElement: true,
+  isVoid: true,
+  isInline: true,
+  component: ({ attributes, element, children, className }) => (
+    <span {...attributes} className={className}>
+      <sup
+        contentEditable={false}
+        className="text-blue-500 font-medium select-none"
+      >
+        [{element.label || element.identifier}]
+      </sup>
+      {children}
+    </span>
+  ),
+})
+
+export const createFootnoteDefinitionPlugin = createPluginFactory({
+  key: ELEMENT_FOOTNOTE_DEFINITION,
+  isElement: true,
+  component: ({ attributes, element, children, className }) => (
+    <div
+      {...attributes}
+      className={classNames(
+        className,
+        'flex gap-2 text-sm mt-0.5 mb-2 last:mb-0 pl-3 border-l-3 border-gray-100'
+      )}
+    >
+      <span contentEditable={false} className="text-gray-400 select-none">
+        {element.label || element.identifier}:
+      </span>
+      <span className="flex-1">{children}</span>
+    </div>
+  ),
+})
+
+/**
+ * Insert a reference to a new footnote at the cursor, and its
+ * definition at the end of the document
+ */
+export const insertFootnote = (editor: PlateEditor) => {
+  const identifiers = new Set(
+    Array.from(
+      getNodeEntries(editor, {
+        at: [],
+        match: { type: ELEMENT_FOOTNOTE_REFERENCE },
+      })
+    ).map(([node]) => node.identifier)
+  )
+  let index = 1
+  while (identifiers.has(String(index))) {
+    index++
+  }
+  const identifier = String(index)
+  insertNodes(
+    editor,
+    {
+      type: ELEMENT_FOOTNOTE_DEFINITION,
+      identifier,
+      label: identifier,
+      children: [{ text: '' }],
+    },
+    { at: [editor.children.length] }
+  )
+  insertInlineElement(editor, {
+    type: ELEMENT_FOOTNOTE_REFERENCE,
+    identifier,
+    label: identifier,
+    children: [{ text: '' }],
+  })
+}
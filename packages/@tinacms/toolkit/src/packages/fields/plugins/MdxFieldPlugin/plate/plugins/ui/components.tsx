@@ -21,13 +21,19 @@ import {
   ELEMENT_H4,
   ELEMENT_H5,
   ELEMENT_H6,
+  ELEMENT_TABLE,
+  ELEMENT_TR,
+  ELEMENT_TH,
+  ELEMENT_TD,
   MARK_CODE,
   MARK_BOLD,
   MARK_ITALIC,
+  MARK_STRIKETHROUGH,
+  setNodes,
 } from '@udecode/plate-headless'
 import { CodeBlock } from './code-block'
 import { classNames } from './helpers'
-import { useSelected } from 'slate-react'
+import { ReactEditor, useSelected } from 'slate-react'
 
 /**
  * For blocks elements (p, blockquote, ul, ...etc), it
@@ -200,13 +206,42 @@ export const components = () => {
         {...props}
       />
     ),
-    [ELEMENT_LI]: ({ attributes, className, editor, element, ...props }) => (
-      <li
-        className={classNames('p-0 mt-0 mb-0 list-outside', className)}
-        {...attributes}
-        {...props}
-      />
-    ),
+    [ELEMENT_LI]: ({ attributes, className, editor, element, ...props }) => {
+      /** task list items */
+      if (typeof element.checked === 'boolean') {
+        return (
+          <li
+            className={classNames(
+              'p-0 mt-0 mb-0 list-none flex items-start gap-2',
+              className
+            )}
+            {...attributes}
+          >
+            <span contentEditable={false} className="select-none pt-1">
+              <input
+                type="checkbox"
+                checked={element.checked}
+                onChange={(e) => {
+                  setNodes(
+                    editor,
+                    { checked: e.target.checked },
+                    { at: ReactEditor.findPath(editor, element) }
+                  )
+                }}
+              />
+            </span>
+            <span className="flex-1">{props.children}</span>
+          </li>
+        )
+      }
+      return (
+        <li
+          className={classNames('p-0 mt-0 mb-0 list-outside', className)}
+          {...attributes}
+          {...props}
+        />
+      )
+    },
     /** "list item content" */
     [ELEMENT_LIC]: ({ attributes, editor, element, className, ...props }) => (
       <span
@@ -246,6 +281,41 @@ export const components = () => {
     [MARK_BOLD]: ({ editor, leaf, text, ...props }) => (
       <strong {...props.attributes} {...props} />
     ),
+    [MARK_STRIKETHROUGH]: ({ editor, leaf, text, ...props }) => (
+      <s {...props.attributes} {...props} />
+    ),
+    [ELEMENT_TABLE]: ({ attributes, editor, element, className, ...props }) => (
+      <table
+        className={classNames(
+          blockClasses,
+          className,
+          'w-full table-fixed border-collapse mb-4 last:mb-0'
+        )}
+        {...attributes}
+      >
+        <tbody {...props} />
+      </table>
+    ),
+    [ELEMENT_TR]: ({ attributes, editor, element, className, ...props }) => (
+      <tr className={className} {...attributes} {...props} />
+    ),
+    [ELEMENT_TH]: ({ attributes, editor, element, className, ...props }) => (
+      <th
+        className={classNames(
+          className,
+          'border border-gray-200 bg-gray-50 px-2 py-1 text-left font-semibold'
+        )}
+        {...attributes}
+        {...props}
+      />
+    ),
+    [ELEMENT_TD]: ({ attributes, editor, element, className, ...props }) => (
+      <td
+        className={classNames(className, 'border border-gray-200 px-2 py-1')}
+        {...attributes}
+        {...props}
+      />
+    ),
     [ELEMENT_HR]: ({
       attributes,
       className,
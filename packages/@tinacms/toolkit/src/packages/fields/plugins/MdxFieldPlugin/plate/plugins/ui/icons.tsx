@@ -34,6 +34,10 @@ const iconEl = {
   codeBlock: <CodeBlockIcon />,
   bold: <BoldIcon />,
   italic: <ItalicIcon />,
+  strikethrough: <StrikethroughIcon />,
+  taskList: <TaskListIcon />,
+  table: <TableIcon />,
+  footnote: <FootnoteIcon />,
   raw: <RawMarkdown />,
 }
 
@@ -317,6 +321,7 @@ export function StrikethroughIcon(props) {
 
   return (
     <svg
+      className="h-5 w-5"
       height="24"
       width="24"
       viewBox="0 0 24 24"
@@ -333,6 +338,72 @@ export function StrikethroughIcon(props) {
   )
 }
 
+export function TaskListIcon(props) {
+  const title = props.title || 'checklist'
+
+  return (
+    <svg
+      className="h-5 w-5"
+      height="24"
+      width="24"
+      viewBox="0 0 24 24"
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      <title>{title}</title>
+      <g fill="none">
+        <path
+          d="M22 7h-9v2h9V7zm0 8h-9v2h9v-2zM5.54 11L2 7.46l1.41-1.41 2.12 2.12 4.24-4.24 1.41 1.41L5.54 11zm0 8L2 15.46l1.41-1.41 2.12 2.12 4.24-4.24 1.41 1.41L5.54 19z"
+          fill="currentColor"
+        />
+      </g>
+    </svg>
+  )
+}
+
+export function TableIcon(props) {
+  const title = props.title || 'table'
+
+  return (
+    <svg
+      className="h-5 w-5"
+      height="24"
+      width="24"
+      viewBox="0 0 24 24"
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      <title>{title}</title>
+      <g fill="none">
+        <path
+          d="M20 3H4c-1.1 0-2 .9-2 2v14c0 1.1.9 2 2 2h16c1.1 0 2-.9 2-2V5c0-1.1-.9-2-2-2zM8 19H4v-3h4v3zm0-5H4v-3h4v3zm0-5H4V6h4v3zm6 10h-4v-3h4v3zm0-5h-4v-3h4v3zm0-5h-4V6h4v3zm6 10h-4v-3h4v3zm0-5h-4v-3h4v3zm0-5h-4V6h4v3z"
+          fill="currentColor"
+        />
+      </g>
+    </svg>
+  )
+}
+
+export function FootnoteIcon(props) {
+  const title = props.title || 'footnote'
+
+  return (
+    <svg
+      className="h-5 w-5"
+      height="24"
+      width="24"
+      viewBox="0 0 24 24"
+      xmlns="http://www.w3.org/2000/svg"
+    >
+      <title>{title}</title>
+      <g fill="none">
+        <path
+          d="M2 5h10v3H8.5v10h-3V8H2V5zm14 0h2v6h-2V5zm-1 0h-1v2h1V5zM3 20h18v2H3v-2z"
+          fill="currentColor"
+        />
+      </g>
+    </svg>
+  )
+}
+
 export function LightningIcon(props) {
   const title = props.title || 'lightning'
 
@@ -26,6 +26,14 @@ import {
   MARK_BOLD,
   MARK_ITALIC,
   MARK_CODE,
+  MARK_STRIKETHROUGH,
+  ELEMENT_TABLE,
+  insertTable,
+  insertTableRow,
+  insertTableColumn,
+  deleteRow,
+  deleteColumn,
+  deleteTable,
 } from '@udecode/plate-headless'
 import { ToolbarItem, ToolbarItemType, EmbedButton } from './toolbar-item'
 import { OverflowMenu } from './overflow-menu'
@@ -39,6 +47,8 @@ import { ELEMENT_IMG } from '../../create-img-plugin'
 import type { MdxTemplate } from '../../../types'
 import { useEditorContext } from '../../../editor-context'
 import { insertEmptyCodeBlock } from '../../../transforms/insertEmptyBlock'
+import { toggleTaskList } from '../../../transforms/toggleTaskList'
+import { insertFootnote } from '../../create-footnote-plugin'
 
 const headers = [
   {
@@ -69,6 +79,20 @@ const headers = [
   { name: ELEMENT_PARAGRAPH, render: <p className="my-0">Paragraph</p> },
 ]
 
+const tableActions = [
+  {
+    label: 'Insert row',
+    action: (editor) => insertTableRow(editor, { header: false }),
+  },
+  {
+    label: 'Insert column',
+    action: (editor) => insertTableColumn(editor),
+  },
+  { label: 'Delete row', action: (editor) => deleteRow(editor) },
+  { label: 'Delete column', action: (editor) => deleteColumn(editor) },
+  { label: 'Delete table', action: (editor) => deleteTable(editor) },
+]
+
 const ICON_WIDTH = 40
 const EMBED_ICON_WIDTH = 85
 
@@ -85,12 +109,15 @@ export function Toolbar({
   const isBoldActive = helpers.isMarkActive(editor, MARK_BOLD)
   const isCodeActive = helpers.isMarkActive(editor, MARK_CODE)
   const isItalicActive = helpers.isMarkActive(editor, MARK_ITALIC)
+  const isStrikethroughActive = helpers.isMarkActive(editor, MARK_STRIKETHROUGH)
   const isLinkActive = helpers.isNodeActive(editor, ELEMENT_LINK)
   const ulActive = helpers.isListActive(editor, ELEMENT_UL)
   const olActive = helpers.isListActive(editor, ELEMENT_OL)
   const codeBlockActive = helpers.isNodeActive(editor, ELEMENT_CODE_BLOCK)
   const blockQuoteActive = helpers.isNodeActive(editor, ELEMENT_BLOCKQUOTE)
   const isImgActive = helpers.isNodeActive(editor, ELEMENT_IMG)
+  const tableActive = helpers.isNodeActive(editor, ELEMENT_TABLE)
+  const taskListActive = helpers.isTaskListActive(editor)
 
   const toolbarItems: ToolbarItemType[] = [
     {
@@ -145,6 +172,35 @@ export function Toolbar({
         type: ELEMENT_OL,
       }),
     },
+    {
+      name: 'taskList',
+      label: 'Task List',
+      active: taskListActive,
+      onMouseDown: getPreventDefaultHandler(toggleTaskList, editor),
+    },
+    {
+      name: 'table',
+      label: 'Table',
+      active: tableActive,
+      /** Inside a table the button offers row and column actions instead */
+      options: tableActive
+        ? tableActions.map((item) => (
+            <span
+              key={item.label}
+              onMouseDown={getPreventDefaultHandler(item.action, editor)}
+              className={classNames(
+                'hover:bg-gray-100 hover:text-gray-900 cursor-pointer block px-4 py-2 text-sm w-full text-left'
+              )}
+            >
+              {item.label}
+            </span>
+          ))
+        : undefined,
+      onMouseDown: getPreventDefaultHandler(insertTable, editor, {
+        rowCount: 3,
+        colCount: 3,
+      }),
+    },
     {
       name: 'code',
       label: 'Code',
@@ -175,6 +231,20 @@ export function Toolbar({
         key: MARK_ITALIC,
       }),
     },
+    {
+      name: 'strikethrough',
+      label: 'Strikethrough',
+      active: isStrikethroughActive,
+      onMouseDown: getPreventDefaultHandler(toggleMark, editor, {
+        key: MARK_STRIKETHROUGH,
+      }),
+    },
+    {
+      name: 'footnote',
+      label: 'Footnote',
+      active: false,
+      onMouseDown: getPreventDefaultHandler(insertFootnote, editor),
+    },
     {
       name: 'raw',
       label: 'Raw',
@@ -5,7 +5,7 @@
 */
 
 import React, { Fragment } from 'react'
-import { PlusIcon, HeadingIcon, ToolbarIcon } from '../icons'
+import { PlusIcon, ToolbarIcon } from '../icons'
 import { Popover, Transition } from '@headlessui/react'
 import { useEditorState, isCollapsed } from '@udecode/plate-headless'
 import { insertMDX } from '../../create-mdx-plugins'
@@ -66,8 +66,8 @@ export const ToolbarItem = ({
             e.preventDefault()
           }}
         >
-          <span className="sr-only">Open options</span>
-          <HeadingIcon />
+          <span className="sr-only">{label}</span>
+          <ToolbarIcon name={icon} />
         </Popover.Button>
         <Transition
           as={Fragment}
@@ -0,0 +1,33 @@
+/**
+
+*/
+
+import {
+  ELEMENT_LI,
+  ELEMENT_UL,
+  PlateEditor,
+  getListItemEntry,
+  getPluginType,
+  isElement,
+  setNodes,
+  toggleList,
+  unsetNodes,
+} from '@udecode/plate-headless'
+
+/**
+ * Turn the selected list items into task list items (`- [ ]`), or back
+ * into regular list items when they already are
+ */
+export const toggleTaskList = (editor: PlateEditor) => {
+  const type = getPluginType(editor, ELEMENT_LI)
+  const match = (n) => isElement(n) && n.type === type
+  const entry = getListItemEntry(editor)
+  if (entry && typeof entry.listItem[0].checked === 'boolean') {
+    unsetNodes(editor, 'checked', { match, mode: 'lowest' })
+    return
+  }
+  if (!entry || entry.list[0].type !== getPluginType(editor, ELEMENT_UL)) {
+    toggleList(editor, { type: ELEMENT_UL })
+  }
+  setNodes(editor, { checked: false }, { match, mode: 'lowest' })
+}
@@ -14,7 +14,9 @@ import { FormPortalProvider } from './FormPortal'
 import { FieldsBuilder } from './fields-builder'
 import { ResetForm } from './ResetForm'
 import { FormActionMenu } from './FormActions'
-import { useCMS } from '../react-core'
+import { UnsavedChangesBanner } from './UnsavedChangesBanner'
+import { PresenceBanner } from './PresenceBanner'
+import { useCMS, useFormAutosave } from '../react-core'
 import { IoMdClose } from 'react-icons/io'
 import { Transition } from '@headlessui/react'
 
@@ -117,6 +119,8 @@ export const FormBuilder: FC<FormBuilderProps> = ({
     [tinaForm]
   )
 
+  useFormAutosave(tinaForm)
+
   /**
    * Prevent navigation away from the window when the form is dirty
    */
@@ -190,6 +194,8 @@ export const FormBuilder: FC<FormBuilderProps> = ({
           <>
             <DragDropContext onDragEnd={moveArrayItem}>
               <FormKeyBindings onSubmit={safeHandleSubmit} />
+              <PresenceBanner form={tinaForm} />
+              <UnsavedChangesBanner form={tinaForm} />
               <FormPortalProvider>
                 <FormWrapper
                   header={<PanelHeader {...fieldGroup} id={tinaForm.id} />}
@@ -0,0 +1,68 @@
+/**
+
+*/
+
+import * as React from 'react'
+import { AiFillWarning } from 'react-icons/ai'
+import { Form } from '../forms'
+import { DocumentViewer, useDocumentPresence } from '../react-core'
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .map((word) => word[0])
+    .join('')
+    .slice(0, 2)
+    .toUpperCase()
+
+const Avatar = ({ viewer }: { viewer: DocumentViewer }) => (
+  <span
+    title={viewer.name}
+    className="inline-flex items-center justify-center w-6 h-6 -ml-1 first:ml-0 rounded-full bg-blue-500 border-2 border-white text-white text-[10px] font-bold"
+  >
+    {initials(viewer.name) || '?'}
+  </span>
+)
+
+/**
+ * The other editors of the document, with a warning when one of them
+ * opened it first
+ */
+export const PresenceBanner = ({ form }: { form: Form }) => {
+  const { others, lockedBy } = useDocumentPresence(form.id)
+
+  if (!others.length) {
+    return null
+  }
+
+  return (
+    <div
+      className={`flex-grow-0 flex w-full gap-2 text-xs items-center py-2 px-4 border-b border-gray-150 ${
+        lockedBy
+          ? 'text-yellow-600 bg-gradient-to-r from-yellow-50 to-yellow-100'
+          : 'text-gray-500 bg-gradient-to-r from-white to-gray-50'
+      }`}
+    >
+      <span className="shrink-0 flex items-center">
+        {others.map((viewer) => (
+          <Avatar key={viewer.id} viewer={viewer} />
+        ))}
+      </span>
+      {lockedBy ? (
+        <span className="flex-1 min-w-0 flex items-center gap-1">
+          <AiFillWarning className="shrink-0 w-4 h-auto opacity-70" />
+          <span>
+            <strong className="font-bold text-yellow-700">
+              {lockedBy.name}
+            </strong>{' '}
+            opened this document first, saving may overwrite their changes
+          </span>
+        </span>
+      ) : (
+        <span className="flex-1 min-w-0 truncate">
+          Also editing: {others.map((viewer) => viewer.name).join(', ')}
+        </span>
+      )}
+    </div>
+  )
+}
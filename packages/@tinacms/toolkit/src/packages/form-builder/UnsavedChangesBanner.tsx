@@ -0,0 +1,43 @@
+/**
+
+*/
+
+import * as React from 'react'
+import { AiFillWarning } from 'react-icons/ai'
+import { Form } from '../forms'
+import { useUnsavedChanges } from '../browser-storage'
+
+export const UnsavedChangesBanner = ({ form }: { form: Form }) => {
+  const { unsavedChanges, restore, discard } = useUnsavedChanges(form)
+
+  if (!unsavedChanges) {
+    return null
+  }
+
+  return (
+    <div className="flex-grow-0 flex w-full gap-2 text-xs items-center py-2 px-4 text-yellow-600 bg-gradient-to-r from-yellow-50 to-yellow-100 border-b border-gray-150 shadow-sm">
+      <AiFillWarning className="shrink-0 w-5 h-auto opacity-70 text-yellow-600" />
+      <span className="flex-1 min-w-0">
+        Restore unsaved changes from{' '}
+        <strong className="font-bold text-yellow-700">
+          {new Date(unsavedChanges.updatedAt).toLocaleString()}
+        </strong>
+        ?
+      </span>
+      <button
+        type="button"
+        className="shrink-0 font-medium text-yellow-700 hover:text-yellow-800"
+        onClick={restore}
+      >
+        Restore
+      </button>
+      <button
+        type="button"
+        className="shrink-0 text-yellow-600 hover:text-yellow-800"
+        onClick={discard}
+      >
+        Discard
+      </button>
+    </div>
+  )
+}
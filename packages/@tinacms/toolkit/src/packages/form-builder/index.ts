@@ -12,5 +12,7 @@ export * from './FormLegacy'
 export * from './FormPortal'
 export * from './LoadingDots'
 export * from './ResetForm'
+export * from './UnsavedChangesBanner'
+export * from './PresenceBanner'
 export * from './FormActions'
 export type { FieldRenderProps } from 'react-final-form'
@@ -29,8 +29,15 @@ export interface FormOptions<S, F extends Field = AnyField> extends Config<S> {
   onChange?(values: FormState<S>): void
   extraSubscribeValues?: FormSubscription
   queries?: string[]
+  /**
+   * Submits the form periodically while it has unsaved changes, every
+   * `interval` milliseconds (30 seconds by default)
+   */
+  autosave?: boolean | { interval?: number }
 }
 
+const DEFAULT_AUTOSAVE_INTERVAL = 30000
+
 export class Form<S = any, F extends Field = AnyField> implements Plugin {
   private _reset?(): void
 
@@ -46,6 +53,7 @@ export class Form<S = any, F extends Field = AnyField> implements Plugin {
   }
   queries: string[]
   global: GlobalOptions | null = null
+  autosave: { interval: number } | null = null
   loading: boolean = false
 
   constructor({
@@ -59,6 +67,7 @@ export class Form<S = any, F extends Field = AnyField> implements Plugin {
     loadInitialValues,
     onChange,
     queries,
+    autosave,
     ...options
   }: FormOptions<S, F>) {
     const initialValues = options.initialValues || ({} as S)
@@ -69,6 +78,13 @@ export class Form<S = any, F extends Field = AnyField> implements Plugin {
     this.fields = fields || []
     this.onSubmit = options.onSubmit
     this.queries = queries || []
+    if (autosave) {
+      this.autosave = {
+        interval:
+          (typeof autosave === 'object' && autosave.interval) ||
+          DEFAULT_AUTOSAVE_INTERVAL,
+      }
+    }
     this.finalForm = createForm<S>({
       ...options,
       initialValues,
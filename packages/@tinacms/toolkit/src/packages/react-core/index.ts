@@ -9,5 +9,7 @@ export * from './use-form'
 export * from './use-plugin'
 export * from './use-subscribable'
 export * from './use-watch-form-values'
+export * from './use-form-autosave'
+export * from './use-document-presence'
 export * from './use-cms-event'
 export * from './with-plugin'
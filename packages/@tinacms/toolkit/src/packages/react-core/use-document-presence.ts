@@ -0,0 +1,62 @@
+/**
+
+*/
+
+import { useEffect, useState } from 'react'
+import { useCMS } from './use-cms'
+
+export interface DocumentViewer {
+  id: string
+  name: string
+  /** When the viewer opened the document, in milliseconds since the epoch */
+  openedAt: number
+}
+
+const HEARTBEAT_INTERVAL = 10000
+
+/** Identifies this tab to the other editors */
+const viewerId = Math.random().toString(36).slice(2)
+
+/**
+ * Tells the local server that the document is open in this tab, and keeps
+ * track of who else has it open. The viewer who opened the document first
+ * holds its soft lock.
+ */
+export function useDocumentPresence(documentId: string | undefined) {
+  const cms = useCMS()
+  const api = cms.api.tina
+  const [viewers, setViewers] = useState<DocumentViewer[]>([])
+
+  useEffect(() => {
+    if (!documentId || !api?.isLocalMode) return
+
+    let active = true
+    const heartbeat = async () => {
+      try {
+        const viewers: DocumentViewer[] = await api.updatePresence(documentId, {
+          id: viewerId,
+        })
+        if (active) {
+          setViewers(viewers)
+        }
+      } catch (error) {
+        // presence is best effort, editing works without it
+      }
+    }
+    heartbeat()
+    const timer = setInterval(heartbeat, HEARTBEAT_INTERVAL)
+
+    return () => {
+      active = false
+      clearInterval(timer)
+      setViewers([])
+      api.leavePresence(documentId, viewerId).catch(() => {})
+    }
+  }, [documentId, api])
+
+  const others = viewers.filter((viewer) => viewer.id !== viewerId)
+  const lockedBy =
+    viewers.length && viewers[0].id !== viewerId ? viewers[0] : null
+
+  return { viewers, others, lockedBy }
+}
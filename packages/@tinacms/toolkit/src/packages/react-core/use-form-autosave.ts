@@ -0,0 +1,28 @@
+/**
+
+*/
+
+import { useEffect } from 'react'
+import { Form } from '../forms'
+
+/**
+ * Submits the form on the interval of its `autosave` option, skipping the
+ * ticks where there's nothing to save or the form can't be submitted.
+ */
+export function useFormAutosave(form: Form | undefined) {
+  const interval = form?.autosave?.interval
+
+  useEffect(() => {
+    if (!form || !interval) return
+
+    const timer = setInterval(() => {
+      const { dirty, submitting, hasValidationErrors } =
+        form.finalForm.getState()
+      if (dirty && !submitting && !hasValidationErrors) {
+        form.submit()
+      }
+    }, interval)
+
+    return () => clearInterval(timer)
+  }, [form, interval])
+}
@@ -433,7 +433,7 @@ const SidebarHeader = ({
     <div className="flex-grow-0 w-full overflow-visible z-20">
       {isLocalMode && <LocalWarning />}
       {!isLocalMode && <BillingWarning />}
-      {branchingEnabled && !isLocalMode && <BranchBanner />}
+      {branchingEnabled && <BranchBanner />}
 
       <div className="mt-4 -mb-14 w-full flex items-center justify-between pointer-events-none">
         {displayMenuButton && (
@@ -12,8 +12,7 @@ import {
   BiSearch,
 } from 'react-icons/bi'
 import { GrCircleQuestion } from 'react-icons/gr'
-import { MdArrowForward, MdOutlineClear } from 'react-icons/md'
-import { AiFillWarning } from 'react-icons/ai'
+import { MdOutlineClear } from 'react-icons/md'
 import { FaSpinner } from 'react-icons/fa'
 import { useCMS } from '../../packages/react-core'
 
@@ -31,7 +30,6 @@ export const BranchSwitcher = ({
   chooseBranch,
 }: BranchSwitcherProps) => {
   const cms = useCMS()
-  const isLocalMode = cms.api?.tina?.isLocalMode
   const [listState, setListState] = React.useState<ListState>('loading')
   const [branchList, setBranchList] = React.useState([] as Branch[])
   const { currentBranch } = useBranchData()
@@ -129,33 +127,7 @@ export const BranchSwitcher = ({
   return (
     <div className="w-full flex justify-center p-5">
       <div className="w-full max-w-form">
-        {isLocalMode ? (
-          <div className="px-6 py-8 w-full h-full flex flex-col items-center justify-center">
-            <p className="text-base mb-4 text-center">
-              <AiFillWarning className="w-7 h-auto inline-block mr-0.5 opacity-70 text-yellow-600" />
-            </p>
-            <p className="text-base mb-6 text-center">
-              Tina's branch switcher isn't available in local mode.{' '}
-              <a
-                target="_blank"
-                className="transition-all duration-150 ease-out text-blue-600 hover:text-blue-400 hover:underline no-underline"
-                href="https://tina.io/docs/tina-cloud/"
-              >
-                Learn more about moving to production with Tina Cloud.
-              </a>
-            </p>
-            <p>
-              <Button
-                href="https://tina.io/docs/tina-cloud/"
-                target="_blank"
-                as="a"
-              >
-                Read Our Docs{' '}
-                <MdArrowForward className="w-5 h-auto ml-1.5 opacity-80" />
-              </Button>
-            </p>
-          </div>
-        ) : listState === 'loading' ? (
+        {listState === 'loading' ? (
           <div style={{ margin: '32px auto', textAlign: 'center' }}>
             <LoadingDots color={'var(--tina-color-primary)'} />
           </div>
@@ -11,7 +11,12 @@ export * from './use-subscribable'
 export * from './use-watch-form-values'
 export * from './with-plugin'
 export * from './with-tina'
-export { useCMSEvent } from '../packages/react-core'
+export {
+  useCMSEvent,
+  useFormAutosave,
+  useDocumentPresence,
+} from '../packages/react-core'
+export type { DocumentViewer } from '../packages/react-core'
 
 export type { Plugin } from '../packages/core'
 export type { Form, FormOptions, Field } from '../packages/forms'
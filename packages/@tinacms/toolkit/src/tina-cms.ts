@@ -105,6 +105,20 @@ export class TinaCMS extends CMS {
         level: 'error',
         message: 'Failed to delete file.',
       }),
+      'media:deleteMany:failure': () => ({
+        level: 'error',
+        message: 'Failed to delete files.',
+      }),
+      'media:folder:failure': (event: CMSEvent & { error: Error }) => ({
+        error: event.error,
+        level: 'error',
+        message: `Failed to create folder. See error message: \n\n ${event?.error.toString()}`,
+      }),
+      'media:move:failure': (event: CMSEvent & { error: Error }) => ({
+        error: event.error,
+        level: 'error',
+        message: `Failed to move file. See error message: \n\n ${event?.error.toString()}`,
+      }),
       ...alerts,
     })
 
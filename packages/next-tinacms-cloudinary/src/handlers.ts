@@ -3,7 +3,8 @@
 */
 
 import { v2 as cloudinary } from 'cloudinary'
-import type { Media, MediaListOptions } from '@tinacms/toolkit'
+import type { Media, MediaListOptions, MediaListSort } from '@tinacms/toolkit'
+import { MIME_TYPES, matchesMimeType } from '@tinacms/schema-tools'
 import path from 'path'
 import { NextApiRequest, NextApiResponse } from 'next'
 import multer from 'multer'
@@ -39,10 +40,20 @@ export const createMediaHandler = (
       res.status(401).json({ message: 'sorry this user is unauthorized' })
       return
     }
+    const [, action] = (req.query.media as string[]) || []
     switch (req.method) {
       case 'GET':
         return listMedia(req, res, options)
       case 'POST':
+        if (action === 'folder') {
+          return createFolder(req, res)
+        }
+        if (action === 'move') {
+          return moveAsset(req, res, options)
+        }
+        if (action === 'delete') {
+          return deleteAssets(req, res)
+        }
         return uploadMedia(req, res)
       case 'DELETE':
         return deleteAsset(req, res)
@@ -92,18 +103,36 @@ async function listMedia(
       directory = '""',
       limit = 500,
       offset,
-    } = req.query as MediaListOptions
+      search,
+      mimeTypes,
+      sort,
+      recursive,
+    } = req.query as MediaListQuery
 
     const useRootDirectory =
       !directory || directory === '/' || directory === '""'
+    const isRecursive = recursive === 'true'
 
-    const query = useRootDirectory ? 'folder=""' : `folder="${directory}"`
+    let query = useRootDirectory ? 'folder=""' : `folder="${directory}"`
+    if (isRecursive) {
+      query = useRootDirectory ? '' : `folder="${directory}/*"`
+    }
+    const expression = [
+      query,
+      searchExpression(search),
+      formatExpression(mimeTypes ? mimeTypes.split(',') : []),
+    ]
+      .filter(Boolean)
+      .join(' AND ')
 
-    const response = await cloudinary.search
-      .expression(query)
+    let request = cloudinary.search
+      .expression(expression)
       .max_results(limit)
       .next_cursor(offset as string)
-      .execute()
+    if (sort) {
+      request = request.sort_by(...SORT_BY[sort])
+    }
+    const response = await request.execute()
 
     const files = response.resources.map(getCloudinaryToTinaFunc(opts))
 
@@ -115,12 +144,15 @@ async function listMedia(
         return cloudinary.api.sub_folders(directory)
       }
     }
-    let folders: string[] = []
+    let folders: Media[] = []
     let folderRes = null
 
     try {
-      // @ts-ignore
-      folderRes = await cloudinary.api.folders(directory)
+      // the files of the sub-folders are listed instead of the sub-folders
+      if (!isRecursive) {
+        // @ts-ignore
+        folderRes = await cloudinary.api.folders(directory)
+      }
     } catch (e) {
       // If the folder doesn't exist, just return an empty array
       if (e.error?.message.startsWith("Can't find folder with path")) {
@@ -145,6 +177,14 @@ async function listMedia(
           directory: path.dirname(folder.path),
         }
       })
+      if (search) {
+        folders = folders.filter((folder) =>
+          folder.filename.toLowerCase().includes(search.toLowerCase())
+        )
+      }
+      if (sort) {
+        folders.sort((a, b) => a.filename.localeCompare(b.filename))
+      }
     }
 
     res.json({
@@ -159,6 +199,42 @@ async function listMedia(
   }
 }
 
+/**
+ * The list options as they are received in the query string
+ */
+type MediaListQuery = Omit<MediaListOptions, 'mimeTypes' | 'recursive'> & {
+  mimeTypes?: string
+  recursive?: string
+}
+
+const SORT_BY: Record<MediaListSort, [string, 'asc' | 'desc']> = {
+  name: ['public_id', 'asc'],
+  date: ['created_at', 'desc'],
+  size: ['bytes', 'desc'],
+}
+
+/**
+ * Cloudinary only supports wildcards at the end of a term, so
+ * this matches the filenames which start with a word of `search`
+ */
+const searchExpression = (search?: string) => {
+  const terms = (search || '').split(/[^\w-]+/).filter(Boolean)
+  return terms.map((term) => `filename:${term}*`).join(' AND ')
+}
+
+/**
+ * Cloudinary stores the extension of a file as its format
+ */
+const formatExpression = (mimeTypes: string[]) => {
+  if (!mimeTypes.length) return ''
+  const formats = Object.entries(MIME_TYPES)
+    .filter(([, mimeType]) => matchesMimeType(mimeType, mimeTypes))
+    .map(([extension]) => extension)
+  // no known format matches, so nothing should be listed
+  if (!formats.length) return 'format:none'
+  return `(${formats.map((format) => `format:${format}`).join(' OR ')})`
+}
+
 /**
  * we're getting inconsistent errors in this try-catch
  * sometimes we just get a string, sometimes we get the whole response.
@@ -184,6 +260,76 @@ async function deleteAsset(req: NextApiRequest, res: NextApiResponse) {
     })
   })
 }
+/**
+ * The body parser is disabled for the upload, so the JSON
+ * body of the other requests is read here
+ */
+async function readBody(req: NextApiRequest) {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  }
+  return JSON.parse(Buffer.concat(chunks).toString() || '{}')
+}
+
+async function createFolder(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { directory = '' } = await readBody(req)
+    const folder = directory.replace(/^\//, '').replace(/\/$/, '')
+    if (!folder) {
+      res.status(400).json({ message: 'A folder name is required' })
+      return
+    }
+    const result = await cloudinary.api.create_folder(folder)
+    res.json({
+      id: result.path,
+      type: 'dir',
+      filename: path.basename(result.path),
+      directory: path.dirname(result.path),
+    })
+  } catch (e) {
+    console.error('Error creating folder')
+    console.error(e)
+    res.status(500)
+    const message = findErrorMessage(e)
+    res.json({ e: message })
+  }
+}
+
+async function moveAsset(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  opts?: CloudinaryOptions
+) {
+  try {
+    const { id, directory = '', filename } = await readBody(req)
+    const folder = directory.replace(/^\//, '').replace(/\/$/, '')
+    const public_id = folder ? `${folder}/${filename}` : filename
+    const result = await cloudinary.uploader.rename(id, public_id)
+    res.json(getCloudinaryToTinaFunc(opts)(result))
+  } catch (e) {
+    console.error('Error moving media')
+    console.error(e)
+    res.status(500)
+    const message = findErrorMessage(e)
+    res.json({ e: message })
+  }
+}
+
+async function deleteAssets(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { ids = [] } = await readBody(req)
+    const result = await cloudinary.api.delete_resources(ids)
+    res.json(result)
+  } catch (e) {
+    console.error('Error deleting media')
+    console.error(e)
+    res.status(500)
+    const message = findErrorMessage(e)
+    res.json({ e: message })
+  }
+}
+
 function getCloudinaryToTinaFunc(opts: CloudinaryOptions) {
   return function cloudinaryToTina(file: any): Media {
     // TODO: I want to use this but it seams we might have to update our webpack config in order to do this in node
@@ -6,6 +6,7 @@ import type {
   Media,
   MediaList,
   MediaListOptions,
+  MediaMoveOptions,
   MediaStore,
   MediaUploadOptions,
 } from '@tinacms/toolkit'
@@ -62,6 +63,19 @@ export class DOSMediaStore implements MediaStore {
       method: 'DELETE',
     })
   }
+  async deleteMany(media: Media[]) {
+    await this.post('delete', { ids: media.map((item) => item.id) })
+  }
+  async createFolder(directory: string): Promise<Media> {
+    return this.post('folder', { directory })
+  }
+  async move(media: Media, options: MediaMoveOptions): Promise<Media> {
+    return this.post('move', {
+      id: media.id,
+      directory: options.directory,
+      filename: options.filename || media.filename,
+    })
+  }
   async list(options: MediaListOptions): Promise<MediaList> {
     const query = this.buildQuery(options)
     const response = await this.fetchFunction('/api/dos/media' + query)
@@ -88,10 +102,30 @@ export class DOSMediaStore implements MediaStore {
     return img.src
   }
 
+  private async post(action: string, body: object) {
+    const response = await this.fetchFunction(`/api/dos/media/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    })
+
+    if (response.status == 401) {
+      throw E_UNAUTHORIZED
+    }
+    if (response.status == 404) {
+      throw E_BAD_ROUTE
+    }
+    const result = await response.json()
+    if (response.status != 200) {
+      throw new Error(result.message || result.e)
+    }
+    return result
+  }
+
   private buildQuery(options: MediaListOptions) {
     const params = Object.keys(options)
       .filter((key) => options[key] !== '' && options[key] !== undefined)
-      .map((key) => `${key}=${options[key]}`)
+      .map((key) => `${key}=${encodeURIComponent(options[key])}`)
       .join('&')
 
     return `?${params}`
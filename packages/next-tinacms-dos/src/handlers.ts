@@ -12,18 +12,39 @@ import {
   PutObjectCommandInput,
   DeleteObjectCommand,
   DeleteObjectCommandInput,
+  DeleteObjectsCommand,
+  DeleteObjectsCommandInput,
+  CopyObjectCommand,
+  CopyObjectCommandInput,
 } from '@aws-sdk/client-s3'
-import type { Media, MediaListOptions } from '@tinacms/toolkit'
+import type { Media, MediaListOptions, MediaListSort } from '@tinacms/toolkit'
+import {
+  checkUpload,
+  detectMimeType,
+  getMimeType,
+  getUploadRules,
+  hasDimensionRules,
+  matchesMimeType,
+} from '@tinacms/schema-tools'
+import type { Schema, UploadRules } from '@tinacms/schema-tools'
 import path from 'path'
 import fs from 'fs'
+import os from 'os'
+import { randomBytes } from 'crypto'
 import { NextApiRequest, NextApiResponse } from 'next'
 import multer from 'multer'
+import imageSize from 'image-size'
 import { promisify } from 'util'
 
 export interface DOSConfig {
   config: S3ClientConfig
   bucket: string
   mediaRoot?: string
+  /**
+   * The schema of the site, uploads must meet the rules of one of its
+   * `image` fields. Uploads aren't checked without it
+   */
+  schema?: Schema
   authorized: (_req: NextApiRequest, _res: NextApiResponse) => Promise<boolean>
 }
 
@@ -55,6 +76,7 @@ export const createMediaHandler = (config: DOSConfig, options?: DOSOptions) => {
       .toString()
       .replace(/http(s|):\/\//i, `https://${bucket}.`)
   cdnUrl = cdnUrl + (cdnUrl.endsWith('/') ? '' : '/')
+  const uploadRules = config.schema ? getUploadRules(config.schema) : []
 
   return async (req: NextApiRequest, res: NextApiResponse) => {
     const isAuthorized = await config.authorized(req, res)
@@ -63,11 +85,29 @@ export const createMediaHandler = (config: DOSConfig, options?: DOSOptions) => {
       res.status(401).json({ message: 'sorry this user is unauthorized' })
       return
     }
+    const [, action] = (req.query.media as string[]) || []
     switch (req.method) {
       case 'GET':
         return listMedia(req, res, client, bucket, mediaRoot, cdnUrl)
       case 'POST':
-        return uploadMedia(req, res, client, bucket, mediaRoot, cdnUrl)
+        if (action === 'folder') {
+          return createFolder(req, res, client, bucket, mediaRoot)
+        }
+        if (action === 'move') {
+          return moveAsset(req, res, client, bucket, mediaRoot, cdnUrl)
+        }
+        if (action === 'delete') {
+          return deleteAssets(req, res, client, bucket)
+        }
+        return uploadMedia(
+          req,
+          res,
+          client,
+          bucket,
+          mediaRoot,
+          cdnUrl,
+          uploadRules
+        )
       case 'DELETE':
         return deleteAsset(req, res, client, bucket)
       default:
@@ -82,46 +122,54 @@ async function uploadMedia(
   client: S3Client,
   bucket: string,
   mediaRoot: string,
-  cdnUrl: string
+  cdnUrl: string,
+  uploadRules: UploadRules[]
 ) {
-  const upload = promisify(
-    multer({
-      storage: multer.diskStorage({
-        // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
-        // @ts-ignore
-        directory: (req, file, cb) => {
-          cb(null, '/tmp')
-        },
-        filename: (req, file, cb) => {
-          cb(null, file.originalname)
-        },
-      }),
-    }).single('file')
-  )
-  // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
-  // @ts-ignore
-  await upload(req, res)
-
-  const { directory } = req.body
-  let prefix = directory.replace(/^\//, '').replace(/\/$/, '')
-  if (prefix) prefix = prefix + '/'
-
-  // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
-  // @ts-ignore
-  const filePath = req.file.path
-  const blob = fs.readFileSync(filePath)
-  const filename = path.basename(filePath)
-  const params: PutObjectCommandInput = {
-    Bucket: bucket,
-    Key: mediaRoot
-      ? path.join(mediaRoot, prefix + filename)
-      : prefix + filename,
-    Body: blob,
-    ACL: 'public-read',
-  }
-  const command = new PutObjectCommand(params)
-
+  let filePath: string | undefined
   try {
+    const upload = promisify(
+      multer({
+        storage: multer.diskStorage({
+          destination: (req, file, cb) => {
+            cb(null, os.tmpdir())
+          },
+          // the original name is only used for the key of the object
+          filename: (req, file, cb) => {
+            cb(null, `tina-upload-${randomBytes(16).toString('hex')}`)
+          },
+        }),
+        // multer removes the files of a request which sends several
+        limits: { files: 1 },
+      }).single('file')
+    )
+    // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
+    // @ts-ignore
+    await upload(req, res)
+
+    const { directory } = req.body
+    let prefix = directory.replace(/^\//, '').replace(/\/$/, '')
+    if (prefix) prefix = prefix + '/'
+
+    // eslint-disable-next-line @typescript-eslint/ban-ts-ignore
+    // @ts-ignore
+    const file: { path: string; originalname: string } = req.file
+    filePath = file.path
+    const blob = fs.readFileSync(filePath)
+    const filename = path.basename(file.originalname)
+    const errors = findUploadErrors(filename, filePath, blob, uploadRules)
+    if (errors.length) {
+      res.status(400).json({ message: errors.join('. ') })
+      return
+    }
+    const params: PutObjectCommandInput = {
+      Bucket: bucket,
+      Key: mediaRoot
+        ? path.join(mediaRoot, prefix + filename)
+        : prefix + filename,
+      Body: blob,
+      ACL: 'public-read',
+    }
+    const command = new PutObjectCommand(params)
     const src = cdnUrl + prefix + filename
     await client.send(command)
     res.json({
@@ -144,6 +192,12 @@ async function uploadMedia(
     console.error('Error uploading media')
     console.error(e)
     res.status(500).send(findErrorMessage(e))
+  } finally {
+    if (filePath) {
+      await fs.promises.unlink(filePath).catch(() => {
+        // the file was already removed
+      })
+    }
   }
 }
 
@@ -178,10 +232,31 @@ async function listMedia(
       directory = '',
       limit = 500,
       offset,
-    } = req.query as MediaListOptions
+      search,
+      mimeTypes,
+      sort,
+      recursive,
+    } = req.query as MediaListQuery
     let prefix = directory.replace(/^\//, '').replace(/\/$/, '')
     if (prefix) prefix = prefix + '/'
 
+    if (search || mimeTypes || sort || recursive === 'true') {
+      const items = await listFilteredMedia(client, bucket, mediaRoot, cdnUrl, {
+        prefix,
+        search,
+        mimeTypes: mimeTypes ? mimeTypes.split(',') : [],
+        sort,
+        recursive: recursive === 'true',
+      })
+      const start = Number(offset) || 0
+      const end = start + Number(limit)
+      res.json({
+        items: items.slice(start, end),
+        offset: items.length > end ? end : undefined,
+      })
+      return
+    }
+
     const params: ListObjectsCommandInput = {
       Bucket: bucket,
       Delimiter: '/',
@@ -229,6 +304,129 @@ async function listMedia(
   }
 }
 
+/**
+ * The list options as they are received in the query string
+ */
+type MediaListQuery = Omit<MediaListOptions, 'mimeTypes' | 'recursive'> & {
+  mimeTypes?: string
+  recursive?: string
+}
+
+/**
+ * The bucket can't be searched, filtered or sorted, so every object
+ * below the prefix is listed before doing so
+ */
+async function listFilteredMedia(
+  client: S3Client,
+  bucket: string,
+  mediaRoot: string,
+  cdnUrl: string,
+  options: {
+    prefix: string
+    search?: string
+    mimeTypes: string[]
+    sort?: MediaListSort
+    recursive: boolean
+  }
+): Promise<Media[]> {
+  const prefixes: string[] = []
+  const files: _Object[] = []
+  let marker: string | undefined
+  do {
+    const response = await client.send(
+      new ListObjectsCommand({
+        Bucket: bucket,
+        Delimiter: options.recursive ? undefined : '/',
+        Prefix: mediaRoot
+          ? path.join(mediaRoot, options.prefix)
+          : options.prefix,
+        Marker: marker,
+      })
+    )
+    response.CommonPrefixes?.forEach(({ Prefix }) => prefixes.push(Prefix))
+    files.push(...(response.Contents || []))
+    // the next marker is only returned when a delimiter is used
+    marker = response.IsTruncated
+      ? response.NextMarker || files[files.length - 1]?.Key
+      : undefined
+  } while (marker)
+
+  const search = options.search?.toLowerCase()
+  const matchesSearch = (key: string) =>
+    !search || path.basename(key).toLowerCase().includes(search)
+
+  const directories = prefixes
+    .filter((prefix) => stripMediaRoot(mediaRoot, prefix))
+    .filter(matchesSearch)
+    .sort((a, b) =>
+      options.sort ? path.basename(a).localeCompare(path.basename(b)) : 0
+    )
+    .map((prefix): Media => {
+      const strippedPrefix = stripMediaRoot(mediaRoot, prefix)
+      return {
+        id: prefix,
+        type: 'dir',
+        filename: path.basename(strippedPrefix),
+        directory: path.dirname(strippedPrefix),
+      }
+    })
+
+  return [
+    ...directories,
+    ...files
+      // folders are stored as empty objects ending with a slash
+      .filter((file) => !file.Key.endsWith('/'))
+      .filter((file) => matchesSearch(file.Key))
+      .filter(
+        (file) =>
+          !options.mimeTypes.length ||
+          matchesMimeType(getMimeType(file.Key), options.mimeTypes)
+      )
+      .sort((a, b) => compareObjects(a, b, options.sort))
+      .map(getDOSToTinaFunc(cdnUrl, mediaRoot)),
+  ]
+}
+
+/**
+ * The reasons why the uploaded file doesn't meet the rules of any `image`
+ * field. The media manager checks them too but its requests can't be
+ * trusted, so the type of the file is read from its content
+ */
+const findUploadErrors = (
+  name: string,
+  filePath: string,
+  blob: Buffer,
+  rules: UploadRules[]
+) => {
+  const mimeType = detectMimeType(blob.subarray(0, 4096), name)
+  let dimensions: { width?: number; height?: number } = {}
+  if (hasDimensionRules(rules) && mimeType.startsWith('image/')) {
+    try {
+      const { width, height } = imageSize(filePath)
+      dimensions = { width, height }
+    } catch (e) {
+      // images which can't be measured, like svgs without a size, pass
+    }
+  }
+  return checkUpload(
+    { name, size: blob.length, mimeType, ...dimensions },
+    rules
+  )
+}
+
+const compareObjects = (a: _Object, b: _Object, sort?: MediaListSort) => {
+  switch (sort) {
+    case 'name':
+      return path.basename(a.Key).localeCompare(path.basename(b.Key))
+    case 'date':
+      return (b.LastModified?.getTime() || 0) - (a.LastModified?.getTime() || 0)
+    case 'size':
+      return (b.Size || 0) - (a.Size || 0)
+    default:
+      return 0
+  }
+}
+
 /**
  * we're getting inconsistent errors in this try-catch
  * sometimes we just get a string, sometimes we get the whole response.
@@ -267,6 +465,197 @@ async function deleteAsset(
   }
 }
 
+/**
+ * The body parser is disabled for the upload, so the JSON
+ * body of the other requests is read here
+ */
+async function readBody(req: NextApiRequest) {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk)
+  }
+  return JSON.parse(Buffer.concat(chunks).toString() || '{}')
+}
+
+function toPrefix(directory: string) {
+  const prefix = (directory || '').replace(/^\//, '').replace(/\/$/, '')
+  return prefix ? prefix + '/' : ''
+}
+
+/**
+ * A Digital Ocean Space has no folders, an empty object ending with a slash
+ * makes an empty folder show up when listing its parent
+ */
+async function createFolder(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  client: S3Client,
+  bucket: string,
+  mediaRoot: string
+) {
+  try {
+    const { directory } = await readBody(req)
+    const prefix = toPrefix(directory)
+    if (!prefix) {
+      res.status(400).json({ message: 'A folder name is required' })
+      return
+    }
+    const params: PutObjectCommandInput = {
+      Bucket: bucket,
+      Key: mediaRoot ? path.join(mediaRoot, prefix) : prefix,
+      Body: '',
+    }
+    await client.send(new PutObjectCommand(params))
+    res.json({
+      id: params.Key,
+      type: 'dir',
+      filename: path.basename(prefix),
+      directory: path.dirname(prefix),
+    })
+  } catch (e) {
+    console.error('Error creating folder')
+    console.error(e)
+    res.status(500)
+    const message = findErrorMessage(e)
+    res.json({ e: message })
+  }
+}
+
+async function moveAsset(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  client: S3Client,
+  bucket: string,
+  mediaRoot: string,
+  cdnUrl: string
+) {
+  try {
+    const { id, directory, filename } = await readBody(req)
+    if (!id || !filename) {
+      res.status(400).json({ message: 'A media id and filename are required' })
+      return
+    }
+    const prefix = toPrefix(directory)
+    const key = mediaRoot
+      ? path.join(mediaRoot, prefix + filename)
+      : prefix + filename
+    if (id.endsWith('/')) {
+      const folderKey = key + '/'
+      if (folderKey !== id && folderKey.startsWith(id)) {
+        res
+          .status(400)
+          .json({ message: 'A folder can not be moved into itself' })
+        return
+      }
+      if (folderKey !== id) {
+        await moveFolder(client, bucket, id, folderKey)
+      }
+      const strippedKey = stripMediaRoot(mediaRoot, folderKey)
+      res.json({
+        id: folderKey,
+        type: 'dir',
+        filename: path.basename(strippedKey),
+        directory: path.dirname(strippedKey),
+      })
+      return
+    }
+    if (key !== id) {
+      await copyObject(client, bucket, id, key)
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: id }))
+    }
+    res.json(getDOSToTinaFunc(cdnUrl, mediaRoot)({ Key: key }))
+  } catch (e) {
+    console.error('Error moving media')
+    console.error(e)
+    res.status(500)
+    const message = findErrorMessage(e)
+    res.json({ e: message })
+  }
+}
+
+function copyObject(
+  client: S3Client,
+  bucket: string,
+  from: string,
+  to: string
+) {
+  const params: CopyObjectCommandInput = {
+    Bucket: bucket,
+    CopySource: encodeURI(`${bucket}/${from}`),
+    Key: to,
+    ACL: 'public-read',
+  }
+  return client.send(new CopyObjectCommand(params))
+}
+
+/**
+ * Spaces have no folders, so every object below the prefix of the folder is
+ * copied to the new prefix, the old objects are only deleted once all of
+ * them have been copied
+ */
+async function moveFolder(
+  client: S3Client,
+  bucket: string,
+  from: string,
+  to: string
+) {
+  const keys: string[] = []
+  let marker: string | undefined
+  do {
+    const response = await client.send(
+      new ListObjectsCommand({ Bucket: bucket, Prefix: from, Marker: marker })
+    )
+    const contents = response.Contents || []
+    keys.push(...contents.map((file) => file.Key))
+    marker = response.IsTruncated
+      ? contents[contents.length - 1]?.Key
+      : undefined
+  } while (marker)
+
+  for (const key of keys) {
+    await copyObject(client, bucket, key, to + key.substring(from.length))
+  }
+  // a request deletes at most 1000 objects
+  for (let start = 0; start < keys.length; start += 1000) {
+    await client.send(
+      new DeleteObjectsCommand({
+        Bucket: bucket,
+        Delete: {
+          Objects: keys.slice(start, start + 1000).map((key) => ({ Key: key })),
+        },
+      })
+    )
+  }
+}
+
+async function deleteAssets(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  client: S3Client,
+  bucket: string
+) {
+  try {
+    const { ids = [] } = await readBody(req)
+    const params: DeleteObjectsCommandInput = {
+      Bucket: bucket,
+      Delete: {
+        Objects: ids.map((id: string) => ({ Key: id })),
+      },
+    }
+    const data = await client.send(new DeleteObjectsCommand(params))
+    if (data.Errors?.length) {
+      throw new Error(data.Errors.map((error) => error.Message).join(', '))
+    }
+    res.json(data)
+  } catch (e) {
+    console.error('Error deleting media')
+    console.error(e)
+    res.status(500)
+    const message = findErrorMessage(e)
+    res.json({ e: message })
+  }
+}
+
 function getDOSToTinaFunc(cdnUrl: string, mediaRoot: string) {
   return function dosToTina(file: _Object): Media {
     const strippedKey = stripMediaRoot(mediaRoot, file.Key)
@@ -3,9 +3,17 @@ import { print, buildSchema } from 'graphql'
 
 import { diff } from '@graphql-inspector/core'
 
-import type { TinaSchema } from '@tinacms/schema-tools'
+import { isOperationAllowed } from '@tinacms/schema-tools'
+import type { CollectionOperation, TinaSchema } from '@tinacms/schema-tools'
 import type { Client } from '../internalClient'
-import type { CollectionResponse, DocumentForm } from './types'
+import type {
+  CollectionResponse,
+  DocumentDeleteImpactResponse,
+  DocumentForm,
+  DocumentHistoryResponse,
+  DocumentReferrersResponse,
+  DocumentTranslationsResponse,
+} from './types'
 
 export interface FilterArgs {
   filterField: string
@@ -15,6 +23,16 @@ export interface FilterArgs {
   booleanEquals?: boolean
 }
 
+/**
+ * A secondary sort, applied to documents which share the primary sort value
+ */
+export interface SortArgs {
+  name: string
+  order?: 'asc' | 'desc'
+}
+
+export type CollectionPermissions = Record<CollectionOperation, boolean>
+
 export class TinaAdminApi {
   api: Client
   useDataLayer: boolean
@@ -43,6 +61,32 @@ export class TinaAdminApi {
   fetchCollections() {
     return this.schema.getCollections()
   }
+
+  /**
+   * The operations the user may perform on the documents of the collection,
+   * everything is allowed unless the config has `roles` and `getUser`
+   * resolves with the `roles` of the user
+   */
+  async fetchPermissions(
+    collectionName: string
+  ): Promise<CollectionPermissions> {
+    const roles = this.schema.schema.config?.admin?.auth?.roles
+    const user = roles ? await this.api.getUser() : null
+    const allowed = (operation: CollectionOperation) =>
+      !Array.isArray(user?.roles) ||
+      isOperationAllowed({
+        roles,
+        user,
+        collection: collectionName,
+        operation,
+      })
+    return {
+      read: allowed('read'),
+      create: allowed('create'),
+      update: allowed('update'),
+      delete: allowed('delete'),
+    }
+  }
   async renameDocument({ collection, relativePath, newRelativePath }) {
     await this.api.request(
       `#graphql
@@ -56,6 +100,170 @@ export class TinaAdminApi {
     )
   }
 
+  /**
+   * The documents which will be updated when renaming the document or
+   * folder at `relativePath`
+   */
+  async fetchDocumentReferrers({
+    collection,
+    relativePath,
+  }: {
+    collection: string
+    relativePath: string
+  }) {
+    const response: { documentReferrers: DocumentReferrersResponse } =
+      await this.api.request(
+        `#graphql
+      query($collection: String!, $relativePath: String!) {
+        documentReferrers(collection: $collection, relativePath: $relativePath) {
+          documentCount
+          totalCount
+          paths
+        }
+      }`,
+        { variables: { collection, relativePath } }
+      )
+    return response.documentReferrers
+  }
+
+  /**
+   * The documents which will be affected by deleting the document at `relativePath`
+   */
+  async fetchDocumentDeleteImpact({
+    collection,
+    relativePath,
+  }: {
+    collection: string
+    relativePath: string
+  }) {
+    const response: { documentDeleteImpact: DocumentDeleteImpactResponse } =
+      await this.api.request(
+        `#graphql
+      query($collection: String!, $relativePath: String!) {
+        documentDeleteImpact(collection: $collection, relativePath: $relativePath) {
+          restricted
+          nullified
+          cascaded
+        }
+      }`,
+        { variables: { collection, relativePath } }
+      )
+    return response.documentDeleteImpact
+  }
+
+  /**
+   * The revisions of the document at `relativePath`, most recent first
+   */
+  async fetchDocumentHistory({
+    collection,
+    relativePath,
+    first,
+    after,
+  }: {
+    collection: string
+    relativePath: string
+    first?: number
+    after?: string
+  }) {
+    const response: {
+      document: { _sys: { history: DocumentHistoryResponse } }
+    } = await this.api.request(
+      `#graphql
+      query($collection: String!, $relativePath: String!, $first: Float, $after: String) {
+        document(collection: $collection, relativePath: $relativePath) {
+          ... on Document {
+            _sys {
+              history(first: $first, after: $after) {
+                totalCount
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+                edges {
+                  node {
+                    ref
+                    message
+                    date
+                    author {
+                      name
+                      email
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }`,
+      { variables: { collection, relativePath, first, after } }
+    )
+    return response.document._sys.history
+  }
+
+  /**
+   * The values of the document at `relativePath` at a previous revision
+   */
+  async fetchDocumentAtRevision({
+    collection,
+    relativePath,
+    ref,
+  }: {
+    collection: string
+    relativePath: string
+    ref: string
+  }) {
+    const response: { documentAtRevision: DocumentForm } =
+      await this.api.request(
+        `#graphql
+      query($collection: String!, $relativePath: String!, $ref: String!) {
+        documentAtRevision(collection: $collection, relativePath: $relativePath, ref: $ref) {
+          ... on Document {
+            _values
+          }
+        }
+      }`,
+        { variables: { collection, relativePath, ref } }
+      )
+    return response.documentAtRevision
+  }
+
+  /**
+   * The locale of the document at `relativePath` and its translations,
+   * for collections with `i18n`
+   */
+  async fetchDocumentTranslations({
+    collection,
+    relativePath,
+  }: {
+    collection: string
+    relativePath: string
+  }) {
+    const response: { document: { _sys: DocumentTranslationsResponse } } =
+      await this.api.request(
+        `#graphql
+      query($collection: String!, $relativePath: String!) {
+        document(collection: $collection, relativePath: $relativePath) {
+          ... on Document {
+            _sys {
+              locale
+              translations {
+                ... on Document {
+                  _sys {
+                    locale
+                    breadcrumbs
+                  }
+                  _values
+                }
+              }
+            }
+          }
+        }
+      }`,
+        { variables: { collection, relativePath } }
+      )
+    return response.document._sys
+  }
+
   async deleteDocument({
     collection,
     relativePath,
@@ -80,7 +288,8 @@ export class TinaAdminApi {
     after?: string,
     sortKey?: string,
     order?: 'asc' | 'desc',
-    filterArgs?: FilterArgs
+    filterArgs?: FilterArgs,
+    thenBy?: SortArgs
   ) {
     let filter = null
     const filterField = filterArgs?.filterField
@@ -124,17 +333,33 @@ export class TinaAdminApi {
 
     if (includeDocuments === true) {
       const sort = sortKey || this.schema.getIsTitleFieldName(collectionName)
+      // publishing collections need the document values to show their status
+      const includeValues = Boolean(
+        this.schema.getCollection(collectionName).publishing
+      )
+      const orderBy = sort
+        ? [
+            { field: sort, order: order === 'desc' ? 'DESC' : 'ASC' },
+            ...(thenBy?.name && thenBy.name !== sort
+              ? [
+                  {
+                    field: thenBy.name,
+                    order: thenBy.order === 'desc' ? 'DESC' : 'ASC',
+                  },
+                ]
+              : []),
+          ]
+        : null
       const response: { collection: CollectionResponse } =
-        order === 'asc'
-          ? await this.api.request(
-              `#graphql
-      query($collection: String!, $includeDocuments: Boolean!, $sort: String,  $limit: Float, $after: String, $filter: DocumentFilter, $folder: String){
+        await this.api.request(
+          `#graphql
+      query($collection: String!, $includeDocuments: Boolean!, $orderBy: [DocumentSort], $limit: Float, $after: String, $filter: DocumentFilter, $folder: String, $includeValues: Boolean!){
         collection(collection: $collection){
           name
           label
           format
           templates
-          documents(sort: $sort, after: $after, first: $limit, filter: $filter, folder: $folder) @include(if: $includeDocuments) {
+          documents(orderBy: $orderBy, after: $after, first: $limit, filter: $filter, folder: $folder, status: all) @include(if: $includeDocuments) {
             totalCount
             pageInfo {
               hasPreviousPage
@@ -160,76 +385,26 @@ export class TinaAdminApi {
                     filename
                     extension
                   }
+                  _values @include(if: $includeValues)
                 }
               }
             }
           }
         }
       }`,
-              {
-                variables: {
-                  collection: collectionName,
-                  includeDocuments,
-                  folder,
-                  sort,
-                  limit: 50,
-                  after,
-                  filter,
-                },
-              }
-            )
-          : await this.api.request(
-              `#graphql
-      query($collection: String!, $includeDocuments: Boolean!, $sort: String,  $limit: Float, $after: String, $filter: DocumentFilter, $folder: String) {
-        collection(collection: $collection){
-          name
-          label
-          format
-          templates
-          documents(sort: $sort, before: $after, last: $limit, filter: $filter, folder: $folder) @include(if: $includeDocuments) {
-            totalCount
-            pageInfo {
-              hasPreviousPage
-              hasNextPage
-              startCursor
-              endCursor
-            }
-            edges {
-              node {
-                __typename
-                ... on Folder {
-                    name
-                    path
-                }
-                ... on Document {
-                  _sys {
-                    title
-                    template
-                    breadcrumbs
-                    path
-                    basename
-                    relativePath
-                    filename
-                    extension
-                  }
-                }
-              }
-            }
+          {
+            variables: {
+              collection: collectionName,
+              includeDocuments,
+              includeValues,
+              folder,
+              orderBy,
+              limit: 50,
+              after,
+              filter,
+            },
           }
-        }
-      }`,
-              {
-                variables: {
-                  collection: collectionName,
-                  includeDocuments,
-                  folder,
-                  sort,
-                  limit: 50,
-                  after,
-                  filter,
-                },
-              }
-            )
+        )
 
       return response.collection
     } else {
@@ -254,6 +429,10 @@ export class TinaAdminApi {
         document(collection:$collection, relativePath:$relativePath) {
           ... on Document {
             _values
+            _sys {
+              path
+              hash
+            }
           }
         }
       }`,
@@ -289,25 +468,40 @@ export class TinaAdminApi {
     return response
   }
 
+  /**
+   * With `ifMatch`, the update fails when the content file no longer has that hash
+   */
   async updateDocument(
     collectionName: string,
     relativePath: string,
-    params: Object
+    params: Object,
+    { ifMatch }: { ifMatch?: string } = {}
   ) {
-    const response = await this.api.request(
+    const response: {
+      updateDocument: { _sys?: { hash?: string | null } }
+    } = await this.api.request(
       `#graphql
-      mutation($collection: String!, $relativePath: String!, $params: DocumentUpdateMutation!) {
+      mutation($collection: String!, $relativePath: String!, $params: DocumentUpdateMutation!, $ifMatch: String) {
         updateDocument(
           collection: $collection,
           relativePath: $relativePath,
-          params: $params
-        ){__typename}
+          params: $params,
+          ifMatch: $ifMatch
+        ){
+          __typename
+          ... on Document {
+            _sys {
+              hash
+            }
+          }
+        }
       }`,
       {
         variables: {
           collection: collectionName,
           relativePath,
           params,
+          ifMatch,
         },
       }
     )
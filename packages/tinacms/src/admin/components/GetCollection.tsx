@@ -36,12 +36,13 @@ export const useGetCollection = (
 
     const fetchCollection = async () => {
       if ((await api.isAuthenticated()) && !folder.loading && !cancelled) {
-        const { name, order } = JSON.parse(sortKey || '{}')
-        const validSortKey = collectionExtra.fields
-          ?.map((x) => x.name)
-          .includes(name)
-          ? name
-          : undefined
+        const { name, order, then } = JSON.parse(sortKey || '{}')
+        const fieldNames = collectionExtra.fields?.map((x) => x.name) || []
+        const validSortKey = fieldNames.includes(name) ? name : undefined
+        const validThenBy =
+          validSortKey && then && fieldNames.includes(then.name)
+            ? then
+            : undefined
         try {
           const collection = await api.fetchCollection(
             collectionName,
@@ -50,7 +51,8 @@ export const useGetCollection = (
             after,
             validSortKey,
             order,
-            filterArgs
+            filterArgs,
+            validThenBy
           )
           setCollection(collection)
         } catch (error) {
@@ -16,7 +16,6 @@ export const PageWrapper = ({
   children: React.ReactChild | React.ReactChildren
 }) => {
   const cms = useCMS()
-  const isLocalMode = cms.api?.tina?.isLocalMode
 
   const [branchingEnabled, setBranchingEnabled] = React.useState(() =>
     cms.flags.get('branch-switcher')
@@ -31,7 +30,7 @@ export const PageWrapper = ({
 
   return (
     <div className="relative left-0 w-full h-full bg-gradient-to-b from-gray-50/50 to-gray-50 shadow-2xl overflow-y-auto transition-opacity duration-300 ease-out flex flex-col opacity-100">
-      {branchingEnabled && !isLocalMode && <BranchBanner />}
+      {branchingEnabled && <BranchBanner />}
       {children}
     </div>
   )
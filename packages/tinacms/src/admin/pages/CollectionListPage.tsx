@@ -39,6 +39,8 @@ import {
 } from '@tinacms/toolkit'
 import type {
   CollectionResponse,
+  DocumentDeleteImpactResponse,
+  DocumentReferrersResponse,
   DocumentSys,
   TemplateResponse,
 } from '../types'
@@ -47,8 +49,13 @@ import GetCollection from '../components/GetCollection'
 import { RouteMappingPlugin } from '../plugins/route-mapping'
 import { PageBody, PageHeader, PageWrapper } from '../components/Page'
 import { TinaAdminApi } from '../api'
-import type { Collection } from '@tinacms/schema-tools'
-import { CollectionFolder, useCollectionFolder } from './utils'
+import { getPublishStatus } from '@tinacms/schema-tools'
+import type { Collection, PublishStatus } from '@tinacms/schema-tools'
+import {
+  CollectionFolder,
+  useCollectionFolder,
+  useCollectionPermissions,
+} from './utils'
 
 const LOCAL_STORAGE_KEY = 'tinacms.admin.collection.list.page'
 const isSSR = typeof window === 'undefined'
@@ -179,6 +186,7 @@ const CollectionListPage = () => {
   const { collectionName } = useParams()
   const [deleteModalOpen, setDeleteModalOpen] = React.useState(false)
   const [renameModalOpen, setRenameModalOpen] = React.useState(false)
+  const [isFolderRename, setIsFolderRename] = React.useState(false)
   const [vars, setVars] = React.useState({
     collection: collectionName,
     relativePath: '',
@@ -203,10 +211,23 @@ const CollectionListPage = () => {
             name: '',
           })
   )
-  const { order = 'asc', name: sortName } = JSON.parse(sortKey || '{}')
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>(order)
+  const {
+    order = 'asc',
+    name: sortName,
+    then: thenBy,
+  } = JSON.parse(sortKey || '{}')
+  const updateSortKey = (value: string) => {
+    setEndCursor('')
+    setPrevCursors([])
+    window?.localStorage.setItem(
+      `${LOCAL_STORAGE_KEY}.${collectionName}`,
+      value
+    )
+    setSortKey(value)
+  }
   const loc = useLocation()
   const folder = useCollectionFolder()
+  const permissions = useCollectionPermissions(collectionName)
   useEffect(() => {
     // set sort key to cached value on route change
     setSortKey(
@@ -311,9 +332,15 @@ const CollectionListPage = () => {
                 )
 
                 const allowCreate =
-                  collectionDefinition?.ui?.allowedActions?.create ?? true
+                  (collectionDefinition?.ui?.allowedActions?.create ?? true) &&
+                  permissions.create
                 const allowDelete =
-                  collectionDefinition?.ui?.allowedActions?.delete ?? true
+                  (collectionDefinition?.ui?.allowedActions?.delete ?? true) &&
+                  permissions.delete
+                // renaming moves the document, which the server allows with the update permission
+                const allowRename =
+                  (collectionDefinition?.ui?.allowedActions?.delete ?? true) &&
+                  permissions.update
 
                 const folderView = folder.fullyQualifiedName !== ''
 
@@ -322,6 +349,12 @@ const CollectionListPage = () => {
                     {deleteModalOpen && (
                       <DeleteModal
                         filename={vars.relativePath}
+                        fetchImpact={() =>
+                          admin.fetchDocumentDeleteImpact({
+                            collection: vars.collection,
+                            relativePath: vars.relativePath,
+                          })
+                        }
                         deleteFunc={async () => {
                           try {
                             await admin.deleteDocument(vars)
@@ -342,26 +375,41 @@ const CollectionListPage = () => {
                     {renameModalOpen && (
                       <RenameModal
                         filename={vars.relativePath}
+                        isFolder={isFolderRename}
                         newRelativePath={vars.newRelativePath}
                         setNewRelativePath={(newRelativePath) => {
                           setVars((vars) => {
                             return { ...vars, newRelativePath }
                           })
                         }}
+                        fetchReferrers={() =>
+                          admin.fetchDocumentReferrers({
+                            collection: vars.collection,
+                            relativePath: vars.relativePath,
+                          })
+                        }
                         renameFunc={async () => {
-                          // add the file extension
-                          const newRelativePath = `${vars.newRelativePath}.${collection.format}`
+                          // add the file extension, folders are moved as they are
+                          const newRelativePath = isFolderRename
+                            ? vars.newRelativePath
+                            : `${vars.newRelativePath}.${collection.format}`
                           try {
                             await admin.renameDocument({
                               collection: vars.collection,
                               relativePath: vars.relativePath,
                               newRelativePath,
                             })
-                            cms.alerts.info('Document was successfully renamed')
+                            cms.alerts.info(
+                              isFolderRename
+                                ? 'Folder was successfully moved'
+                                : 'Document was successfully renamed'
+                            )
                             reFetchCollection()
                           } catch (error) {
                             cms.alerts.warn(
-                              'Document was not renamed, ask a developer for help or check the console for an error message'
+                              isFolderRename
+                                ? 'Folder was not moved, ask a developer for help or check the console for an error message'
+                                : 'Document was not renamed, ask a developer for help or check the console for an error message'
                             )
                             console.error(error)
                             throw error
@@ -430,21 +478,101 @@ const CollectionListPage = () => {
                                     input={{
                                       id: 'sort',
                                       name: 'sort',
-                                      value: sortKey,
+                                      // the secondary sort is stored alongside the primary one
+                                      value: sortName
+                                        ? JSON.stringify({
+                                            name: sortName,
+                                            order,
+                                          })
+                                        : JSON.stringify({
+                                            order: 'asc',
+                                            name: '',
+                                          }),
                                       onChange: (e) => {
                                         const val = JSON.parse(e.target.value)
-                                        setEndCursor('')
-                                        setPrevCursors([])
-                                        window?.localStorage.setItem(
-                                          `${LOCAL_STORAGE_KEY}.${collectionName}`,
-                                          e.target.value
+                                        updateSortKey(
+                                          JSON.stringify({
+                                            ...val,
+                                            // keep the secondary sort unless it's now the primary one
+                                            ...(val.name &&
+                                            thenBy &&
+                                            thenBy.name !== val.name
+                                              ? { then: thenBy }
+                                              : {}),
+                                          })
                                         )
-                                        setSortKey(e.target.value)
-                                        setSortOrder(val.order)
                                       },
                                     }}
                                   />
                                 </div>
+                                {sortField && (
+                                  <div className="flex flex-col gap-2 items-start">
+                                    <label
+                                      htmlFor="thenBy"
+                                      className="block font-sans text-xs font-semibold text-gray-500 whitespace-normal"
+                                    >
+                                      Then by
+                                    </label>
+                                    <Select
+                                      name="thenBy"
+                                      options={[
+                                        {
+                                          label: 'None',
+                                          value: '',
+                                        },
+                                        ...fields
+                                          .filter((x) => x.name !== sortName)
+                                          .map((x) => [
+                                            {
+                                              label:
+                                                (x.label || x.name) +
+                                                (x.type === 'datetime'
+                                                  ? ' (Oldest First)'
+                                                  : ' (Ascending)'),
+                                              value: JSON.stringify({
+                                                name: x.name,
+                                                order: 'asc',
+                                              }),
+                                            },
+                                            {
+                                              label:
+                                                (x.label || x.name) +
+                                                (x.type === 'datetime'
+                                                  ? ' (Newest First)'
+                                                  : ' (Descending)'),
+                                              value: JSON.stringify({
+                                                name: x.name,
+                                                order: 'desc',
+                                              }),
+                                            },
+                                          ])
+                                          .flat(),
+                                      ]}
+                                      input={{
+                                        id: 'thenBy',
+                                        name: 'thenBy',
+                                        value: thenBy
+                                          ? JSON.stringify({
+                                              name: thenBy.name,
+                                              order: thenBy.order,
+                                            })
+                                          : '',
+                                        onChange: (e) => {
+                                          const val = e.target.value
+                                          updateSortKey(
+                                            JSON.stringify({
+                                              name: sortName,
+                                              order,
+                                              ...(val
+                                                ? { then: JSON.parse(val) }
+                                                : {}),
+                                            })
+                                          )
+                                        },
+                                      }}
+                                    />
+                                  </div>
+                                )}
                                 <form className="flex flex-wrap gap-4 items-end">
                                   <div className="flex flex-shrink-0 flex-col gap-2 items-start">
                                     <label
@@ -742,7 +870,7 @@ const CollectionListPage = () => {
                                       </td>
                                       <td
                                         className="px-3 py-3 truncate max-w-0"
-                                        colSpan={4}
+                                        colSpan={3}
                                       >
                                         <span className="block text-xs text-gray-400 mb-1 uppercase">
                                           Path
@@ -765,6 +893,35 @@ const CollectionListPage = () => {
                                             })}
                                         </span>
                                       </td>
+                                      <td className="w-0">
+                                        <OverflowMenu
+                                          toolbarItems={[
+                                            allowRename && {
+                                              name: 'rename',
+                                              label: 'Rename',
+                                              Icon: (
+                                                <BiRename
+                                                  size="1.3rem"
+                                                  className="text-red-500"
+                                                />
+                                              ),
+                                              onMouseDown: () => {
+                                                setVars((old) => ({
+                                                  ...old,
+                                                  collection: collectionName,
+                                                  relativePath:
+                                                    document.node.path.substring(
+                                                      2
+                                                    ),
+                                                  newRelativePath: '',
+                                                }))
+                                                setIsFolderRename(true)
+                                                setRenameModalOpen(true)
+                                              },
+                                            },
+                                          ].filter(Boolean)}
+                                        />
+                                      </td>
                                     </tr>
                                   )
                                 }
@@ -816,6 +973,13 @@ const CollectionListPage = () => {
                                                 ? document.node._sys?.title
                                                 : document.node._sys.filename}
                                             </span>
+                                            {collectionExtra.publishing && (
+                                              <PublishStatusBadge
+                                                status={getPublishStatus(
+                                                  document.node._values || {}
+                                                )}
+                                              />
+                                            )}
                                           </span>
                                         </span>
                                       </a>
@@ -921,7 +1085,7 @@ const CollectionListPage = () => {
                                               setDeleteModalOpen(true)
                                             },
                                           },
-                                          allowDelete && {
+                                          allowRename && {
                                             name: 'rename',
                                             label: 'Rename',
                                             Icon: (
@@ -941,6 +1105,7 @@ const CollectionListPage = () => {
                                                   document.node._sys.extension,
                                                 newRelativePath: '',
                                               }))
+                                              setIsFolderRename(false)
                                               setRenameModalOpen(true)
                                             },
                                           },
@@ -958,11 +1123,7 @@ const CollectionListPage = () => {
                         <div className="pt-4">
                           <CursorPaginator
                             variant="white"
-                            hasNext={
-                              sortOrder === 'asc'
-                                ? pageInfo?.hasNextPage
-                                : pageInfo.hasPreviousPage
-                            }
+                            hasNext={pageInfo?.hasNextPage}
                             navigateNext={() => {
                               const newState = [...prevCursors, endCursor]
                               setPrevCursors(newState)
@@ -1062,9 +1223,50 @@ const Breadcrumb = ({ folder, navigate, collectionName }) => {
 interface ResetModalProps {
   close(): void
   deleteFunc(): void
+  fetchImpact(): Promise<DocumentDeleteImpactResponse>
   filename: string
 }
 
+const DocumentPathList = ({
+  title,
+  paths,
+}: {
+  title: string
+  paths: string[]
+}) => {
+  if (!paths.length) {
+    return null
+  }
+  return (
+    <div className="mt-4">
+      <p className="mb-2">{title}</p>
+      <ul className="list-disc pl-5 text-sm text-gray-600 max-h-40 overflow-y-auto">
+        {paths.map((documentPath) => (
+          <li key={documentPath} className="truncate">
+            {documentPath}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+const publishStatusClasses: Record<PublishStatus, string> = {
+  published: 'bg-green-100 text-green-700',
+  scheduled: 'bg-blue-100 text-blue-700',
+  expired: 'bg-gray-100 text-gray-600',
+}
+
+const PublishStatusBadge = ({ status }: { status: PublishStatus }) => {
+  return (
+    <span
+      className={`ml-2 inline-block rounded-full px-2 text-xs font-medium uppercase ${publishStatusClasses[status]}`}
+    >
+      {status}
+    </span>
+  )
+}
+
 const NoDocumentsPlaceholder = () => {
   return (
     <div className="text-center px-5 py-3 flex flex-col items-center justify-center shadow border border-gray-100 bg-gray-50 border-b border-gray-200 w-full max-w-full rounded-lg">
@@ -1075,13 +1277,60 @@ const NoDocumentsPlaceholder = () => {
   )
 }
 
-const DeleteModal = ({ close, deleteFunc, filename }: ResetModalProps) => {
+const DeleteModal = ({
+  close,
+  deleteFunc,
+  fetchImpact,
+  filename,
+}: ResetModalProps) => {
+  const [impact, setImpact] =
+    React.useState<DocumentDeleteImpactResponse | null>(null)
+
+  useEffect(() => {
+    let active = true
+    fetchImpact()
+      .then((response) => {
+        if (active) {
+          setImpact(response)
+        }
+      })
+      .catch((error) => {
+        // the preview is informational, the delete is still checked by the server
+        console.error(error)
+      })
+    return () => {
+      active = false
+    }
+  }, [filename])
+
+  const isRestricted = impact?.restricted.length > 0
+
   return (
     <Modal>
       <PopupModal>
         <ModalHeader close={close}>Delete {filename}</ModalHeader>
         <ModalBody padded={true}>
-          <p>{`Are you sure you want to delete ${filename}?`}</p>
+          {isRestricted ? (
+            <p>{`${filename} can't be deleted while other documents reference it.`}</p>
+          ) : (
+            <p>{`Are you sure you want to delete ${filename}?`}</p>
+          )}
+          {impact && (
+            <>
+              <DocumentPathList
+                title="Referenced by:"
+                paths={impact.restricted}
+              />
+              <DocumentPathList
+                title="These documents will also be deleted:"
+                paths={impact.cascaded}
+              />
+              <DocumentPathList
+                title="References will be removed from:"
+                paths={impact.nullified}
+              />
+            </>
+          )}
         </ModalBody>
         <ModalActions>
           <Button style={{ flexGrow: 2 }} onClick={close}>
@@ -1090,6 +1339,7 @@ const DeleteModal = ({ close, deleteFunc, filename }: ResetModalProps) => {
           <Button
             style={{ flexGrow: 3 }}
             variant="danger"
+            disabled={isRestricted}
             onClick={async () => {
               await deleteFunc()
               close()
@@ -1106,7 +1356,9 @@ const DeleteModal = ({ close, deleteFunc, filename }: ResetModalProps) => {
 interface RenameModalProps {
   close(): void
   renameFunc(): void
+  fetchReferrers(): Promise<DocumentReferrersResponse>
   filename: string
+  isFolder: boolean
   setNewRelativePath(newRelativePath: string): void
   newRelativePath: string
 }
@@ -1114,10 +1366,32 @@ interface RenameModalProps {
 const RenameModal = ({
   close,
   renameFunc,
+  fetchReferrers,
   filename,
+  isFolder,
   newRelativePath,
   setNewRelativePath,
 }: RenameModalProps) => {
+  const [referrers, setReferrers] =
+    React.useState<DocumentReferrersResponse | null>(null)
+
+  useEffect(() => {
+    let active = true
+    fetchReferrers()
+      .then((response) => {
+        if (active) {
+          setReferrers(response)
+        }
+      })
+      .catch((error) => {
+        // the preview is informational, renaming works without it
+        console.error(error)
+      })
+    return () => {
+      active = false
+    }
+  }, [filename])
+
   return (
     <Modal>
       <PopupModal>
@@ -1126,11 +1400,31 @@ const RenameModal = ({
           <>
             <p className="mb-4">
               Are you sure you want to rename <strong>{filename}</strong>?
-              TinaCMS uses the filename as the ID; renaming this file could
-              result in unresolved references.
+              TinaCMS uses the filename as the ID, references to{' '}
+              {isFolder ? 'the documents in this folder' : 'this document'} will
+              be updated to the new path.
             </p>
+            {referrers && (
+              <p className="mb-4">
+                {isFolder &&
+                  `${referrers.documentCount} ${
+                    referrers.documentCount === 1 ? 'document' : 'documents'
+                  } will be moved. `}
+                {referrers.totalCount === 0
+                  ? 'No other documents reference it.'
+                  : `${referrers.totalCount} ${
+                      referrers.totalCount === 1
+                        ? 'document references it and will be updated'
+                        : 'documents reference it and will be updated'
+                    }.`}
+              </p>
+            )}
             <BaseTextField
-              placeholder="Enter a new name for the document's file"
+              placeholder={
+                isFolder
+                  ? 'Enter a new path for the folder'
+                  : "Enter a new name for the document's file"
+              }
               value={newRelativePath}
               onChange={(event) => setNewRelativePath(event.target.value)}
             ></BaseTextField>
@@ -1,29 +1,53 @@
-import { BillingWarning, Form, FormBuilder, FormStatus } from '@tinacms/toolkit'
+import {
+  BillingWarning,
+  Button,
+  Form,
+  FormBuilder,
+  FormStatus,
+  Modal,
+  ModalActions,
+  ModalBody,
+  ModalHeader,
+  PopupModal,
+} from '@tinacms/toolkit'
 import GetCMS from '../components/GetCMS'
 import GetCollection from '../components/GetCollection'
 import GetDocument from '../components/GetDocument'
-import React, { useMemo, useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import { TinaSchema, resolveForm } from '@tinacms/schema-tools'
+import type { Collection } from '@tinacms/schema-tools'
 import { Link, useParams } from 'react-router-dom'
 import { HiChevronRight } from 'react-icons/hi'
+import { BiHistory } from 'react-icons/bi'
 import { LocalWarning } from '@tinacms/toolkit'
 import { PageWrapper } from '../components/Page'
 import { TinaAdminApi } from '../api'
+import { TinaGraphQLRequestError } from '../../internalClient'
 import type { TinaCMS } from '@tinacms/toolkit'
 import { useWindowWidth } from '@react-hook/window-size'
-import { useCollectionFolder } from './utils'
+import { useCollectionFolder, useCollectionPermissions } from './utils'
+import LoadingPage from '../components/LoadingPage'
+import type { DocumentCommit, DocumentTranslationsResponse } from '../types'
 
 const updateDocument = async (
   cms: TinaCMS,
   relativePath: string,
   collection: { name: string },
   mutationInfo: { includeCollection: boolean; includeTemplate: boolean },
-  values: any
+  values: any,
+  ifMatch?: string
 ) => {
   const api = new TinaAdminApi(cms)
   const params = api.schema.transformPayload(collection.name, values)
   if (await api.isAuthenticated()) {
-    await api.updateDocument(collection.name, relativePath, params)
+    const response = await api.updateDocument(
+      collection.name,
+      relativePath,
+      params,
+      { ifMatch }
+    )
+    // the hash of the saved content file
+    return response.updateDocument._sys?.hash
   } else {
     const authMessage = `UpdateDocument failed: User is no longer authenticated; please login and try again.`
     cms.alerts.error(authMessage)
@@ -62,14 +86,23 @@ const CollectionUpdatePage = () => {
                   relativePath={relativePath}
                 >
                   {(document) => (
-                    <RenderForm
+                    <GetTranslations
                       cms={cms}
-                      document={document}
-                      filename={resolvedFile}
-                      relativePath={relativePath}
                       collection={collection}
-                      mutationInfo={mutationInfo}
-                    />
+                      relativePath={relativePath}
+                    >
+                      {(translations) => (
+                        <RenderForm
+                          cms={cms}
+                          document={document}
+                          filename={resolvedFile}
+                          relativePath={relativePath}
+                          collection={collection}
+                          mutationInfo={mutationInfo}
+                          translations={translations}
+                        />
+                      )}
+                    </GetTranslations>
                   )}
                 </GetDocument>
               </PageWrapper>
@@ -81,6 +114,53 @@ const CollectionUpdatePage = () => {
   )
 }
 
+/**
+ * Loads the translations of the document for collections with `i18n`
+ */
+const GetTranslations = ({
+  cms,
+  collection,
+  relativePath,
+  children,
+}: {
+  cms: TinaCMS
+  collection: Collection
+  relativePath: string
+  children: (translations?: DocumentTranslationsResponse) => JSX.Element
+}) => {
+  const [translations, setTranslations] = useState<
+    DocumentTranslationsResponse | undefined
+  >(undefined)
+  const [loading, setLoading] = useState(Boolean(collection.i18n))
+
+  useEffect(() => {
+    if (!collection.i18n) {
+      return
+    }
+    const fetchTranslations = async () => {
+      try {
+        setTranslations(
+          await new TinaAdminApi(cms).fetchDocumentTranslations({
+            collection: collection.name,
+            relativePath,
+          })
+        )
+      } catch (error) {
+        // the form can be used without the translations
+        console.error(error)
+      }
+      setLoading(false)
+    }
+    setLoading(true)
+    fetchTranslations()
+  }, [cms, collection.name, relativePath])
+
+  if (loading) {
+    return <LoadingPage />
+  }
+  return children(translations)
+}
+
 const RenderForm = ({
   cms,
   document,
@@ -88,6 +168,7 @@ const RenderForm = ({
   relativePath,
   collection,
   mutationInfo,
+  translations,
 }: {
   cms: TinaCMS
   document
@@ -95,8 +176,20 @@ const RenderForm = ({
   relativePath
   collection
   mutationInfo
+  translations?: DocumentTranslationsResponse
 }) => {
   const [formIsPristine, setFormIsPristine] = useState(true)
+  const [historyModalOpen, setHistoryModalOpen] = useState(false)
+  const [conflict, setConflict] = useState<{
+    theirs: Record<string, unknown>
+    theirHash?: string | null
+    mine: Record<string, unknown>
+  } | null>(null)
+  // the content the form is based on, the server refuses to save once the
+  // content file no longer has its hash so other editors' changes aren't clobbered
+  const baseValues = React.useRef(document._values)
+  const baseHash = React.useRef(document._sys.hash)
+  const permissions = useCollectionPermissions(collection.name)
   const schema: TinaSchema | undefined = cms.api.tina.schema
   const parentFolder = relativePath.split('/').slice(0, -1).join('/')
 
@@ -114,24 +207,71 @@ const RenderForm = ({
     template,
   })
 
+  const i18n = schemaCollection.i18n
+  const defaultLocaleValues =
+    i18n && translations && translations.locale !== i18n.defaultLocale
+      ? translations.translations.find(
+          ({ _sys }) => _sys.locale === i18n.defaultLocale
+        )?._values
+      : undefined
+  // show the value of the default locale with each translatable (string) field
+  const fields = defaultLocaleValues
+    ? formInfo.fields.map((field) => {
+        const defaultValue = defaultLocaleValues[field.name]
+        if (field.type !== 'string' || field.list || !defaultValue) {
+          return field
+        }
+        return {
+          ...field,
+          description: [
+            field.description,
+            `${i18n.defaultLocale}: ${defaultValue}`,
+          ]
+            .filter(Boolean)
+            .join(' — '),
+        }
+      })
+    : formInfo.fields
+
   const form = useMemo(() => {
     return new Form({
-      id: 'update-form',
+      id: document._sys.path,
       label: 'form',
-      fields: formInfo.fields as any,
+      fields: fields as any,
       initialValues: document._values,
+      autosave: schemaCollection.ui?.autosave,
       onSubmit: async (values) => {
         try {
-          await updateDocument(
+          const hash = await updateDocument(
             cms,
             relativePath,
             collection,
             mutationInfo,
-            values
+            values,
+            baseHash.current || undefined
           )
+          baseValues.current = values
+          baseHash.current = hash
           cms.alerts.success('Document updated!')
         } catch (error) {
           console.error(error)
+          if (
+            error instanceof TinaGraphQLRequestError &&
+            error.hasCode('CONFLICT')
+          ) {
+            // the changes of the other editor are merged with these ones
+            const { document: current } = await new TinaAdminApi(
+              cms
+            ).fetchDocument(collection.name, relativePath)
+            setConflict({
+              theirs: current._values as Record<string, unknown>,
+              theirHash: current._sys.hash,
+              mine: values,
+            })
+            throw new Error(
+              'The document has been changed by someone else since it was opened'
+            )
+          }
           throw new Error(
             `[${error.name}] UpdateDocument failed: ${error.message}`
           )
@@ -181,14 +321,517 @@ const RenderForm = ({
               Edit {`${filename}.${collection.format}`}
             </span>
           </div>
-          <FormStatus pristine={formIsPristine} />
+          {i18n && translations && (
+            <LocaleSwitcher
+              collectionName={collection.name}
+              locales={i18n.locales}
+              translations={translations}
+            />
+          )}
+          <div className="flex items-center justify-between gap-4">
+            <FormStatus pristine={formIsPristine} />
+            <Button
+              size="small"
+              variant="white"
+              onClick={() => setHistoryModalOpen(true)}
+            >
+              History <BiHistory className="w-4 h-auto ml-1.5 opacity-70" />
+            </Button>
+          </div>
         </div>
       </div>
       {activeForm && (
-        <FormBuilder form={activeForm} onPristineChange={setFormIsPristine} />
+        <FormBuilder
+          form={activeForm}
+          hideFooter={!permissions.update}
+          onPristineChange={setFormIsPristine}
+        />
+      )}
+      {historyModalOpen && (
+        <HistoryModal
+          close={() => setHistoryModalOpen(false)}
+          fields={formInfo.fields}
+          currentValues={form.values}
+          fetchHistory={(after) =>
+            new TinaAdminApi(cms).fetchDocumentHistory({
+              collection: collection.name,
+              relativePath,
+              first: 10,
+              after,
+            })
+          }
+          fetchRevision={async (ref) => {
+            const response = await new TinaAdminApi(
+              cms
+            ).fetchDocumentAtRevision({
+              collection: collection.name,
+              relativePath,
+              ref,
+            })
+            return response._values as Record<string, unknown>
+          }}
+          restore={async (values) => {
+            try {
+              const hash = await updateDocument(
+                cms,
+                relativePath,
+                collection,
+                mutationInfo,
+                values
+              )
+              form.updateInitialValues(values)
+              baseValues.current = values
+              baseHash.current = hash
+              cms.alerts.success('Document restored!')
+            } catch (error) {
+              console.error(error)
+              cms.alerts.error(
+                `[${error.name}] Restoring the document failed: ${error.message}`
+              )
+            }
+          }}
+        />
+      )}
+      {conflict && (
+        <ConflictModal
+          close={() => setConflict(null)}
+          fields={formInfo.fields}
+          baseValues={baseValues.current}
+          theirs={conflict.theirs}
+          mine={conflict.mine}
+          merge={(values) => {
+            // the merged values are saved on top of the other editor's
+            baseValues.current = conflict.theirs
+            baseHash.current = conflict.theirHash
+            form.updateInitialValues(conflict.theirs)
+            form.updateValues(values)
+            setConflict(null)
+            form.submit()
+          }}
+        />
       )}
     </>
   )
 }
 
+/**
+ * Links to the document in the other locales of the collection,
+ * the locales without a translation are disabled
+ */
+const LocaleSwitcher = ({
+  collectionName,
+  locales,
+  translations,
+}: {
+  collectionName: string
+  locales: string[]
+  translations: DocumentTranslationsResponse
+}) => {
+  return (
+    <div className="flex items-center gap-2 mb-2">
+      <span className="text-xs text-gray-400 uppercase">Locale</span>
+      {locales.map((locale) => {
+        const className =
+          'text-sm font-medium px-2 py-0.5 rounded border border-gray-200'
+        if (locale === translations.locale) {
+          return (
+            <span
+              key={locale}
+              className={`${className} bg-blue-500 border-blue-500 text-white`}
+            >
+              {locale}
+            </span>
+          )
+        }
+        const translation = translations.translations.find(
+          ({ _sys }) => _sys.locale === locale
+        )
+        if (!translation) {
+          return (
+            <span
+              key={locale}
+              title="This document has not been translated yet"
+              className={`${className} text-gray-300`}
+            >
+              {locale}
+            </span>
+          )
+        }
+        return (
+          <Link
+            key={locale}
+            to={`/${[
+              'collections',
+              'edit',
+              collectionName,
+              ...translation._sys.breadcrumbs,
+            ].join('/')}`}
+            className={`${className} text-gray-700 hover:text-blue-500`}
+          >
+            {locale}
+          </Link>
+        )
+      })}
+    </div>
+  )
+}
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') {
+    return '—'
+  }
+  const formatted = typeof value === 'string' ? value : JSON.stringify(value)
+  return formatted.length > 200 ? `${formatted.slice(0, 200)}…` : formatted
+}
+
+/**
+ * The fields which differ between the current values and a revision
+ */
+const diffValues = (
+  fields: { name: string; label?: string | boolean }[],
+  currentValues: Record<string, unknown>,
+  revisionValues: Record<string, unknown>
+) =>
+  fields
+    .filter(
+      (field) =>
+        JSON.stringify(currentValues?.[field.name]) !==
+        JSON.stringify(revisionValues?.[field.name])
+    )
+    .map((field) => ({
+      name: field.name,
+      label: typeof field.label === 'string' ? field.label : field.name,
+      current: formatValue(currentValues?.[field.name]),
+      revision: formatValue(revisionValues?.[field.name]),
+    }))
+
+/**
+ * Whether two versions of the values of a document have the same content
+ */
+const isSameContent = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b)
+
+interface ConflictModalProps {
+  close(): void
+  fields: { name: string; label?: string | boolean }[]
+  /** The values the editor started from */
+  baseValues: Record<string, unknown>
+  /** The values saved by someone else in the meantime */
+  theirs: Record<string, unknown>
+  /** The values the editor tried to save */
+  mine: Record<string, unknown>
+  merge(values: Record<string, unknown>): void
+}
+
+/**
+ * Merges the changes of the editor into the ones saved by someone else since
+ * the document was opened. The fields changed on one side only are merged as
+ * they are, for the fields changed on both sides the editor picks a version
+ */
+const ConflictModal = ({
+  close,
+  fields,
+  baseValues,
+  theirs,
+  mine,
+  merge,
+}: ConflictModalProps) => {
+  const changed = (
+    values: Record<string, unknown>,
+    other: Record<string, unknown>,
+    name: string
+  ) => !isSameContent(values?.[name], other?.[name])
+  const conflicts = diffValues(fields, theirs, mine).filter(
+    (change) =>
+      changed(mine, baseValues, change.name) &&
+      changed(theirs, baseValues, change.name)
+  )
+  const [keepMine, setKeepMine] = useState<Record<string, boolean>>({})
+
+  const mergedValues = () => {
+    const values = { ...theirs }
+    fields.forEach((field) => {
+      if (!changed(mine, baseValues, field.name)) {
+        return
+      }
+      const conflicted = conflicts.some((change) => change.name === field.name)
+      if (!conflicted || keepMine[field.name] !== false) {
+        values[field.name] = mine[field.name]
+      }
+    })
+    return values
+  }
+
+  return (
+    <Modal>
+      <PopupModal style={{ width: 720 }}>
+        <ModalHeader close={close}>Merge changes</ModalHeader>
+        <ModalBody padded={true}>
+          <p className="text-gray-600 mb-4">
+            This document has been saved by someone else since you opened it.
+            {conflicts.length > 0
+              ? ' Pick the version to keep for the fields you both changed, the other changes are merged as they are.'
+              : ' None of your changes conflict with theirs, they can be merged as they are.'}
+          </p>
+          {conflicts.length > 0 && (
+            <table className="w-full table-fixed text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-gray-400">
+                  <th className="py-1 pr-2 w-1/5">Field</th>
+                  <th className="py-1 pr-2">Theirs</th>
+                  <th className="py-1">Yours</th>
+                </tr>
+              </thead>
+              <tbody>
+                {conflicts.map((change) => {
+                  const mineKept = keepMine[change.name] !== false
+                  return (
+                    <tr key={change.name} className="align-top">
+                      <td className="py-1 pr-2 font-medium text-gray-700">
+                        {change.label}
+                      </td>
+                      <td className="py-1 pr-2">
+                        <label
+                          className={`flex gap-2 p-1 break-words cursor-pointer ${
+                            mineKept ? 'text-gray-500' : 'bg-green-50'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name={change.name}
+                            checked={!mineKept}
+                            onChange={() =>
+                              setKeepMine({
+                                ...keepMine,
+                                [change.name]: false,
+                              })
+                            }
+                          />
+                          {change.current}
+                        </label>
+                      </td>
+                      <td className="py-1">
+                        <label
+                          className={`flex gap-2 p-1 break-words cursor-pointer ${
+                            mineKept ? 'bg-green-50' : 'text-gray-500'
+                          }`}
+                        >
+                          <input
+                            type="radio"
+                            name={change.name}
+                            checked={mineKept}
+                            onChange={() =>
+                              setKeepMine({
+                                ...keepMine,
+                                [change.name]: true,
+                              })
+                            }
+                          />
+                          {change.revision}
+                        </label>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </ModalBody>
+        <ModalActions>
+          <Button style={{ flexGrow: 2 }} onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            style={{ flexGrow: 3 }}
+            variant="primary"
+            onClick={() => merge(mergedValues())}
+          >
+            Save merged changes
+          </Button>
+        </ModalActions>
+      </PopupModal>
+    </Modal>
+  )
+}
+
+interface HistoryModalProps {
+  close(): void
+  fields: { name: string; label?: string | boolean }[]
+  currentValues: Record<string, unknown>
+  fetchHistory(after?: string): Promise<{
+    pageInfo: { hasNextPage: boolean; endCursor: string }
+    edges: { node: DocumentCommit }[]
+  }>
+  fetchRevision(ref: string): Promise<Record<string, unknown>>
+  restore(values: Record<string, unknown>): Promise<void>
+}
+
+const HistoryModal = ({
+  close,
+  fields,
+  currentValues,
+  fetchHistory,
+  fetchRevision,
+  restore,
+}: HistoryModalProps) => {
+  const [commits, setCommits] = useState<DocumentCommit[]>([])
+  const [endCursor, setEndCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<DocumentCommit | null>(null)
+  const [revisionValues, setRevisionValues] = useState<Record<
+    string,
+    unknown
+  > | null>(null)
+  const [restoring, setRestoring] = useState(false)
+
+  const loadCommits = async (after?: string) => {
+    setLoading(true)
+    try {
+      const history = await fetchHistory(after)
+      setCommits((previous) => [
+        ...previous,
+        ...history.edges.map((edge) => edge.node),
+      ])
+      setEndCursor(
+        history.pageInfo.hasNextPage ? history.pageInfo.endCursor : null
+      )
+    } catch (error) {
+      console.error(error)
+    }
+    setLoading(false)
+  }
+
+  React.useEffect(() => {
+    loadCommits()
+  }, [])
+
+  React.useEffect(() => {
+    if (!selected) {
+      return
+    }
+    let active = true
+    setRevisionValues(null)
+    fetchRevision(selected.ref)
+      .then((values) => {
+        if (active) {
+          setRevisionValues(values)
+        }
+      })
+      .catch((error) => {
+        console.error(error)
+      })
+    return () => {
+      active = false
+    }
+  }, [selected?.ref])
+
+  const changes = revisionValues
+    ? diffValues(fields, currentValues, revisionValues)
+    : []
+
+  return (
+    <Modal>
+      <PopupModal style={{ width: 720 }}>
+        <ModalHeader close={close}>History</ModalHeader>
+        <ModalBody padded={true}>
+          {!loading && commits.length === 0 && (
+            <p className="text-gray-600">
+              There are no revisions of this document.
+            </p>
+          )}
+          <ul className="max-h-60 overflow-y-auto divide-y divide-gray-150 border border-gray-150 rounded bg-white">
+            {commits.map((commit) => (
+              <li key={commit.ref}>
+                <button
+                  type="button"
+                  className={`w-full text-left px-3 py-2 text-sm hover:bg-gray-50 focus:outline-none ${
+                    selected?.ref === commit.ref ? 'bg-blue-50' : ''
+                  }`}
+                  onClick={() => setSelected(commit)}
+                >
+                  <span className="block text-gray-700 font-medium truncate">
+                    {commit.message}
+                  </span>
+                  <span className="block text-xs text-gray-400">
+                    {commit.author.name} &middot;{' '}
+                    {new Date(commit.date).toLocaleString()} &middot;{' '}
+                    {commit.ref.slice(0, 7)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {endCursor && (
+            <div className="mt-2 text-center">
+              <Button
+                size="small"
+                variant="ghost"
+                busy={loading}
+                onClick={() => loadCommits(endCursor)}
+              >
+                Load more
+              </Button>
+            </div>
+          )}
+          {selected && (
+            <div className="mt-4">
+              {!revisionValues ? (
+                <p className="text-sm text-gray-400">Loading revision…</p>
+              ) : changes.length === 0 ? (
+                <p className="text-sm text-gray-600">
+                  This revision is identical to the current document.
+                </p>
+              ) : (
+                <table className="w-full table-fixed text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase text-gray-400">
+                      <th className="py-1 pr-2 w-1/5">Field</th>
+                      <th className="py-1 pr-2">This version</th>
+                      <th className="py-1">Current</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map((change) => (
+                      <tr key={change.name} className="align-top">
+                        <td className="py-1 pr-2 font-medium text-gray-700">
+                          {change.label}
+                        </td>
+                        <td className="py-1 pr-2 text-green-700 bg-green-50 break-words">
+                          {change.revision}
+                        </td>
+                        <td className="py-1 text-red-700 bg-red-50 break-words">
+                          {change.current}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </ModalBody>
+        <ModalActions>
+          <Button style={{ flexGrow: 2 }} onClick={close}>
+            Close
+          </Button>
+          <Button
+            style={{ flexGrow: 3 }}
+            variant="primary"
+            busy={restoring}
+            disabled={!revisionValues || changes.length === 0}
+            onClick={async () => {
+              setRestoring(true)
+              await restore(revisionValues)
+              setRestoring(false)
+              close()
+            }}
+          >
+            Restore this version
+          </Button>
+        </ModalActions>
+      </PopupModal>
+    </Modal>
+  )
+}
+
 export default CollectionUpdatePage
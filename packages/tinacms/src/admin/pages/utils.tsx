@@ -1,5 +1,7 @@
 import { useEffect, useState } from 'react'
 import { useLocation } from 'react-router-dom'
+import { useCMS } from '@tinacms/toolkit'
+import { CollectionPermissions, TinaAdminApi } from '../api'
 
 const folderRegex = /^.*\/~\/*(.*)$/
 export type CollectionFolder = {
@@ -54,3 +56,32 @@ export const useCollectionFolder = () => {
 
   return folder
 }
+
+/**
+ * The operations the user may perform on the documents of the collection.
+ * When the config has `roles`, nothing is allowed until they are loaded
+ */
+export const useCollectionPermissions = (collectionName: string) => {
+  const cms = useCMS()
+  const allowed = !cms.api.tina.schema?.schema?.config?.admin?.auth?.roles
+  const [permissions, setPermissions] = useState<CollectionPermissions>({
+    read: allowed,
+    create: allowed,
+    update: allowed,
+    delete: allowed,
+  })
+
+  useEffect(() => {
+    let cancelled = false
+    new TinaAdminApi(cms)
+      .fetchPermissions(collectionName)
+      .then((permissions) => {
+        if (!cancelled) setPermissions(permissions)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [cms, collectionName])
+
+  return permissions
+}
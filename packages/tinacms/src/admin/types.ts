@@ -23,11 +23,17 @@ export interface DocumentNode {
       extension: string
       title?: string
     }
+    _values?: Record<string, unknown>
   }
 }
 
 export interface DocumentForm {
   _values: Object
+  _sys: {
+    path: string
+    /** Changes whenever the content file of the document does */
+    hash?: string | null
+  }
 }
 
 export interface DocumentSys {
@@ -59,3 +65,51 @@ export interface CollectionResponse {
     edges?: DocumentNode[]
   }
 }
+
+export interface DocumentReferrersResponse {
+  /* The number of documents being renamed or moved */
+  documentCount: number
+  totalCount: number
+  paths: string[]
+}
+
+export interface DocumentDeleteImpactResponse {
+  /* Documents which prevent the delete */
+  restricted: string[]
+  /* Documents which will have their reference removed */
+  nullified: string[]
+  /* Documents which will be deleted as well */
+  cascaded: string[]
+}
+
+export interface DocumentCommit {
+  ref: string
+  message: string
+  date: string
+  author: {
+    name: string
+    email: string
+  }
+}
+
+export interface DocumentHistoryResponse {
+  totalCount: number
+  pageInfo: {
+    hasNextPage: boolean
+    endCursor: string
+  }
+  edges: { node: DocumentCommit }[]
+}
+
+export interface DocumentTranslation {
+  _sys: {
+    locale: string
+    breadcrumbs: string[]
+  }
+  _values: Record<string, unknown>
+}
+
+export interface DocumentTranslationsResponse {
+  locale: string
+  translations: DocumentTranslation[]
+}
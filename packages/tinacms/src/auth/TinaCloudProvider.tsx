@@ -14,6 +14,7 @@ import {
   useLocalStorage,
   DummyMediaStore,
   TinaMediaStore,
+  BrowserStorageClient,
 } from '@tinacms/toolkit'
 
 import { Client, TinaIOConfig } from '../internalClient'
@@ -174,6 +175,11 @@ export const TinaCloudProvider = (
     cms.registerApi('admin', new TinaAdminApi(cms))
   }
 
+  // keeps the unsaved changes of forms across page loads
+  if (!cms.api.storage && typeof window !== 'undefined') {
+    cms.registerApi('storage', new BrowserStorageClient(window.localStorage))
+  }
+
   const setupMedia = async () => {
     const hasTinaMedia = Boolean(props.schema.config?.media?.tina)
 
@@ -222,6 +228,22 @@ export const TinaCloudProvider = (
 
     return newBranch
   }
+  /**
+   * Local clients check the branch out in the git repository first
+   */
+  const chooseBranch = async (branchName: string) => {
+    if (cms.api.tina.isLocalMode) {
+      try {
+        await cms.api.tina.switchBranch(branchName)
+      } catch (error) {
+        cms.alerts.error(
+          `Unable to switch to branch ${branchName}: ${error.message}`
+        )
+        return
+      }
+    }
+    setCurrentBranch(branchName)
+  }
 
   setupMedia()
 
@@ -242,7 +264,7 @@ export const TinaCloudProvider = (
       branchSwitcher = new BranchSwitcherPlugin({
         listBranches: handleListBranches,
         createBranch: handleCreateBranch,
-        chooseBranch: setCurrentBranch,
+        chooseBranch,
       })
       cms.plugins.add(branchSwitcher)
     }
@@ -253,6 +275,20 @@ export const TinaCloudProvider = (
     }
   }, [branchingEnabled, props.branch])
 
+  React.useEffect(() => {
+    // local clients follow the branch which is checked out
+    if (!branchingEnabled || !cms.api.tina.isLocalMode) return
+    cms.api.tina
+      .listBranches()
+      .then((branches) => {
+        const checkedOut = branches.find((branch) => branch.current)
+        if (checkedOut) {
+          setCurrentBranch(checkedOut.name)
+        }
+      })
+      .catch(() => {})
+  }, [branchingEnabled])
+
   React.useEffect(() => {
     if (props.cmsCallback) {
       props.cmsCallback(cms)
@@ -262,9 +298,7 @@ export const TinaCloudProvider = (
   return (
     <BranchDataProvider
       currentBranch={currentBranch}
-      setCurrentBranch={(b) => {
-        setCurrentBranch(b)
-      }}
+      setCurrentBranch={chooseBranch}
     >
       <TinaProvider cms={cms}>
         <AuthWallInner {...props} cms={cms} />
@@ -6,6 +6,7 @@ export * from './internalClient'
 export * from './auth'
 export * from './utils'
 export * from './tina-cms'
+export * from './media'
 export { useDocumentCreatorPlugin } from './hooks/use-content-creator'
 export * from '@tinacms/toolkit'
 export { TinaAdmin } from './admin'
@@ -3,6 +3,7 @@ import { z } from 'zod'
 import { AUTH_TOKEN_KEY, TokenObject, authenticate } from '../auth/authenticate'
 //@ts-ignore can't locate BranchChangeEvent
 import { BranchChangeEvent, BranchData, EventBus } from '@tinacms/toolkit'
+import type { DocumentViewer } from '@tinacms/toolkit'
 import {
   DocumentNode,
   GraphQLSchema,
@@ -171,6 +172,29 @@ export function asyncPoll<T>(
   return [new Promise(checkCondition) as Promise<T>, cancel]
 }
 
+/**
+ * The errors returned by a GraphQL request, `extensions.code` tells them
+ * apart, eg. `CONFLICT` when the `ifMatch` hash of a mutation is outdated
+ */
+export class TinaGraphQLRequestError extends Error {
+  errors: { message: string; extensions?: Record<string, unknown> }[]
+  constructor(
+    errors: { message: string; extensions?: Record<string, unknown> }[]
+  ) {
+    super(
+      `Unable to fetch, errors: \n\t${errors
+        .map((error) => error.message)
+        .join('\n')}`
+    )
+    this.name = 'TinaGraphQLRequestError'
+    this.errors = errors
+  }
+
+  hasCode(code: string) {
+    return this.errors.some((error) => error.extensions?.code === code)
+  }
+}
+
 export class Client {
   onLogin?: OnLoginFunc
   onLogout?: () => Promise<void>
@@ -185,7 +209,7 @@ export class Client {
   query: string
   tinaGraphQLVersion: string
   setToken: (_token: TokenObject) => void
-  private getToken: () => Promise<TokenObject>
+  protected getToken: () => Promise<TokenObject>
   private token: string // used with memory storage
   private branch: string
   private options: ServerOptions
@@ -417,12 +441,7 @@ mutation addPendingDocumentMutation(
 
     const json = await res.json()
     if (json.errors) {
-      throw new Error(
-        `Unable to fetch, errors: \n\t${json.errors
-          .map((error) => error.message)
-          .join('\n')}`
-      )
-      return json
+      throw new TinaGraphQLRequestError(json.errors)
     }
     return json.data as ReturnType
   }
@@ -765,4 +784,108 @@ export class LocalClient extends Client {
   async getUser(): Promise<boolean> {
     return localStorage.getItem(LOCAL_CLIENT_KEY) === 'true'
   }
+
+  /**
+   * The branch endpoints of the dev server, which work on the local git
+   * repository. Like the other endpoints, they need the token of the user
+   * when the dev server verifies them
+   */
+  private get gitApiUrl() {
+    return `${new URL(this.contentApiUrl).origin}/git`
+  }
+
+  /**
+   * The content of the checked out branch is indexed by the dev server
+   */
+  async getIndexStatus(_args: { ref: string }) {
+    return { status: 'complete' as const }
+  }
+
+  async listBranches() {
+    try {
+      const res = await this.fetchWithToken(`${this.gitApiUrl}/branches`)
+      const result = await res.json()
+      if (!res.ok) {
+        throw new Error(result.message)
+      }
+      const branches: {
+        name: string
+        current: boolean
+        commit: { sha: string }
+      }[] = result
+      return branches.map((branch) => ({
+        ...branch,
+        indexStatus: { status: 'complete' as const },
+      }))
+    } catch (error) {
+      console.error('There was an error listing branches.', error)
+      throw error
+    }
+  }
+
+  async createBranch({ baseBranch, branchName }: BranchData) {
+    try {
+      const res = await this.fetchWithToken(`${this.gitApiUrl}/branches`, {
+        method: 'POST',
+        body: JSON.stringify({ baseBranch, branchName }),
+        headers: { 'Content-Type': 'application/json' },
+      })
+      const result = await res.json()
+      if (!res.ok) {
+        throw new Error(result.message)
+      }
+      return result.name as string
+    } catch (error) {
+      console.error('There was an error creating a new branch.', error)
+      return null
+    }
+  }
+
+  /**
+   * Check out the branch in the local git repository, resolving once
+   * the dev server has indexed its content
+   */
+  async switchBranch(branchName: string) {
+    const res = await this.fetchWithToken(`${this.gitApiUrl}/checkout`, {
+      method: 'POST',
+      body: JSON.stringify({ branchName }),
+      headers: { 'Content-Type': 'application/json' },
+    })
+    if (!res.ok) {
+      const result = await res.json()
+      throw new Error(result.message)
+    }
+  }
+
+  /**
+   * Records that this editor has the document open, resolving with
+   * everyone who does in the order they opened it
+   */
+  async updatePresence(
+    documentId: string,
+    viewer: { id: string; name?: string }
+  ): Promise<DocumentViewer[]> {
+    const res = await this.fetchPresence('', { documentId, viewer })
+    return res.json()
+  }
+
+  async leavePresence(documentId: string, viewerId: string) {
+    await this.fetchPresence('/leave', { documentId, viewerId })
+  }
+
+  private async fetchPresence(path: string, body: object) {
+    const res = await this.fetchWithToken(
+      `${new URL(this.contentApiUrl).origin}/presence${path}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(body),
+        headers: { 'Content-Type': 'application/json' },
+      }
+    )
+    if (!res.ok) {
+      const result = await res.json()
+      throw new Error(result.message)
+    }
+    return res
+  }
 }
@@ -0,0 +1,55 @@
+/**
+
+*/
+
+import { transformImageUrl } from './media'
+
+describe('transformImageUrl', () => {
+  it('points to the transform route of the local media server', () => {
+    expect(
+      transformImageUrl(
+        '/uploads/hero.jpg',
+        { width: 800, fit: 'inside', format: 'webp' },
+        { enabled: true }
+      )
+    ).toEqual(
+      'http://localhost:4001/media/transform/uploads/hero.jpg?w=800&fit=inside&format=webp'
+    )
+  })
+  it('uses the origin of the api url', () => {
+    expect(
+      transformImageUrl(
+        '/uploads/hero.jpg',
+        { height: 200 },
+        { apiUrl: 'http://localhost:5000/graphql', enabled: true }
+      )
+    ).toEqual('http://localhost:5000/media/transform/uploads/hero.jpg?h=200')
+  })
+  it('returns the src of remote images and when disabled', () => {
+    expect(
+      transformImageUrl(
+        'https://assets.tina.io/hero.jpg',
+        { width: 800 },
+        { enabled: true }
+      )
+    ).toEqual('https://assets.tina.io/hero.jpg')
+    expect(
+      transformImageUrl('/uploads/hero.jpg', { width: 800 }, { enabled: false })
+    ).toEqual('/uploads/hero.jpg')
+  })
+  it('is only enabled by default in development', () => {
+    const env = process.env.NODE_ENV
+    try {
+      process.env.NODE_ENV = 'production'
+      expect(transformImageUrl('/uploads/hero.jpg', { width: 800 })).toEqual(
+        '/uploads/hero.jpg'
+      )
+      process.env.NODE_ENV = 'development'
+      expect(transformImageUrl('/uploads/hero.jpg', { width: 800 })).toEqual(
+        'http://localhost:4001/media/transform/uploads/hero.jpg?w=800'
+      )
+    } finally {
+      process.env.NODE_ENV = env
+    }
+  })
+})
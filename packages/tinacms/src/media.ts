@@ -0,0 +1,75 @@
+/**
+
+*/
+
+import { DEFAULT_LOCAL_TINA_GQL_SERVER_URL } from './internalClient'
+
+export interface ImageTransformOptions {
+  width?: number
+  height?: number
+  /**
+   * How the image fits the width and height, defaults to `cover`
+   */
+  fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside'
+  /**
+   * Defaults to the format of the image
+   */
+  format?: 'avif' | 'jpeg' | 'png' | 'webp'
+  /**
+   * From 1 to 100
+   */
+  quality?: number
+}
+
+export interface ImageTransformConfig {
+  /**
+   * The url of the local GraphQL server, defaults to `http://localhost:4001/graphql`
+   */
+  apiUrl?: string
+  /**
+   * Only the local media server transforms images, so this defaults to
+   * `true` in development only, a production build would otherwise point
+   * its images at localhost. The original `src` is returned when disabled.
+   */
+  enabled?: boolean
+}
+
+const isDevelopment = () =>
+  typeof process !== 'undefined' && process.env?.NODE_ENV === 'development'
+
+/**
+ * The url of a resized, cropped or converted variant of a repo-based image,
+ * generated by the local media server.
+ *
+ * ```ts
+ * transformImageUrl('/uploads/hero.jpg', { width: 800, format: 'webp' })
+ * // in development => http://localhost:4001/media/transform/uploads/hero.jpg?w=800&format=webp
+ * ```
+ *
+ * Images which aren't served from the public folder, like absolute urls,
+ * are returned as they are, and so is every image outside of development
+ * unless `enabled` is set.
+ */
+export const transformImageUrl = (
+  src: string,
+  options: ImageTransformOptions,
+  config: ImageTransformConfig = {}
+) => {
+  const {
+    apiUrl = DEFAULT_LOCAL_TINA_GQL_SERVER_URL,
+    enabled = isDevelopment(),
+  } = config
+  if (!enabled || !src || !src.startsWith('/') || src.startsWith('//')) {
+    return src
+  }
+  const params = new URLSearchParams()
+  if (options.width) params.set('w', String(options.width))
+  if (options.height) params.set('h', String(options.height))
+  if (options.fit) params.set('fit', options.fit)
+  if (options.format) params.set('format', options.format)
+  if (options.quality) params.set('q', String(options.quality))
+  const query = params.toString()
+  return `${new URL(apiUrl).origin}/media/transform${src}${
+    query ? `?${query}` : ''
+  }`
+}